@@ -0,0 +1,66 @@
+// App service worker: keeps the app shell available offline and wakes the app to replay
+// writes that were queued while offline.
+//
+// The queue itself lives in IndexedDB (see src/lib/offline-queue-store.ts) and is replayed
+// by the app, which holds the Firestore client and the user's session. On reconnect this
+// worker asks an open window to replay it. If no window is open the sync event fails, so
+// the browser retries it later; the app also drains the queue whenever it starts.
+
+const SYNC_TAG = 'lifeline-sync'; // Keep in step with SYNC_TAG in src/lib/offline-queue.ts
+const REPLAY_MESSAGE = 'replay-pending-writes';
+const SHELL_CACHE = 'lifeline-shell-v1';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => name !== SHELL_CACHE).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_TAG) return;
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length === 0) throw new Error('No open window to replay queued writes.');
+    // One window is enough; replays in different tabs are serialised anyway.
+    windows[0].postMessage({ type: REPLAY_MESSAGE });
+  })());
+});
+
+// Hashed build assets never change, so serve them from cache. Pages are network-first,
+// falling back to the last copy seen so logging still opens without a connection.
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith((async () => {
+      const cached = await caches.match(request);
+      if (cached) return cached;
+      const response = await fetch(request);
+      if (response.ok) (await caches.open(SHELL_CACHE)).put(request, response.clone());
+      return response;
+    })());
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        const response = await fetch(request);
+        if (response.ok) (await caches.open(SHELL_CACHE)).put(request, response.clone());
+        return response;
+      } catch (error) {
+        const cached = await caches.match(request);
+        if (cached) return cached;
+        throw error;
+      }
+    })());
+  }
+});
@@ -9,6 +9,7 @@ import './flows/continue-investigation-flow';
 import './flows/follow-up-flow';
 import './flows/conduct-interview-flow';
 import './flows/extract-data-from-image-flow';
+import './flows/extract-lab-report-flow';
 import './flows/comprehensive-case-review-flow';
 import './flows/generate-bmi-advice-flow';
 import './flows/system-support-flow';
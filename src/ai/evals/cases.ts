@@ -0,0 +1,71 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { EVAL_FLOWS, type CaseExpectations, type EvalFlow } from './checks';
+
+/**
+ * Fixtures live in ./fixtures, one JSON file per flow: `{ "flow": ..., "cases": [...] }`.
+ * Each case's `input` is what the flow's prompt receives. A string of the form
+ * `file:<path>` anywhere in the input is replaced by that file, relative to the fixtures
+ * directory, as a data URI, so lab reports and photos stay as real files.
+ */
+
+export interface EvalCase {
+  id: string;
+  description: string;
+  input: Record<string, unknown>;
+  expect?: CaseExpectations;
+}
+
+export interface EvalSuite {
+  flow: EvalFlow;
+  cases: EvalCase[];
+}
+
+export const FIXTURES_DIR = path.join(process.cwd(), 'src/ai/evals/fixtures');
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+export class EvalFixtureError extends Error {
+  constructor(message: string, public code: 'unknown_flow' | 'unsupported_file' | 'duplicate_case') {
+    super(message);
+    this.name = 'EvalFixtureError';
+  }
+}
+
+async function resolveFiles(value: unknown, dir: string): Promise<unknown> {
+  if (typeof value === 'string' && value.startsWith('file:')) {
+    const file = path.join(dir, value.slice('file:'.length));
+    const mimeType = MIME_TYPES[path.extname(file).toLowerCase()];
+    if (!mimeType) throw new EvalFixtureError(`Unsupported fixture file type: ${file}`, 'unsupported_file');
+    return `data:${mimeType};base64,${(await readFile(file)).toString('base64')}`;
+  }
+  if (Array.isArray(value)) return Promise.all(value.map(v => resolveFiles(v, dir)));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await resolveFiles(v, dir)] as const));
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+export async function loadSuites(dir = FIXTURES_DIR): Promise<EvalSuite[]> {
+  const files = (await readdir(dir)).filter(f => f.endsWith('.json')).sort();
+  const suites: EvalSuite[] = [];
+  for (const file of files) {
+    const suite = JSON.parse(await readFile(path.join(dir, file), 'utf8')) as EvalSuite;
+    if (!(suite.flow in EVAL_FLOWS)) throw new EvalFixtureError(`${file}: unknown flow "${suite.flow}".`, 'unknown_flow');
+    const ids = new Set<string>();
+    for (const evalCase of suite.cases) {
+      if (ids.has(evalCase.id)) throw new EvalFixtureError(`${file}: case "${evalCase.id}" appears twice.`, 'duplicate_case');
+      ids.add(evalCase.id);
+      evalCase.input = await resolveFiles(evalCase.input, dir) as Record<string, unknown>;
+    }
+    suites.push(suite);
+  }
+  return suites;
+}
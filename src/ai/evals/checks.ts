@@ -0,0 +1,155 @@
+import type { ComprehensiveCaseReviewOutput } from '@/ai/flows/comprehensive-case-review-flow';
+import type { ConductInterviewInput, ConductInterviewOutput } from '@/ai/flows/conduct-interview-flow';
+import type { ContinueInvestigationInput, ContinueInvestigationOutput } from '@/ai/flows/continue-investigation-flow';
+import type { StartInvestigationInput, StartInvestigationOutput } from '@/ai/flows/start-investigation-flow';
+import { redFlagsIn } from '@/lib/clinical-guardrails';
+import type { LabFlag } from '@/lib/lab-observations';
+
+/**
+ * Rule-based scoring of a prompt's output. Each check passes or fails with a one-line reason;
+ * a fixture's `expect` block adds checks for what that particular case should produce.
+ */
+
+export type Urgency = StartInvestigationOutput['urgency'];
+
+const URGENCY_ORDER: Urgency[] = ['Low', 'Medium', 'High', 'Critical'];
+
+export interface CheckResult {
+  check: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface CaseExpectations {
+  minUrgency?: Urgency;
+  maxUrgency?: Urgency;
+  /** Patterns (case-insensitive regular expressions) that must each match a suggested lab test. */
+  labTests?: string[];
+  /** Patterns that must each match a potential condition or diagnosis. */
+  conditions?: string[];
+  analytes?: { name: string; value?: number; flag?: LabFlag }[];
+}
+
+/** Medicines that treat a condition rather than relieve symptoms, which only a doctor should start. */
+export const DEFINITIVE_TREATMENTS = /amoxicillin|augmentin|azithromycin|ciprofloxacin|levofloxacin|doxycycline|metronidazole|ceftriaxone|cefuroxime|artemether|lumefantrine|artesunate|coartem|metformin|insulin|glibenclamide|amlodipine|lisinopril|losartan|nifedipine|atenolol|hydrochlorothiazide|prednisolone|dexamethasone|warfarin/i;
+
+export const MAX_PRELIMINARY_MEDICATIONS = 3;
+
+const result = (check: string, passed: boolean, detail: string): CheckResult => ({ check, passed, detail });
+
+function labTestsWhenUncertain(conditions: { probability: number }[], labTests: string[]): CheckResult {
+  // Mirrors the backfill in startInvestigationFlow, which hides the prompt missing this
+  const uncertain = conditions.some(c => c.probability < 95);
+  if (!uncertain) return result('lab-tests-when-uncertain', true, 'Every condition is at least 95% likely.');
+  return result('lab-tests-when-uncertain', labTests.length > 0,
+    labTests.length > 0 ? `${labTests.length} lab test(s) suggested.` : 'A condition is under 95% likely but no lab tests were suggested.');
+}
+
+function redFlagUrgency(text: string, urgency: Urgency): CheckResult {
+  const flags = redFlagsIn(text);
+  if (flags.length === 0) return result('red-flag-urgency', true, 'No red-flag symptoms.');
+  const escalated = URGENCY_ORDER.indexOf(urgency) >= URGENCY_ORDER.indexOf('High');
+  return result('red-flag-urgency', escalated, `${flags.join(', ')} reported; urgency ${urgency}.`);
+}
+
+function expectedUrgency(expect: CaseExpectations, urgency: Urgency): CheckResult[] {
+  const rank = URGENCY_ORDER.indexOf(urgency);
+  return [
+    ...(expect.minUrgency ? [result('min-urgency', rank >= URGENCY_ORDER.indexOf(expect.minUrgency), `Expected at least ${expect.minUrgency}; got ${urgency}.`)] : []),
+    ...(expect.maxUrgency ? [result('max-urgency', rank <= URGENCY_ORDER.indexOf(expect.maxUrgency), `Expected at most ${expect.maxUrgency}; got ${urgency}.`)] : []),
+  ];
+}
+
+function expectedMatches(check: string, patterns: string[] | undefined, actual: string[]): CheckResult[] {
+  if (!patterns?.length) return [];
+  const missing = patterns.filter(pattern => !actual.some(value => new RegExp(pattern, 'i').test(value)));
+  return [result(check, missing.length === 0, missing.length === 0 ? `All ${patterns.length} found.` : `Missing: ${missing.join(', ')}.`)];
+}
+
+export function checkStartInvestigation(input: StartInvestigationInput, output: StartInvestigationOutput, expect: CaseExpectations = {}): CheckResult[] {
+  const { preliminaryMedications, suggestedLabTests } = output.suggestedNextSteps;
+  const definitive = preliminaryMedications.filter(m => DEFINITIVE_TREATMENTS.test(m.name));
+  return [
+    labTestsWhenUncertain(output.potentialConditions, suggestedLabTests),
+    redFlagUrgency(input.chatTranscript, output.urgency),
+    result('no-full-treatment',
+      definitive.length === 0 && preliminaryMedications.length <= MAX_PRELIMINARY_MEDICATIONS,
+      definitive.length > 0
+        ? `Definitive treatment suggested before review: ${definitive.map(m => m.name).join(', ')}.`
+        : `${preliminaryMedications.length} symptom-relief medication(s).`),
+    ...expectedUrgency(expect, output.urgency),
+    ...expectedMatches('expected-lab-tests', expect.labTests, suggestedLabTests),
+    ...expectedMatches('expected-conditions', expect.conditions, output.potentialConditions.map(c => c.condition)),
+  ];
+}
+
+export function checkContinueInvestigation(input: ContinueInvestigationInput, output: ContinueInvestigationOutput, expect: CaseExpectations = {}): CheckResult[] {
+  const { suggestedLabTests } = output.suggestedNextSteps;
+  return [
+    output.isFinalDiagnosisPossible
+      ? result('no-tests-when-final', suggestedLabTests.length === 0, `Final diagnosis possible with ${suggestedLabTests.length} more test(s) suggested.`)
+      : labTestsWhenUncertain(output.potentialConditions, suggestedLabTests),
+    redFlagUrgency([input.investigationContext, input.nurseReport?.text ?? ''].join('\n'), output.urgency),
+    ...expectedUrgency(expect, output.urgency),
+    ...expectedMatches('expected-lab-tests', expect.labTests, suggestedLabTests),
+    ...expectedMatches('expected-conditions', expect.conditions, output.potentialConditions.map(c => c.condition)),
+  ];
+}
+
+export function checkConductInterview(input: ConductInterviewInput, output: ConductInterviewOutput): CheckResult[] {
+  // The opening greeting isn't a question, so the next question's number is the count of model turns
+  const expectedCount = input.chatHistory.filter(m => m.role === 'model').length;
+  const questionMarks = (output.nextQuestion.match(/\?/g) ?? []).length;
+  return [
+    result('one-question', questionMarks === 1, `${questionMarks} question mark(s) in "${output.nextQuestion}".`),
+    result('question-count', output.questionCount === expectedCount, `Expected question ${expectedCount}; got ${output.questionCount}.`),
+    result('final-at-fifteen', output.isFinalQuestion === (output.questionCount >= 15), `Question ${output.questionCount}, isFinalQuestion ${output.isFinalQuestion}.`),
+  ];
+}
+
+/** The prompt's raw output, before the flow parses reference ranges. */
+interface ExtractedLabReport {
+  analytes: { name: string; value?: number; valueText: string; flag?: LabFlag }[];
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function checkExtractLabReport(_input: unknown, output: ExtractedLabReport, expect: CaseExpectations = {}): CheckResult[] {
+  const inconsistent = output.analytes.filter(a => a.value !== undefined && Number.parseFloat(a.valueText) !== a.value && !Number.isNaN(Number.parseFloat(a.valueText)));
+  const checks = [
+    result('value-matches-text', inconsistent.length === 0,
+      inconsistent.length === 0 ? `${output.analytes.length} analyte(s) read.` : `Value differs from printed text for ${inconsistent.map(a => a.name).join(', ')}.`),
+  ];
+  for (const expected of expect.analytes ?? []) {
+    const found = output.analytes.find(a => normalizeName(a.name).includes(normalizeName(expected.name)));
+    if (!found) {
+      checks.push(result(`analyte:${expected.name}`, false, 'Not extracted.'));
+      continue;
+    }
+    const valueOk = expected.value === undefined || (found.value !== undefined && Math.abs(found.value - expected.value) <= Math.abs(expected.value) * 0.02);
+    const flagOk = expected.flag === undefined || found.flag === expected.flag;
+    checks.push(result(`analyte:${expected.name}`, valueOk && flagOk, `Got ${found.valueText}${found.flag ? ` (${found.flag})` : ''}; expected ${expected.value ?? 'any value'}${expected.flag ? ` (${expected.flag})` : ''}.`));
+  }
+  return checks;
+}
+
+export function checkComprehensiveCaseReview(_input: unknown, output: ComprehensiveCaseReviewOutput, expect: CaseExpectations = {}): CheckResult[] {
+  const plan = output.suggestedTreatmentPlan;
+  return [
+    result('resolvable-has-plan',
+      !output.isCaseResolvable || (output.finalDiagnosis.length > 0 && !!plan.followUp.trim()),
+      output.isCaseResolvable ? `${output.finalDiagnosis.length} diagnosis(es); follow-up "${plan.followUp}".` : 'Not resolvable yet.'),
+    ...expectedMatches('expected-conditions', expect.conditions, output.finalDiagnosis.map(d => d.condition)),
+  ];
+}
+
+/** The flows with fixtures, the registered prompt each one runs, and how its output is scored. */
+export const EVAL_FLOWS = {
+  startInvestigation: { prompt: 'startInvestigationPrompt', check: checkStartInvestigation },
+  continueInvestigation: { prompt: 'continueInvestigationPrompt', check: checkContinueInvestigation },
+  conductInterview: { prompt: 'conductInterviewPrompt', check: checkConductInterview },
+  extractLabReport: { prompt: 'extractLabReportPrompt', check: checkExtractLabReport },
+  performComprehensiveCaseReview: { prompt: 'comprehensiveCaseReviewPrompt', check: checkComprehensiveCaseReview },
+} as const;
+
+export type EvalFlow = keyof typeof EVAL_FLOWS;
@@ -0,0 +1,98 @@
+import type { CheckResult, EvalFlow } from './checks';
+
+/**
+ * Eval results as JSON, to compare later runs against, and as Markdown, to read and diff.
+ * Neither holds timings or timestamps, so two runs with the same outputs produce identical files.
+ */
+
+export interface CaseResult {
+  flow: EvalFlow;
+  caseId: string;
+  description: string;
+  checks: CheckResult[];
+  output?: unknown;
+  error?: string;
+}
+
+export interface EvalReport {
+  label: string;
+  provider: string;
+  model: string;
+  results: CaseResult[];
+}
+
+export interface CheckChange {
+  flow: EvalFlow;
+  caseId: string;
+  check: string;
+  /** Undefined when the check or case is new in this run. */
+  before?: boolean;
+  after: boolean;
+}
+
+export interface FlowSummary {
+  flow: EvalFlow;
+  cases: number;
+  errors: number;
+  passed: number;
+  checks: number;
+}
+
+const caseKey = (r: { flow: string; caseId: string }) => `${r.flow}/${r.caseId}`;
+
+export function summarize(report: EvalReport): FlowSummary[] {
+  const byFlow = new Map<EvalFlow, FlowSummary>();
+  for (const r of report.results) {
+    const summary = byFlow.get(r.flow) ?? { flow: r.flow, cases: 0, errors: 0, passed: 0, checks: 0 };
+    summary.cases += 1;
+    if (r.error) summary.errors += 1;
+    summary.passed += r.checks.filter(c => c.passed).length;
+    summary.checks += r.checks.length;
+    byFlow.set(r.flow, summary);
+  }
+  return [...byFlow.values()];
+}
+
+/**
+ * Checks whose outcome differs from the baseline, including ones the baseline didn't have.
+ * A case that now errors fails every check it passed before.
+ */
+export function compareReports(baseline: EvalReport, current: EvalReport): CheckChange[] {
+  const before = new Map(baseline.results.flatMap(r => r.checks.map(c => [`${caseKey(r)}/${c.check}`, c.passed] as const)));
+  const errored = new Set(current.results.filter(r => r.error).map(caseKey));
+  const changed = current.results.flatMap(r => r.checks
+    .filter(c => before.get(`${caseKey(r)}/${c.check}`) !== c.passed)
+    .map(c => ({ flow: r.flow, caseId: r.caseId, check: c.check, before: before.get(`${caseKey(r)}/${c.check}`), after: c.passed })));
+  const lost = baseline.results
+    .filter(r => errored.has(caseKey(r)))
+    .flatMap(r => r.checks.map(c => ({ flow: r.flow, caseId: r.caseId, check: c.check, before: c.passed, after: false })))
+    .filter(c => c.before);
+  return [...changed, ...lost];
+}
+
+export const isRegression = (change: CheckChange) => change.before === true && !change.after;
+
+const mark = (passed?: boolean) => (passed === undefined ? '–' : passed ? 'pass' : 'FAIL');
+
+export function renderMarkdown(report: EvalReport, changes?: { baseline: string; changes: CheckChange[] }): string {
+  const lines = [
+    `# AI eval: ${report.label}`,
+    '',
+    `Provider: ${report.provider} · Model: ${report.model}`,
+    '',
+    '| Flow | Cases | Errors | Checks passed |',
+    '| --- | --- | --- | --- |',
+    ...summarize(report).map(s => `| ${s.flow} | ${s.cases} | ${s.errors} | ${s.passed}/${s.checks} |`),
+  ];
+  if (changes) {
+    lines.push('', `## Changes since ${changes.baseline}`, '');
+    if (changes.changes.length === 0) lines.push('No check changed outcome.');
+    for (const c of changes.changes) lines.push(`- ${c.flow}/${c.caseId} ${c.check}: ${mark(c.before)} → ${mark(c.after)}`);
+  }
+  for (const r of report.results) {
+    lines.push('', `## ${r.flow}/${r.caseId}`, '', r.description, '');
+    if (r.error) lines.push(`**Error:** ${r.error}`);
+    for (const c of r.checks) lines.push(`- [${c.passed ? 'x' : ' '}] ${c.check}: ${c.detail}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
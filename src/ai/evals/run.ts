@@ -0,0 +1,82 @@
+/**
+ * Runs the flow fixtures against the configured model and scores them.
+ *
+ *   npm run eval -- --label=headache-prompt-v2 [--baseline=main] [--flow=startInvestigation] [--case=chest-pain]
+ *
+ * Reports go to src/ai/evals/reports/<label>.json and .md. With --baseline, the Markdown lists
+ * every check that changed outcome and the run exits non-zero if any passing check now fails.
+ * Set AI_PROVIDER (see src/ai/providers/registry.ts) to choose the model under test.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import '@/ai/dev';
+import { ai, defaultModel, modelProvider } from '@/ai/genkit';
+import { loadSuites, type EvalCase } from './cases';
+import { EVAL_FLOWS, type CheckResult, type EvalFlow } from './checks';
+import { compareReports, isRegression, renderMarkdown, summarize, type CaseResult, type EvalReport } from './report';
+
+const REPORTS_DIR = path.join(process.cwd(), 'src/ai/evals/reports');
+
+function parseArgs(argv: string[]): Record<string, string> {
+  return Object.fromEntries(argv
+    .filter(arg => arg.startsWith('--'))
+    .map(arg => {
+      const [key, ...value] = arg.slice(2).split('=');
+      return [key, value.join('=')];
+    }));
+}
+
+async function runCase(flow: EvalFlow, evalCase: EvalCase): Promise<CaseResult> {
+  const { prompt, check } = EVAL_FLOWS[flow];
+  const base = { flow, caseId: evalCase.id, description: evalCase.description };
+  try {
+    const { output } = await ai.prompt<any, any>(prompt)(evalCase.input);
+    if (!output) return { ...base, checks: [], error: 'The model returned no output.' };
+    const checks: CheckResult[] = (check as (input: unknown, output: unknown, expect?: EvalCase['expect']) => CheckResult[])(evalCase.input, output, evalCase.expect);
+    return { ...base, checks, output };
+  } catch (error: any) {
+    return { ...base, checks: [], error: error.message ?? String(error) };
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const label = args.label || modelProvider;
+  const suites = (await loadSuites()).filter(s => !args.flow || s.flow === args.flow);
+
+  const results: CaseResult[] = [];
+  for (const suite of suites) {
+    for (const evalCase of suite.cases.filter(c => !args.case || c.id === args.case)) {
+      const result = await runCase(suite.flow, evalCase);
+      const failed = result.checks.filter(c => !c.passed).length;
+      console.log(`${result.error ? 'ERROR' : failed ? 'FAIL ' : 'ok   '} ${suite.flow}/${evalCase.id}${result.error ? `: ${result.error}` : failed ? ` (${failed} check(s))` : ''}`);
+      results.push(result);
+    }
+  }
+
+  const report: EvalReport = { label, provider: modelProvider, model: defaultModel, results };
+  let comparison: { baseline: string; changes: ReturnType<typeof compareReports> } | undefined;
+  if (args.baseline) {
+    const baseline = JSON.parse(await readFile(path.join(REPORTS_DIR, `${args.baseline}.json`), 'utf8')) as EvalReport;
+    comparison = { baseline: args.baseline, changes: compareReports(baseline, report) };
+  }
+
+  await mkdir(REPORTS_DIR, { recursive: true });
+  await writeFile(path.join(REPORTS_DIR, `${label}.json`), `${JSON.stringify(report, null, 2)}\n`);
+  await writeFile(path.join(REPORTS_DIR, `${label}.md`), renderMarkdown(report, comparison));
+
+  for (const s of summarize(report)) console.log(`${s.flow}: ${s.passed}/${s.checks} checks passed, ${s.errors} error(s)`);
+  console.log(`Report written to ${path.relative(process.cwd(), path.join(REPORTS_DIR, `${label}.md`))}`);
+
+  const regressions = comparison?.changes.filter(isRegression) ?? [];
+  if (regressions.length > 0) {
+    console.error(`${regressions.length} check(s) regressed since ${args.baseline}.`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -9,16 +9,13 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
+import { VitalsValuesSchema } from '@/lib/vitals';
 
-// Zod schema for the input data. All fields are optional strings.
+// Zod schema for the input data. Vitals are typed measurements with explicit units; test strip fields are optional strings.
 const AnalyzeHealthInputSchema = z.object({
-    systolic: z.string().optional().describe("Systolic blood pressure in mmHg"),
-    diastolic: z.string().optional().describe("Diastolic blood pressure in mmHg"),
-    bloodSugar: z.string().optional().describe("Blood sugar level in mg/dL"),
-    oxygenSaturation: z.string().optional().describe("Oxygen saturation percentage"),
-    temperature: z.string().optional().describe("Body temperature in Fahrenheit"),
-    weight: z.string().optional().describe("Body weight in pounds (lbs)"),
+    ...VitalsValuesSchema.shape,
     protein: z.string().optional().describe("Urine protein level (e.g., Negative, Trace, +, ++, +++)"),
     glucose: z.string().optional().describe("Urine glucose level (e.g., Negative, Trace, +, ++, +++)"),
     ketones: z.string().optional().describe("Urine ketones level (e.g., Negative, Trace, +, ++, +++)"),
@@ -45,12 +42,12 @@ const AnalyzeHealthOutputSchema = z.object({
 export type AnalyzeHealthOutput = z.infer<typeof AnalyzeHealthOutputSchema>;
 
 // The wrapper function that client-side code will call.
-export async function analyzeHealth(input: AnalyzeHealthInput): Promise<AnalyzeHealthOutput> {
+export async function analyzeHealth(input: AnalyzeHealthInput): Promise<WithProvenance<AnalyzeHealthOutput>> {
   return analyzeHealthFlow(input);
 }
 
 // Define the Genkit prompt with structured input and output.
-const analyzeHealthPrompt = ai.definePrompt({
+const analyzeHealthPrompt = defineTrackedPrompt({
     name: 'analyzeHealthPrompt',
     input: { schema: AnalyzeHealthInputSchema },
     output: { schema: AnalyzeHealthOutputSchema },
@@ -59,12 +56,13 @@ const analyzeHealthPrompt = ai.definePrompt({
 Based on the following health data, perform a comprehensive analysis.
 
 Health Data:
-{{#if systolic}}Systolic Blood Pressure: {{systolic}} mmHg{{/if}}
-{{#if diastolic}}Diastolic Blood Pressure: {{diastolic}} mmHg{{/if}}
-{{#if bloodSugar}}Blood Sugar: {{bloodSugar}} mg/dL{{/if}}
-{{#if oxygenSaturation}}Oxygen Saturation: {{oxygenSaturation}}%{{/if}}
-{{#if temperature}}Temperature: {{temperature}}°F{{/if}}
-{{#if weight}}Weight: {{weight}} lbs{{/if}}
+{{#if systolic}}Systolic Blood Pressure: {{systolic.value}} {{systolic.unit}}{{/if}}
+{{#if diastolic}}Diastolic Blood Pressure: {{diastolic.value}} {{diastolic.unit}}{{/if}}
+{{#if pulseRate}}Pulse Rate: {{pulseRate.value}} {{pulseRate.unit}}{{/if}}
+{{#if bloodSugar}}Blood Sugar: {{bloodSugar.value}} {{bloodSugar.unit}}{{/if}}
+{{#if oxygenSaturation}}Oxygen Saturation: {{oxygenSaturation.value}}{{oxygenSaturation.unit}}{{/if}}
+{{#if temperature}}Temperature: {{temperature.value}}{{temperature.unit}}{{/if}}
+{{#if weight}}Weight: {{weight.value}} {{weight.unit}}{{/if}}
 {{#if protein}}Urine Protein: {{protein}}{{/if}}
 {{#if glucose}}Urine Glucose: {{glucose}}{{/if}}
 {{#if ketones}}Urine Ketones: {{ketones}}{{/if}}
@@ -86,13 +84,13 @@ const analyzeHealthFlow = ai.defineFlow(
   {
     name: 'analyzeHealthFlow',
     inputSchema: AnalyzeHealthInputSchema,
-    outputSchema: AnalyzeHealthOutputSchema,
+    outputSchema: withProvenance(AnalyzeHealthOutputSchema),
   },
   async (input) => {
-    const { output } = await analyzeHealthPrompt(input);
+    const { output, provenance } = await runPrompt('analyzeHealthFlow', analyzeHealthPrompt, input);
     if (!output) {
         throw new Error("The AI model did not return a valid response.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
@@ -9,6 +9,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
 
 const AnalyzeMealInputSchema = z.object({
@@ -35,11 +36,11 @@ const AnalyzeMealOutputSchema = z.object({
 });
 export type AnalyzeMealOutput = z.infer<typeof AnalyzeMealOutputSchema>;
 
-export async function analyzeMeal(input: AnalyzeMealInput): Promise<AnalyzeMealOutput> {
+export async function analyzeMeal(input: AnalyzeMealInput): Promise<WithProvenance<AnalyzeMealOutput>> {
   return analyzeMealFlow(input);
 }
 
-const prompt = ai.definePrompt({
+const prompt = defineTrackedPrompt({
     name: 'analyzeMealPrompt',
     input: { schema: AnalyzeMealInputSchema },
     output: { schema: AnalyzeMealOutputSchema },
@@ -75,13 +76,13 @@ const analyzeMealFlow = ai.defineFlow(
   {
     name: 'analyzeMealFlow',
     inputSchema: AnalyzeMealInputSchema,
-    outputSchema: AnalyzeMealOutputSchema,
+    outputSchema: withProvenance(AnalyzeMealOutputSchema),
   },
   async (input) => {
-    const { output } = await prompt(input);
+    const { output, provenance } = await runPrompt('analyzeMealFlow', prompt, input);
     if (!output) {
         throw new Error("The AI model did not return a valid meal analysis.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
@@ -9,6 +9,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
 
 const CheckFoodSuitabilityInputSchema = z.object({
@@ -26,11 +27,11 @@ const CheckFoodSuitabilityOutputSchema = z.object({
 export type CheckFoodSuitabilityOutput = z.infer<typeof CheckFoodSuitabilityOutputSchema>;
 
 
-export async function checkFoodSuitability(input: CheckFoodSuitabilityInput): Promise<CheckFoodSuitabilityOutput> {
+export async function checkFoodSuitability(input: CheckFoodSuitabilityInput): Promise<WithProvenance<CheckFoodSuitabilityOutput>> {
   return checkFoodSuitabilityFlow(input);
 }
 
-const prompt = ai.definePrompt({
+const prompt = defineTrackedPrompt({
     name: 'checkFoodSuitabilityPrompt',
     input: { schema: CheckFoodSuitabilityInputSchema },
     output: { schema: CheckFoodSuitabilityOutputSchema },
@@ -58,13 +59,13 @@ const checkFoodSuitabilityFlow = ai.defineFlow(
   {
     name: 'checkFoodSuitabilityFlow',
     inputSchema: CheckFoodSuitabilityInputSchema,
-    outputSchema: CheckFoodSuitabilityOutputSchema,
+    outputSchema: withProvenance(CheckFoodSuitabilityOutputSchema),
   },
   async (input) => {
-    const { output } = await prompt(input);
+    const { output, provenance } = await runPrompt('checkFoodSuitabilityFlow', prompt, input);
     if (!output) {
         throw new Error("The AI model did not return a valid food suitability analysis.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
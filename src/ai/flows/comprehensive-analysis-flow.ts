@@ -9,10 +9,11 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
 
 const ComprehensiveAnalysisInputSchema = z.object({
-  vitalsHistory: z.string().describe("A JSON string representing an array of historical vital signs readings."),
+  vitalsHistory: z.string().describe("A JSON string representing an array of historical vital signs readings, each vital as a numeric 'value' with its 'unit'."),
   testStripHistory: z.string().describe("A JSON string representing an array of historical urine test strip results."),
   bodyMetricsHistory: z.string().describe("A JSON string representing an array of historical Body Mass Index (BMI) and other body metrics readings."),
   previousAnalyses: z.string().describe("A JSON string representing an array of previous AI analysis results."),
@@ -33,11 +34,11 @@ const ComprehensiveAnalysisOutputSchema = z.object({
 
 export type ComprehensiveAnalysisOutput = z.infer<typeof ComprehensiveAnalysisOutputSchema>;
 
-export async function performComprehensiveAnalysis(input: ComprehensiveAnalysisInput): Promise<ComprehensiveAnalysisOutput> {
+export async function performComprehensiveAnalysis(input: ComprehensiveAnalysisInput): Promise<WithProvenance<ComprehensiveAnalysisOutput>> {
   return comprehensiveAnalysisFlow(input);
 }
 
-const prompt = ai.definePrompt({
+const prompt = defineTrackedPrompt({
     name: 'comprehensiveAnalysisPrompt',
     input: { schema: ComprehensiveAnalysisInputSchema },
     output: { schema: ComprehensiveAnalysisOutputSchema },
@@ -74,13 +75,13 @@ const comprehensiveAnalysisFlow = ai.defineFlow(
   {
     name: 'comprehensiveAnalysisFlow',
     inputSchema: ComprehensiveAnalysisInputSchema,
-    outputSchema: ComprehensiveAnalysisOutputSchema,
+    outputSchema: withProvenance(ComprehensiveAnalysisOutputSchema),
   },
   async (input) => {
-    const { output } = await prompt(input);
+    const { output, provenance } = await runPrompt('comprehensiveAnalysisFlow', prompt, input);
     if (!output) {
         throw new Error("The AI model did not return a valid comprehensive analysis.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
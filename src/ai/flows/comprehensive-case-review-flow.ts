@@ -7,9 +7,12 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
 import { db } from '@/lib/firebase';
 import { doc, getDoc } from 'firebase/firestore';
+import { applyGuardrails, type GuardrailWarning } from '@/lib/clinical-guardrails';
+import { fetchPatientContext } from '@/lib/clinical-guardrails-store';
 
 // Input from the client
 const ComprehensiveCaseReviewClientInputSchema = z.object({
@@ -44,11 +47,14 @@ const ComprehensiveCaseReviewOutputSchema = z.object({
 });
 export type ComprehensiveCaseReviewOutput = z.infer<typeof ComprehensiveCaseReviewOutputSchema>;
 
+/** The review as returned to the doctor, after the safety guardrails. */
+export type ComprehensiveCaseReviewResult = WithProvenance<ComprehensiveCaseReviewOutput> & { safetyWarnings: GuardrailWarning[] };
+
 
 /**
  * The main public-facing function that orchestrates the comprehensive review.
  */
-export async function performComprehensiveCaseReview(input: ComprehensiveCaseReviewClientInput): Promise<ComprehensiveCaseReviewOutput> {
+export async function performComprehensiveCaseReview(input: ComprehensiveCaseReviewClientInput): Promise<ComprehensiveCaseReviewResult> {
     const { investigationId } = input;
 
     // Fetch the existing investigation context.
@@ -62,11 +68,18 @@ export async function performComprehensiveCaseReview(input: ComprehensiveCaseRev
     // Call the internal AI flow.
     const aiResponse = await comprehensiveCaseReviewFlow({ fullInvestigationContext });
 
-    return aiResponse;
+    // Check the proposed treatment plan against the patient before the doctor sees it.
+    const patient = await fetchPatientContext(investigationSnap.data().userId);
+    const guarded = applyGuardrails({ medications: aiResponse.suggestedTreatmentPlan.medications }, patient);
+    return {
+        ...aiResponse,
+        suggestedTreatmentPlan: { ...aiResponse.suggestedTreatmentPlan, medications: guarded.medications },
+        safetyWarnings: guarded.warnings,
+    };
 }
 
 // Internal Genkit prompt.
-const comprehensiveCaseReviewPrompt = ai.definePrompt({
+const comprehensiveCaseReviewPrompt = defineTrackedPrompt({
   name: 'comprehensiveCaseReviewPrompt',
   input: { schema: ComprehensiveCaseReviewAIInputSchema },
   output: { schema: ComprehensiveCaseReviewOutputSchema },
@@ -90,13 +103,13 @@ const comprehensiveCaseReviewFlow = ai.defineFlow(
   {
     name: 'comprehensiveCaseReviewFlow',
     inputSchema: ComprehensiveCaseReviewAIInputSchema,
-    outputSchema: ComprehensiveCaseReviewOutputSchema,
+    outputSchema: withProvenance(ComprehensiveCaseReviewOutputSchema),
   },
   async (input) => {
-    const { output } = await comprehensiveCaseReviewPrompt(input);
+    const { output, provenance } = await runPrompt('comprehensiveCaseReviewFlow', comprehensiveCaseReviewPrompt, input);
     if (!output) {
       throw new Error("The AI model did not return a valid comprehensive case review.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
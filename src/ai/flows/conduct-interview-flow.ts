@@ -4,11 +4,14 @@
  * @fileOverview An AI agent for conducting a conversational health interview.
  *
  * - conductInterview - A function that continues the interview process.
+ * - streamConductInterview - The same, streaming the next question as it is generated.
  * - ConductInterviewInput - The input type for the conductInterview function.
  * - ConductInterviewOutput - The return type for the conductInterview function.
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
+import { streamField, type FlowStreamOptions } from '@/ai/streaming';
 import { z } from 'zod';
 
 const MessageSchema = z.object({
@@ -30,12 +33,16 @@ const ConductInterviewOutputSchema = z.object({
 export type ConductInterviewOutput = z.infer<typeof ConductInterviewOutputSchema>;
 
 
-export async function conductInterview(input: ConductInterviewInput): Promise<ConductInterviewOutput> {
+export async function conductInterview(input: ConductInterviewInput): Promise<WithProvenance<ConductInterviewOutput>> {
   return conductInterviewFlow(input);
 }
 
+export async function streamConductInterview(input: ConductInterviewInput, options: FlowStreamOptions): Promise<WithProvenance<ConductInterviewOutput>> {
+  return (await conductInterviewFlow.run(input, options)).result;
+}
+
 
-const prompt = ai.definePrompt({
+const prompt = defineTrackedPrompt({
   name: 'conductInterviewPrompt',
   input: { schema: ConductInterviewInputSchema },
   output: { schema: ConductInterviewOutputSchema },
@@ -66,13 +73,17 @@ const conductInterviewFlow = ai.defineFlow(
   {
     name: 'conductInterviewFlow',
     inputSchema: ConductInterviewInputSchema,
-    outputSchema: ConductInterviewOutputSchema,
+    outputSchema: withProvenance(ConductInterviewOutputSchema),
+    streamSchema: z.string().describe("The next question, as much as has been generated so far."),
   },
-  async (input) => {
-    const { output } = await prompt(input);
+  async (input, { sendChunk, streamingRequested, abortSignal }) => {
+    const { output, provenance } = await runPrompt('conductInterviewFlow', prompt, input, {
+      abortSignal,
+      onPartial: streamingRequested ? streamField<ConductInterviewOutput>('nextQuestion', sendChunk) : undefined,
+    });
     if (!output) {
       throw new Error("The AI model did not return a valid response for the interview.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
@@ -7,19 +7,34 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
 import { db } from '@/lib/firebase';
-import { collection, doc, getDoc, updateDoc, addDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, getDoc, serverTimestamp } from 'firebase/firestore';
+import { canTransition, InvestigationTransitionError, type InvestigationActor } from '@/lib/investigation';
+import { transitionInvestigation } from '@/lib/investigation-store';
+import { formatLabAnalyte } from '@/lib/lab-observations';
+import { addLabObservations } from '@/lib/lab-observations-store';
+import { postSystemMessage } from '@/lib/case-messages-store';
+import { extractLabReport } from '@/ai/flows/extract-lab-report-flow';
+import { guardInvestigationAnalysis } from '@/lib/clinical-guardrails';
+import { fetchPatientContext } from '@/lib/clinical-guardrails-store';
 
 const LabResultInputSchema = z.object({
     testName: z.string(),
-    imageDataUri: z.string().describe("The lab result image as a data URI."),
+    imageDataUri: z.string().describe("The lab result image or PDF as a data URI."),
+});
+
+const AnalyzedLabResultSchema = LabResultInputSchema.extend({
+    analytes: z.array(z.string()).describe("The values read off the report, one line per analyte with unit, reference range and flag."),
+    extractionConfidence: z.number().optional().describe("Confidence (1-100) that the values were read correctly."),
 });
 
 const NurseReportInputSchema = z.object({
     text: z.string().optional().describe("A text report from the nurse about the visit."),
     pictures: z.array(z.string()).optional().describe("Data URIs of pictures taken by the nurse."),
     videos: z.array(z.string()).optional().describe("Data URIs of videos taken by the nurse."),
+    samplesCollected: z.array(z.string()).optional().describe("The samples the nurse collected, one line per test with specimen type and notes."),
 });
 
 // Public-facing Zod schema for the data submitted from the client.
@@ -28,13 +43,15 @@ const ContinueInvestigationClientInputSchema = z.object({
     investigationId: z.string(),
     labResults: z.array(LabResultInputSchema),
     nurseReport: NurseReportInputSchema.optional(),
+    /** Set when the dispatched nurse submits on the patient's behalf; defaults to the patient. */
+    nurse: z.object({ uid: z.string(), name: z.string() }).optional(),
 });
 export type ContinueInvestigationClientInput = z.infer<typeof ContinueInvestigationClientInputSchema>;
 
 // Internal Zod schema for the full data required by the AI prompt.
 const ContinueInvestigationInputSchema = z.object({
   investigationContext: z.string().describe("The full context of the investigation so far, including the initial chat, AI analysis, and doctor's plan."),
-  labResults: z.array(LabResultInputSchema).describe("An array of the new lab results, including the test name and an image of the result."),
+  labResults: z.array(AnalyzedLabResultSchema).describe("An array of the new lab results, including the test name, the report itself and the values extracted from it."),
   nurseReport: NurseReportInputSchema.optional().describe("An optional report from the nurse including text, and references to submitted pictures or videos."),
 });
 export type ContinueInvestigationInput = z.infer<typeof ContinueInvestigationInputSchema>;
@@ -67,7 +84,7 @@ export type ContinueInvestigationOutput = z.infer<typeof ContinueInvestigationOu
  * The main public-facing function that orchestrates the follow-up analysis.
  */
 export async function continueInvestigation(input: ContinueInvestigationClientInput): Promise<{ success: boolean }> {
-    const { investigationId, labResults, nurseReport, userId } = input;
+    const { investigationId, labResults, nurseReport, userId, nurse } = input;
 
     // Step 1: Fetch the existing investigation context.
     const investigationDocRef = doc(db, 'investigations', investigationId);
@@ -76,21 +93,52 @@ export async function continueInvestigation(input: ContinueInvestigationClientIn
         throw new Error("Investigation not found or access denied.");
     }
     const investigationData = investigationSnap.data();
+    if (nurse && investigationData.nurseDispatch?.nurseUid !== nurse.uid) {
+        throw new Error("Investigation not found or access denied.");
+    }
+    const submitter: InvestigationActor = nurse
+        ? { uid: nurse.uid, name: nurse.name, role: 'nurse' }
+        : { uid: userId, name: investigationData.userName, role: 'patient' };
+    // Fail before the AI call if the case isn't waiting for results.
+    if (!canTransition(investigationData.status, 'submit_lab_results', submitter.role)) {
+        throw new InvestigationTransitionError("This case isn't waiting for lab results.", 'invalid_transition');
+    }
     const investigationContext = JSON.stringify(investigationData);
 
-    // Step 2: Prepare the full input for the internal AI analysis flow.
+    // Step 2: Read the analytes off each report. A report that can't be read is still
+    // passed to the analysis as-is, so one bad scan doesn't block the submission.
+    const extractions = await Promise.all(labResults.map(res =>
+        extractLabReport({ documentDataUri: res.imageDataUri, testName: res.testName }).catch(error => {
+            console.error(`Error extracting lab report "${res.testName}":`, error);
+            return null;
+        })
+    ));
+
+    // Step 3: Prepare the full input for the internal AI analysis flow.
     const aiFlowInput: ContinueInvestigationInput = {
         investigationContext,
-        labResults,
+        labResults: labResults.map((res, i) => ({
+            ...res,
+            analytes: extractions[i]?.analytes.map(formatLabAnalyte) ?? [],
+            extractionConfidence: extractions[i]?.confidenceScore,
+        })),
         nurseReport,
     };
 
-    // Step 3: Call the internal AI flow to get the new, deeper analysis.
-    const aiResponse = await continueInvestigationFlow(aiFlowInput);
+    // Step 4: Call the internal AI flow to get the new, deeper analysis, then run it through the
+    // safety guardrails against what the patient and nurse reported.
+    const patientText = [investigationData.steps?.[0]?.userInput?.chatTranscript ?? '', nurseReport?.text ?? ''].join('\n');
+    const { provenance, ...aiResponse } = guardInvestigationAnalysis(
+        await continueInvestigationFlow(aiFlowInput),
+        patientText,
+        await fetchPatientContext(userId),
+    );
 
-    // Step 4: Append this new step to the investigation and update the status.
+    // Step 5: Append this new step to the investigation and update the status.
     const currentSteps = investigationData.steps || [];
-    const userInputPayload: any = { labResults };
+    const userInputPayload: any = {
+        labResults: labResults.map((res, i) => extractions[i] ? { ...res, extraction: extractions[i] } : res),
+    };
     if (nurseReport) {
         userInputPayload.nurseReport = nurseReport;
     }
@@ -100,38 +148,47 @@ export async function continueInvestigation(input: ContinueInvestigationClientIn
         timestamp: new Date().toISOString(),
         userInput: userInputPayload,
         aiAnalysis: aiResponse,
+        provenance,
     };
 
     // If this submission is for a follow-up, embed the doctor's request into the step for a complete record.
     if (investigationData.status === 'awaiting_follow_up_visit' && investigationData.followUpRequest) {
         newStep.doctorRequest = investigationData.followUpRequest;
     }
+    // Likewise keep the dispatch and the samples the nurse recorded with the visit's report.
+    if (nurse) {
+        newStep.nurseDispatch = investigationData.nurseDispatch;
+        if (investigationData.nurseVisit) newStep.nurseVisit = investigationData.nurseVisit;
+    }
 
     const updatedInvestigation = {
-        status: 'pending_final_review' as const,
         steps: [...currentSteps, newStep],
         lastMessageTimestamp: serverTimestamp(),
-        lastMessageContent: "New lab results uploaded."
+        lastMessageContent: nurse ? "Nurse visit report submitted." : "New lab results uploaded."
     };
     
-    await updateDoc(investigationDocRef, updatedInvestigation);
+    await transitionInvestigation(investigationId, 'submit_lab_results', submitter, updatedInvestigation);
+
+    // Step 6: Keep the extracted values on the patient's record so they can be followed over time.
+    const submittedAt = newStep.timestamp;
+    await Promise.all(labResults.flatMap((res, i) => {
+        const extraction = extractions[i];
+        return extraction
+            ? [addLabObservations(userId, { investigationId, testName: res.testName }, extraction.analytes, extraction.collectedAt ?? submittedAt, submitter)]
+            : [];
+    }));
 
     // Add an automatic message to the chat
-    const messageContent = "The patient has uploaded new lab results. They are now awaiting your final review.";
-    const messagesCol = collection(db, 'investigations', investigationId, 'messages');
-    await addDoc(messagesCol, {
-        role: 'doctor',
-        content: messageContent,
-        timestamp: new Date().toISOString(),
-        authorId: 'system',
-        authorName: 'Lifeline System',
-    });
+    const messageContent = nurse
+        ? `${nurse.name} has submitted the home visit report. It is now awaiting your final review.`
+        : "The patient has uploaded new lab results. They are now awaiting your final review.";
+    await postSystemMessage(investigationId, submitter.uid, messageContent, 'doctor');
     
     return { success: true };
 }
 
 // Internal Genkit prompt.
-const continueInvestigationPrompt = ai.definePrompt({
+const continueInvestigationPrompt = defineTrackedPrompt({
   name: 'continueInvestigationPrompt',
   input: { schema: ContinueInvestigationInputSchema },
   output: { schema: ContinueInvestigationOutputSchema },
@@ -143,7 +200,15 @@ const continueInvestigationPrompt = ai.definePrompt({
 **Newly Submitted Lab Results:**
 {{#each labResults}}
 - **Test:** {{this.testName}}
-- **Result Image:** {{media url=this.imageDataUri}}
+- **Report:** {{media url=this.imageDataUri}}
+{{#if this.analytes.length}}
+- **Extracted Values** (read from the report{{#if this.extractionConfidence}}, confidence {{this.extractionConfidence}}/100{{/if}}):
+{{#each this.analytes}}
+  - {{this}}
+{{/each}}
+{{else}}
+- **Extracted Values:** None could be read automatically; rely on the report itself.
+{{/if}}
 {{/each}}
 
 {{#if nurseReport}}
@@ -157,10 +222,16 @@ const continueInvestigationPrompt = ai.definePrompt({
 {{#if nurseReport.videos}}
 - **Note:** The nurse has submitted {{nurseReport.videos.length}} video(s) for review.
 {{/if}}
+{{#if nurseReport.samplesCollected}}
+- **Samples Collected (results to follow from the lab):**
+{{#each nurseReport.samplesCollected}}
+  - {{this}}
+{{/each}}
+{{/if}}
 {{/if}}
 
 **Your Task:**
-1.  **Analyze All New Data:** Meticulously analyze the images of the lab results AND the nurse's report if available. Correlate the findings with the full investigation history.
+1.  **Analyze All New Data:** Meticulously analyze the extracted lab values, checking them against the reports themselves, AND the nurse's report if available. Pay particular attention to values flagged outside their reference range. Correlate the findings with the full investigation history.
 2.  **Refine Analysis:** Write a 'refinedAnalysis' that explains how these new results confirm, deny, or modify your previous hypotheses.
 3.  **Update Potential Conditions:** Re-evaluate the 'potentialConditions' based on this new evidence. Update probabilities and reasoning.
 4.  **Determine Next Step:** Based on ALL information, decide the next logical step.
@@ -177,13 +248,13 @@ const continueInvestigationFlow = ai.defineFlow(
   {
     name: 'continueInvestigationFlow',
     inputSchema: ContinueInvestigationInputSchema,
-    outputSchema: ContinueInvestigationOutputSchema,
+    outputSchema: withProvenance(ContinueInvestigationOutputSchema),
   },
   async (input) => {
-    const { output } = await continueInvestigationPrompt(input);
+    const { output, provenance } = await runPrompt('continueInvestigationFlow', continueInvestigationPrompt, input);
     if (!output) {
       throw new Error("The AI model did not return a valid follow-up analysis.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
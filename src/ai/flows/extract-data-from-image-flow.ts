@@ -9,23 +9,18 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
+import { VITAL_FIELDS, VitalsValuesSchema } from '@/lib/vitals';
+import { STRIP_MARKERS, normalizeStripLevel } from '@/lib/test-strips';
 
 const ExtractDataFromImageInputSchema = z.object({
-    imageDataUri: z.string().describe("An image of a medical device display (e.g., blood pressure monitor, glucometer) or a test strip as a data URI. Must include a MIME type and use Base64 encoding."),
-    userPrompt: z.string().optional().describe("An optional hint from the user about what the image contains, e.g., 'This is my blood pressure reading' or 'urine test strip for ketones'."),
+    imageDataUri: z.string().describe("An image of a medical device display (e.g., blood pressure monitor, glucometer, including its memory/history screen), a handwritten or printed logbook page, or a test strip as a data URI. Must include a MIME type and use Base64 encoding."),
+    userPrompt: z.string().optional().describe("An optional hint from the user about what the image contains, e.g., 'This is my blood pressure reading' or 'last week of my glucose logbook'."),
 });
 export type ExtractDataFromImageInput = z.infer<typeof ExtractDataFromImageInputSchema>;
 
-const ExtractedVitalsSchema = z.object({
-    systolic: z.string().optional().describe("Systolic blood pressure in mmHg."),
-    diastolic: z.string().optional().describe("Diastolic blood pressure in mmHg."),
-    pulseRate: z.string().optional().describe("Pulse rate in beats per minute (BPM)."),
-    bloodSugar: z.string().optional().describe("Blood sugar level in mg/dL."),
-    oxygenSaturation: z.string().optional().describe("Oxygen saturation percentage."),
-    temperature: z.string().optional().describe("Body temperature in Fahrenheit."),
-    weight: z.string().optional().describe("Body weight in pounds (lbs)."),
-});
+const ExtractedVitalsSchema = VitalsValuesSchema.describe("Typed vital signs, each as a numeric 'value' with the 'unit' shown in the image.");
 
 const ExtractedTestStripSchema = z.object({
     protein: z.string().optional().describe("Urine protein level (e.g., Negative, Trace, +, ++, +++)."),
@@ -36,45 +31,62 @@ const ExtractedTestStripSchema = z.object({
     ph: z.string().optional().describe("Urine pH level (e.g., 5.0, 6.0, 7.0)."),
 });
 
+const confidence = (name: string) => z.number().int().min(1).max(100).optional().describe(`Confidence (1-100) that the ${name} value was read correctly. Omit if the field was not extracted.`);
+
+const FieldConfidenceSchema = z.object({
+    ...Object.fromEntries(VITAL_FIELDS.map(field => [field, confidence(field)])),
+    ...Object.fromEntries(STRIP_MARKERS.map(marker => [`strip_${marker}`, confidence(`test strip ${marker}`)])),
+}).describe("Per-field confidence for this reading. Vital fields use their own names; test strip markers are prefixed with 'strip_' (e.g., 'strip_glucose').");
+
+const ExtractedReadingSchema = z.object({
+    kind: z.enum(['vitals', 'test_strip']).describe("Whether this reading holds vital signs or urine test strip results."),
+    timestamp: z.string().optional().describe("The date and time of this reading as shown in the image, in ISO 8601 local time without a timezone (e.g., '2024-03-25T08:30'). Omit if the image shows no date or time for it."),
+    vitals: ExtractedVitalsSchema.optional().describe("The vital signs of this reading. Only for kind 'vitals'."),
+    testStrip: ExtractedTestStripSchema.optional().describe("The test strip results of this reading. Only for kind 'test_strip'."),
+    fieldConfidence: FieldConfidenceSchema,
+});
+export type ExtractedReading = z.infer<typeof ExtractedReadingSchema>;
+
 const ExtractDataFromImageOutputSchema = z.object({
-    extractedVitals: ExtractedVitalsSchema.optional().describe("Structured data extracted for vital signs. Omit if no vitals are found."),
-    extractedTestStrip: ExtractedTestStripSchema.optional().describe("Structured data extracted from a urine test strip. Omit if no test strip results are found."),
+    readings: z.array(ExtractedReadingSchema).describe("Every distinct reading visible in the image, one entry per reading. A single device screen usually holds one; a memory screen, logbook page or results sheet may hold many."),
     otherData: z.array(z.object({
         metricName: z.string().describe("The name of the unexpected metric."),
         metricValue: z.string().describe("The value of the unexpected metric."),
-    })).optional().describe("A list for any other metrics found on the device that do not fit into the standard vitals or test strip fields. Only include this field if you find such data."),
-    analysisSummary: z.string().describe("A brief, human-readable summary of what was found in the image, for user confirmation. e.g., 'Found a blood pressure reading of 125/85 mmHg.' or 'Detected Glucose at ++ and Ketones as Trace.'"),
-    confidenceScore: z.number().int().min(1).max(100).describe("An estimated confidence level from 1 to 100 on the accuracy of the extracted data. 1 is not confident at all, 100 is highly confident. Base this on image clarity, lighting, and angle."),
+    })).optional().describe("A list for any other metrics found in the image that do not fit into the standard vitals or test strip fields. Only include this field if you find such data."),
+    analysisSummary: z.string().describe("A brief, human-readable summary of what was found in the image, for user confirmation. e.g., 'Found 7 blood pressure readings from 18 to 24 March.' or 'Detected Glucose at ++ and Ketones as Trace.'"),
+    confidenceScore: z.number().int().min(1).max(100).describe("An estimated overall confidence level from 1 to 100 on the accuracy of the extracted data. 1 is not confident at all, 100 is highly confident. Base this on image clarity, lighting, and angle."),
 });
 export type ExtractDataFromImageOutput = z.infer<typeof ExtractDataFromImageOutputSchema>;
 
-export async function extractDataFromImage(input: ExtractDataFromImageInput): Promise<ExtractDataFromImageOutput> {
+export async function extractDataFromImage(input: ExtractDataFromImageInput): Promise<WithProvenance<ExtractDataFromImageOutput>> {
   return extractDataFromImageFlow(input);
 }
 
-const extractDataPrompt = ai.definePrompt({
+const extractDataPrompt = defineTrackedPrompt({
     name: 'extractDataFromImagePrompt',
     input: { schema: ExtractDataFromImageInputSchema },
     output: { schema: ExtractDataFromImageOutputSchema },
-    prompt: `You are an expert AI at reading and interpreting images of medical device screens and test strips. Your task is to analyze the provided image and extract specific health data into a structured format with extreme precision.
+    prompt: `You are an expert AI at reading and interpreting images of medical device screens, health logbooks and test strips. Your task is to analyze the provided image and extract every health reading in it into a structured format with extreme precision.
 
 User context: "{{userPrompt}}"
 Image to analyze: {{media url=imageDataUri}}
 
 **Instructions:**
-1.  **Identify Device:** First, determine the single type of device in the image. Is it a Blood Pressure Monitor, Glucometer, Pulse Oximeter, Thermometer, Scale, or a Urine Test Strip?
-2.  **Prioritize Structured Fields:** Your primary goal is to accurately populate the \`extractedVitals\` or \`extractedTestStrip\` objects using their predefined fields. Extract ONLY the data relevant to the identified device.
-    *   **Blood Pressure Monitor:** Extract 'systolic', 'diastolic', and 'pulseRate' if available.
-    *   **Pulse Oximeter:** Extract 'oxygenSaturation' and 'pulseRate'.
-    *   **Glucometer:** Extract 'bloodSugar'.
-    *   **Thermometer:** Extract 'temperature'.
-    *   **Scale:** Extract 'weight'.
-    *   **Urine Test Strip:** Populate the fields in 'extractedTestStrip'.
-3.  **CRITICAL - Handle Unknown Metrics:** If you identify a metric on the device that does NOT have a corresponding field in the structured objects (e.g., an 'Irregular Heartbeat' indicator, 'Body Fat %'), you MUST place this information in the \`otherData\` array. Each item in the array should be an object with a 'metricName' key (e.g., 'Irregular Heartbeat') and a 'metricValue' key (e.g., 'Detected').
-4.  **Data Precision:** NEVER force a value into an incorrect field. If a value doesn't match a predefined field, use \`otherData\`. If a value is unreadable or not present, OMIT the field entirely from the output. Do not include fields with empty strings or "N/A".
-5.  **Create Summary:** Write a short 'analysisSummary' confirming what you found.
-6.  **Assess Confidence:** Provide a 'confidenceScore' from 1 to 100 based on the image quality. A score of 95+ is for a perfect, clear image. A score below 80 suggests blurriness, poor lighting, or ambiguity, and the user should carefully verify the extracted data.
-7.  **Mutually Exclusive Output:** For devices measuring vitals, populate ONLY the 'extractedVitals' object (and 'otherData' if needed). For a urine test strip, populate ONLY the 'extractedTestStrip' object (and 'otherData' if needed). NEVER populate both 'extractedVitals' and 'extractedTestStrip' from the same image.`,
+1.  **Identify the Source:** Determine what the image shows: a single device reading (Blood Pressure Monitor, Glucometer, Pulse Oximeter, Thermometer, Scale), a device's memory/history screen, a handwritten or printed logbook page, or a Urine Test Strip.
+2.  **One Entry per Reading:** Add one item to \`readings\` for each distinct reading. Readings taken at the same time belong in the same item (e.g., a logbook row with blood pressure and pulse). A logbook may mix vital signs and test strip results; give each its own item with the matching 'kind'.
+3.  **Structured Fields:** For kind 'vitals', populate 'vitals'; for kind 'test_strip', populate 'testStrip'. Never populate both on one item.
+    *   **Blood Pressure:** 'systolic', 'diastolic' (unit 'mmHg'), and 'pulseRate' (unit 'bpm') if available.
+    *   **Pulse Oximeter:** 'oxygenSaturation' (unit '%') and 'pulseRate' (unit 'bpm').
+    *   **Blood Sugar:** 'bloodSugar'. Use unit 'mmol/L' if the image shows mmol/L (typically values below 35 with a decimal point), otherwise 'mg/dL'.
+    *   **Temperature:** Use unit '°C' or '°F' exactly as shown; if no unit is shown, values below 45 are '°C'.
+    *   **Weight:** Use unit 'kg' or 'lb' exactly as shown.
+    *   **Urine Test Strip:** Use the colour-chart level for each marker.
+    Every vital is an object with a numeric 'value' and a 'unit'. NEVER convert values between units yourself; report what the image shows.
+4.  **Timestamps:** If a date and/or time is shown for a reading, put it in 'timestamp'. If only some rows show a date (e.g., a logbook where the date is written once per day), carry it forward to the following rows. If no date or time is visible at all, omit 'timestamp'. NEVER invent a date.
+5.  **Per-Field Confidence:** For every field you extract, give its confidence in 'fieldConfidence'. Lower the score for smudged handwriting, glare, partially hidden digits or ambiguous units, so the user knows which values to double-check.
+6.  **CRITICAL - Handle Unknown Metrics:** If you identify a metric that does NOT have a corresponding structured field (e.g., an 'Irregular Heartbeat' indicator, 'Body Fat %'), place it in the \`otherData\` array as an object with 'metricName' and 'metricValue'.
+7.  **Data Precision:** NEVER force a value into an incorrect field. If a value is unreadable or not present, OMIT the field entirely. Do not include fields with empty strings or "N/A". Omit readings with no readable values.
+8.  **Summary and Overall Confidence:** Write a short 'analysisSummary' of what you found and an overall 'confidenceScore'. A score of 95+ is for a perfect, clear image; below 80 means the user should carefully verify the data.`,
     config: {
         temperature: 0,
     },
@@ -84,30 +96,45 @@ const extractDataFromImageFlow = ai.defineFlow(
   {
     name: 'extractDataFromImageFlow',
     inputSchema: ExtractDataFromImageInputSchema,
-    outputSchema: ExtractDataFromImageOutputSchema,
+    outputSchema: withProvenance(ExtractDataFromImageOutputSchema),
   },
   async (input) => {
-    const { output } = await extractDataPrompt(input);
+    const { output, provenance } = await runPrompt('extractDataFromImageFlow', extractDataPrompt, input);
     
     if (!output) {
         throw new Error("The AI model did not return a valid data extraction.");
     }
 
-    // Post-processing to remove any fields with "N/A" or empty strings.
-    // This provides a robust fallback if the model doesn't follow the prompt perfectly.
-    const cleanObject = (obj: Record<string, any> | undefined) => {
-      if (!obj) return;
-      for (const key in obj) {
-        if (obj[key] === "N/A" || obj[key] === "" || (typeof obj[key] === 'string' && obj[key].includes("N/A"))) {
-          delete obj[key];
+    // Drop anything the model should have omitted: non-numeric vitals, unrecognised strip
+    // levels, unparseable timestamps and readings left with no values.
+    const readings = output.readings.flatMap(reading => {
+      const cleaned: ExtractedReading = { kind: reading.kind, fieldConfidence: reading.fieldConfidence ?? {} };
+      if (reading.timestamp && !Number.isNaN(new Date(reading.timestamp).getTime())) {
+        cleaned.timestamp = reading.timestamp;
+      }
+      if (reading.kind === 'vitals' && reading.vitals) {
+        const vitals: Record<string, unknown> = {};
+        for (const field of VITAL_FIELDS) {
+          const measurement = reading.vitals[field];
+          if (measurement && Number.isFinite(measurement.value)) vitals[field] = measurement;
         }
+        if (Object.keys(vitals).length === 0) return [];
+        cleaned.vitals = vitals as ExtractedReading['vitals'];
+      } else if (reading.kind === 'test_strip' && reading.testStrip) {
+        const strip: Record<string, string> = {};
+        for (const marker of STRIP_MARKERS) {
+          const level = reading.testStrip[marker] ? normalizeStripLevel(marker, reading.testStrip[marker]!) : null;
+          if (level) strip[marker] = level;
+        }
+        if (Object.keys(strip).length === 0) return [];
+        cleaned.testStrip = strip;
+      } else {
+        return [];
       }
-    };
-
-    cleanObject(output.extractedVitals);
-    cleanObject(output.extractedTestStrip);
+      return [cleaned];
+    });
 
-    return output;
+    return { ...output, readings, provenance };
   }
 );
 
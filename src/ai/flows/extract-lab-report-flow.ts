@@ -0,0 +1,103 @@
+'use server';
+/**
+ * @fileOverview An AI agent for reading lab reports into structured analytes.
+ *
+ * - extractLabReport - Reads every analyte from a lab report image or PDF.
+ * - ExtractLabReportInput - The input type for the function.
+ * - ExtractLabReportOutput - The return type for the function.
+ */
+
+import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, type WithProvenance } from '@/ai/provenance';
+import { z } from 'zod';
+import { deriveLabFlag, parseReferenceRange, type LabAnalyte } from '@/lib/lab-observations';
+
+const ExtractLabReportInputSchema = z.object({
+    documentDataUri: z.string().describe("A photo, scan or PDF of a lab report as a data URI. Must include a MIME type and use Base64 encoding."),
+    testName: z.string().optional().describe("The test the patient was asked to do, e.g., 'Full Blood Count'."),
+});
+export type ExtractLabReportInput = z.infer<typeof ExtractLabReportInputSchema>;
+
+const ExtractedAnalyteSchema = z.object({
+    name: z.string().describe("The analyte name as printed on the report, e.g., 'Haemoglobin', 'WBC', 'Serum Creatinine'."),
+    value: z.number().optional().describe("The numeric result, if the result is a number. Omit for qualitative results."),
+    valueText: z.string().describe("The result exactly as printed, e.g., '10.2', '< 0.5', 'Positive', 'Not detected'."),
+    unit: z.string().optional().describe("The unit exactly as printed, e.g., 'g/dL', 'x10^9/L', 'mmol/L'. Omit if none is shown."),
+    referenceRange: z.string().optional().describe("The reference range exactly as printed, e.g., '12.0 - 16.0', '< 5.7', 'Negative'. Omit if none is shown."),
+    flag: z.enum(['low', 'normal', 'high', 'critical_low', 'critical_high', 'abnormal']).optional().describe("The flag printed next to the result (e.g., 'L', 'H', '*', 'LL', 'HH'). Omit if the report shows no flag."),
+});
+
+const ExtractLabReportOutputSchema = z.object({
+    analytes: z.array(ExtractedAnalyteSchema).describe("Every analyte result on the report, one entry per row."),
+    collectedAt: z.string().optional().describe("When the sample was collected, in ISO 8601 local time without a timezone (e.g., '2024-03-25T08:30'). Omit if the report doesn't say."),
+    summary: z.string().describe("A one-sentence summary of the report, e.g., 'Full blood count with low haemoglobin and normal white cells.'"),
+    confidenceScore: z.number().int().min(1).max(100).describe("Confidence (1-100) that the values were read correctly. Base this on image clarity and layout."),
+});
+
+export type ExtractLabReportOutput = {
+    analytes: LabAnalyte[];
+    collectedAt?: string;
+    summary: string;
+    confidenceScore: number;
+};
+
+export async function extractLabReport(input: ExtractLabReportInput): Promise<WithProvenance<ExtractLabReportOutput>> {
+  return extractLabReportFlow(input);
+}
+
+const extractLabReportPrompt = defineTrackedPrompt({
+    name: 'extractLabReportPrompt',
+    input: { schema: ExtractLabReportInputSchema },
+    output: { schema: ExtractLabReportOutputSchema },
+    prompt: `You are an expert AI at reading medical laboratory reports. Your task is to transcribe every analyte result in the provided report into a structured format with extreme precision.
+
+{{#if testName}}The patient was asked to do: "{{testName}}"{{/if}}
+Report: {{media url=documentDataUri}}
+
+**Instructions:**
+1.  **One Entry per Result:** Add one item to 'analytes' for each result row on the report, across all pages. Skip headings, comments and signatures.
+2.  **Transcribe, Don't Interpret:** Copy 'name', 'valueText', 'unit' and 'referenceRange' exactly as printed. NEVER convert units or correct values.
+3.  **Numeric Value:** If the result is a plain number, also put it in 'value'. For results like '< 0.5', 'Positive' or 'Not detected', omit 'value'.
+4.  **Flags:** Only set 'flag' if the report itself marks the result (e.g., 'L', 'H', 'LL', 'HH', '*', bold or 'Abnormal'). Use 'critical_low'/'critical_high' for critical or panic markers and 'abnormal' for qualitative results marked abnormal.
+5.  **Collection Date:** If the report shows when the sample was collected, put it in 'collectedAt'. NEVER invent a date.
+6.  **Precision:** If a value is unreadable, omit that analyte entirely rather than guessing.
+7.  **Summary and Confidence:** Write a short 'summary' and an overall 'confidenceScore'. Below 80 means the doctor should check the original report.`,
+    config: {
+        temperature: 0,
+    },
+});
+
+const extractLabReportFlow = ai.defineFlow(
+  {
+    name: 'extractLabReportFlow',
+    inputSchema: ExtractLabReportInputSchema,
+  },
+  async (input): Promise<WithProvenance<ExtractLabReportOutput>> => {
+    const { output, provenance } = await runPrompt('extractLabReportFlow', extractLabReportPrompt, input);
+
+    if (!output) {
+        throw new Error("The AI model did not return a valid lab report extraction.");
+    }
+
+    // Drop empty rows and fill in flags the report didn't print from the parsed range.
+    const analytes = output.analytes.flatMap(extracted => {
+      if (!extracted.name.trim() || !extracted.valueText.trim()) return [];
+      const analyte: LabAnalyte = {
+        name: extracted.name.trim(),
+        valueText: extracted.valueText.trim(),
+      };
+      if (extracted.value !== undefined && Number.isFinite(extracted.value)) analyte.value = extracted.value;
+      if (extracted.unit?.trim()) analyte.unit = extracted.unit.trim();
+      if (extracted.referenceRange?.trim()) analyte.referenceRange = parseReferenceRange(extracted.referenceRange);
+      const flag = deriveLabFlag({ ...analyte, flag: extracted.flag });
+      if (flag) analyte.flag = flag;
+      return [analyte];
+    });
+
+    const result: ExtractLabReportOutput = { analytes, summary: output.summary, confidenceScore: output.confidenceScore };
+    if (output.collectedAt && !Number.isNaN(new Date(output.collectedAt).getTime())) {
+      result.collectedAt = output.collectedAt;
+    }
+    return { ...result, provenance };
+  }
+);
@@ -9,6 +9,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
 
 const FollowUpInputSchema = z.object({
@@ -26,11 +27,11 @@ const FollowUpOutputSchema = z.object({
 export type FollowUpOutput = z.infer<typeof FollowUpOutputSchema>;
 
 
-export async function conductFollowUp(input: FollowUpInput): Promise<FollowUpOutput> {
+export async function conductFollowUp(input: FollowUpInput): Promise<WithProvenance<FollowUpOutput>> {
   return followUpFlow(input);
 }
 
-const prompt = ai.definePrompt({
+const prompt = defineTrackedPrompt({
   name: 'followUpPrompt',
   input: { schema: FollowUpInputSchema },
   output: { schema: FollowUpOutputSchema },
@@ -57,13 +58,13 @@ const followUpFlow = ai.defineFlow(
   {
     name: 'followUpFlow',
     inputSchema: FollowUpInputSchema,
-    outputSchema: FollowUpOutputSchema,
+    outputSchema: withProvenance(FollowUpOutputSchema),
   },
   async (input) => {
-    const { output } = await prompt(input);
+    const { output, provenance } = await runPrompt('followUpFlow', prompt, input);
     if (!output) {
       throw new Error("The AI model did not return a valid follow-up analysis.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
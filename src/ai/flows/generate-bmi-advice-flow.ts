@@ -9,6 +9,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
 
 const GenerateBmiAdviceInputSchema = z.object({
@@ -22,11 +23,11 @@ const GenerateBmiAdviceOutputSchema = z.object({
 });
 export type GenerateBmiAdviceOutput = z.infer<typeof GenerateBmiAdviceOutputSchema>;
 
-export async function generateBmiAdvice(input: GenerateBmiAdviceInput): Promise<GenerateBmiAdviceOutput> {
+export async function generateBmiAdvice(input: GenerateBmiAdviceInput): Promise<WithProvenance<GenerateBmiAdviceOutput>> {
   return generateBmiAdviceFlow(input);
 }
 
-const prompt = ai.definePrompt({
+const prompt = defineTrackedPrompt({
     name: 'generateBmiAdvicePrompt',
     input: { schema: GenerateBmiAdviceInputSchema },
     output: { schema: GenerateBmiAdviceOutputSchema },
@@ -50,13 +51,13 @@ const generateBmiAdviceFlow = ai.defineFlow(
   {
     name: 'generateBmiAdviceFlow',
     inputSchema: GenerateBmiAdviceInputSchema,
-    outputSchema: GenerateBmiAdviceOutputSchema,
+    outputSchema: withProvenance(GenerateBmiAdviceOutputSchema),
   },
   async (input) => {
-    const { output } = await prompt(input);
+    const { output, provenance } = await runPrompt('generateBmiAdviceFlow', prompt, input);
     if (!output) {
         throw new Error("The AI model did not return valid BMI advice.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
@@ -12,6 +12,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
 
 const GenerateDietPlanInputSchema = z.object({
@@ -34,11 +35,11 @@ const GenerateDietPlanOutputSchema = z.object({
 
 export type GenerateDietPlanOutput = z.infer<typeof GenerateDietPlanOutputSchema>;
 
-export async function generateDietPlan(input: GenerateDietPlanInput): Promise<GenerateDietPlanOutput> {
+export async function generateDietPlan(input: GenerateDietPlanInput): Promise<WithProvenance<GenerateDietPlanOutput>> {
   return generateDietPlanFlow(input);
 }
 
-const prompt = ai.definePrompt({
+const prompt = defineTrackedPrompt({
     name: 'generateDietPlanPrompt',
     input: { schema: GenerateDietPlanInputSchema },
     output: { schema: GenerateDietPlanOutputSchema },
@@ -69,13 +70,13 @@ const generateDietPlanFlow = ai.defineFlow(
   {
     name: 'generateDietPlanFlow',
     inputSchema: GenerateDietPlanInputSchema,
-    outputSchema: GenerateDietPlanOutputSchema,
+    outputSchema: withProvenance(GenerateDietPlanOutputSchema),
   },
   async (input) => {
-    const { output } = await prompt(input);
+    const { output, provenance } = await runPrompt('generateDietPlanFlow', prompt, input);
     if (!output) {
         throw new Error("The AI model did not return a valid diet plan.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
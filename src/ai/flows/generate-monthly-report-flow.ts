@@ -9,12 +9,13 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
 
 const GenerateMonthlyReportInputSchema = z.object({
   name: z.string().describe("The user's name."),
   month: z.string().describe("The month and year for the report (e.g., 'July 2024')."),
-  vitalsHistory: z.string().describe("A JSON string of historical vital signs readings for the month."),
+  vitalsHistory: z.string().describe("A JSON string of historical vital signs readings for the month. Each vital is an object with a numeric 'value' and its 'unit'."),
   testStripHistory: z.string().describe("A JSON string of historical urine test strip results for the month."),
   analysesHistory: z.string().describe("A JSON string of previous AI analysis results for the month."),
   alertsHistory: z.string().describe("A JSON string of triggered emergency alerts for the month."),
@@ -50,11 +51,11 @@ const GenerateMonthlyReportOutputSchema = z.object({
 
 export type GenerateMonthlyReportOutput = z.infer<typeof GenerateMonthlyReportOutputSchema>;
 
-export async function generateMonthlyReport(input: GenerateMonthlyReportInput): Promise<GenerateMonthlyReportOutput> {
+export async function generateMonthlyReport(input: GenerateMonthlyReportInput): Promise<WithProvenance<GenerateMonthlyReportOutput>> {
   return generateMonthlyReportFlow(input);
 }
 
-const prompt = ai.definePrompt({
+const prompt = defineTrackedPrompt({
     name: 'generateMonthlyReportPrompt',
     input: { schema: GenerateMonthlyReportInputSchema },
     output: { schema: GenerateMonthlyReportOutputSchema },
@@ -75,7 +76,7 @@ Generate a structured report based on the provided data. Adhere strictly to the
 **Key Instructions:**
 1.  **Title:** Create a professional title for the report.
 2.  **Overall Summary:** Write a concise executive summary.
-3.  **Vitals Analysis:** Go beyond simple averages. Analyze the trends. Was blood pressure volatile? Did it trend up or down? Were there any specific days with outlier readings?
+3.  **Vitals Analysis:** Each vital reading carries its own unit (e.g., blood sugar in mg/dL or mmol/L, temperature in °C or °F, weight in kg or lb). Always account for the unit when comparing readings, and quote values with their units. Go beyond simple averages. Analyze the trends. Was blood pressure volatile? Did it trend up or down? Were there any specific days with outlier readings?
 4.  **Urine Test Strip Insights:** Analyze the results as a whole. Do the markers together point to something? e.g., "The presence of both glucose and ketones in urine on several occasions could suggest issues with glycemic control." If no data is available, state that clearly.
 5.  **Trends & Correlations (Crucial):** This is where you demonstrate your advanced capability. Uncover non-obvious patterns. Examples: "A correlation was observed between days with reported high blood pressure and subsequent trace levels of protein in urine." or "Emergency alerts were triggered twice, both within hours of a recorded low oxygen saturation event, indicating a potential link." Be specific. If there are no significant correlations, state that the data appears stable and uncorrelated.
 6.  **Risk Assessment:** Assign a risk level ('Low', 'Medium', 'High', 'Critical') and provide a strong justification.
@@ -88,13 +89,13 @@ const generateMonthlyReportFlow = ai.defineFlow(
   {
     name: 'generateMonthlyReportFlow',
     inputSchema: GenerateMonthlyReportInputSchema,
-    outputSchema: GenerateMonthlyReportOutputSchema,
+    outputSchema: withProvenance(GenerateMonthlyReportOutputSchema),
   },
   async (input) => {
-    const { output } = await prompt(input);
+    const { output, provenance } = await runPrompt('generateMonthlyReportFlow', prompt, input);
     if (!output) {
         throw new Error("The AI model did not return a valid report.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
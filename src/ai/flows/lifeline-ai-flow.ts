@@ -4,11 +4,14 @@
  * @fileOverview A general-purpose health AI assistant for the public landing page.
  *
  * - askLifeline - A function that answers general health questions.
+ * - streamAskLifeline - The same, streaming the answer as it is generated.
  * - AskLifelineInput - The input type for the askLifeline function.
  * - AskLifelineOutput - The return type for the askLifeline function.
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
+import { streamField, type FlowStreamOptions } from '@/ai/streaming';
 import { z } from 'zod';
 
 const AskLifelineInputSchema = z.object({
@@ -22,11 +25,15 @@ const AskLifelineOutputSchema = z.object({
 });
 export type AskLifelineOutput = z.infer<typeof AskLifelineOutputSchema>;
 
-export async function askLifeline(input: AskLifelineInput): Promise<AskLifelineOutput> {
+export async function askLifeline(input: AskLifelineInput): Promise<WithProvenance<AskLifelineOutput>> {
   return lifelineAiFlow(input);
 }
 
-const prompt = ai.definePrompt({
+export async function streamAskLifeline(input: AskLifelineInput, options: FlowStreamOptions): Promise<WithProvenance<AskLifelineOutput>> {
+  return (await lifelineAiFlow.run(input, options)).result;
+}
+
+const prompt = defineTrackedPrompt({
   name: 'askLifelinePrompt',
   input: { schema: AskLifelineInputSchema },
   output: { schema: AskLifelineOutputSchema },
@@ -64,15 +71,19 @@ const lifelineAiFlow = ai.defineFlow(
   {
     name: 'lifelineAiFlow',
     inputSchema: AskLifelineInputSchema,
-    outputSchema: AskLifelineOutputSchema,
+    outputSchema: withProvenance(AskLifelineOutputSchema),
+    streamSchema: z.string().describe("The answer, as much as has been generated so far."),
   },
-  async (input) => {
-    const { output } = await prompt(input);
+  async (input, { sendChunk, streamingRequested, abortSignal }) => {
+    const { output, provenance } = await runPrompt('lifelineAiFlow', prompt, input, {
+      abortSignal,
+      onPartial: streamingRequested ? streamField<AskLifelineOutput>('answer', sendChunk) : undefined,
+    });
     if (!output) {
       throw new Error("The AI model did not return a valid response.");
     }
     // Ensure the disclaimer is always correct, overriding whatever the model might have sent.
     output.disclaimer = "This is AI-generated information and not a substitute for professional medical advice. Always consult with a qualified healthcare provider for any health concerns.";
-    return output;
+    return { ...output, provenance };
   }
 );
@@ -9,15 +9,24 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
 import { z } from 'zod';
 import { db } from '@/lib/firebase';
-import { collection, query, getDocs, addDoc, orderBy, limit } from 'firebase/firestore';
+import { collection, query, getDocs, orderBy, limit } from 'firebase/firestore';
+import { fetchVitals } from '@/lib/vitals-store';
+import { fetchTestStrips } from '@/lib/test-strips-store';
+import { buildDataSnapshot } from '@/lib/entry-history';
+import { createInvestigation } from '@/lib/investigation-store';
+import { CASE_SPECIALTIES } from '@/lib/case-queue';
+import { guardInvestigationAnalysis } from '@/lib/clinical-guardrails';
+import { fetchPatientContext } from '@/lib/clinical-guardrails-store';
+import { fetchPatientContact } from '@/lib/nurse-visits-store';
 
 
 // Internal Zod schema for the full data required by the AI prompt.
 const StartInvestigationInputSchema = z.object({
   chatTranscript: z.string().describe("The complete transcript of the conversation between the AI Doctor and the patient."),
-  vitalsHistory: z.string().describe("A JSON string representing an array of the user's historical vital signs readings."),
+  vitalsHistory: z.string().describe("A JSON string representing an array of the user's historical vital signs readings, each vital as a numeric 'value' with its 'unit'."),
   testStripHistory: z.string().describe("A JSON string representing an array of the user's historical urine test strip results."),
   previousAnalyses: z.string().describe("A JSON string representing an array of the user's previous AI analysis results."),
   imageDataUri: z.string().optional().describe("An optional image of a health concern (e.g., a skin issue, test strip) as a data URI."),
@@ -42,6 +51,7 @@ const StartInvestigationOutputSchema = z.object({
   }).describe("A comprehensive plan for the next steps in the investigation for the human doctor's review. You MUST suggest at least one lab test if there is any uncertainty."),
   justification: z.string().describe("A clear rationale for why the suggested next steps were chosen, correlating information from the chat with patterns from the user's health history."),
   urgency: z.enum(['Low', 'Medium', 'High', 'Critical']).describe("The urgency level for the doctor's review, considering both acute symptoms from the chat and chronic trends."),
+  suggestedSpecialty: z.enum(CASE_SPECIALTIES).describe("The medical specialty best placed to review this case, used to route it in the doctors' queue."),
   followUpPlan: z.string().describe("A proposed plan for user follow-up (e.g., 'Request user to upload lab results within 3 days.')."),
 });
 export type StartInvestigationOutput = z.infer<typeof StartInvestigationOutputSchema>;
@@ -53,6 +63,8 @@ const SubmitInvestigationClientInputSchema = z.object({
     userName: z.string(),
     chatTranscript: z.string(),
     imageDataUri: z.string().optional(),
+    /** The doctor the patient asked to review their case, from the directory. */
+    requestedDoctor: z.object({ uid: z.string(), name: z.string() }).optional(),
 });
 export type SubmitInvestigationClientInput = z.infer<typeof SubmitInvestigationClientInputSchema>;
 
@@ -62,22 +74,22 @@ export type SubmitInvestigationClientInput = z.infer<typeof SubmitInvestigationC
  * It fetches data, runs AI analysis, and saves the results for a doctor to review.
  */
 export async function startInvestigation(input: SubmitInvestigationClientInput): Promise<{ success: boolean, investigationId: string }> {
-    const { userId, userName, chatTranscript, imageDataUri } = input;
+    const { userId, userName, chatTranscript, imageDataUri, requestedDoctor } = input;
 
     // Step 1: Fetch user's historical data from Firestore.
     const basePath = `users/${userId}`;
-    const vitalsCol = collection(db, `${basePath}/vitals`);
-    const stripsCol = collection(db, `${basePath}/test_strips`);
     const analysesCol = collection(db, `${basePath}/health_analyses`);
 
-    const [vitalsSnap, stripsSnap, analysesSnap] = await Promise.all([
-        getDocs(query(vitalsCol, orderBy('date', 'desc'), limit(100))),
-        getDocs(query(stripsCol, orderBy('date', 'desc'), limit(100))),
+    const [vitalReadings, stripReadings, analysesSnap, patient, patientContact] = await Promise.all([
+        fetchVitals(userId, { limit: 100 }),
+        fetchTestStrips(userId, { limit: 100 }),
         getDocs(query(analysesCol, orderBy('timestamp', 'desc'), limit(50))),
+        fetchPatientContext(userId),
+        fetchPatientContact(userId),
     ]);
     
-    const vitalsHistory = JSON.stringify(vitalsSnap.docs.map(d => d.data()));
-    const testStripHistory = JSON.stringify(stripsSnap.docs.map(d => d.data()));
+    const vitalsHistory = JSON.stringify(vitalReadings.map(({ id, ...reading }) => reading));
+    const testStripHistory = JSON.stringify(stripReadings.map(({ id, ...reading }) => reading));
     const previousAnalyses = JSON.stringify(analysesSnap.docs.map(d => d.data().analysisResult));
 
     // Step 2: Prepare the full input for the internal AI analysis flow.
@@ -89,8 +101,8 @@ export async function startInvestigation(input: SubmitInvestigationClientInput):
         imageDataUri: imageDataUri || undefined,
     };
 
-    // Step 3: Call the internal AI flow to get the analysis.
-    const aiResponse = await startInvestigationFlow(aiFlowInput);
+    // Step 3: Call the internal AI flow to get the analysis, then run it through the safety guardrails.
+    const { provenance, ...aiResponse } = guardInvestigationAnalysis(await startInvestigationFlow(aiFlowInput), chatTranscript, patient);
 
     // Step 4: Save the complete investigation case to the central 'investigations' collection for doctors.
     const userInputData: { chatTranscript: string, imageDataUri?: string } = { chatTranscript };
@@ -101,24 +113,29 @@ export async function startInvestigation(input: SubmitInvestigationClientInput):
     const newInvestigation = {
         userId,
         userName,
-        status: 'pending_review' as const,
         createdAt: new Date().toISOString(),
+        // Pins the exact entry revisions the analysis saw, so later edits are visible to the doctor.
+        dataSnapshot: buildDataSnapshot(vitalReadings, stripReadings),
+        // Doctors can't read patient profiles, so the address a nurse visit needs travels with the case.
+        patientContact,
+        ...(requestedDoctor ? { requestedDoctor } : {}),
         steps: [{
             type: 'initial_submission' as const,
             timestamp: new Date().toISOString(),
             userInput: userInputData,
             aiAnalysis: aiResponse,
+            provenance,
         }],
     };
     
-    const docRef = await addDoc(collection(db, "investigations"), newInvestigation);
+    const investigationId = await createInvestigation(newInvestigation, { uid: userId, name: userName, role: 'patient' });
     
-    return { success: true, investigationId: docRef.id };
+    return { success: true, investigationId };
 }
 
 
 // Internal Genkit prompt. This is not exported.
-const startInvestigationPrompt = ai.definePrompt({
+const startInvestigationPrompt = defineTrackedPrompt({
   name: 'startInvestigationPrompt',
   input: { schema: StartInvestigationInputSchema },
   output: { schema: StartInvestigationOutputSchema },
@@ -150,7 +167,8 @@ Based on ALL the provided information, generate the initial investigation steps
     - **preliminaryMedications:** Suggest medications ONLY if needed for urgent symptom relief. For each medication, provide a 'name' and a 'dosage' (e.g., name: 'Ibuprofen', dosage: '200mg as needed for pain'). If none are needed, return an empty array.
 4.  **justification:** Justify your suggested next steps.
 5.  **urgency:** Assign an urgency level ('Low', 'Medium', 'High', 'Critical').
-6.  **followUpPlan:** Propose a follow-up plan, e.g., 'Request user to upload lab results in 3 days.'
+6.  **suggestedSpecialty:** Choose the specialty best placed to review the case. Use 'General Practice' when no single specialty clearly fits.
+7.  **followUpPlan:** Propose a follow-up plan, e.g., 'Request user to upload lab results in 3 days.'
 
 Your entire output must be in the specified JSON format. Be thorough, logical, and safe.`,
 });
@@ -160,10 +178,10 @@ const startInvestigationFlow = ai.defineFlow(
   {
     name: 'startInvestigationFlow',
     inputSchema: StartInvestigationInputSchema,
-    outputSchema: StartInvestigationOutputSchema,
+    outputSchema: withProvenance(StartInvestigationOutputSchema),
   },
   async (input) => {
-    const { output } = await startInvestigationPrompt(input);
+    const { output, provenance } = await runPrompt('startInvestigationFlow', startInvestigationPrompt, input);
     if (!output) {
       throw new Error("The AI model did not return a valid investigation plan.");
     }
@@ -171,6 +189,6 @@ const startInvestigationFlow = ai.defineFlow(
     if (output.potentialConditions.some(c => c.probability < 95) && output.suggestedNextSteps.suggestedLabTests.length === 0) {
         output.suggestedNextSteps.suggestedLabTests.push("General Health Panel (Complete Blood Count, Metabolic Panel)");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
@@ -4,11 +4,14 @@
  * @fileOverview An AI agent for providing user support about the Nexus Lifeline application.
  *
  * - answerSystemQuestion - A function that answers user questions about the app.
+ * - streamAnswerSystemQuestion - The same, streaming the answer as it is generated.
  * - SystemSupportInput - The input type for the function.
  * - SystemSupportOutput - The return type for the function.
  */
 
 import { ai } from '@/ai/genkit';
+import { defineTrackedPrompt, runPrompt, withProvenance, type WithProvenance } from '@/ai/provenance';
+import { streamField, type FlowStreamOptions } from '@/ai/streaming';
 import { z } from 'zod';
 
 const SystemSupportInputSchema = z.object({
@@ -21,11 +24,15 @@ const SystemSupportOutputSchema = z.object({
 });
 export type SystemSupportOutput = z.infer<typeof SystemSupportOutputSchema>;
 
-export async function answerSystemQuestion(input: SystemSupportInput): Promise<SystemSupportOutput> {
+export async function answerSystemQuestion(input: SystemSupportInput): Promise<WithProvenance<SystemSupportOutput>> {
   return systemSupportFlow(input);
 }
 
-const prompt = ai.definePrompt({
+export async function streamAnswerSystemQuestion(input: SystemSupportInput, options: FlowStreamOptions): Promise<WithProvenance<SystemSupportOutput>> {
+  return (await systemSupportFlow.run(input, options)).result;
+}
+
+const prompt = defineTrackedPrompt({
   name: 'systemSupportPrompt',
   input: { schema: SystemSupportInputSchema },
   output: { schema: SystemSupportOutputSchema },
@@ -47,6 +54,8 @@ const prompt = ai.definePrompt({
 *   **AI Logger:** This is the primary tool for data entry.
     *   Users can log Vitals (Blood Pressure, Blood Sugar, etc.) and Urine Test Strip results here.
     *   The interface is unified. Users first select the type of data they want to log, and then a specific form appears for them to enter the values.
+    *   "Scan Photo" reads every reading from a photo of a device screen, a monitor's memory screen or a logbook page. Users review the readings in a table, edit or drop any of them, and save them all at once.
+    *   "Import CSV" (in Log History) brings in past readings from a spreadsheet or device export.
     *   All logged data is saved to the user's history and used for analysis in other parts of the app like "Deep Dive".
 *   **Deep Dive:** A powerful AI analysis tool.
     *   Users can select a date range (e.g., "Last 7 days").
@@ -65,15 +74,19 @@ const prompt = ai.definePrompt({
 *   **Health Report:** Generates a professional, PDF-style monthly health summary.
     *   The user selects a month and year.
     *   The AI compiles all data from that month into a detailed report covering vitals analysis, trends, risk assessment, and recommendations.
-*   **Prescriptions:** A read-only page that lists all medications prescribed to the user through the "Clinic" feature. It shows the medication name and dosage instructions.
+*   **Prescriptions:** Lists all medications prescribed to the user through the "Clinic" feature, with their dosage instructions.
+    *   Each prescription gets a dose schedule read from its dosage (e.g., "twice a day for 5 days"), which the user can adjust with "Adjust Schedule".
+    *   "Today's Doses" lists the doses due today; the user marks each as Taken or Skip, and can enable browser reminders.
+    *   An adherence percentage is shown per medication, and the reviewing doctor can see it on the case.
 *   **Health Tools (BMI & Body Metrics):**
     *   **BMI Calculator:** A page where users can calculate their Body Mass Index. It saves their results to their history.
     *   **Body Metrics:** A page similar to the AI Logger, where users can log other physical measurements like Waist Circumference, Waist-to-Height Ratio, and Waist-to-Hip Ratio.
 *   **Wallet:** Users can add money (via Paystack) to their wallet balance. This balance is used to pay for premium features like "Deep Dive" and "Clinic" consultations. It also shows a history of transactions.
 *   **Emergency:**
-    *   Allows users to add "Guardians" (emergency contacts).
-    *   Features a large "Send Alert" button that, when pressed, simulates sending an alert with the user's location to their registered guardians.
-*   **Settings:** Where users can update their personal profile information (name, age, address, etc.).
+    *   Users add "Guardians" (emergency contacts) under Settings, choosing whether each is notified by SMS, email or push.
+    *   The home dashboard has a large "Send Alert" button that, after confirmation, records an SOS alert with the user's location and notifies all their guardians.
+    *   Users can also opt in to an automatic SOS whenever they log a vital sign in the critical range.
+*   **Settings:** Where users can update their personal profile information (name, age, address, etc.), manage their guardians, and view their personal vital target ranges.
 
 ---
 
@@ -88,13 +101,17 @@ const systemSupportFlow = ai.defineFlow(
   {
     name: 'systemSupportFlow',
     inputSchema: SystemSupportInputSchema,
-    outputSchema: SystemSupportOutputSchema,
+    outputSchema: withProvenance(SystemSupportOutputSchema),
+    streamSchema: z.string().describe("The answer, as much as has been generated so far."),
   },
-  async (input) => {
-    const { output } = await prompt(input);
+  async (input, { sendChunk, streamingRequested, abortSignal }) => {
+    const { output, provenance } = await runPrompt('systemSupportFlow', prompt, input, {
+      abortSignal,
+      onPartial: streamingRequested ? streamField<SystemSupportOutput>('answer', sendChunk) : undefined,
+    });
     if (!output) {
       throw new Error("The AI model did not return a valid response.");
     }
-    return output;
+    return { ...output, provenance };
   }
 );
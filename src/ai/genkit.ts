@@ -1,17 +1,18 @@
-import {genkit, GenkitPlugin} from 'genkit';
-import {googleAI} from '@genkit-ai/googleai';
+import {genkit} from 'genkit';
+import {MODEL_PROVIDERS, selectModelProvider} from '@/ai/providers/registry';
 
-const plugins: GenkitPlugin[] = [];
+// See src/ai/providers/registry.ts for the environment each provider needs.
+export const modelProvider = selectModelProvider(process.env);
+const provider = MODEL_PROVIDERS[modelProvider];
+export const defaultModel = provider.defaultModel(process.env);
 
-if (process.env.GEMINI_API_KEY) {
-  plugins.push(googleAI({apiKey: process.env.GEMINI_API_KEY}));
-} else {
+if (modelProvider === 'scripted' && !process.env.AI_PROVIDER) {
   console.warn(
-    'GEMINI_API_KEY environment variable not found. AI features will be disabled.'
+    'No AI provider is configured (GEMINI_API_KEY or OPENAI_COMPATIBLE_BASE_URL). AI flows will return scripted responses.'
   );
 }
 
 export const ai = genkit({
-  plugins: plugins,
-  model: 'googleai/gemini-2.0-flash',
-});
\ No newline at end of file
+  plugins: [provider.plugin(process.env)],
+  model: defaultModel,
+});
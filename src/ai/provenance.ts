@@ -0,0 +1,132 @@
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import type { ExecutablePrompt, PromptConfig } from 'genkit';
+import { toJsonSchema } from 'genkit/schema';
+import { ai, defaultModel } from '@/ai/genkit';
+
+/**
+ * Provenance for every flow result: which prompt, model and config produced it, what it
+ * cost and which input it saw. Records keep it next to the AI output so that when a prompt
+ * regression is found, every record made with that prompt hash can be traced.
+ *
+ * Prompts are defined with `defineTrackedPrompt` instead of `ai.definePrompt` and called
+ * through `runPrompt`, streamed or not; flows return the output with the envelope under `provenance`.
+ */
+
+export const AiProvenanceSchema = z.object({
+  flow: z.string(),
+  prompt: z.string(),
+  /** Changes whenever the template, output schema or config of the prompt changes. */
+  promptHash: z.string(),
+  model: z.string(),
+  temperature: z.number().nullable(),
+  usage: z.object({
+    inputTokens: z.number().optional(),
+    outputTokens: z.number().optional(),
+    totalTokens: z.number().optional(),
+  }),
+  latencyMs: z.number(),
+  /** Hash of the exact input, so two records can be compared without storing the input twice. */
+  inputDigest: z.string(),
+  generatedAt: z.string(),
+});
+export type AiProvenance = z.infer<typeof AiProvenanceSchema>;
+
+export type WithProvenance<T> = T & { provenance: AiProvenance };
+
+/** A flow's output schema with the provenance envelope added. */
+export function withProvenance<T extends z.ZodRawShape>(schema: z.ZodObject<T>) {
+  return schema.extend({ provenance: AiProvenanceSchema });
+}
+
+const HASH_LENGTH = 16;
+
+const digest = (value: unknown) =>
+  createHash('sha256').update(typeof value === 'string' ? value : JSON.stringify(value) ?? '').digest('hex').slice(0, HASH_LENGTH);
+
+interface PromptIdentity {
+  name: string;
+  hash: string;
+  model: string;
+  temperature: number | null;
+}
+
+const identities = new WeakMap<object, PromptIdentity>();
+
+/** `ai.definePrompt`, remembering what the prompt is made of so each run can be attributed to it. */
+export function defineTrackedPrompt<I extends z.ZodTypeAny, O extends z.ZodTypeAny, CustomOptions extends z.ZodTypeAny = z.ZodTypeAny>(
+  options: PromptConfig<I, O, CustomOptions>,
+): ExecutablePrompt<z.infer<I>, O, CustomOptions> {
+  const prompt = ai.definePrompt(options);
+  const model = options.model;
+  const config = (options.config ?? {}) as { temperature?: number };
+  identities.set(prompt, {
+    name: options.name,
+    hash: digest({
+      system: options.system,
+      prompt: options.prompt,
+      messages: options.messages,
+      output: options.output?.schema ? toJsonSchema({ schema: options.output.schema }) : options.output?.jsonSchema,
+      config: options.config,
+    }),
+    model: typeof model === 'string' ? model : (model as { name?: string } | undefined)?.name ?? defaultModel,
+    temperature: config.temperature ?? null,
+  });
+  return prompt;
+}
+
+function usageOf(usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number } | undefined): AiProvenance['usage'] {
+  // Firestore rejects undefined fields, so only the counts the model reported are kept.
+  return Object.fromEntries(
+    (['inputTokens', 'outputTokens', 'totalTokens'] as const)
+      .filter(key => typeof usage?.[key] === 'number')
+      .map(key => [key, usage![key]]),
+  );
+}
+
+export interface RunPromptOptions<T> {
+  abortSignal?: AbortSignal;
+  /** Streams the prompt, calling back with the output parsed so far as each chunk arrives. */
+  onPartial?: (partial: Partial<T>) => void;
+}
+
+/** Runs a tracked prompt and returns its output with the provenance of the run. */
+export async function runPrompt<I, O extends z.ZodTypeAny>(
+  flow: string,
+  prompt: ExecutablePrompt<I, O, any>,
+  input: I,
+  options: RunPromptOptions<z.infer<O>> = {},
+): Promise<{ output: z.infer<O> | null; provenance: AiProvenance }> {
+  const identity = identities.get(prompt);
+  if (!identity) throw new Error(`The prompt for ${flow} wasn't defined with defineTrackedPrompt.`);
+  const { abortSignal, onPartial } = options;
+  abortSignal?.throwIfAborted();
+  const started = Date.now();
+  let response;
+  if (onPartial) {
+    const { stream, response: streamed } = prompt.stream(input, { abortSignal });
+    for await (const chunk of stream) {
+      // Genkit doesn't hand the signal on to the model yet, so stop relaying as soon as the caller has gone.
+      abortSignal?.throwIfAborted();
+      const partial = chunk.output as Partial<z.infer<O>> | null;
+      if (partial) onPartial(partial);
+    }
+    response = await streamed;
+  } else {
+    response = await prompt(input, { abortSignal });
+  }
+  return {
+    output: response.output,
+    provenance: {
+      flow,
+      prompt: identity.name,
+      promptHash: identity.hash,
+      model: identity.model,
+      temperature: identity.temperature,
+      usage: usageOf(response.usage),
+      latencyMs: Date.now() - started,
+      inputDigest: digest(input),
+      generatedAt: new Date().toISOString(),
+    },
+  };
+}
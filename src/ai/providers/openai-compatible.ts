@@ -0,0 +1,147 @@
+import type { StreamingCallback } from 'genkit';
+import type { GenerateRequest, GenerateResponseChunkData, GenerateResponseData, MessageData } from 'genkit/model';
+import { genkitPlugin, type GenkitPlugin } from 'genkit/plugin';
+import { ModelProviderError } from './types';
+
+/**
+ * Any server that speaks the OpenAI chat completions API: OpenAI itself, Azure, or a local
+ * Ollama, vLLM or llama.cpp server. Models are registered as `openai-compatible/<model>`.
+ */
+
+export interface OpenAICompatibleOptions {
+  /** e.g. `https://api.openai.com/v1` or `http://localhost:11434/v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  models: string[];
+}
+
+type ChatPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+type ChatContent = string | ChatPart[];
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: ChatContent;
+}
+
+interface ChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+interface ChatCompletion {
+  choices: { message: { content: string | null }; finish_reason: string }[];
+  usage?: ChatUsage;
+}
+
+/** One `data:` event of a streamed completion. Usage comes in a final event with no choices. */
+interface ChatCompletionChunk {
+  choices: { delta: { content?: string | null }; finish_reason: string | null }[];
+  usage?: ChatUsage | null;
+}
+
+type SendChunk = StreamingCallback<GenerateResponseChunkData>;
+
+const CHAT_ROLES: Record<string, ChatMessage['role'] | undefined> = { system: 'system', user: 'user', model: 'assistant' };
+
+/** Plain text is sent as a string, which local servers without image support also accept. */
+function toChatMessage(message: MessageData): ChatMessage | null {
+  const role = CHAT_ROLES[message.role];
+  if (!role) return null;
+  const parts = message.content.flatMap((part): ChatPart[] => {
+    if (part.text !== undefined) return [{ type: 'text', text: part.text }];
+    if (part.media) return [{ type: 'image_url', image_url: { url: part.media.url } }];
+    return [];
+  });
+  const textOnly = parts.every(p => p.type === 'text');
+  return { role, content: textOnly ? parts.map(p => (p.type === 'text' ? p.text : '')).join('') : parts };
+}
+
+const FINISH_REASONS: Record<string, GenerateResponseData['finishReason']> = { stop: 'stop', length: 'length', content_filter: 'blocked' };
+
+function toResponse(text: string, finishReason: string | null, usage: ChatUsage | null | undefined): GenerateResponseData {
+  return {
+    message: { role: 'model', content: [{ text }] },
+    finishReason: (finishReason && FINISH_REASONS[finishReason]) || 'other',
+    ...(usage ? {
+      usage: {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      },
+    } : {}),
+  };
+}
+
+/** Reads a server-sent event stream, passing each piece of text on as it arrives. */
+async function readStream(model: string, body: ReadableStream<Uint8Array>, sendChunk: SendChunk): Promise<GenerateResponseData> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  let text = '';
+  let finishReason: string | null = null;
+  let usage: ChatUsage | null | undefined;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith('data:')) continue;
+      const payload = data.slice('data:'.length).trim();
+      if (payload === '[DONE]') return toResponse(text, finishReason, usage);
+      const chunk = JSON.parse(payload) as ChatCompletionChunk;
+      const choice = chunk.choices[0];
+      if (choice?.delta.content) {
+        text += choice.delta.content;
+        sendChunk({ content: [{ text: choice.delta.content }] });
+      }
+      finishReason = choice?.finish_reason ?? finishReason;
+      usage = chunk.usage ?? usage;
+    }
+  }
+  if (!text) throw new ModelProviderError(`${model} ended its stream without a response.`, 'request_failed');
+  return toResponse(text, finishReason, usage);
+}
+
+/** Genkit passes `sendChunk` when the caller is streaming; the completion is then requested as a stream too. */
+async function complete(options: OpenAICompatibleOptions, model: string, request: GenerateRequest, sendChunk?: SendChunk): Promise<GenerateResponseData> {
+  const response = await fetch(`${options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      messages: request.messages.map(toChatMessage).filter(Boolean),
+      temperature: request.config?.temperature,
+      max_tokens: request.config?.maxOutputTokens,
+      ...(sendChunk ? { stream: true, stream_options: { include_usage: true } } : {}),
+    }),
+  });
+  if (!response.ok) {
+    throw new ModelProviderError(`${model} responded ${response.status}: ${await response.text()}`, 'request_failed');
+  }
+  if (sendChunk && response.body) {
+    return readStream(model, response.body, sendChunk);
+  }
+  const completion = await response.json() as ChatCompletion;
+  const choice = completion.choices[0];
+  if (!choice) throw new ModelProviderError(`${model} returned no choices.`, 'request_failed');
+  return toResponse(choice.message.content ?? '', choice.finish_reason, completion.usage);
+}
+
+export function openAICompatible(options: OpenAICompatibleOptions): GenkitPlugin {
+  return genkitPlugin('openai-compatible', async ai => {
+    for (const model of options.models) {
+      ai.defineModel({
+        name: `openai-compatible/${model}`,
+        label: `OpenAI-compatible - ${model}`,
+        // Not constrained: Genkit describes the output schema in the prompt, which every server understands
+        supports: { multiturn: true, media: true, systemRole: true, output: ['text', 'json'] },
+      }, (request, sendChunk) => complete(options, model, request, sendChunk));
+    }
+  });
+}
@@ -0,0 +1,56 @@
+import { googleAI } from '@genkit-ai/googleai';
+import { openAICompatible } from './openai-compatible';
+import { SCRIPTED_MODEL, scriptedModel } from './scripted';
+import { MODEL_PROVIDER_NAMES, ModelProviderError, type ModelProvider, type ModelProviderName, type ProviderEnv } from './types';
+
+/**
+ * The model providers the flows can run on, chosen by `AI_PROVIDER`. Without it the first
+ * configured provider wins, and with none configured the flows run on the scripted model.
+ *
+ *   googleai           GEMINI_API_KEY, optionally GEMINI_MODEL (default gemini-2.0-flash)
+ *   openai-compatible  OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL, optionally OPENAI_COMPATIBLE_API_KEY
+ *   scripted           nothing; canned outputs from ./scripted-outputs.ts
+ */
+
+export const MODEL_PROVIDERS: Record<ModelProviderName, ModelProvider> = {
+  googleai: {
+    label: 'Google AI (Gemini)',
+    configBlocker: env => (env.GEMINI_API_KEY ? null : 'Set GEMINI_API_KEY.'),
+    plugin: env => googleAI({ apiKey: env.GEMINI_API_KEY }),
+    defaultModel: env => `googleai/${env.GEMINI_MODEL || 'gemini-2.0-flash'}`,
+  },
+  'openai-compatible': {
+    label: 'OpenAI-compatible endpoint',
+    configBlocker: env => (env.OPENAI_COMPATIBLE_BASE_URL && env.OPENAI_COMPATIBLE_MODEL
+      ? null
+      : 'Set OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL.'),
+    plugin: env => openAICompatible({
+      baseUrl: env.OPENAI_COMPATIBLE_BASE_URL!,
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+      models: [env.OPENAI_COMPATIBLE_MODEL!],
+    }),
+    defaultModel: env => `openai-compatible/${env.OPENAI_COMPATIBLE_MODEL}`,
+  },
+  scripted: {
+    label: 'Scripted (offline)',
+    configBlocker: () => null,
+    plugin: () => scriptedModel(),
+    defaultModel: () => SCRIPTED_MODEL,
+  },
+};
+
+const isProviderName = (name: string): name is ModelProviderName => (MODEL_PROVIDER_NAMES as readonly string[]).includes(name);
+
+/** The provider for this environment; naming a provider that isn't configured is an error rather than a silent fallback. */
+export function selectModelProvider(env: ProviderEnv): ModelProviderName {
+  const requested = env.AI_PROVIDER?.trim();
+  if (requested) {
+    if (!isProviderName(requested)) {
+      throw new ModelProviderError(`Unknown AI_PROVIDER "${requested}"; use one of ${MODEL_PROVIDER_NAMES.join(', ')}.`, 'unknown_provider');
+    }
+    const blocker = MODEL_PROVIDERS[requested].configBlocker(env);
+    if (blocker) throw new ModelProviderError(`AI_PROVIDER is ${requested}, but it isn't configured. ${blocker}`, 'not_configured');
+    return requested;
+  }
+  return MODEL_PROVIDER_NAMES.find(name => name !== 'scripted' && !MODEL_PROVIDERS[name].configBlocker(env)) ?? 'scripted';
+}
@@ -0,0 +1,186 @@
+import type { AnalyzeHealthOutput } from '@/ai/flows/analyze-health-flow';
+import type { AnalyzeMealOutput } from '@/ai/flows/analyze-meal-flow';
+import type { CheckFoodSuitabilityOutput } from '@/ai/flows/check-food-suitability-flow';
+import type { ComprehensiveAnalysisOutput } from '@/ai/flows/comprehensive-analysis-flow';
+import type { ComprehensiveCaseReviewOutput } from '@/ai/flows/comprehensive-case-review-flow';
+import type { ConductInterviewOutput } from '@/ai/flows/conduct-interview-flow';
+import type { ContinueInvestigationOutput } from '@/ai/flows/continue-investigation-flow';
+import type { ExtractDataFromImageOutput } from '@/ai/flows/extract-data-from-image-flow';
+import type { ExtractLabReportOutput } from '@/ai/flows/extract-lab-report-flow';
+import type { FollowUpOutput } from '@/ai/flows/follow-up-flow';
+import type { GenerateBmiAdviceOutput } from '@/ai/flows/generate-bmi-advice-flow';
+import type { GenerateDietPlanOutput } from '@/ai/flows/generate-diet-plan-flow';
+import type { GenerateMonthlyReportOutput } from '@/ai/flows/generate-monthly-report-flow';
+import type { AskLifelineOutput } from '@/ai/flows/lifeline-ai-flow';
+import type { StartInvestigationOutput } from '@/ai/flows/start-investigation-flow';
+import type { SystemSupportOutput } from '@/ai/flows/system-support-flow';
+
+/**
+ * What the scripted model answers for each flow's prompt. Every output satisfies its prompt's
+ * output schema, so the flows run end to end offline; the type imports keep them in step
+ * when a schema changes.
+ */
+
+const SCRIPTED = '[Scripted response]';
+
+export interface ScriptedOutputs {
+  analyzeHealth: AnalyzeHealthOutput;
+  analyzeMeal: AnalyzeMealOutput;
+  checkFoodSuitability: CheckFoodSuitabilityOutput;
+  performComprehensiveAnalysis: ComprehensiveAnalysisOutput;
+  performComprehensiveCaseReview: ComprehensiveCaseReviewOutput;
+  conductInterview: ConductInterviewOutput;
+  continueInvestigation: ContinueInvestigationOutput;
+  extractDataFromImage: ExtractDataFromImageOutput;
+  // The prompt returns reference ranges as printed; the flow parses them afterwards
+  extractLabReport: Omit<ExtractLabReportOutput, 'analytes'> & { analytes: Omit<ExtractLabReportOutput['analytes'][number], 'referenceRange'>[] };
+  conductFollowUp: FollowUpOutput;
+  generateBmiAdvice: GenerateBmiAdviceOutput;
+  generateDietPlan: GenerateDietPlanOutput;
+  generateMonthlyReport: GenerateMonthlyReportOutput;
+  askLifeline: AskLifelineOutput;
+  startInvestigation: StartInvestigationOutput;
+  answerSystemQuestion: SystemSupportOutput;
+}
+
+export type ScriptedFlow = keyof ScriptedOutputs;
+
+export const SCRIPTED_OUTPUTS: ScriptedOutputs = {
+  analyzeHealth: {
+    summary: `${SCRIPTED} Your blood pressure is slightly above the normal range; your other readings are normal.`,
+    advice: 'Reduce salt in your meals, stay active and recheck your blood pressure in a week.',
+    urgency: 'Mild',
+    potentialConditions: [
+      { condition: 'Elevated blood pressure', probability: 40, explanation: 'Systolic readings are between 130 and 139 mmHg.' },
+    ],
+  },
+  analyzeMeal: {
+    overallAssessment: `${SCRIPTED} A balanced meal with a generous portion of starch.`,
+    healthScore: 68,
+    mainComponents: [
+      { name: 'Jollof rice', isHealthy: false, reason: 'A large serving of refined starch raises blood sugar quickly.' },
+      { name: 'Grilled chicken', isHealthy: true, reason: 'Lean protein with little added fat.' },
+      { name: 'Salad', isHealthy: true, reason: 'Fibre and vitamins from fresh vegetables.' },
+    ],
+    healthierAlternative: 'Halve the rice and add more vegetables or beans.',
+    healthTips: ['Drink water instead of soft drinks with meals.', 'Eat slowly and stop when you are comfortably full.'],
+  },
+  checkFoodSuitability: {
+    isSuitable: 'In Moderation',
+    explanation: `${SCRIPTED} This food is fine in small portions alongside vegetables and protein.`,
+    contextualTips: ['Keep portions to a fist-sized serving.'],
+  },
+  performComprehensiveAnalysis: {
+    keyObservations: [`${SCRIPTED} Blood pressure has risen slowly over the last month.`],
+    deepInsights: [
+      { insight: 'Morning readings run higher than evening readings.', supportingData: 'Eight of ten morning systolic readings are above 130 mmHg.' },
+    ],
+    overallAssessment: 'Your readings are mostly stable, with a gradual rise in blood pressure worth watching.',
+    criticalityScore: 35,
+    urgency: 'Mild',
+  },
+  performComprehensiveCaseReview: {
+    holisticSummary: `${SCRIPTED} Headaches with raised blood pressure, confirmed by lab results within normal limits for kidney function.`,
+    finalDiagnosis: [
+      { condition: 'Stage 1 hypertension', probability: 75, reasoning: 'Repeated readings above 130/80 mmHg with typical symptoms.' },
+    ],
+    suggestedTreatmentPlan: {
+      medications: [{ name: 'Amlodipine', dosage: '5mg once daily' }],
+      lifestyleChanges: ['Reduce salt intake', 'Walk for 30 minutes on most days'],
+      followUp: 'Re-evaluate in 4 weeks.',
+    },
+    isCaseResolvable: true,
+  },
+  conductInterview: {
+    nextQuestion: `${SCRIPTED} When did your symptoms start, and have they changed since?`,
+    isFinalQuestion: false,
+    questionCount: 1,
+  },
+  continueInvestigation: {
+    refinedAnalysis: `${SCRIPTED} The lab results support the initial assessment and rule out kidney involvement.`,
+    potentialConditions: [
+      { condition: 'Stage 1 hypertension', probability: 70, reasoning: 'Normal creatinine with persistently raised readings.' },
+    ],
+    suggestedNextSteps: { suggestedLabTests: [], preliminaryMedications: [] },
+    isFinalDiagnosisPossible: true,
+    justification: 'No further tests are needed to confirm the diagnosis.',
+    urgency: 'Medium',
+  },
+  extractDataFromImage: {
+    readings: [{
+      kind: 'vitals',
+      vitals: {
+        systolic: { value: 128, unit: 'mmHg' },
+        diastolic: { value: 82, unit: 'mmHg' },
+        pulseRate: { value: 74, unit: 'bpm' },
+      },
+      fieldConfidence: { systolic: 95, diastolic: 95, pulseRate: 90 },
+    }],
+    analysisSummary: `${SCRIPTED} Found one blood pressure reading of 128/82 mmHg with a pulse of 74 bpm.`,
+    confidenceScore: 90,
+  },
+  extractLabReport: {
+    analytes: [
+      { name: 'Haemoglobin', value: 13.2, valueText: '13.2', unit: 'g/dL', flag: 'normal' },
+      { name: 'Serum Creatinine', value: 0.9, valueText: '0.9', unit: 'mg/dL', flag: 'normal' },
+    ],
+    summary: `${SCRIPTED} Haemoglobin and creatinine within normal limits.`,
+    confidenceScore: 90,
+  },
+  conductFollowUp: {
+    progressSummary: `${SCRIPTED} Your readings have improved since your last check-in.`,
+    isImproving: true,
+    alertDoctor: false,
+    recommendation: 'Continue with the current plan.',
+  },
+  generateBmiAdvice: {
+    advice: `${SCRIPTED} A 20-minute walk each day helps keep your weight, blood pressure and blood sugar in a healthy range.`,
+  },
+  generateDietPlan: {
+    foodsToAvoid: [
+      { name: 'Sugary Drinks', reason: 'They raise blood sugar quickly.' },
+      { name: 'Oily & Fried Foods', reason: 'They add saturated fat and calories.' },
+      { name: 'Processed Meats', reason: 'They are high in salt.' },
+    ],
+    recommendedFoods: [
+      { name: 'Leafy Greens', reason: 'Rich in fibre and potassium.' },
+      { name: 'Beans', reason: 'Protein and fibre that release energy slowly.' },
+      { name: 'Unripe Plantain', reason: 'A starch with a lower glycaemic index.' },
+    ],
+    generalAdvice: [`${SCRIPTED} Drink at least 8 glasses of water daily.`, 'Practice portion control for all meals.', 'Eat fruit instead of sweets.'],
+  },
+  generateMonthlyReport: {
+    title: 'Monthly Health Report',
+    overallSummary: `${SCRIPTED} Your health was stable this month.`,
+    vitalsAnalysis: { title: 'Vitals Analysis', content: 'Blood pressure and blood sugar stayed within your target ranges.' },
+    testStripAnalysis: { title: 'Urine Test Strip Insights', content: 'All test strip results were negative.' },
+    trendsAndCorrelations: { title: 'Identified Trends & Correlations', insights: ['Readings were lower on days you logged exercise.'] },
+    riskAssessment: { title: 'Monthly Risk Assessment', level: 'Low', explanation: 'No readings were outside your target ranges.' },
+    recommendations: {
+      title: 'Personalized Recommendations & Medical Advice',
+      points: ['Keep logging your vitals twice a week.', 'Keep up your exercise routine.', 'Book a check-up if you notice new symptoms.'],
+    },
+  },
+  askLifeline: {
+    answer: `${SCRIPTED} Most adults need 7 to 9 hours of sleep a night.`,
+    disclaimer: 'This is general information, not medical advice. Consult a doctor about your own health.',
+  },
+  startInvestigation: {
+    analysisSummary: `${SCRIPTED} Recurring headaches over two weeks with mildly raised blood pressure readings.`,
+    potentialConditions: [
+      { condition: 'Tension headache', probability: 50, reasoning: 'Headaches worsen with stress and screen time.' },
+      { condition: 'Stage 1 hypertension', probability: 35, reasoning: 'Recent readings are between 130/80 and 139/89 mmHg.' },
+    ],
+    suggestedNextSteps: {
+      preliminaryMedications: [{ name: 'Paracetamol', dosage: '500mg every 6 hours as needed, for up to 3 days' }],
+      suggestedLabTests: ['Serum electrolytes, urea and creatinine'],
+    },
+    justification: 'Kidney function tests help tell primary hypertension apart from a secondary cause.',
+    urgency: 'Medium',
+    suggestedSpecialty: 'General Practice',
+    followUpPlan: 'Ask the patient to upload lab results within 3 days.',
+  },
+  answerSystemQuestion: {
+    answer: `${SCRIPTED} Open **Clinic** from the menu, describe your symptoms and answer the AI doctor's questions to submit a case.`,
+  },
+};
@@ -0,0 +1,94 @@
+import type { GenerateRequest, GenerateResponseData } from 'genkit/model';
+import { genkitPlugin, type GenkitPlugin } from 'genkit/plugin';
+import { SCRIPTED_OUTPUTS, type ScriptedFlow } from './scripted-outputs';
+
+/**
+ * A model that never leaves the machine. It recognises which flow is asking from the output
+ * schema on the request and answers with that flow's scripted output, so development and
+ * tests run without an API key or network. A prompt with no script gets the simplest value
+ * its schema accepts.
+ */
+
+export const SCRIPTED_MODEL = 'scripted/lifeline';
+
+const STREAM_CHUNK_LENGTH = 12;
+
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  minItems?: number;
+  default?: unknown;
+}
+
+/** The output has every key the schema requires and none it doesn't know. */
+function fitsSchema(output: object, schema: JsonSchema): boolean {
+  const keys = Object.keys(output);
+  const known = Object.keys(schema.properties ?? {});
+  return (schema.required ?? []).every(key => keys.includes(key)) && keys.every(key => known.includes(key));
+}
+
+export function scriptedFlowFor(schema: JsonSchema): ScriptedFlow | null {
+  const match = (Object.keys(SCRIPTED_OUTPUTS) as ScriptedFlow[]).find(flow => fitsSchema(SCRIPTED_OUTPUTS[flow], schema));
+  return match ?? null;
+}
+
+/** The simplest value a schema accepts: first enum members, minimums, and only required properties. */
+export function sampleFromSchema(schema: JsonSchema): unknown {
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.anyOf?.length) return sampleFromSchema(schema.anyOf[0]);
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries((schema.required ?? []).map(key => [key, sampleFromSchema(schema.properties?.[key] ?? {})]));
+    case 'array':
+      return Array.from({ length: schema.minItems ?? 0 }, () => sampleFromSchema(schema.items ?? {}));
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return '[Scripted response]';
+  }
+}
+
+function respond(request: GenerateRequest): GenerateResponseData {
+  const schema = request.output?.schema as JsonSchema | undefined;
+  let text: string;
+  if (!schema) {
+    text = '[Scripted response] This reply comes from the offline model.';
+  } else {
+    const flow = scriptedFlowFor(schema);
+    text = JSON.stringify(flow ? SCRIPTED_OUTPUTS[flow] : sampleFromSchema(schema));
+  }
+  return { message: { role: 'model', content: [{ text }] }, finishReason: 'stop' };
+}
+
+export function scriptedModel(): GenkitPlugin {
+  return genkitPlugin('scripted', async ai => {
+    ai.defineModel({
+      name: SCRIPTED_MODEL,
+      label: 'Scripted (offline)',
+      // Constrained, so Genkit passes the output schema through instead of describing it in the prompt
+      supports: { multiturn: true, media: true, systemRole: true, output: ['text', 'json'], constrained: 'all' },
+    }, async (request, sendChunk) => {
+      const response = respond(request);
+      if (sendChunk) {
+        // Stream in small pieces so the chat views can be tried without a real model.
+        const text = response.message!.content[0].text!;
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_LENGTH) {
+          sendChunk({ content: [{ text: text.slice(i, i + STREAM_CHUNK_LENGTH) }] });
+        }
+      }
+      return response;
+    });
+  });
+}
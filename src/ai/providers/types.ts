@@ -0,0 +1,23 @@
+import type { GenkitPlugin } from 'genkit/plugin';
+
+export const MODEL_PROVIDER_NAMES = ['googleai', 'openai-compatible', 'scripted'] as const;
+export type ModelProviderName = typeof MODEL_PROVIDER_NAMES[number];
+
+/** Environment variables, as in `process.env`. */
+export type ProviderEnv = Record<string, string | undefined>;
+
+export interface ModelProvider {
+  label: string;
+  /** Why the provider can't run with this environment, or null when it can. */
+  configBlocker: (env: ProviderEnv) => string | null;
+  plugin: (env: ProviderEnv) => GenkitPlugin;
+  /** The model every flow uses unless its prompt names another. */
+  defaultModel: (env: ProviderEnv) => string;
+}
+
+export class ModelProviderError extends Error {
+  constructor(message: string, public code: 'unknown_provider' | 'not_configured' | 'request_failed') {
+    super(message);
+    this.name = 'ModelProviderError';
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Streaming for the chat flows. A flow streams one text field of its output (the interview
+ * question, the answer) as it is generated, and a route handler relays it to the browser as
+ * newline-delimited JSON events, ending with the full structured result.
+ *
+ * Closing the request (the user cancels, or leaves the page) aborts the flow: nothing more is
+ * sent and the result is dropped.
+ */
+
+/** One line of a streamed response. `text` is everything generated so far, not just the new tokens. */
+export type StreamEvent<O> = { text: string } | { result: O } | { error: string };
+
+export interface FlowStreamOptions {
+  onChunk: (text: string) => void;
+  abortSignal: AbortSignal;
+}
+
+/** Passes a text field of the partial output on to `sendChunk` each time it grows. */
+export function streamField<T>(field: keyof T, sendChunk: (text: string) => void): (partial: Partial<T>) => void {
+  let sent = '';
+  return partial => {
+    const text = partial[field];
+    if (typeof text === 'string' && text !== sent) {
+      sent = text;
+      sendChunk(text);
+    }
+  };
+}
+
+/** A POST route handler that runs a flow's streaming variant on the JSON body. */
+export function streamingRoute<I, O>(run: (input: I, options: FlowStreamOptions) => Promise<O>) {
+  return async (request: Request): Promise<Response> => {
+    let input: I;
+    try {
+      input = await request.json();
+    } catch {
+      return Response.json({ error: 'The request body must be JSON.' }, { status: 400 });
+    }
+
+    const controller = new AbortController();
+    request.signal.addEventListener('abort', () => controller.abort());
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(sink) {
+        const send = (event: StreamEvent<O>) => {
+          if (!controller.signal.aborted) sink.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        };
+        try {
+          const result = await run(input, { onChunk: text => send({ text }), abortSignal: controller.signal });
+          send({ result });
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            console.error('Streaming flow failed:', error);
+            send({ error: error instanceof Error ? error.message : 'The AI model failed to respond.' });
+          }
+        } finally {
+          try {
+            sink.close();
+          } catch {
+            // Already cancelled by the client.
+          }
+        }
+      },
+      cancel() {
+        controller.abort();
+      },
+    });
+
+    return new Response(body, {
+      headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache, no-transform' },
+    });
+  };
+}
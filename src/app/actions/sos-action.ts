@@ -0,0 +1,34 @@
+'use server';
+
+import { db } from '@/lib/firebase';
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { fetchGuardians } from '@/lib/guardians-store';
+import { notifyGuardians, type NotificationResult } from '@/lib/notifier';
+import { composeSosMessage, type SosAlert } from '@/lib/alerts';
+
+/**
+ * Notifies every guardian of a recorded SOS alert and stores the per-channel
+ * delivery results back on the alert document.
+ */
+export async function dispatchSosAlert(input: { userId: string; alertId: string }): Promise<NotificationResult[]> {
+    const { userId, alertId } = input;
+    const alertRef = doc(db, `users/${userId}/alerts`, alertId);
+
+    const [alertSnap, userSnap, guardians] = await Promise.all([
+        getDoc(alertRef),
+        getDoc(doc(db, 'users', userId)),
+        fetchGuardians(userId),
+    ]);
+
+    if (!alertSnap.exists() || alertSnap.data().type !== 'sos') {
+        throw new Error("SOS alert not found.");
+    }
+
+    const alert = alertSnap.data() as Omit<SosAlert, 'id'>;
+    const profile = userSnap.data();
+    const { subject, body } = composeSosMessage(alert, profile?.name || profile?.username || 'A Lifeline user', profile?.phone);
+
+    const dispatches = await notifyGuardians(guardians, { subject, body, alertId });
+    await updateDoc(alertRef, { dispatches, dispatchedAt: new Date().toISOString() });
+    return dispatches;
+}
@@ -0,0 +1,5 @@
+import { VerificationQueue } from "@/components/admin/verification-queue";
+
+export default function AdminVerificationsPage() {
+  return <VerificationQueue />;
+}
@@ -0,0 +1,4 @@
+import { streamConductInterview } from '@/ai/flows/conduct-interview-flow';
+import { streamingRoute } from '@/ai/streaming';
+
+export const POST = streamingRoute(streamConductInterview);
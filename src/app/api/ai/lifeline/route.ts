@@ -0,0 +1,4 @@
+import { streamAskLifeline } from '@/ai/flows/lifeline-ai-flow';
+import { streamingRoute } from '@/ai/streaming';
+
+export const POST = streamingRoute(streamAskLifeline);
@@ -0,0 +1,4 @@
+import { streamAnswerSystemQuestion } from '@/ai/flows/system-support-flow';
+import { streamingRoute } from '@/ai/streaming';
+
+export const POST = streamingRoute(streamAnswerSystemQuestion);
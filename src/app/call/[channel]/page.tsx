@@ -1,26 +1,9 @@
-
 "use client";
 
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import Link from "next/link";
-import { Button } from "@/components/ui/button";
+import { useParams } from 'next/navigation';
+import { ConsultationCall } from '@/components/call/consultation-call';
 
-export default function DeprecatedCallPage() {
-    return (
-        <div className="flex items-center justify-center h-screen">
-            <Card className="w-full max-w-md">
-                <CardHeader>
-                    <CardTitle>Feature Updated</CardTitle>
-                </CardHeader>
-                <CardContent className="text-center">
-                    <p className="text-muted-foreground mb-4">
-                        Live video calls have been replaced by our new 24/7 Admission service.
-                    </p>
-                    <Button asChild>
-                        <Link href="/investigation">Start an Admission</Link>
-                    </Button>
-                </CardContent>
-            </Card>
-        </div>
-    );
+export default function ConsultationCallPage() {
+  const { channel } = useParams<{ channel: string }>();
+  return <ConsultationCall roomId={channel} />;
 }
@@ -1,26 +1,38 @@
-
 "use client";
 
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import Link from "next/link";
-import { Button } from "@/components/ui/button";
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/context/auth-provider';
+import { ConsultationList } from '@/components/call/consultation-list';
+import { fetchMyConsultations } from '@/lib/consultation-rooms-store';
+import { JOIN_EARLY_MINUTES, type ConsultationRoom } from '@/lib/consultation-rooms';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export default function ConsultationsPage() {
+  const { user } = useAuth();
+  const [rooms, setRooms] = useState<ConsultationRoom[] | null>(null);
+
+  const load = () => {
+    if (!user) return;
+    fetchMyConsultations(user.uid)
+      .then(all => setRooms(all.filter(room => room.status === 'scheduled' || room.status === 'in_progress')))
+      .catch(error => {
+        console.error("Error loading consultations:", error);
+        setRooms([]);
+      });
+  };
+
+  useEffect(load, [user]);
 
-export default function DeprecatedCallPage() {
-    return (
-        <div className="flex items-center justify-center h-screen">
-            <Card className="w-full max-w-md">
-                <CardHeader>
-                    <CardTitle>Feature Updated</CardTitle>
-                </CardHeader>
-                <CardContent className="text-center">
-                    <p className="text-muted-foreground mb-4">
-                        Live video calls have been replaced by our new 24/7 Admission service.
-                    </p>
-                    <Button asChild>
-                        <Link href="/investigation">Start an Admission</Link>
-                    </Button>
-                </CardContent>
-            </Card>
-        </div>
-    );
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle>Video Consultations</CardTitle>
+        <CardDescription>Your upcoming consultations. The room opens {JOIN_EARLY_MINUTES} minutes before the scheduled time.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!rooms || !user ? <Loader2 className="animate-spin" /> : <ConsultationList rooms={rooms} viewerUid={user.uid} onChange={load} />}
+      </CardContent>
+    </Card>
+  );
 }
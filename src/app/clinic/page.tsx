@@ -1,6 +1,12 @@
 
+import { Suspense } from "react";
 import { HealthClinic } from "@/components/clinic/health-clinic";
+import { Loader } from "@/components/ui/loader";
 
 export default function ClinicPage() {
-  return <HealthClinic />;
+  return (
+    <Suspense fallback={<Loader />}>
+      <HealthClinic />
+    </Suspense>
+  );
 }
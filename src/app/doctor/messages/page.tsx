@@ -1,5 +1,11 @@
+import { Suspense } from "react";
 import { MessagesDashboard } from "@/components/doctor/messages";
+import { Loader } from "@/components/ui/loader";
 
 export default function DoctorMessagesPage() {
-  return <MessagesDashboard />;
+  return (
+    <Suspense fallback={<Loader />}>
+      <MessagesDashboard />
+    </Suspense>
+  );
 }
@@ -1,5 +1,10 @@
 import { DoctorProfileManager } from '@/components/doctor/profile-manager';
+import { DoctorProfileProvider } from '@/context/doctor-profile-provider';
 
 export default function DoctorProfilePage() {
-  return <DoctorProfileManager />;
+  return (
+    <DoctorProfileProvider>
+      <DoctorProfileManager />
+    </DoctorProfileProvider>
+  );
 }
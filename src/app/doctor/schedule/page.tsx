@@ -0,0 +1,5 @@
+import { DoctorSchedule } from "@/components/doctor/schedule";
+
+export default function DoctorSchedulePage() {
+  return <DoctorSchedule />;
+}
@@ -0,0 +1,5 @@
+import { DoctorVerificationPanel } from "@/components/doctor/verification";
+
+export default function DoctorVerificationPage() {
+  return <DoctorVerificationPanel />;
+}
@@ -0,0 +1,5 @@
+import { LabResults } from "@/components/labs/lab-results";
+
+export default function LabResultsPage() {
+  return <LabResults />;
+}
@@ -2,7 +2,7 @@
 "use client"
 
 import * as React from "react"
-import { Shield, LogOut, Settings, Newspaper, BookOpen, Bot } from "lucide-react"
+import { Shield, LogOut, Settings, Newspaper, BookOpen, Bot, BadgeCheck } from "lucide-react"
 import { usePathname, useRouter } from "next/navigation"
 import { signOut } from "firebase/auth"
 import { auth } from "@/lib/firebase"
@@ -52,6 +52,15 @@ function AdminAppShellInternal({ children }: { children: React.ReactNode }) {
                         </SidebarMenuButton>
                     </Link>
                 </Wrapper>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+                 <Wrapper {...wrapperProps}>
+                    <Link href="/admin/verifications">
+                        <SidebarMenuButton asChild isActive={pathname.startsWith('/admin/verifications')} tooltip="Verifications" icon={<BadgeCheck/>}>
+                            <span>Verifications</span>
+                        </SidebarMenuButton>
+                    </Link>
+                </Wrapper>
             </SidebarMenuItem>
              <SidebarMenuItem>
                  <Wrapper {...wrapperProps}>
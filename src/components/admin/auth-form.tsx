@@ -8,7 +8,7 @@ import * as z from 'zod';
 import { useRouter } from 'next/navigation';
 import { createUserWithEmailAndPassword, signInWithEmailAndPassword, updateProfile, sendPasswordResetEmail, signInWithPopup, GoogleAuthProvider, UserCredential } from 'firebase/auth';
 import { auth, db, googleProvider } from '@/lib/firebase';
-import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent, CardDescription, CardFooter } from "@/components/ui/card";
@@ -17,7 +17,6 @@ import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { Shield, ArrowLeft, ShieldAlert, Bot, Eye, EyeOff } from 'lucide-react';
 import { Loader } from '../ui/loader';
-import type { UserRole } from '@/context/auth-provider';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from '../ui/label';
@@ -90,14 +89,10 @@ export function AdminAuthForm() {
             await auth.signOut();
             throw new Error("Admin sign-ups are currently disabled.");
         }
-        await setDoc(userDocRef, {
-            role: 'admin' as UserRole,
-            name: user.displayName,
-            email: user.email,
-            status: 'pending',
-            permissions: { canManageSystem: false }
-        });
-        toast({ title: "Admin Account Created", description: "Your account is pending approval." });
+        // The rules don't let a client give itself the admin role; an existing administrator grants it outside the app
+        await auth.signOut();
+        toast({ title: "Admin Account Created", description: "An existing administrator must grant your account admin access before you can log in." });
+        return;
     } else {
         if (!docSnap.exists() || docSnap.data().role !== 'admin') {
             await auth.signOut();
@@ -12,7 +12,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Form, FormControl, FormField, FormItem, FormLabel } from '@/components/ui/form';
-import { Loader2, ShieldCheck, UserCog, UserPlus, Stethoscope, Users, MoreVertical, Trash2, ShieldX, ShieldQuestion, ToggleRight, ShieldAlert } from 'lucide-react';
+import { Loader2, ShieldCheck, UserCog, UserPlus, Stethoscope, Syringe, Users, MoreVertical, Trash2, ShieldX, ShieldQuestion, ToggleRight, ShieldAlert } from 'lucide-react';
 import { Skeleton } from '../ui/skeleton';
 import { useAuth } from '@/context/auth-provider';
 import {
@@ -41,6 +41,7 @@ const settingsSchema = z.object({
   signupControls: z.object({
     isPatientSignupDisabled: z.boolean().default(false),
     isDoctorSignupDisabled: z.boolean().default(false),
+    isNurseSignupDisabled: z.boolean().default(false),
     isAdminSignupDisabled: z.boolean().default(true),
   }),
   featureFlags: z.object({
@@ -77,6 +78,7 @@ export function AdminDashboard() {
       signupControls: {
         isPatientSignupDisabled: false,
         isDoctorSignupDisabled: false,
+        isNurseSignupDisabled: false,
         isAdminSignupDisabled: true,
       },
       featureFlags: {
@@ -207,6 +209,7 @@ export function AdminDashboard() {
                     <div className="space-y-4 group-disabled:opacity-50 group-disabled:cursor-not-allowed">
                       <FormField control={settingsForm.control} name="signupControls.isPatientSignupDisabled" render={({ field }) => (<FormItem className="flex flex-row items-center justify-between rounded-lg border p-4"><div className="space-y-0.5"><FormLabel className="text-base flex items-center gap-2"><UserPlus/> Patient Sign-ups</FormLabel></div><FormControl><Switch checked={!field.value} onCheckedChange={(checked) => field.onChange(!checked)} /></FormControl></FormItem>)} />
                       <FormField control={settingsForm.control} name="signupControls.isDoctorSignupDisabled" render={({ field }) => (<FormItem className="flex flex-row items-center justify-between rounded-lg border p-4"><div className="space-y-0.5"><FormLabel className="text-base flex items-center gap-2"><Stethoscope/> Doctor Sign-ups</FormLabel></div><FormControl><Switch checked={!field.value} onCheckedChange={(checked) => field.onChange(!checked)}/></FormControl></FormItem>)} />
+                      <FormField control={settingsForm.control} name="signupControls.isNurseSignupDisabled" render={({ field }) => (<FormItem className="flex flex-row items-center justify-between rounded-lg border p-4"><div className="space-y-0.5"><FormLabel className="text-base flex items-center gap-2"><Syringe/> Nurse Sign-ups</FormLabel></div><FormControl><Switch checked={!field.value} onCheckedChange={(checked) => field.onChange(!checked)}/></FormControl></FormItem>)} />
                       <FormField control={settingsForm.control} name="signupControls.isAdminSignupDisabled" render={({ field }) => (<FormItem className="flex flex-row items-center justify-between rounded-lg border p-4 bg-secondary/50"><div className="space-y-0.5"><FormLabel className="text-base flex items-center gap-2"><ShieldCheck/> Admin Sign-ups</FormLabel></div><FormControl><Switch checked={!field.value} onCheckedChange={(checked) => field.onChange(!checked)} /></FormControl></FormItem>)} />
                     </div>
                   </fieldset>
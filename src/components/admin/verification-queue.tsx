@@ -0,0 +1,156 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { BadgeCheck, FileText, Loader2 } from 'lucide-react';
+import { useAuth } from '@/context/auth-provider';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DECISION_LABELS,
+  decisionBlocker,
+  type DoctorVerification,
+  type LicenseDocument,
+  type VerificationDecision,
+} from '@/lib/doctor-verification';
+import { fetchLicenseDocuments, fetchVerificationQueue, reviewVerification } from '@/lib/doctor-verification-store';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '../ui/skeleton';
+
+const DECISIONS: VerificationDecision[] = ['approve', 'request_info', 'reject'];
+
+function ApplicationCard({ application, onDecided }: { application: DoctorVerification; onDecided: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<LicenseDocument[] | null>(null);
+  const [note, setNote] = useState('');
+  const [deciding, setDeciding] = useState<VerificationDecision | null>(null);
+
+  useEffect(() => {
+    fetchLicenseDocuments(application.doctorUid)
+      .then(setDocuments)
+      .catch(error => {
+        console.error("Error loading license documents:", error);
+        setDocuments([]);
+      });
+  }, [application.doctorUid]);
+
+  const handleDecision = async (decision: VerificationDecision) => {
+    if (!user) return;
+    const blocker = decisionBlocker(application.status, decision, note);
+    if (blocker) {
+      toast({ variant: "destructive", title: "Add a Note", description: blocker });
+      return;
+    }
+    setDeciding(decision);
+    try {
+      await reviewVerification(application.doctorUid, decision, note, { uid: user.uid, name: user.username || 'Admin' });
+      toast({ title: "Decision Recorded", description: `${application.doctorName}: ${DECISION_LABELS[decision].toLowerCase()}.` });
+      onDecided();
+    } catch (error: any) {
+      console.error("Error reviewing verification:", error);
+      toast({ variant: "destructive", title: "Error", description: error.message || "Could not record the decision." });
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const resubmissions = application.history.filter(e => e.action === 'submitted').length - 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{application.doctorName}</CardTitle>
+        <CardDescription>
+          {application.specialty} · submitted {format(parseISO(application.submittedAt), 'MMM d, yyyy p')}
+          {resubmissions > 0 && ` · resubmitted ${resubmissions} time${resubmissions === 1 ? '' : 's'}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="grid sm:grid-cols-2 gap-2">
+          <p><span className="font-semibold">License number:</span> {application.licenseNumber}</p>
+          <p><span className="font-semibold">Issued by:</span> {application.licenseIssuer}</p>
+        </div>
+        <div className="space-y-1">
+          <p className="font-semibold">Documents</p>
+          {!documents ? <Loader2 className="h-4 w-4 animate-spin" /> : documents.length === 0 ? (
+            <p className="text-muted-foreground">No documents uploaded.</p>
+          ) : documents.map(document => (
+            <a key={document.id} href={document.dataUri} download={document.name} className="flex items-center gap-2 underline">
+              <FileText className="h-4 w-4 shrink-0" />{document.name}
+            </a>
+          ))}
+        </div>
+        {application.history.some(e => e.note) && (
+          <div className="space-y-1">
+            <p className="font-semibold">Earlier notes</p>
+            {application.history.filter(e => e.note).map(e => (
+              <p key={e.at} className="text-muted-foreground">{format(parseISO(e.at), 'MMM d')} · {e.byName}: {e.note}</p>
+            ))}
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor={`note-${application.doctorUid}`}>Note to the doctor</Label>
+          <Textarea
+            id={`note-${application.doctorUid}`}
+            placeholder="Required when rejecting or asking for more information"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+      </CardContent>
+      <CardFooter className="flex-wrap gap-2">
+        {DECISIONS.map(decision => (
+          <Button
+            key={decision}
+            variant={decision === 'approve' ? 'default' : decision === 'reject' ? 'destructive' : 'outline'}
+            onClick={() => handleDecision(decision)}
+            disabled={!!deciding}
+          >
+            {deciding === decision && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {DECISION_LABELS[decision]}
+          </Button>
+        ))}
+      </CardFooter>
+    </Card>
+  );
+}
+
+/** Doctors' license applications awaiting an admin's decision. */
+export function VerificationQueue() {
+  const [queue, setQueue] = useState<DoctorVerification[] | null>(null);
+
+  const load = useCallback(() => {
+    fetchVerificationQueue()
+      .then(setQueue)
+      .catch(error => {
+        console.error("Error loading verification queue:", error);
+        setQueue([]);
+      });
+  }, []);
+
+  useEffect(load, [load]);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">Doctor Verifications</h1>
+        <p className="text-muted-foreground">Check each doctor's license before they can review cases.</p>
+      </div>
+      {!queue ? (
+        <Skeleton className="h-48 w-full" />
+      ) : queue.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+            <BadgeCheck className="h-10 w-10" />
+            <p>No applications are waiting for review.</p>
+          </CardContent>
+        </Card>
+      ) : queue.map(application => (
+        <ApplicationCard key={application.doctorUid} application={application} onDecided={load} />
+      ))}
+    </div>
+  );
+}
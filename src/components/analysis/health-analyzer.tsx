@@ -9,6 +9,7 @@ import { format, parseISO } from 'date-fns';
 import Image from 'next/image';
 
 import { analyzeHealth, type AnalyzeHealthInput, type AnalyzeHealthOutput } from '@/ai/flows/analyze-health-flow';
+import type { AiProvenance, WithProvenance } from '@/ai/provenance';
 
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent, CardDescription, CardFooter } from "@/components/ui/card";
@@ -25,6 +26,7 @@ import { cn } from '@/lib/utils';
 import { useAuth } from '@/context/auth-provider';
 import { db } from '@/lib/firebase';
 import { collection, doc, getDocs, addDoc, query, orderBy } from 'firebase/firestore';
+import { VITAL_FIELDS, VITAL_DEFINITIONS, formatMeasurement, parseVitalsInput, validateVitals, type VitalField } from '@/lib/vitals';
 
 const markers = [
     { value: "protein", label: "Protein" }, { value: "glucose", label: "Glucose" }, { value: "ketones", label: "Ketones" },
@@ -49,6 +51,7 @@ interface HealthAnalysisRecord {
     timestamp: string;
     inputData: AnalyzeHealthInput;
     analysisResult: AnalyzeHealthOutput;
+    provenance?: AiProvenance;
 }
 
 const UrgencyConfig = {
@@ -63,7 +66,7 @@ export function HealthAnalyzer() {
     const { toast } = useToast();
 
     const [isLoading, setIsLoading] = useState(false);
-    const [analysisResult, setAnalysisResult] = useState<AnalyzeHealthOutput | null>(null);
+    const [analysisResult, setAnalysisResult] = useState<WithProvenance<AnalyzeHealthOutput> | null>(null);
     const [inputData, setInputData] = useState<AnalyzeHealthInput | null>(null);
     const [history, setHistory] = useState<HealthAnalysisRecord[]>([]);
     const [imageDataUri, setImageDataUri] = useState<string | null>(null);
@@ -104,9 +107,21 @@ export function HealthAnalyzer() {
         setIsLoading(true);
         setAnalysisResult(null);
 
-        const filledData: AnalyzeHealthInput = Object.fromEntries(
-            Object.entries(data).filter(([_, v]) => v && v !== '')
-        );
+        const vitals = parseVitalsInput(data);
+        const errors = validateVitals(vitals);
+        const invalidFields = Object.keys(errors) as VitalField[];
+        if (invalidFields.length > 0) {
+            invalidFields.forEach(field => form.setError(field as keyof AnalysisFormValues, { message: errors[field] }));
+            setIsLoading(false);
+            return;
+        }
+
+        const filledData: AnalyzeHealthInput = {
+            ...vitals,
+            ...Object.fromEntries(
+                Object.entries(data).filter(([key, v]) => !VITAL_FIELDS.includes(key as VitalField) && v && v !== '')
+            ),
+        };
 
         if (imageDataUri) {
             filledData.imageDataUri = imageDataUri;
@@ -138,10 +153,12 @@ export function HealthAnalyzer() {
     const saveAnalysis = async () => {
         if (!analysisResult || !inputData || !user) return;
         
+        const { provenance, ...result } = analysisResult;
         const record: Omit<HealthAnalysisRecord, 'id'> = {
             timestamp: new Date().toISOString(),
             inputData,
-            analysisResult,
+            analysisResult: result,
+            provenance,
         };
 
         const historyCollectionRef = collection(db, `users/${user.uid}/health_analyses`);
@@ -174,7 +191,7 @@ Advice:
 ${analysisResult.advice}
 ${imageIncluded}
 --- Input Data ---
-${Object.entries(inputData).filter(([key]) => key !== 'imageDataUri').map(([key, value]) => `${key}: ${value}`).join('\n')}
+${Object.entries(inputData).filter(([key]) => key !== 'imageDataUri').map(([key, value]) => `${key}: ${typeof value === 'object' ? formatMeasurement(value) : value}`).join('\n')}
         `.trim();
 
         if (navigator.share) {
@@ -203,12 +220,12 @@ ${Object.entries(inputData).filter(([key]) => key !== 'imageDataUri').map(([key,
                             <section>
                                 <h3 className="text-lg font-bold mb-2 flex items-center gap-2"><HeartPulse />Vitals</h3>
                                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-                                    <FormField control={form.control} name="systolic" render={({ field }) => (<FormItem><FormLabel>Systolic (mmHg)</FormLabel><FormControl><Input placeholder="120" {...field} /></FormControl></FormItem>)} />
-                                    <FormField control={form.control} name="diastolic" render={({ field }) => (<FormItem><FormLabel>Diastolic (mmHg)</FormLabel><FormControl><Input placeholder="80" {...field} /></FormControl></FormItem>)} />
-                                    <FormField control={form.control} name="bloodSugar" render={({ field }) => (<FormItem><FormLabel>Blood Sugar (mg/dL)</FormLabel><FormControl><Input placeholder="100" {...field} /></FormControl></FormItem>)} />
-                                    <FormField control={form.control} name="oxygenSaturation" render={({ field }) => (<FormItem><FormLabel>Oxygen Sat. (%)</FormLabel><FormControl><Input placeholder="98" {...field} /></FormControl></FormItem>)} />
-                                    <FormField control={form.control} name="temperature" render={({ field }) => (<FormItem><FormLabel>Temperature (°F)</FormLabel><FormControl><Input placeholder="98.6" {...field} /></FormControl></FormItem>)} />
-                                    <FormField control={form.control} name="weight" render={({ field }) => (<FormItem><FormLabel>Weight (lbs)</FormLabel><FormControl><Input placeholder="150" {...field} /></FormControl></FormItem>)} />
+                                    <FormField control={form.control} name="systolic" render={({ field }) => (<FormItem><FormLabel>Systolic ({VITAL_DEFINITIONS.systolic.defaultUnit})</FormLabel><FormControl><Input placeholder="120" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                                    <FormField control={form.control} name="diastolic" render={({ field }) => (<FormItem><FormLabel>Diastolic ({VITAL_DEFINITIONS.diastolic.defaultUnit})</FormLabel><FormControl><Input placeholder="80" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                                    <FormField control={form.control} name="bloodSugar" render={({ field }) => (<FormItem><FormLabel>Blood Sugar ({VITAL_DEFINITIONS.bloodSugar.defaultUnit})</FormLabel><FormControl><Input placeholder="100" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                                    <FormField control={form.control} name="oxygenSaturation" render={({ field }) => (<FormItem><FormLabel>Oxygen Sat. ({VITAL_DEFINITIONS.oxygenSaturation.defaultUnit})</FormLabel><FormControl><Input placeholder="98" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                                    <FormField control={form.control} name="temperature" render={({ field }) => (<FormItem><FormLabel>Temperature ({VITAL_DEFINITIONS.temperature.defaultUnit})</FormLabel><FormControl><Input placeholder="98.6" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                                    <FormField control={form.control} name="weight" render={({ field }) => (<FormItem><FormLabel>Weight ({VITAL_DEFINITIONS.weight.defaultUnit})</FormLabel><FormControl><Input placeholder="150" {...field} /></FormControl><FormMessage /></FormItem>)} />
                                 </div>
                             </section>
                             <section>
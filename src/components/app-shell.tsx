@@ -15,6 +15,7 @@ import {
   Salad,
   FileText,
   FileSpreadsheet,
+  FlaskConical,
   Siren,
   LogOut,
   Settings,
@@ -27,6 +28,7 @@ import {
   BookOpen,
   Bot,
   CreditCard,
+  Stethoscope,
 } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 import { Button } from './ui/button';
@@ -51,6 +53,7 @@ import {
 } from '@/components/ui/sidebar';
 import { SheetClose } from './ui/sheet';
 import { InstallButton } from './pwa/install-button';
+import { SyncStatus } from './pwa/sync-status';
 import { useSettings } from '@/context/settings-provider';
 
 interface MenuItem {
@@ -65,9 +68,11 @@ const mainMenuItems: MenuItem[] = [
   { href: "/log", label: "Vitals Logger", icon: Camera },
   { href: "/deep-dive", label: "Deep Dive", icon: BrainCircuit },
   { href: "/clinic", label: "Clinic", icon: Building2, featureFlag: 'isClinicEnabled' },
+  { href: "/doctors", label: "Find a Doctor", icon: Stethoscope },
   { href: "/dietician", label: "Meal Analyzer", icon: Salad },
   { href: "/report", label: "Health Report", icon: FileText, featureFlag: 'isReportEnabled' },
   { href: "/reminders", label: "Prescriptions", icon: FileSpreadsheet, featureFlag: 'isPrescriptionsEnabled' },
+  { href: "/labs", label: "Lab Results", icon: FlaskConical },
   { href: "/ebook-store", label: "Ebook Store", icon: BookOpen },
   { href: "/subscription", label: "Subscription", icon: CreditCard },
 ];
@@ -178,6 +183,7 @@ function AppLayout({ children }: { children: React.ReactNode }) {
                 </Wrapper>
             </SidebarMenuItem>
             <SidebarSeparator className="my-2" />
+            <SyncStatus />
             <InstallButton />
             <SidebarMenuItem>
                 <SidebarMenuButton onClick={handleLogout} tooltip="Logout" icon={<LogOut/>}>
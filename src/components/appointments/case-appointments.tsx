@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarDays, CalendarPlus, Download, Loader2, RefreshCw, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+    APPOINTMENT_STATUS_LABELS,
+    AppointmentError,
+    appointmentIcs,
+    changeBlocker,
+    rescheduleBlocker,
+    type Appointment,
+    type Slot,
+} from '@/lib/appointments';
+import { bookAppointment, cancelAppointment, fetchCaseAppointments, rescheduleAppointment } from '@/lib/appointments-store';
+import { SlotPicker } from './slot-picker';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface Viewer {
+    uid: string;
+    name: string;
+    role: 'patient' | 'doctor';
+}
+
+function downloadIcs(appointment: Appointment, viewer: Viewer) {
+    const blob = new Blob([appointmentIcs(appointment, viewer.role)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `appointment-${format(parseISO(appointment.start), 'yyyy-MM-dd-HHmm')}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+    return error instanceof AppointmentError ? error.message : fallback;
+}
+
+/** One appointment with calendar export, and cancelling or rescheduling while the rules allow it. */
+export function AppointmentRow({ appointment, viewer, onChange }: { appointment: Appointment; viewer: Viewer; onChange: () => void }) {
+    const { toast } = useToast();
+    const [mode, setMode] = useState<'view' | 'cancel' | 'reschedule'>('view');
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const cancelBlocker = changeBlocker(appointment, viewer.uid);
+    const moveBlocker = rescheduleBlocker(appointment, viewer.uid);
+    const other = viewer.role === 'patient' ? appointment.doctorName : appointment.patientName;
+
+    const handleCancel = async () => {
+        setIsSaving(true);
+        try {
+            await cancelAppointment(appointment.id, viewer, reason.trim() || undefined);
+            toast({ title: 'Appointment Cancelled' });
+            onChange();
+        } catch (error) {
+            console.error("Error cancelling appointment:", error);
+            toast({ variant: 'destructive', title: 'Error', description: errorMessage(error, 'Could not cancel the appointment.') });
+        } finally {
+            setIsSaving(false);
+            setMode('view');
+        }
+    };
+
+    const handleReschedule = async (slot: Slot) => {
+        setIsSaving(true);
+        try {
+            await rescheduleAppointment(appointment.id, viewer, slot);
+            toast({ title: 'Appointment Moved', description: format(parseISO(slot.start), 'PPPP p') });
+            onChange();
+        } catch (error) {
+            console.error("Error rescheduling appointment:", error);
+            toast({ variant: 'destructive', title: 'Error', description: errorMessage(error, 'Could not move the appointment.') });
+        } finally {
+            setIsSaving(false);
+            setMode('view');
+        }
+    };
+
+    return (
+        <div className="rounded-md border p-3 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                    <p className="text-sm font-medium">{format(parseISO(appointment.start), 'PPPP p')}</p>
+                    <p className="text-xs text-muted-foreground">With {other} · {format(parseISO(appointment.end), 'p')} finish</p>
+                </div>
+                <div className="flex items-center gap-1">
+                    <Badge variant={appointment.status === 'booked' ? 'default' : 'outline'}>{APPOINTMENT_STATUS_LABELS[appointment.status]}</Badge>
+                    {appointment.status === 'booked' && (
+                        <>
+                            <Button size="icon" variant="ghost" onClick={() => downloadIcs(appointment, viewer)} aria-label="Add to calendar"><Download className="h-4 w-4" /></Button>
+                            <Button size="icon" variant="ghost" onClick={() => setMode('reschedule')} disabled={!!moveBlocker} title={moveBlocker ?? 'Reschedule'} aria-label="Reschedule"><RefreshCw className="h-4 w-4" /></Button>
+                            <Button size="icon" variant="ghost" onClick={() => setMode('cancel')} disabled={!!cancelBlocker} title={cancelBlocker ?? 'Cancel'} aria-label="Cancel appointment"><X className="h-4 w-4" /></Button>
+                        </>
+                    )}
+                </div>
+            </div>
+            {mode === 'cancel' && (
+                <div className="flex items-center gap-2">
+                    <Input placeholder="Reason (optional)" value={reason} onChange={(e) => setReason(e.target.value)} />
+                    <Button variant="ghost" onClick={() => setMode('view')}>Keep</Button>
+                    <Button variant="destructive" onClick={handleCancel} disabled={isSaving}>
+                        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Cancel Appointment
+                    </Button>
+                </div>
+            )}
+            {mode === 'reschedule' && (
+                <SlotPicker doctorUid={appointment.doctorUid} submitLabel="Move Appointment" isSubmitting={isSaving} onPick={handleReschedule} onCancel={() => setMode('view')} />
+            )}
+        </div>
+    );
+}
+
+interface CaseAppointmentsProps {
+    investigationId: string;
+    viewer: Viewer;
+    /** The doctor to book with; patients can book while the case has one and no upcoming appointment. */
+    doctor?: { uid: string; name: string };
+}
+
+/** A case's appointments, with booking for the patient. */
+export function CaseAppointments({ investigationId, viewer, doctor }: CaseAppointmentsProps) {
+    const { toast } = useToast();
+    const [appointments, setAppointments] = useState<Appointment[] | null>(null);
+    const [isBooking, setIsBooking] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const load = useCallback(() => {
+        fetchCaseAppointments(investigationId, viewer.uid)
+            .then(setAppointments)
+            .catch(error => {
+                console.error("Error loading appointments:", error);
+                setAppointments([]);
+            });
+    }, [investigationId, viewer.uid]);
+
+    useEffect(load, [load]);
+
+    const handleBook = async (slot: Slot) => {
+        if (!doctor) return;
+        setIsSaving(true);
+        try {
+            await bookAppointment(investigationId, { uid: viewer.uid, name: viewer.name }, doctor, slot);
+            toast({ title: 'Appointment Booked', description: format(parseISO(slot.start), 'PPPP p') });
+            setIsBooking(false);
+            load();
+        } catch (error) {
+            console.error("Error booking appointment:", error);
+            toast({ variant: 'destructive', title: 'Error', description: errorMessage(error, 'Could not book the appointment.') });
+            if (error instanceof AppointmentError && error.code === 'slot_taken') setIsBooking(false);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!appointments) return <Loader2 className="animate-spin" />;
+
+    const current = appointments.filter(a => a.status === 'booked');
+    const canBook = viewer.role === 'patient' && !!doctor && !current.some(a => a.end > new Date().toISOString());
+
+    return (
+        <div className="space-y-3">
+            {current.length === 0 && !isBooking && <p className="text-sm text-muted-foreground flex items-center gap-2"><CalendarDays className="h-4 w-4" />No upcoming appointments.</p>}
+            {current.map(appointment => <AppointmentRow key={appointment.id} appointment={appointment} viewer={viewer} onChange={load} />)}
+            {canBook && doctor && (isBooking ? (
+                <SlotPicker doctorUid={doctor.uid} submitLabel="Book Appointment" isSubmitting={isSaving} onPick={handleBook} onCancel={() => setIsBooking(false)} />
+            ) : (
+                <Button variant="secondary" onClick={() => setIsBooking(true)}><CalendarPlus className="mr-2 h-4 w-4" />Book a Time with {doctor.name}</Button>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import type { Slot } from '@/lib/appointments';
+import { fetchOpenSlots } from '@/lib/appointments-store';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+
+const DAYS_SHOWN = 14;
+
+interface SlotPickerProps {
+    doctorUid: string;
+    submitLabel: string;
+    isSubmitting: boolean;
+    onPick: (slot: Slot) => void;
+    onCancel?: () => void;
+}
+
+/** The doctor's open slots over the next two weeks, shown in the viewer's own time zone. */
+export function SlotPicker({ doctorUid, submitLabel, isSubmitting, onPick, onCancel }: SlotPickerProps) {
+    const [slots, setSlots] = useState<Slot[] | null>(null);
+    const [selectedDay, setSelectedDay] = useState<string | null>(null);
+    const [selected, setSelected] = useState<Slot | null>(null);
+
+    useEffect(() => {
+        fetchOpenSlots(doctorUid, DAYS_SHOWN)
+            .then(setSlots)
+            .catch(error => {
+                console.error("Error loading open slots:", error);
+                setSlots([]);
+            });
+    }, [doctorUid]);
+
+    const byDay = useMemo(() => {
+        const groups = new Map<string, Slot[]>();
+        for (const slot of slots ?? []) {
+            const day = format(parseISO(slot.start), 'yyyy-MM-dd');
+            groups.set(day, [...(groups.get(day) ?? []), slot]);
+        }
+        return groups;
+    }, [slots]);
+
+    useEffect(() => {
+        if (!selectedDay && byDay.size > 0) setSelectedDay(byDay.keys().next().value ?? null);
+    }, [byDay, selectedDay]);
+
+    if (!slots) return <Loader2 className="animate-spin" />;
+    if (slots.length === 0) return <p className="text-sm text-muted-foreground">No open times in the next {DAYS_SHOWN} days. Message your doctor to arrange one.</p>;
+
+    return (
+        <div className="space-y-3">
+            <ScrollArea className="w-full whitespace-nowrap">
+                <div className="flex gap-2 pb-2">
+                    {[...byDay.keys()].map(day => (
+                        <Button key={day} size="sm" variant={day === selectedDay ? 'default' : 'outline'} onClick={() => { setSelectedDay(day); setSelected(null); }}>
+                            {format(parseISO(day), 'EEE d MMM')}
+                        </Button>
+                    ))}
+                </div>
+            </ScrollArea>
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {(selectedDay ? byDay.get(selectedDay) ?? [] : []).map(slot => (
+                    <Button
+                        key={slot.start}
+                        size="sm"
+                        variant="outline"
+                        className={cn(selected?.start === slot.start && 'border-primary bg-primary/10')}
+                        onClick={() => setSelected(slot)}
+                    >
+                        {format(parseISO(slot.start), 'p')}
+                    </Button>
+                ))}
+            </div>
+            <div className="flex justify-end gap-2">
+                {onCancel && <Button variant="ghost" onClick={onCancel}>Cancel</Button>}
+                <Button onClick={() => selected && onPick(selected)} disabled={!selected || isSubmitting}>
+                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {submitLabel}
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -7,10 +7,12 @@ import { useEffect } from 'react';
 import { Loader } from '../ui/loader';
 import { AppShell } from '../app-shell';
 import { ProfileProvider } from '@/context/profile-provider';
+import { SyncProvider } from '@/context/sync-provider';
 import { SettingsProvider } from '@/context/settings-provider';
 
 const PUBLIC_ROUTES = ['/auth', '/landing'];
-const ALWAYS_ACCESSIBLE_ROUTES = ['/blog']; 
+// The doctor directory is public, like the profiles it lists
+const ALWAYS_ACCESSIBLE_ROUTES = ['/blog', '/doctors']; 
 
 // Regex to check for file extensions
 const FILE_EXTENSION_REGEX = /\.[^/]+$/;
@@ -61,9 +63,11 @@ export function AuthGuard({ children }: { children: React.ReactNode }) {
         return (
           <SettingsProvider>
             <ProfileProvider>
+              <SyncProvider>
                 <AppShell>
                     {children}
                 </AppShell>
+              </SyncProvider>
             </ProfileProvider>
           </SettingsProvider>
         );
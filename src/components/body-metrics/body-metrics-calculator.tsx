@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -11,10 +11,14 @@ import { AnimatePresence, motion } from 'framer-motion';
 import { useAuth } from '@/context/auth-provider';
 import { useToast } from '@/hooks/use-toast';
 import { db } from '@/lib/firebase';
-import { collection, addDoc, getDocs, query, orderBy, deleteDoc, doc } from 'firebase/firestore';
+import { collection, getDocs, query, orderBy } from 'firebase/firestore';
+import { useSync } from '@/context/sync-provider';
+import { applyPendingWrites, isOfflineError, pendingDocIds } from '@/lib/offline-queue';
+import { createOrQueue, deleteOrQueue } from '@/lib/offline-queue-store';
 
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
@@ -75,6 +79,7 @@ export function BodyMetricsCalculator() {
     const [history, setHistory] = useState<HistoryItem[]>([]);
     const [isHistoryLoading, setIsHistoryLoading] = useState(true);
     const [infoDialogOpen, setInfoDialogOpen] = useState(false);
+    const { pending, lastSyncedAt } = useSync();
 
     const form = useForm({
         resolver: activeForm ? zodResolver(activeForm.schema) : undefined,
@@ -102,13 +107,27 @@ export function BodyMetricsCalculator() {
                 setHistory(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as HistoryItem)));
             } catch (error) {
                 console.error("Error fetching body metrics history:", error);
-                toast({ variant: 'destructive', title: 'Error', description: 'Could not fetch your history.' });
+                if (isOfflineError(error)) {
+                    toast({ title: 'You Are Offline', description: 'Only entries saved on this device are shown until you reconnect.' });
+                } else {
+                    toast({ variant: 'destructive', title: 'Error', description: 'Could not fetch your history.' });
+                }
             } finally {
                 setIsHistoryLoading(false);
             }
         };
         fetchHistory();
-    }, [user, toast]);
+    }, [user, toast, lastSyncedAt]);
+
+    const historyPath = `users/${user?.uid}/body_metrics`;
+
+    // Server data with this device's unsynced writes laid over it.
+    const displayedHistory = useMemo(
+        () => applyPendingWrites(history, pending, historyPath, (id, data) => ({ id, ...data } as HistoryItem))
+            .sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()),
+        [history, pending, historyPath],
+    );
+    const syncStatusById = useMemo(() => pendingDocIds(pending, historyPath), [pending, historyPath]);
     
     const calculateResult = (type: MetricType, values: any) => {
         switch (type) {
@@ -152,7 +171,6 @@ export function BodyMetricsCalculator() {
         if (!user || !activeForm) return;
 
         const date = new Date().toISOString();
-        const collectionRef = collection(db, `users/${user.uid}/body_metrics`);
         const result = calculateResult(activeForm.type, data);
         
         try {
@@ -163,9 +181,9 @@ export function BodyMetricsCalculator() {
                 result
             };
 
-            const docRef = await addDoc(collectionRef, payload);
-            setHistory(prev => [{ ...payload, id: docRef.id }, ...prev]);
-            toast({ title: 'Data Saved', description: `${activeForm.title} has been logged.` });
+            const { id, queued } = await createOrQueue(user.uid, historyPath, payload);
+            setHistory(prev => [{ ...payload, id }, ...prev]);
+            toast({ title: 'Data Saved', description: queued ? `${activeForm.title} has been saved on this device and will sync when you are back online.` : `${activeForm.title} has been logged.` });
             setActiveForm(null);
         } catch (error) {
             console.error("Error saving data:", error);
@@ -175,9 +193,8 @@ export function BodyMetricsCalculator() {
     
     const deleteHistoryItem = async (item: HistoryItem) => {
         if (!user) return;
-        const docRef = doc(db, `users/${user.uid}/body_metrics`, item.id);
         try {
-            await deleteDoc(docRef);
+            await deleteOrQueue(user.uid, historyPath, item.id);
             setHistory(prev => prev.filter(h => h.id !== item.id));
             toast({ title: 'Entry Deleted', description: 'The log entry has been removed.' });
         } catch (error) {
@@ -278,9 +295,9 @@ export function BodyMetricsCalculator() {
                     <CardDescription>View your previously logged body metrics.</CardDescription>
                 </CardHeader>
                 <CardContent>
-                    {isHistoryLoading ? <Loader2 className="mx-auto w-8 h-8 animate-spin text-primary" /> : history.length > 0 ? (
+                    {isHistoryLoading ? <Loader2 className="mx-auto w-8 h-8 animate-spin text-primary" /> : displayedHistory.length > 0 ? (
                         <Accordion type="single" collapsible className="w-full">
-                            {history.map(item => (
+                            {displayedHistory.map(item => (
                                 <AccordionItem value={item.id} key={item.id}>
                                     <AccordionTrigger>
                                         <div className="flex items-center gap-3">
@@ -288,6 +305,11 @@ export function BodyMetricsCalculator() {
                                             <div className="text-left">
                                                 <p className="font-bold capitalize">{item.type.replace(/_/g, ' ')}</p>
                                                 <p className="text-xs text-muted-foreground">{format(parseISO(item.date), 'MMM d, yyyy, h:mm a')}</p>
+                                                {syncStatusById.has(item.id) && (
+                                                    <Badge variant={syncStatusById.get(item.id) === 'failed' ? 'destructive' : 'secondary'} className="mt-1 text-xs">
+                                                        {syncStatusById.get(item.id) === 'failed' ? 'Sync failed' : 'Pending sync'}
+                                                    </Badge>
+                                                )}
                                             </div>
                                         </div>
                                     </AccordionTrigger>
@@ -0,0 +1,149 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Mic, MicOff, PhoneOff, UserCheck, Video, VideoOff } from 'lucide-react';
+import { useAuth } from '@/context/auth-provider';
+import { useConsultationCall } from '@/hooks/use-consultation-call';
+import { ConsultationError, isHost, joinBlocker, type ConsultationRoom } from '@/lib/consultation-rooms';
+import { fetchConsultationRoom } from '@/lib/consultation-rooms-store';
+import type { SignalPeer } from '@/lib/signalling';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+function VideoTile({ stream, muted, label, className }: { stream: MediaStream | null; muted?: boolean; label: string; className?: string }) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    useEffect(() => {
+        if (videoRef.current) videoRef.current.srcObject = stream;
+    }, [stream]);
+
+    return (
+        <div className={cn("relative overflow-hidden rounded-lg bg-black", className)}>
+            <video ref={videoRef} autoPlay playsInline muted={muted} className="h-full w-full object-cover" />
+            <span className="absolute bottom-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">{label}</span>
+        </div>
+    );
+}
+
+/** A consultation room: preview, waiting room, the call itself, and what happens after. */
+export function ConsultationCall({ roomId }: { roomId: string }) {
+    const { user } = useAuth();
+    const [room, setRoom] = useState<ConsultationRoom | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchConsultationRoom(roomId)
+            .then(setRoom)
+            .catch(error => {
+                console.error("Error loading consultation:", error);
+                setLoadError(error instanceof ConsultationError ? error.message : 'Could not load this consultation.');
+            });
+    }, [roomId]);
+
+    const hosting = !!room && !!user && isHost(room, user.uid);
+    const self = useMemo<SignalPeer | null>(() => room && user
+        ? { uid: user.uid, name: hosting ? room.doctorName : room.patientName, role: hosting ? 'doctor' : 'patient' }
+        : null, [room, user, hosting]);
+    const call = useConsultationCall(room, self);
+
+    if (loadError) {
+        return <Alert variant="destructive" className="max-w-xl mx-auto"><AlertTitle>Unavailable</AlertTitle><AlertDescription>{loadError}</AlertDescription></Alert>;
+    }
+    if (!room || !user) {
+        return <div className="flex justify-center p-8"><Loader2 className="animate-spin" /></div>;
+    }
+
+    const other = hosting ? room.patientName : room.doctorName;
+    const backHref = hosting ? '/doctor/dashboard' : '/clinic';
+    const blocker = joinBlocker(room, user.uid);
+
+    if (call.phase === 'ended') {
+        return (
+            <Card className="max-w-xl mx-auto text-center">
+                <CardHeader>
+                    <CardTitle>Consultation Ended</CardTitle>
+                    <CardDescription>{hosting ? 'The consultation has been logged on the case.' : `${room.doctorName} will follow up on your case.`}</CardDescription>
+                </CardHeader>
+                <CardFooter className="justify-center"><Button asChild><Link href={backHref}>Back</Link></Button></CardFooter>
+            </Card>
+        );
+    }
+
+    if (call.phase === 'idle') {
+        return (
+            <Card className="max-w-xl mx-auto">
+                <CardHeader>
+                    <CardTitle>Video Consultation with {other}</CardTitle>
+                    <CardDescription>Scheduled for {format(parseISO(room.scheduledFor), 'PPPP p')}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {blocker ? (
+                        <Alert><AlertTitle>Not Open Yet</AlertTitle><AlertDescription>{blocker}</AlertDescription></Alert>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            {hosting ? 'Open the room, then admit the patient from the waiting room.' : 'You will wait in the waiting room until the doctor lets you in.'}
+                        </p>
+                    )}
+                    {call.error && <Alert variant="destructive"><AlertDescription>{call.error}</AlertDescription></Alert>}
+                </CardContent>
+                <CardFooter className="justify-end gap-2">
+                    <Button variant="ghost" asChild><Link href={backHref}>Back</Link></Button>
+                    <Button onClick={call.join} disabled={!!blocker}><Video className="mr-2 h-4 w-4" />{hosting ? 'Open Room' : 'Join Waiting Room'}</Button>
+                </CardFooter>
+            </Card>
+        );
+    }
+
+    const inCall = call.phase === 'connecting' || call.phase === 'connected';
+
+    return (
+        <div className="space-y-4 max-w-5xl mx-auto">
+            {call.error && <Alert variant="destructive"><AlertDescription>{call.error}</AlertDescription></Alert>}
+            <div className="grid gap-4 md:grid-cols-3">
+                <div className="md:col-span-2">
+                    {inCall ? (
+                        <VideoTile stream={call.remoteStream} label={other} className="aspect-video" />
+                    ) : (
+                        <Card className="aspect-video flex flex-col items-center justify-center text-center p-6">
+                            <Loader2 className="animate-spin mb-4" />
+                            <p className="font-semibold">{hosting ? `Waiting for ${room.patientName}` : 'You are in the waiting room'}</p>
+                            <p className="text-sm text-muted-foreground">{hosting ? 'They will appear below when they join.' : `${room.doctorName} will let you in shortly.`}</p>
+                        </Card>
+                    )}
+                    {call.phase === 'connecting' && <p className="text-sm text-muted-foreground mt-2">Connecting...</p>}
+                </div>
+                <div className="space-y-4">
+                    <VideoTile stream={call.localStream} muted label="You" className="aspect-video" />
+                    {hosting && call.waitingGuests.length > 0 && (
+                        <Card>
+                            <CardHeader className="pb-2"><CardTitle className="text-base">Waiting Room</CardTitle></CardHeader>
+                            <CardContent className="space-y-2">
+                                {call.waitingGuests.map(guest => (
+                                    <div key={guest.uid} className="flex items-center justify-between">
+                                        <span className="text-sm">{guest.name}</span>
+                                        <Button size="sm" onClick={() => call.admit(guest)}><UserCheck className="mr-2 h-4 w-4" />Admit</Button>
+                                    </div>
+                                ))}
+                            </CardContent>
+                        </Card>
+                    )}
+                </div>
+            </div>
+            <div className="flex justify-center gap-2">
+                <Button variant="outline" size="icon" onClick={call.toggleMute} aria-label={call.isMuted ? 'Unmute' : 'Mute'}>
+                    {call.isMuted ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
+                </Button>
+                <Button variant="outline" size="icon" onClick={call.toggleCamera} aria-label={call.isCameraOff ? 'Turn camera on' : 'Turn camera off'}>
+                    {call.isCameraOff ? <VideoOff className="h-4 w-4" /> : <Video className="h-4 w-4" />}
+                </Button>
+                <Button variant="destructive" onClick={call.hangUp}>
+                    <PhoneOff className="mr-2 h-4 w-4" />{hosting ? 'End Consultation' : 'Leave'}
+                </Button>
+            </div>
+        </div>
+    );
+}
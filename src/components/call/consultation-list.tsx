@@ -0,0 +1,125 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { CalendarPlus, Loader2, Video, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+    CONSULTATION_STATUS_LABELS,
+    ConsultationError,
+    isHost,
+    joinBlocker,
+    joinPath,
+    type ConsultationRoom,
+} from '@/lib/consultation-rooms';
+import { cancelConsultation, fetchCaseConsultations, scheduleConsultation } from '@/lib/consultation-rooms-store';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+/** Rooms with a join link for whoever is viewing; the host can cancel rooms that haven't started. */
+export function ConsultationList({ rooms, viewerUid, onChange }: { rooms: ConsultationRoom[]; viewerUid: string; onChange?: () => void }) {
+    const { toast } = useToast();
+
+    const handleCancel = async (room: ConsultationRoom) => {
+        try {
+            await cancelConsultation(room.id);
+            onChange?.();
+        } catch (error) {
+            console.error("Error cancelling consultation:", error);
+            const description = error instanceof ConsultationError ? error.message : 'Could not cancel the consultation.';
+            toast({ variant: 'destructive', title: 'Error', description });
+        }
+    };
+
+    if (rooms.length === 0) return <p className="text-sm text-muted-foreground">No video consultations.</p>;
+
+    return (
+        <div className="space-y-2">
+            {rooms.map(room => {
+                const blocker = joinBlocker(room, viewerUid);
+                const isOpen = room.status === 'scheduled' || room.status === 'in_progress';
+                return (
+                    <div key={room.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-2">
+                        <div>
+                            <p className="text-sm font-medium">{format(parseISO(room.scheduledFor), 'PPp')}</p>
+                            <p className="text-xs text-muted-foreground">{isHost(room, viewerUid) ? room.patientName : room.doctorName}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Badge variant={room.status === 'in_progress' ? 'default' : 'outline'}>{CONSULTATION_STATUS_LABELS[room.status]}</Badge>
+                            {isOpen && (
+                                blocker ? (
+                                    <Button size="sm" variant="secondary" disabled title={blocker}><Video className="mr-2 h-4 w-4" />Join</Button>
+                                ) : (
+                                    <Button size="sm" asChild><Link href={joinPath(room.id)}><Video className="mr-2 h-4 w-4" />Join</Link></Button>
+                                )
+                            )}
+                            {room.status === 'scheduled' && isHost(room, viewerUid) && (
+                                <Button size="icon" variant="ghost" onClick={() => handleCancel(room)} aria-label="Cancel consultation"><X className="h-4 w-4" /></Button>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+interface CaseConsultationsProps {
+    investigationId: string;
+    viewerUid: string;
+    /** When set, the viewer is the doctor and can schedule new consultations with this patient. */
+    scheduling?: { patient: { uid: string; name: string }; doctor: { uid: string; name: string } };
+}
+
+/** A case's video consultations, with scheduling for the doctor. */
+export function CaseConsultations({ investigationId, viewerUid, scheduling }: CaseConsultationsProps) {
+    const { toast } = useToast();
+    const [rooms, setRooms] = useState<ConsultationRoom[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [scheduledFor, setScheduledFor] = useState('');
+    const [isScheduling, setIsScheduling] = useState(false);
+
+    const load = useCallback(() => {
+        fetchCaseConsultations(investigationId, viewerUid)
+            .then(setRooms)
+            .catch(error => console.error("Error loading consultations:", error))
+            .finally(() => setIsLoading(false));
+    }, [investigationId, viewerUid]);
+
+    useEffect(load, [load]);
+
+    const handleSchedule = async () => {
+        if (!scheduling) return;
+        setIsScheduling(true);
+        try {
+            const iso = scheduledFor ? new Date(scheduledFor).toISOString() : '';
+            await scheduleConsultation(investigationId, scheduling.patient, scheduling.doctor, iso);
+            toast({ title: 'Consultation Scheduled', description: 'The patient has been sent the join link.' });
+            setScheduledFor('');
+            load();
+        } catch (error) {
+            console.error("Error scheduling consultation:", error);
+            const description = error instanceof ConsultationError ? error.message : 'Could not schedule the consultation.';
+            toast({ variant: 'destructive', title: 'Error', description });
+        } finally {
+            setIsScheduling(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {isLoading ? <Loader2 className="animate-spin" /> : <ConsultationList rooms={rooms} viewerUid={viewerUid} onChange={load} />}
+            {scheduling && (
+                <div className="flex items-center gap-2">
+                    <Input type="datetime-local" value={scheduledFor} onChange={(e) => setScheduledFor(e.target.value)} className="max-w-xs" />
+                    <Button variant="secondary" onClick={handleSchedule} disabled={isScheduling || !scheduledFor}>
+                        {isScheduling ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarPlus className="mr-2 h-4 w-4" />}
+                        Schedule Video Visit
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
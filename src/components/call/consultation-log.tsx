@@ -0,0 +1,35 @@
+"use client";
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { ChevronsUpDown } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { formatCallDuration, type ConsultationLogEntry } from '@/lib/consultation-rooms';
+
+/** The case's finished video consultations, newest first. */
+export function ConsultationLog({ entries }: { entries?: ConsultationLogEntry[] }) {
+    if (!entries?.length) return null;
+
+    return (
+        <Collapsible>
+            <CollapsibleTrigger className="flex w-full items-center justify-between rounded-md p-2 text-left text-sm font-semibold hover:bg-secondary/50">
+                <span>Video Consultations ({entries.length})</span>
+                <ChevronsUpDown className="h-4 w-4" />
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-2">
+                <ol className="space-y-2 border-l pl-4">
+                    {[...entries].reverse().map(entry => (
+                        <li key={entry.roomId} className="text-sm">
+                            <p className="font-medium">
+                                {entry.connected ? `Consultation, ${formatCallDuration(entry.durationSeconds)}` : 'Closed without the patient joining'}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                                {format(parseISO(entry.startedAt ?? entry.scheduledFor), 'MMM d, yyyy, h:mm a')} · {entry.doctorName}
+                            </p>
+                        </li>
+                    ))}
+                </ol>
+            </CollapsibleContent>
+        </Collapsible>
+    );
+}
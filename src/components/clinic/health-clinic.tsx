@@ -7,13 +7,13 @@ import { useProfile } from '@/context/profile-provider';
 import { db } from '@/lib/firebase';
 import { collection, query, where, onSnapshot, orderBy, addDoc, doc, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { useToast } from '@/hooks/use-toast';
+import { useAiStream } from '@/hooks/use-ai-stream';
 import { format, formatDistanceToNow, parseISO, isAfter } from 'date-fns';
 import Image from 'next/image';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 
 // AI Flows
-import { conductInterview } from '@/ai/flows/conduct-interview-flow';
 import { startInvestigation } from '@/ai/flows/start-investigation-flow';
 import { continueInvestigation } from '@/ai/flows/continue-investigation-flow';
 
@@ -28,9 +28,21 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { Loader2, Bot, User, PlusCircle, Camera, Trash2, ShieldCheck, Send, AlertCircle, Sparkles, X, Pill, TestTube, Upload, Check, Salad, MessageSquare, ClipboardList, FileSpreadsheet, Video, Share2, ChevronsUpDown } from 'lucide-react';
+import { Loader2, Bot, User, PlusCircle, Camera, Trash2, ShieldCheck, Send, AlertCircle, Sparkles, X, Pill, TestTube, Upload, Check, Salad, MessageSquare, ClipboardList, FileSpreadsheet, Video, Share2, ChevronsUpDown, CalendarDays, Square } from 'lucide-react';
 import { ScrollArea } from '../ui/scroll-area';
 import { cn } from '@/lib/utils';
+import { INVESTIGATION_STATUS_LABELS, canTransition, type InvestigationStatus } from '@/lib/investigation';
+import { unreadCount, type ThreadCase } from '@/lib/case-messages';
+import { threadFieldsFromFirestore } from '@/lib/case-messages-store';
+import { CaseThread } from '@/components/messages/case-thread';
+import { CaseConsultations } from '@/components/call/consultation-list';
+import { ConsultationLog } from '@/components/call/consultation-log';
+import { CaseAppointments } from '@/components/appointments/case-appointments';
+import { RequestDoctorSelect } from '@/components/doctors/request-doctor-select';
+import { RateDoctor } from '@/components/doctors/rate-doctor';
+import { fetchDirectoryDoctor } from '@/lib/doctor-directory-store';
+import type { RequestedDoctor } from '@/lib/doctor-directory';
+import type { ConsultationLogEntry } from '@/lib/consultation-rooms';
 import { Separator } from '../ui/separator';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
@@ -43,8 +55,6 @@ interface Message {
   content: string;
 }
 
-type InvestigationStatus = 'pending_review' | 'awaiting_lab_results' | 'pending_final_review' | 'completed' | 'rejected' | 'awaiting_follow_up_visit';
-
 interface Investigation {
   id: string;
   userId: string;
@@ -64,6 +74,12 @@ interface Investigation {
   doctorNote?: string;
   reviewedByUid?: string;
   reviewedByName?: string;
+  claim?: ThreadCase['claim'];
+  nurseDispatch?: ThreadCase['nurseDispatch'];
+  unreadCount?: ThreadCase['unreadCount'];
+  lastPatientReadTimestamp?: Date;
+  lastDoctorReadTimestamp?: Date;
+  consultations?: ConsultationLogEntry[];
 }
 
 interface InvestigationStep {
@@ -75,16 +91,18 @@ interface InvestigationStep {
 }
 
 const statusConfig: Record<InvestigationStatus, { text: string; color: string; icon: React.ElementType }> = {
-  pending_review: { text: 'Awaiting Doctor Review', color: 'bg-yellow-500', icon: Sparkles },
-  awaiting_lab_results: { text: 'Awaiting Lab Results', color: 'bg-blue-500', icon: TestTube },
-  pending_final_review: { text: 'Doctor Reviewing Results', color: 'bg-yellow-500', icon: Sparkles },
-  completed: { text: 'Case Complete', color: 'bg-green-500', icon: Check },
-  rejected: { text: 'Case Closed', color: 'bg-red-500', icon: X },
-  awaiting_follow_up_visit: { text: 'Follow-up Visit Pending', color: 'bg-cyan-500', icon: ClipboardList },
+  pending_review: { text: INVESTIGATION_STATUS_LABELS.pending_review, color: 'bg-yellow-500', icon: Sparkles },
+  awaiting_lab_results: { text: INVESTIGATION_STATUS_LABELS.awaiting_lab_results, color: 'bg-blue-500', icon: TestTube },
+  awaiting_nurse_visit: { text: INVESTIGATION_STATUS_LABELS.awaiting_nurse_visit, color: 'bg-cyan-500', icon: ClipboardList },
+  pending_final_review: { text: INVESTIGATION_STATUS_LABELS.pending_final_review, color: 'bg-yellow-500', icon: Sparkles },
+  completed: { text: INVESTIGATION_STATUS_LABELS.completed, color: 'bg-green-500', icon: Check },
+  rejected: { text: INVESTIGATION_STATUS_LABELS.rejected, color: 'bg-red-500', icon: X },
+  awaiting_follow_up_visit: { text: INVESTIGATION_STATUS_LABELS.awaiting_follow_up_visit, color: 'bg-cyan-500', icon: ClipboardList },
 };
 
 function CaseDetails({ investigation, onImageClick }: { investigation: Investigation, onImageClick: (url: string) => void }) {
   const { user } = useAuth();
+  const { profile } = useProfile();
   const { toast } = useToast();
   const router = useRouter();
   const [labResultUploads, setLabResultUploads] = useState<Record<string, string>>({});
@@ -175,7 +193,7 @@ function CaseDetails({ investigation, onImageClick }: { investigation: Investiga
       <Separator />
 
       <div className="px-2">
-        {(investigation.status === 'awaiting_lab_results' || investigation.status === 'awaiting_follow_up_visit') && (
+        {canTransition(investigation.status, 'submit_lab_results', 'patient') && (
           <Card className="bg-secondary/50">
             <CardHeader>
               <CardTitle className="text-lg">Next Steps from Your Doctor</CardTitle>
@@ -212,6 +230,38 @@ function CaseDetails({ investigation, onImageClick }: { investigation: Investiga
           <Alert><Sparkles className="h-4 w-4"/><AlertTitle>Under Review</AlertTitle><AlertDescription>Your case is currently being reviewed by a doctor. You will be notified of the next steps.</AlertDescription></Alert>
         )}
       </div>
+
+      {user && investigation.status === 'completed' && investigation.reviewedByUid && (
+        <div className="px-2">
+          <RateDoctor investigationId={investigation.id} patientUid={user.uid} doctorName={investigation.reviewedByName || 'your doctor'} />
+        </div>
+      )}
+
+      {user && investigation.reviewedByUid && (
+        <div className="px-2 space-y-2">
+          <h3 className="font-bold flex items-center gap-2"><CalendarDays/> Appointments</h3>
+          <CaseAppointments
+            investigationId={investigation.id}
+            viewer={{ uid: user.uid, name: profile?.name || profile?.username || 'Patient', role: 'patient' }}
+            doctor={investigation.status !== 'rejected' && investigation.status !== 'completed' ? { uid: investigation.reviewedByUid, name: investigation.reviewedByName || 'your doctor' } : undefined}
+          />
+        </div>
+      )}
+
+      {user && investigation.reviewedByUid && (
+        <div className="px-2 space-y-2">
+          <h3 className="font-bold flex items-center gap-2"><Video/> Video Consultations</h3>
+          <CaseConsultations investigationId={investigation.id} viewerUid={user.uid} />
+          <ConsultationLog entries={investigation.consultations} />
+        </div>
+      )}
+
+      {user && investigation.reviewedByUid && investigation.status !== 'rejected' && investigation.status !== 'completed' && (
+        <div className="px-2">
+          <h3 className="font-bold flex items-center gap-2 mb-2"><MessageSquare/> Messages with {investigation.reviewedByName || 'your doctor'}</h3>
+          <CaseThread caseId={investigation.id} thread={investigation} viewer={{ uid: user.uid, name: profile?.name || profile?.username || 'Patient', role: 'patient' }} />
+        </div>
+      )}
     </div>
   );
 }
@@ -229,11 +279,23 @@ export function HealthClinic() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [isChatLoading, setIsChatLoading] = useState(false);
+  const interviewStream = useAiStream('conductInterview');
   const [interviewState, setInterviewState] = useState<'not_started' | 'in_progress' | 'awaiting_upload' | 'submitting'>('not_started');
   const [imageDataUri, setImageDataUri] = useState<string | null>(null);
+  const [requestedDoctor, setRequestedDoctor] = useState<RequestedDoctor | null>(null);
   
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [openItemId, setOpenItemId] = useState<string | null>(null);
+  const searchParams = useSearchParams();
+
+  // "Request this doctor" in the directory links here with ?doctor=
+  useEffect(() => {
+    const doctorId = searchParams.get('doctor');
+    if (!doctorId) return;
+    fetchDirectoryDoctor(doctorId)
+      .then(doctor => doctor && setRequestedDoctor({ uid: doctor.uid, name: doctor.name }))
+      .catch(error => console.error("Error loading requested doctor:", error));
+  }, [searchParams]);
 
   // Fetch history of investigations
   useEffect(() => {
@@ -249,6 +311,7 @@ export function HealthClinic() {
         return { 
           id: doc.id,
           ...data,
+          ...threadFieldsFromFirestore(data),
         } as Investigation;
       });
       setInvestigations(newInvestigations);
@@ -277,6 +340,7 @@ export function HealthClinic() {
   };
 
   const cancelAdmission = () => {
+    interviewStream.cancel();
     setMessages([]);
     setInterviewState('not_started');
     setActiveView('list');
@@ -291,8 +355,13 @@ export function HealthClinic() {
     setIsChatLoading(true);
 
     try {
-      setMessages([...newMessages, { role: 'model', content: '' }]); // Thinking indicator
-      const result = await conductInterview({ chatHistory: newMessages });
+      setMessages([...newMessages, { role: 'model', content: '' }]); // Thinking indicator until the first words arrive
+      const result = await interviewStream.start({ chatHistory: newMessages }, text => setMessages([...newMessages, { role: 'model', content: text }]));
+      if (!result) {
+        // Stopped: drop the half-written question and keep the patient's message for the next turn.
+        setMessages(current => current.slice(0, newMessages.length));
+        return;
+      }
       setMessages([...newMessages, { role: 'model', content: result.nextQuestion }]);
       if (result.isFinalQuestion) {
         setInterviewState('awaiting_upload');
@@ -325,6 +394,7 @@ export function HealthClinic() {
         userName: user.displayName || "User",
         chatTranscript,
         imageDataUri: imageDataUri || undefined,
+        requestedDoctor: requestedDoctor ?? undefined,
       });
 
       if (result.success) {
@@ -393,7 +463,7 @@ export function HealthClinic() {
               <div key={index} className={`flex items-end gap-2 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                 {message.role === 'model' && <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/20 text-primary hidden sm:flex items-center justify-center"><Bot size={20}/></div>}
                 <div className={`max-w-[90%] md:max-w-md rounded-lg p-3 ${message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-secondary'}`}>
-                  {isChatLoading && index === messages.length - 1 && message.role === 'model' ? (
+                  {isChatLoading && index === messages.length - 1 && message.role === 'model' && !message.content ? (
                     <div className="flex items-center justify-center gap-1.5 h-5">
                       <span className="h-2 w-2 rounded-full bg-current animate-bounce [animation-delay:-0.3s]"></span>
                       <span className="h-2 w-2 rounded-full bg-current animate-bounce [animation-delay:-0.15s]"></span>
@@ -412,15 +482,18 @@ export function HealthClinic() {
         {interviewState === 'in_progress' ? (
           <form onSubmit={(e) => { e.preventDefault(); handleSendMessage((e.currentTarget.elements.namedItem('message') as HTMLInputElement).value); e.currentTarget.reset(); }} className="w-full flex items-center gap-2">
             <Input name="message" placeholder="Type your message..." disabled={isChatLoading} autoComplete="off" />
-            <Button type="submit" disabled={isChatLoading}><Send /></Button>
+            {isChatLoading
+              ? <Button type="button" variant="outline" onClick={interviewStream.cancel} aria-label="Stop"><Square /></Button>
+              : <Button type="submit"><Send /></Button>}
           </form>
         ) : interviewState === 'awaiting_upload' ? (
           <div className="w-full space-y-4">
             <Alert>
               <AlertCircle className="h-4 w-4" />
               <AlertTitle>Interview Complete!</AlertTitle>
-              <AlertDescription>Optionally, upload a relevant image (e.g., of a skin condition) before submitting for review.</AlertDescription>
+              <AlertDescription>Optionally, upload a relevant image (e.g., of a skin condition) and choose the doctor you'd like to review your case.</AlertDescription>
             </Alert>
+            <RequestDoctorSelect value={requestedDoctor} onChange={setRequestedDoctor} />
             <div className="flex flex-col sm:flex-row items-center gap-4">
               <Button variant="outline" className="w-full sm:w-auto" onClick={() => fileInputRef.current?.click()}><Camera className="mr-2"/> Upload Image</Button>
               <Input ref={fileInputRef} type="file" accept="image/*" onChange={handleImageUpload} className="hidden" />
@@ -483,6 +556,7 @@ export function HealthClinic() {
             <div className="space-y-4">
               {investigations.map((c) => {
                 const StatusIcon = statusConfig[c.status]?.icon || Sparkles;
+                const unread = unreadCount(c, 'patient');
 
                 return (
                   <Collapsible 
@@ -515,6 +589,9 @@ export function HealthClinic() {
                               </div>
                             </div>
                             <div className="flex items-center gap-4 flex-shrink-0">
+                              {unread > 0 && (
+                                <Badge className="gap-1"><MessageSquare className="h-3 w-3" />{unread}</Badge>
+                              )}
                               <Badge variant="outline" className="hidden sm:inline-flex">
                                 {statusConfig[c.status]?.text}
                               </Badge>
@@ -7,6 +7,7 @@ import {
   performComprehensiveAnalysis,
   type ComprehensiveAnalysisOutput,
 } from '@/ai/flows/comprehensive-analysis-flow';
+import type { AiProvenance } from '@/ai/provenance';
 import { db } from '@/lib/firebase';
 import { collection, query, getDocs, orderBy, where, addDoc } from 'firebase/firestore';
 import { useAuth } from '@/context/auth-provider';
@@ -23,6 +24,8 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, Lightbulb, BrainCircuit, Calendar as CalendarIcon, Zap, FileClock } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { fetchVitals } from '@/lib/vitals-store';
+import { fetchTestStrips } from '@/lib/test-strips-store';
 import { Label } from "@/components/ui/label";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '../ui/accordion';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
@@ -34,6 +37,7 @@ interface DeepDiveRecord {
     timestamp: string;
     dateRange: { from: string, to: string };
     analysisResult: ComprehensiveAnalysisOutput;
+    provenance?: AiProvenance;
 }
 
 const UrgencyConfig: Record<string, { color: string; text: string }> = {
@@ -111,26 +115,24 @@ export function DeepDiveAnalyzer() {
             const endDate = startOfDay(addDays(date.to, 1));
             const basePath = `users/${user.uid}`;
             
-            const vitalsQuery = query(collection(db, `${basePath}/vitals`), where('date', '>=', startDate.toISOString()), where('date', '<', endDate.toISOString()), orderBy('date', 'desc'));
-            const stripsQuery = query(collection(db, `${basePath}/test_strips`), where('date', '>=', startDate.toISOString()), where('date', '<', endDate.toISOString()), orderBy('date', 'desc'));
             const bodyMetricsQuery = query(collection(db, `${basePath}/body_metrics`), where('date', '>=', startDate.toISOString()), where('date', '<', endDate.toISOString()), orderBy('date', 'desc'));
             const analysesQuery = query(collection(db, `${basePath}/health_analyses`), where('timestamp', '>=', startDate.toISOString()), where('timestamp', '<', endDate.toISOString()), orderBy('timestamp', 'desc'));
             
-            const [vitalsSnap, stripsSnap, bodyMetricsSnap, analysesSnap] = await Promise.all([
-                getDocs(vitalsQuery),
-                getDocs(stripsQuery),
+            const [vitalReadings, stripReadings, bodyMetricsSnap, analysesSnap] = await Promise.all([
+                fetchVitals(user.uid, { from: startDate, to: endDate }),
+                fetchTestStrips(user.uid, { from: startDate, to: endDate }),
                 getDocs(bodyMetricsQuery),
                 getDocs(analysesQuery),
             ]);
 
             const input = {
-                vitalsHistory: JSON.stringify(vitalsSnap.docs.map(d => d.data())),
-                testStripHistory: JSON.stringify(stripsSnap.docs.map(d => d.data())),
+                vitalsHistory: JSON.stringify(vitalReadings.map(({ id, ...reading }) => reading)),
+                testStripHistory: JSON.stringify(stripReadings.map(({ id, ...reading }) => reading)),
                 bodyMetricsHistory: JSON.stringify(bodyMetricsSnap.docs.map(d => d.data())),
                 previousAnalyses: JSON.stringify(analysesSnap.docs.map(d => d.data().analysisResult)),
             };
 
-            if (vitalsSnap.empty && stripsSnap.empty && analysesSnap.empty && bodyMetricsSnap.empty) {
+            if (vitalReadings.length === 0 && stripReadings.length === 0 && analysesSnap.empty && bodyMetricsSnap.empty) {
                 toast({ variant: 'destructive', title: 'Not Enough Data', description: 'There is no historical data for the selected period.' });
                 await updateBalance(ANALYSIS_COST, `Refund for failed Deep Dive`); // Refund
                 setIsLoading(false);
@@ -140,11 +142,13 @@ export function DeepDiveAnalyzer() {
             const result = await performComprehensiveAnalysis(input);
             setAnalysisResult(result);
 
-            // Save the result to history
+            // Save the result to history, keeping provenance beside the analysis rather than in it
+            const { provenance, ...analysis } = result;
             const newRecord: Omit<DeepDiveRecord, 'id'> = {
                 timestamp: new Date().toISOString(),
                 dateRange: { from: startDate.toISOString(), to: date.to.toISOString() },
-                analysisResult: result
+                analysisResult: analysis,
+                provenance,
             };
             const historyCollectionRef = collection(db, `users/${user.uid}/deep_dives`);
             const docRef = await addDoc(historyCollectionRef, newRecord);
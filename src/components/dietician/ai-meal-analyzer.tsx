@@ -13,6 +13,7 @@ import { db } from '@/lib/firebase';
 import { collection, doc, setDoc, query, orderBy, onSnapshot, limit } from 'firebase/firestore';
 import { formatDistanceToNow, parseISO } from 'date-fns';
 import { analyzeMeal, type AnalyzeMealOutput } from '@/ai/flows/analyze-meal-flow';
+import type { AiProvenance } from '@/ai/provenance';
 import { checkFoodSuitability, type CheckFoodSuitabilityOutput } from '@/ai/flows/check-food-suitability-flow';
 import { Textarea } from '../ui/textarea';
 import { Input } from '../ui/input';
@@ -27,6 +28,7 @@ interface MealLog {
     mealDescription: string;
     healthConditions: string;
     analysis: AnalyzeMealOutput;
+    provenance?: AiProvenance;
     imageDataUri?: string;
 }
 
@@ -77,11 +79,13 @@ const MealAnalyzer = () => {
             setAnalysisResult(result);
             
             const timestamp = new Date().toISOString();
+            const { provenance, ...analysis } = result;
             const logEntry: Omit<MealLog, 'id'> = {
                 timestamp,
                 mealDescription,
                 healthConditions,
-                analysis: result,
+                analysis,
+                provenance,
             };
             if (imageDataUri) {
                 logEntry.imageDataUri = imageDataUri;
@@ -0,0 +1,46 @@
+"use client";
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { ChevronsUpDown } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { AiProvenance } from '@/ai/provenance';
+
+/** Which prompt and model produced an AI result. Results saved before provenance was recorded render nothing. */
+export function AiProvenanceDetails({ provenance }: { provenance?: AiProvenance }) {
+    if (!provenance) return null;
+    const { usage } = provenance;
+    const tokens = usage.totalTokens ?? (usage.inputTokens !== undefined || usage.outputTokens !== undefined
+        ? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0)
+        : undefined);
+
+    const rows: [string, string][] = [
+        ['Flow', provenance.flow],
+        ['Prompt', `${provenance.prompt} (${provenance.promptHash})`],
+        ['Model', provenance.model],
+        ['Temperature', provenance.temperature === null ? 'Default' : String(provenance.temperature)],
+        ['Tokens', tokens === undefined ? 'Not reported' : `${tokens} (${usage.inputTokens ?? '?'} in / ${usage.outputTokens ?? '?'} out)`],
+        ['Latency', `${(provenance.latencyMs / 1000).toFixed(1)}s`],
+        ['Input', provenance.inputDigest],
+        ['Generated', format(parseISO(provenance.generatedAt), 'MMM d, yyyy, h:mm:ss a')],
+    ];
+
+    return (
+        <Collapsible>
+            <CollapsibleTrigger className="flex w-full items-center justify-between rounded-md p-2 text-left text-xs font-semibold text-muted-foreground hover:bg-secondary/50">
+                <span>AI Provenance</span>
+                <ChevronsUpDown className="h-3 w-3" />
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-1">
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 px-2 text-xs text-muted-foreground">
+                    {rows.map(([label, value]) => (
+                        <React.Fragment key={label}>
+                            <dt className="font-medium">{label}</dt>
+                            <dd className="break-all font-mono">{value}</dd>
+                        </React.Fragment>
+                    ))}
+                </dl>
+            </CollapsibleContent>
+        </Collapsible>
+    );
+}
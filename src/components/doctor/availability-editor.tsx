@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+    AppointmentError,
+    SLOT_MINUTE_OPTIONS,
+    WEEKDAY_LABELS,
+    validateAvailability,
+    type AvailabilityException,
+    type DoctorAvailability,
+} from '@/lib/appointments';
+import { fetchDoctorAvailability, saveDoctorAvailability } from '@/lib/appointments-store';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// Monday first, the way a working week reads
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function HoursInput({ start, end, onChange, onRemove }: { start: string; end: string; onChange: (start: string, end: string) => void; onRemove: () => void }) {
+    return (
+        <div className="flex items-center gap-2">
+            <Input type="time" value={start} onChange={(e) => onChange(e.target.value, end)} className="w-32" />
+            <span className="text-muted-foreground">to</span>
+            <Input type="time" value={end} onChange={(e) => onChange(start, e.target.value)} className="w-32" />
+            <Button size="icon" variant="ghost" onClick={onRemove} aria-label="Remove hours"><Trash2 className="h-4 w-4" /></Button>
+        </div>
+    );
+}
+
+/** Weekly hours, appointment length, time zone and dated exceptions for the signed-in doctor. */
+export function AvailabilityEditor({ doctorUid }: { doctorUid: string }) {
+    const { toast } = useToast();
+    const [availability, setAvailability] = useState<DoctorAvailability | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        fetchDoctorAvailability(doctorUid).then(setAvailability).catch(error => console.error("Error loading availability:", error));
+    }, [doctorUid]);
+
+    if (!availability) return <Loader2 className="animate-spin" />;
+
+    const update = (changes: Partial<DoctorAvailability>) => setAvailability({ ...availability, ...changes });
+    const setException = (index: number, exception: AvailabilityException) =>
+        update({ exceptions: availability.exceptions.map((e, i) => i === index ? exception : e) });
+    const error = validateAvailability(availability);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await saveDoctorAvailability(doctorUid, availability);
+            toast({ title: 'Availability Saved', description: 'Patients can book from your new hours.' });
+        } catch (e) {
+            console.error("Error saving availability:", e);
+            toast({ variant: 'destructive', title: 'Error', description: e instanceof AppointmentError ? e.message : 'Could not save your availability.' });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Availability</CardTitle>
+                <CardDescription>The hours patients can book appointments with you. Existing appointments are kept when you change them.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="grid sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="time-zone">Time zone</Label>
+                        <Input id="time-zone" value={availability.timeZone} onChange={(e) => update({ timeZone: e.target.value })} placeholder="Africa/Lagos" />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Appointment length</Label>
+                        <Select value={String(availability.slotMinutes)} onValueChange={(value) => update({ slotMinutes: Number(value) })}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {SLOT_MINUTE_OPTIONS.map(minutes => <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+
+                <div className="space-y-3">
+                    <h4 className="font-semibold">Weekly hours</h4>
+                    {WEEKDAY_ORDER.map(weekday => {
+                        const hours = availability.weekly.map((w, index) => ({ ...w, index })).filter(w => w.weekday === weekday);
+                        return (
+                            <div key={weekday} className="flex flex-wrap items-start gap-4 border-b pb-3 last:border-b-0">
+                                <p className="w-24 pt-2 text-sm font-medium">{WEEKDAY_LABELS[weekday]}</p>
+                                <div className="flex-1 space-y-2">
+                                    {hours.length === 0 && <p className="pt-2 text-sm text-muted-foreground">Unavailable</p>}
+                                    {hours.map(h => (
+                                        <HoursInput
+                                            key={h.index}
+                                            start={h.start}
+                                            end={h.end}
+                                            onChange={(start, end) => update({ weekly: availability.weekly.map((w, i) => i === h.index ? { ...w, start, end } : w) })}
+                                            onRemove={() => update({ weekly: availability.weekly.filter((_, i) => i !== h.index) })}
+                                        />
+                                    ))}
+                                </div>
+                                <Button size="sm" variant="ghost" onClick={() => update({ weekly: [...availability.weekly, { weekday, start: '09:00', end: '17:00' }] })}>
+                                    <Plus className="mr-1 h-4 w-4" />Hours
+                                </Button>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="space-y-3">
+                    <h4 className="font-semibold">Exceptions</h4>
+                    <p className="text-sm text-muted-foreground">Days off or different hours on a particular date. They replace that day&apos;s weekly hours.</p>
+                    {availability.exceptions.map((exception, index) => (
+                        <div key={index} className="rounded-md border p-3 space-y-2">
+                            <div className="flex items-center gap-2">
+                                <Input type="date" value={exception.date} onChange={(e) => setException(index, { ...exception, date: e.target.value })} className="w-44" />
+                                <Input placeholder="Note (optional)" value={exception.note ?? ''} onChange={(e) => setException(index, { ...exception, note: e.target.value })} />
+                                <Button size="icon" variant="ghost" onClick={() => update({ exceptions: availability.exceptions.filter((_, i) => i !== index) })} aria-label="Remove exception">
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                            {exception.hours.length === 0 && <p className="text-sm text-muted-foreground">Day off</p>}
+                            {exception.hours.map((h, hourIndex) => (
+                                <HoursInput
+                                    key={hourIndex}
+                                    start={h.start}
+                                    end={h.end}
+                                    onChange={(start, end) => setException(index, { ...exception, hours: exception.hours.map((x, i) => i === hourIndex ? { start, end } : x) })}
+                                    onRemove={() => setException(index, { ...exception, hours: exception.hours.filter((_, i) => i !== hourIndex) })}
+                                />
+                            ))}
+                            <Button size="sm" variant="ghost" onClick={() => setException(index, { ...exception, hours: [...exception.hours, { start: '09:00', end: '13:00' }] })}>
+                                <Plus className="mr-1 h-4 w-4" />Hours
+                            </Button>
+                        </div>
+                    ))}
+                    <Button variant="outline" size="sm" onClick={() => update({ exceptions: [...availability.exceptions, { date: '', hours: [] }] })}>
+                        <Plus className="mr-1 h-4 w-4" />Add Exception
+                    </Button>
+                </div>
+            </CardContent>
+            <CardFooter className="flex-col items-end gap-2">
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                <Button onClick={handleSave} disabled={isSaving || !!error}>
+                    {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Availability
+                </Button>
+            </CardFooter>
+        </Card>
+    );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { INVESTIGATION_STATUSES, INVESTIGATION_STATUS_LABELS } from '@/lib/investigation';
+import type { QueueFilter } from '@/lib/case-queue';
+
+export function CaseQueueFilters({ filter, specialties, onChange }: {
+    filter: QueueFilter;
+    specialties: string[];
+    onChange: (filter: QueueFilter) => void;
+}) {
+    return (
+        <div className="grid grid-cols-2 gap-4 pt-4">
+            <div className="space-y-1">
+                <Label className="text-xs">Status</Label>
+                <Select value={filter.status} onValueChange={(status) => onChange({ ...filter, status: status as QueueFilter['status'] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="review">Awaiting a doctor</SelectItem>
+                        <SelectItem value="all">All cases</SelectItem>
+                        {INVESTIGATION_STATUSES.map(status => <SelectItem key={status} value={status}>{INVESTIGATION_STATUS_LABELS[status]}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div className="space-y-1">
+                <Label className="text-xs">Specialty</Label>
+                <Select value={filter.specialty} onValueChange={(specialty) => onChange({ ...filter, specialty })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">All specialties</SelectItem>
+                        {specialties.map(specialty => <SelectItem key={specialty} value={specialty}>{specialty}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+            </div>
+        </div>
+    );
+}
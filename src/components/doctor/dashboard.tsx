@@ -4,16 +4,18 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
 import { useAuth } from "@/context/auth-provider";
 import { db } from '@/lib/firebase';
-import { collection, query, where, getDocs, doc, updateDoc, orderBy, onSnapshot, getDoc, addDoc, serverTimestamp } from 'firebase/firestore';
+import { collection, query, where, getDocs, doc, orderBy, onSnapshot, getDoc, addDoc, arrayUnion } from 'firebase/firestore';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "../ui/card";
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Textarea } from '@/components/ui/textarea';
 import Image from 'next/image';
-import { Loader2, User, Check, X, Pencil, ArrowRight, TestTube, Pill, ClipboardCheck, ClipboardList, Send, Camera, Video, FileText, Trash2, Share2, ChevronsUpDown, RefreshCw, Home, Phone, Sparkles, Repeat, HeartPulse, Beaker, BrainCircuit } from 'lucide-react';
-import { formatDistanceToNow, parseISO, format, isAfter } from 'date-fns';
+import { Loader2, User, Check, X, Pencil, ArrowRight, TestTube, Pill, ClipboardCheck, ClipboardList, Send, Camera, Video, FileText, Trash2, Share2, ChevronsUpDown, RefreshCw, Home, Phone, Sparkles, Repeat, HeartPulse, Beaker, BrainCircuit, Target, History, Timer, Lock, FlaskConical, MessageSquare, CalendarClock, ShieldAlert } from 'lucide-react';
+import { formatDistanceToNow, parseISO, format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { useDoctorVerification } from '@/hooks/use-doctor-verification';
+import { isVerified, VERIFICATION_STATUS_LABELS } from '@/lib/doctor-verification';
 import { ScrollArea } from '../ui/scroll-area';
 import { Badge } from '../ui/badge';
 import { cn } from '@/lib/utils';
@@ -30,11 +32,46 @@ import { Input } from '../ui/input';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { Bar, BarChart, XAxis, YAxis } from 'recharts';
 import { type ChartConfig } from 'recharts';
-import { performComprehensiveCaseReview, type ComprehensiveCaseReviewOutput } from '@/ai/flows/comprehensive-case-review-flow';
+import { performComprehensiveCaseReview, type ComprehensiveCaseReviewResult } from '@/ai/flows/comprehensive-case-review-flow';
 import { type ComprehensiveAnalysisOutput } from '@/ai/flows/comprehensive-analysis-flow';
+import type { AiProvenance } from '@/ai/provenance';
+import { fetchVitals } from '@/lib/vitals-store';
+import { fetchTestStrips } from '@/lib/test-strips-store';
+import { ReferenceRangesEditor } from '@/components/vitals/reference-ranges-editor';
+import { LabHistory } from '@/components/labs/lab-history';
+import { RevisionHistory } from '@/components/log/revision-history';
+import { MedicationAdherence } from '@/components/reminders/medication-adherence';
+import { PrescriptionEditor } from '@/components/doctor/prescription-editor';
+import { PrescriptionWarningsDialog } from '@/components/doctor/prescription-warnings-dialog';
+import { SafetyWarnings } from '@/components/doctor/safety-warnings';
+import { AiProvenanceDetails } from '@/components/doctor/ai-provenance';
+import { checkPrescriptions, emptyPrescription, toPrescription, updatePrescription, type Prescription, type PrescriptionWarning, type WarningAcknowledgement } from '@/lib/prescription';
+import { fetchActivePrescriptions } from '@/lib/prescription-store';
+import { canTransition, InvestigationTransitionError, type InvestigationStatus, type InvestigationTransition, type TransitionLogEntry } from '@/lib/investigation';
+import { transitionInvestigation } from '@/lib/investigation-store';
+import { TransitionLog } from '@/components/investigation/transition-log';
+import { CaseConsultations } from '@/components/call/consultation-list';
+import { ConsultationLog } from '@/components/call/consultation-log';
+import { CaseAppointments } from '@/components/appointments/case-appointments';
+import type { ConsultationLogEntry } from '@/lib/consultation-rooms';
+import type { RequestedDoctor } from '@/lib/doctor-directory';
+import { LabResultView, type SubmittedLabResult } from '@/components/investigation/lab-result-view';
+import { CaseQueueFilters } from '@/components/doctor/case-queue-filters';
+import { ReassignCase } from '@/components/doctor/reassign-case';
+import { DispatchNurseDialog } from '@/components/doctor/dispatch-nurse-dialog';
+import { initialVisit, VISIT_STAGE_LABELS, type NurseDispatch, type NurseVisit } from '@/lib/nurse-visits';
+import type { PatientContact } from '@/lib/nurse-visits-store';
+import { isCaseParticipant, unreadCount, type ThreadCase } from '@/lib/case-messages';
+import Link from 'next/link';
+import {
+  CaseClaimError, activeClaim, caseSpecialty, filterQueue, isClaimedByOther, isEscalated, isRequestedFor, needsEscalation, slaDeadline, slaState, sortQueue,
+  type CaseAssignment, type CaseClaim, type CaseEscalation, type QueueFilter,
+} from '@/lib/case-queue';
+import { claimCase, claimFromFirestore, escalateCase, releaseCase } from '@/lib/case-queue-store';
+import { fetchSnapshotDrift } from '@/lib/entry-history-store';
+import type { DataSnapshot, SnapshotDrift } from '@/lib/entry-history';
 
 
-type InvestigationStatus = 'pending_review' | 'awaiting_lab_results' | 'pending_final_review' | 'completed' | 'rejected' | 'awaiting_follow_up_visit';
 
 interface Medication {
     name: string;
@@ -67,7 +104,19 @@ interface Investigation {
   reviewedByName?: string;
   lastPatientReadTimestamp?: Date;
   lastDoctorReadTimestamp?: Date;
+  dataSnapshot?: DataSnapshot;
   lastMessageTimestamp?: Date;
+  prescriptionAcknowledgements?: WarningAcknowledgement[];
+  transitions?: TransitionLogEntry[];
+  claim?: CaseClaim | null;
+  escalation?: CaseEscalation | null;
+  assignments?: CaseAssignment[];
+  nurseDispatch?: NurseDispatch;
+  nurseVisit?: NurseVisit;
+  patientContact?: PatientContact;
+  unreadCount?: ThreadCase['unreadCount'];
+  consultations?: ConsultationLogEntry[];
+  requestedDoctor?: RequestedDoctor;
 }
 
 interface InvestigationStep {
@@ -75,6 +124,9 @@ interface InvestigationStep {
     timestamp: string;
     userInput: any;
     aiAnalysis: any;
+    provenance?: AiProvenance;
+    nurseDispatch?: NurseDispatch;
+    nurseVisit?: NurseVisit;
 }
 
 interface Patient {
@@ -101,6 +153,9 @@ export function DoctorDashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
   const doctorName = user?.displayName || "Doctor";
+  // Unverified doctors can browse the queue; the rules refuse any change they make to a case
+  const { status: verificationStatus, loading: verificationLoading } = useDoctorVerification(user?.uid);
+  const canActOnCases = isVerified(verificationStatus);
 
   const [investigations, setInvestigations] = useState<Investigation[]>([]);
   const [myPatients, setMyPatients] = useState<Patient[]>([]);
@@ -109,15 +164,22 @@ export function DoctorDashboard() {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
 
   // State for case review dialog
-  const [editablePlan, setEditablePlan] = useState<{ preliminaryMedications: Medication[]; suggestedLabTests: string[]; } | null>(null);
+  const [editablePlan, setEditablePlan] = useState<{ preliminaryMedications: Prescription[]; suggestedLabTests: string[]; } | null>(null);
   const [followUpTests, setFollowUpTests] = useState<string[]>([]);
   const [followUpNote, setFollowUpNote] = useState('');
   const [modifiedPlan, setModifiedPlan] = useState('');
   const [viewMode, setViewMode] = useState<'initial_review' | 'follow_up_request' | 'final_review'>('initial_review');
+  const [isDispatchOpen, setIsDispatchOpen] = useState(false);
   const [isCompleting, setIsCompleting] = useState(false);
   const [doctorNote, setDoctorNote] = useState('');
   const [isEvaluating, setIsEvaluating] = useState(false);
-  const [evaluationResult, setEvaluationResult] = useState<ComprehensiveCaseReviewOutput | null>(null);
+  const [evaluationResult, setEvaluationResult] = useState<ComprehensiveCaseReviewResult | null>(null);
+  const [snapshotDrift, setSnapshotDrift] = useState<SnapshotDrift[]>([]);
+  const [queueFilter, setQueueFilter] = useState<QueueFilter>({ status: 'review', specialty: 'all' });
+  const [now, setNow] = useState(() => new Date());
+  const escalationToasts = useRef(new Set<string>());
+  const [isCheckingPrescriptions, setIsCheckingPrescriptions] = useState(false);
+  const [pendingWarnings, setPendingWarnings] = useState<{ warnings: PrescriptionWarning[]; proceed: () => void } | null>(null);
 
   const [analyticsPatient, setAnalyticsPatient] = useState<Patient | null>(null);
   const [vitals, setVitals] = useState<any[]>([]);
@@ -137,6 +199,7 @@ export function DoctorDashboard() {
             ...doc.data(),
             lastDoctorReadTimestamp: doc.data().lastDoctorReadTimestamp?.toDate(),
             lastMessageTimestamp: doc.data().lastMessageTimestamp?.toDate(),
+            claim: claimFromFirestore(doc.data().claim),
         } as Investigation));
         setInvestigations(fetched);
         setIsLoading(false);
@@ -165,39 +228,120 @@ export function DoctorDashboard() {
     });
     setMyPatients(Array.from(patientMap.values()));
   }, [investigations, user]);
-  
-  const investigationQueue = useMemo(() => investigations.filter(inv => inv.status === 'pending_review'), [investigations]);
-  const patientUpdates = useMemo(() => investigations.filter(inv => inv.status === 'pending_final_review' && inv.reviewedByUid === user?.uid), [investigations, user]);
 
+  // Flag entries the patient edited or deleted after the case was submitted
+  useEffect(() => {
+    setSnapshotDrift([]);
+    if (!selectedCase?.dataSnapshot) return;
+    fetchSnapshotDrift(selectedCase.userId, selectedCase.dataSnapshot)
+      .then(setSnapshotDrift)
+      .catch(error => console.error("Error checking snapshot drift:", error));
+  }, [selectedCase]);
+
+  // Re-evaluate SLA timers and claim leases as time passes
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Escalate Critical cases left unclaimed past their SLA. Any open dashboard may do this; the
+  // transaction in escalateCase makes sure it only happens once.
+  useEffect(() => {
+    investigations.filter(inv => needsEscalation(inv, now)).forEach(inv => {
+      escalateCase(inv.id).catch(error => console.error("Error escalating case:", error));
+    });
+    investigations.filter(inv => isEscalated(inv) && !activeClaim(inv, now) && !escalationToasts.current.has(inv.id)).forEach(inv => {
+      escalationToasts.current.add(inv.id);
+      toast({ variant: 'destructive', title: 'Critical Case Escalated', description: `${inv.userName || 'A patient'}'s case has waited past its review deadline without a doctor.` });
+    });
+  }, [investigations, now, toast]);
 
-  const handleUpdateInvestigation = async (investigationId: string, status: InvestigationStatus, payload: object) => {
-      const investigationRef = doc(db, "investigations", investigationId);
+  // Keep the lease on the case being reviewed from running out
+  useEffect(() => {
+    if (!selectedCase || !user) return;
+    const interval = setInterval(() => {
+      claimCase(selectedCase.id, { uid: user.uid, name: doctorName }).catch(error => {
+        console.error("Error renewing claim:", error);
+        toast({ variant: 'destructive', title: 'Claim Lost', description: error instanceof CaseClaimError ? error.message : 'Your claim on this case could not be renewed.' });
+      });
+    }, 10 * 60_000);
+    return () => clearInterval(interval);
+  }, [selectedCase, user, doctorName, toast]);
+
+  const investigationQueue = useMemo(() => sortQueue(filterQueue(investigations, queueFilter), user?.uid), [investigations, queueFilter, user]);
+  const patientUpdates = useMemo(() => sortQueue(investigations.filter(inv => inv.status === 'pending_final_review' && inv.reviewedByUid === user?.uid)), [investigations, user]);
+  const specialties = useMemo(() => Array.from(new Set(investigations.map(caseSpecialty))).sort(), [investigations]);
+
+
+  const handleUpdateInvestigation = async (investigationId: string, transition: InvestigationTransition, payload: object) => {
+      if (!user) return;
       try {
           const updateData = {
-              status,
               reviewedAt: new Date().toISOString(),
-              reviewedByUid: user?.uid,
+              reviewedByUid: user.uid,
               reviewedByName: user?.displayName,
               ...payload,
+              // The case moves on, so the reviewer's lease ends with it
+              claim: null,
           };
-          await updateDoc(investigationRef, updateData);
+          await transitionInvestigation(investigationId, transition, { uid: user.uid, name: doctorName, role: 'doctor' }, updateData);
           setSelectedCase(null);
           toast({ title: 'Case Updated', description: `The investigation has been updated.` });
       } catch (error) {
         console.error("Error updating status:", error);
-        toast({ variant: 'destructive', title: 'Error', description: 'Failed to update investigation status.' });
+        const description = error instanceof InvestigationTransitionError ? error.message : 'Failed to update investigation status.';
+        toast({ variant: 'destructive', title: 'Error', description });
       }
   };
   
+  // Checks the plan for duplicate therapy and interactions, asking the doctor to acknowledge any warnings before saving
+  const withPrescriptionChecks = async (
+    medications: Prescription[],
+    stage: WarningAcknowledgement['stage'],
+    save: (acknowledgement: object) => void,
+  ) => {
+    if (!selectedCase) return;
+    setIsCheckingPrescriptions(true);
+    let active: Awaited<ReturnType<typeof fetchActivePrescriptions>> = [];
+    try {
+      active = await fetchActivePrescriptions(selectedCase.userId, selectedCase.id);
+    } catch (error) {
+      console.error("Error fetching active prescriptions:", error);
+      toast({ variant: 'destructive', title: 'Partial Check', description: "The patient's other prescriptions could not be loaded, so only this plan was checked." });
+    } finally {
+      setIsCheckingPrescriptions(false);
+    }
+
+    const warnings = checkPrescriptions(medications, active);
+    if (warnings.length === 0) {
+      save({});
+      return;
+    }
+    setPendingWarnings({
+      warnings,
+      proceed: () => {
+        const acknowledgement: WarningAcknowledgement = {
+          warnings,
+          acknowledgedByUid: user?.uid ?? '',
+          acknowledgedByName: doctorName,
+          acknowledgedAt: new Date().toISOString(),
+          stage,
+        };
+        save({ prescriptionAcknowledgements: arrayUnion(acknowledgement) });
+      },
+    });
+  };
+
   const handleSendPlanToPatient = () => {
     if (!selectedCase || !editablePlan) return;
     
     const cleanedPlan = {
         suggestedLabTests: editablePlan.suggestedLabTests.filter(t => t.trim() !== ''),
-        preliminaryMedications: editablePlan.preliminaryMedications.filter(m => m.name.trim() !== '' && m.dosage.trim() !== ''),
+        preliminaryMedications: editablePlan.preliminaryMedications.filter(m => m.name.trim() !== '' && m.frequency.trim() !== ''),
     };
 
-    handleUpdateInvestigation(selectedCase.id, 'awaiting_lab_results', { doctorPlan: cleanedPlan });
+    withPrescriptionChecks(cleanedPlan.preliminaryMedications, 'initial_plan', (acknowledgement) =>
+        handleUpdateInvestigation(selectedCase.id, 'send_initial_plan', { doctorPlan: cleanedPlan, ...acknowledgement }));
   };
   
    const handleRequestFollowUp = () => {
@@ -211,7 +355,7 @@ export function DoctorDashboard() {
             suggestedLabTests: followUpTests.filter(t => t.trim() !== ''),
         };
 
-        handleUpdateInvestigation(selectedCase.id, 'awaiting_follow_up_visit', { followUpRequest });
+        handleUpdateInvestigation(selectedCase.id, 'request_follow_up', { followUpRequest });
     };
 
   const handleCompleteCase = () => {
@@ -221,12 +365,16 @@ export function DoctorDashboard() {
       }
       try {
           const finalPlan = JSON.parse(modifiedPlan);
+          const medications: Prescription[] = (finalPlan.finalTreatmentPlan?.medications || [])
+              .filter((m: Medication) => m?.name && m?.dosage)
+              .map(toPrescription);
           const payload = {
               finalDiagnosis: finalPlan.finalDiagnosis,
-              finalTreatmentPlan: finalPlan.finalTreatmentPlan,
+              finalTreatmentPlan: finalPlan.finalTreatmentPlan ? { ...finalPlan.finalTreatmentPlan, medications } : finalPlan.finalTreatmentPlan,
               doctorNote: `Final Diagnosis Summary: ${doctorNote}`,
           };
-          handleUpdateInvestigation(selectedCase.id, 'completed', payload);
+          withPrescriptionChecks(medications, 'final_plan', (acknowledgement) =>
+              handleUpdateInvestigation(selectedCase.id, 'complete', { ...payload, ...acknowledgement }));
       } catch (e) {
           toast({
               variant: 'destructive', title: 'Invalid Plan Format', description: 'The plan has a syntax error.',
@@ -239,7 +387,25 @@ export function DoctorDashboard() {
         toast({ variant: 'destructive', title: 'Missing Note', description: 'Please provide a closing note for the patient.' });
         return;
     }
-    handleUpdateInvestigation(selectedCase.id, 'rejected', { doctorNote });
+    handleUpdateInvestigation(selectedCase.id, 'close', { doctorNote });
+  };
+
+  const handleReviewCase = async (investigation: Investigation) => {
+    if (!user || !canActOnCases) return;
+    try {
+      await claimCase(investigation.id, { uid: user.uid, name: doctorName });
+      await openReviewDialog(investigation);
+    } catch (error) {
+      console.error("Error claiming case:", error);
+      toast({ variant: 'destructive', title: 'Could Not Open Case', description: error instanceof CaseClaimError ? error.message : 'Failed to claim this case.' });
+    }
+  };
+
+  const closeReviewDialog = () => {
+    if (selectedCase && user) {
+      releaseCase(selectedCase.id, { uid: user.uid, name: doctorName }).catch(error => console.error("Error releasing case:", error));
+    }
+    setSelectedCase(null);
   };
 
   const openReviewDialog = async (investigation: Investigation) => {
@@ -262,7 +428,7 @@ export function DoctorDashboard() {
     }
     
     setEditablePlan({
-        preliminaryMedications: planToModify?.preliminaryMedications || [],
+        preliminaryMedications: (planToModify?.preliminaryMedications || []).map(toPrescription),
         suggestedLabTests: planToModify?.suggestedLabTests || [],
     });
 
@@ -271,20 +437,14 @@ export function DoctorDashboard() {
     setEvaluationResult(null);
     setIsCompleting(false);
     setDoctorNote('');
-
-    // Mark as read
-    const investigationDocRef = doc(db, 'investigations', investigation.id);
-    await updateDoc(investigationDocRef, {
-        lastDoctorReadTimestamp: serverTimestamp()
-    });
   };
 
-  const handlePlanChange = (index: number, field: 'name' | 'dosage', value: string) => {
+  const handlePlanChange = (index: number, changes: Partial<Prescription>) => {
       setEditablePlan(prev => {
           if (!prev) return null;
           const newMeds = [...prev.preliminaryMedications];
           if (newMeds[index]) {
-              newMeds[index] = { ...newMeds[index], [field]: value };
+              newMeds[index] = updatePrescription(newMeds[index], changes);
           }
           return { ...prev, preliminaryMedications: newMeds };
       });
@@ -302,7 +462,7 @@ export function DoctorDashboard() {
         setEditablePlan(prev => {
             if (!prev) return null;
             if (type === 'preliminaryMedications') {
-                return { ...prev, preliminaryMedications: [...prev.preliminaryMedications, { name: '', dosage: '' }] };
+                return { ...prev, preliminaryMedications: [...prev.preliminaryMedications, emptyPrescription()] };
             }
             return { ...prev, suggestedLabTests: [...prev.suggestedLabTests, ''] };
         });
@@ -394,25 +554,61 @@ export function DoctorDashboard() {
   const renderCaseCard = (c: Investigation) => {
     const latestStep = c.steps[c.steps.length-1];
     const urgency = latestStep.aiAnalysis.urgency || 'Medium';
-    const hasUnread = c.lastMessageTimestamp && (!c.lastDoctorReadTimestamp || isAfter(c.lastMessageTimestamp, c.lastDoctorReadTimestamp));
+    const unread = unreadCount(c, 'doctor');
+    const canMessage = !!user && isCaseParticipant(c, user.uid);
+    const claim = activeClaim(c, now);
+    const claimedByOther = !!user && isClaimedByOther(c, user.uid, now);
+    const sla = slaState(c, now);
+    const awaitingDoctor = c.status === 'pending_review' || c.status === 'pending_final_review';
 
     return (
         <div key={c.id} className="flex flex-col sm:flex-row items-start sm:items-center justify-between p-4 border rounded-lg hover:bg-secondary/50 transition-colors">
             <div className="mb-4 sm:mb-0">
             <div className="flex items-center gap-2">
-                {hasUnread && <div className="w-2.5 h-2.5 rounded-full bg-primary animate-pulse"></div>}
+                {unread > 0 && <div className="w-2.5 h-2.5 rounded-full bg-primary animate-pulse"></div>}
                 <p className="font-bold text-lg">Case for: {c.userName || 'Anonymous User'}</p>
             </div>
             <p className="text-sm text-muted-foreground">
                 Submitted {formatDistanceToNow(parseISO(c.createdAt), { addSuffix: true })}
             </p>
-            <div className="flex items-center gap-2 mt-2">
+            <div className="flex flex-wrap items-center gap-2 mt-2">
                 <Badge className={cn("text-white", UrgencyConfig[urgency]?.color || "bg-gray-500")}>
                     Urgency: {urgency}
                 </Badge>
+                <Badge variant="outline">{caseSpecialty(c)}</Badge>
+                {isEscalated(c) && <Badge variant="destructive">Escalated</Badge>}
+                {c.requestedDoctor && (
+                    <Badge variant="secondary">{user && isRequestedFor(c, user.uid) ? 'Requested you' : `Requested ${c.requestedDoctor.name}`}</Badge>
+                )}
+                {awaitingDoctor && (
+                    <span className={cn("flex items-center gap-1 text-xs", sla === 'breached' ? 'text-destructive font-semibold' : sla === 'due_soon' ? 'text-orange-500' : 'text-muted-foreground')}>
+                        <Timer className="h-3 w-3" />
+                        {sla === 'breached'
+                            ? `Review overdue by ${formatDistanceToNow(slaDeadline(c))}`
+                            : `Review due in ${formatDistanceToNow(slaDeadline(c))}`}
+                    </span>
+                )}
             </div>
+            {claim && (
+                <p className="text-xs text-muted-foreground mt-1">
+                    <Lock className="inline h-3 w-3 mr-1" />
+                    {claim.doctorUid === user?.uid ? 'Claimed by you' : `Being reviewed by ${claim.doctorName}`} · lease ends {formatDistanceToNow(claim.expiresAt, { addSuffix: true })}
+                </p>
+            )}
+            </div>
+            <div className="flex gap-2">
+                {canMessage && (
+                    <Button asChild variant="outline">
+                        <Link href={`/doctor/messages?case=${c.id}`}>
+                            <MessageSquare className="mr-2"/>Messages
+                            {unread > 0 && <Badge className="ml-2">{unread}</Badge>}
+                        </Link>
+                    </Button>
+                )}
+                <Button onClick={() => handleReviewCase(c)} disabled={claimedByOther || !canActOnCases}>
+                    {claimedByOther ? 'Claimed' : canActOnCases ? 'Review Case' : 'Verification Needed'} <ArrowRight className="ml-2"/>
+                </Button>
             </div>
-            <Button onClick={() => openReviewDialog(c)}>Review Case <ArrowRight className="ml-2"/></Button>
         </div>
     );
   };
@@ -421,13 +617,17 @@ export function DoctorDashboard() {
         setAnalyticsPatient(patient);
         const fetchData = async () => {
             const basePath = `users/${patient.id}`;
-            const [vitalsSnap, stripsSnap, deepDivesSnap] = await Promise.all([
-                getDocs(query(collection(db, `${basePath}/vitals`), orderBy('date', 'desc'), where('date', '!=', null))),
-                getDocs(query(collection(db, `${basePath}/test_strips`), orderBy('date', 'desc'))),
+            const [vitalReadings, stripReadings, deepDivesSnap] = await Promise.all([
+                fetchVitals(patient.id),
+                fetchTestStrips(patient.id),
                 getDocs(query(collection(db, `${basePath}/deep_dives`), orderBy('timestamp', 'desc')))
             ]);
-            setVitals(vitalsSnap.docs.map(d => ({...d.data(), date: format(parseISO(d.data().date), 'MMM d')})));
-            setStrips(stripsSnap.docs.map(d => d.data()));
+            setVitals(vitalReadings.filter(v => v.date && v.systolic && v.diastolic).map(v => ({
+                date: format(parseISO(v.date), 'MMM d'),
+                systolic: v.systolic!.value,
+                diastolic: v.diastolic!.value,
+            })));
+            setStrips(stripReadings);
             setDeepDives(deepDivesSnap.docs.map(d => ({id: d.id, ...d.data()})));
         };
         fetchData();
@@ -443,8 +643,11 @@ export function DoctorDashboard() {
             return (
                 <>
                     <Button variant="ghost" onClick={() => setViewMode('initial_review')}>Cancel</Button>
-                    <Button variant="secondary" onClick={handleCloseCase}>Close Case with Note</Button>
-                    <Button onClick={handleCompleteCase}>Complete Investigation</Button>
+                    <Button variant="secondary" onClick={handleCloseCase} disabled={!canTransition(selectedCase.status, 'close', 'doctor')}>Close Case with Note</Button>
+                    <Button onClick={handleCompleteCase} disabled={isCheckingPrescriptions || !canTransition(selectedCase.status, 'complete', 'doctor')}>
+                        {isCheckingPrescriptions && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>}
+                        Complete Investigation
+                    </Button>
                 </>
             );
         }
@@ -469,23 +672,77 @@ export function DoctorDashboard() {
                 )}
                 <div className="flex gap-2">
                     <Button variant="destructive" onClick={() => setViewMode('final_review')}><X className="mr-2"/>Finalize</Button>
-                    {!isInitialReview && <Button variant="secondary" onClick={() => setViewMode('follow_up_request')}><Repeat className="mr-2"/>Request More Tests</Button>}
-                    {isInitialReview && <Button onClick={handleSendPlanToPatient}><Send className="mr-2"/>Send Initial Plan</Button>}
+                    {canTransition(selectedCase.status, 'request_follow_up', 'doctor') && <Button variant="secondary" onClick={() => setViewMode('follow_up_request')}><Repeat className="mr-2"/>Request More Tests</Button>}
+                    {canTransition(selectedCase.status, 'dispatch_nurse', 'doctor') && <Button variant="secondary" onClick={() => setIsDispatchOpen(true)}><Home className="mr-2"/>Dispatch Nurse</Button>}
+                    {canTransition(selectedCase.status, 'send_initial_plan', 'doctor') && <Button onClick={handleSendPlanToPatient} disabled={isCheckingPrescriptions}>{isCheckingPrescriptions ? <Loader2 className="mr-2 animate-spin"/> : <Send className="mr-2"/>}Send Initial Plan</Button>}
                 </div>
             </div>
         )
     };
 
     return (
-        <Dialog open={!!selectedCase} onOpenChange={() => setSelectedCase(null)}>
+        <Dialog open={!!selectedCase} onOpenChange={closeReviewDialog}>
             <DialogContent className="max-w-4xl">
                 <DialogHeader>
                     <DialogTitle>Reviewing Case: {selectedCase.userName}</DialogTitle>
-                    <DialogDescription>Submitted {formatDistanceToNow(parseISO(selectedCase.createdAt), { addSuffix: true })}. Urgency: {latestStep.aiAnalysis.urgency}</DialogDescription>
+                    <DialogDescription>Submitted {formatDistanceToNow(parseISO(selectedCase.createdAt), { addSuffix: true })}. Urgency: {latestStep.aiAnalysis.urgency} · {caseSpecialty(selectedCase)}</DialogDescription>
                 </DialogHeader>
+                {user && (
+                    <ReassignCase
+                        caseId={selectedCase.id}
+                        currentDoctor={{ uid: user.uid, name: doctorName }}
+                        onReassigned={() => setSelectedCase(null)}
+                    />
+                )}
+                {selectedCase.status === 'awaiting_nurse_visit' && selectedCase.nurseDispatch && (
+                    <Alert>
+                        <Home className="h-4 w-4" />
+                        <AlertTitle>Home visit by {selectedCase.nurseDispatch.nurseName}</AlertTitle>
+                        <AlertDescription>
+                            {format(parseISO(selectedCase.nurseDispatch.scheduledFor), 'PPp')} · {VISIT_STAGE_LABELS[selectedCase.nurseVisit?.stage ?? 'scheduled']}
+                            {' '}({selectedCase.nurseVisit?.samples.length ?? 0} of {selectedCase.nurseDispatch.tasks.length} samples collected)
+                        </AlertDescription>
+                    </Alert>
+                )}
+                {snapshotDrift.length > 0 && (
+                    <Collapsible>
+                        <Alert>
+                            <History className="h-4 w-4" />
+                            <AlertTitle>{snapshotDrift.length} logged {snapshotDrift.length === 1 ? 'entry has' : 'entries have'} changed since submission</AlertTitle>
+                            <AlertDescription className="space-y-2">
+                                <p>The AI analysis was based on the values as they were when the case was submitted.</p>
+                                <CollapsibleTrigger asChild><Button variant="link" className="p-0 h-auto">Show changes</Button></CollapsibleTrigger>
+                                <CollapsibleContent className="space-y-3">
+                                    {snapshotDrift.map(({ entry, currentRevision, deleted }) => (
+                                        <div key={`${entry.collection}/${entry.id}`} className="space-y-1">
+                                            <p className="text-sm font-semibold">
+                                                {entry.collection === 'vitals' ? 'Vitals' : 'Test strip'} entry: v{entry.revision} at submission, {currentRevision === null ? 'since removed' : deleted ? `deleted in v${currentRevision}` : `now v${currentRevision}`}
+                                            </p>
+                                            {currentRevision !== null && (
+                                                <RevisionHistory patientId={selectedCase.userId} collection={entry.collection} entryId={entry.id} />
+                                            )}
+                                        </div>
+                                    ))}
+                                </CollapsibleContent>
+                            </AlertDescription>
+                        </Alert>
+                    </Collapsible>
+                )}
                 <div className="grid md:grid-cols-2 gap-6 max-h-[70vh] overflow-y-auto p-4">
                     <div className="space-y-4">
                         <h3 className="font-bold text-lg flex items-center gap-2"><User/>Patient Submission History</h3>
+                        <TransitionLog transitions={selectedCase.transitions} />
+                        <ConsultationLog entries={selectedCase.consultations} />
+                        {user && isCaseParticipant(selectedCase, user.uid) && !['completed', 'rejected'].includes(selectedCase.status) && (
+                            <CaseConsultations
+                                investigationId={selectedCase.id}
+                                viewerUid={user.uid}
+                                scheduling={{ patient: { uid: selectedCase.userId, name: selectedCase.userName }, doctor: { uid: user.uid, name: doctorName } }}
+                            />
+                        )}
+                        {user && isCaseParticipant(selectedCase, user.uid) && (
+                            <CaseAppointments investigationId={selectedCase.id} viewer={{ uid: user.uid, name: doctorName, role: 'doctor' }} />
+                        )}
                         <ScrollArea className="h-[calc(70vh-100px)] pr-4">
                             <div className="space-y-4">
                                 {selectedCase.steps.map((step, index) => (
@@ -519,25 +776,34 @@ export function DoctorDashboard() {
                                             )}
                                             {step.type === 'lab_result_submission' && (
                                                 <div className="space-y-4">
+                                                    {step.nurseDispatch && (
+                                                        <p className="text-sm text-muted-foreground">Home visit by {step.nurseDispatch.nurseName} on {format(parseISO(step.nurseDispatch.scheduledFor), 'PPp')}</p>
+                                                    )}
                                                     {step.userInput.nurseReport?.text && <p className="text-sm"><span className="font-semibold">Nurse Report:</span> {step.userInput.nurseReport.text}</p>}
+                                                    {!!step.nurseVisit?.samples.length && (
+                                                        <div>
+                                                            <p className="text-sm font-semibold">Samples Collected</p>
+                                                            <ul className="list-disc pl-5 text-sm">
+                                                                {step.nurseVisit.samples.map(sample => (
+                                                                    <li key={sample.task}>{sample.task}: {sample.sampleType}, {format(parseISO(sample.collectedAt), 'p')}{sample.notes ? ` (${sample.notes})` : ''}</li>
+                                                                ))}
+                                                            </ul>
+                                                        </div>
+                                                    )}
                                                     
                                                     {step.userInput.labResults?.length > 0 && (
                                                         <div>
                                                             <p className="text-sm font-semibold">Submitted Lab Results</p>
-                                                            <div className="grid grid-cols-2 gap-2 mt-1">
-                                                                {step.userInput.labResults.map((res: any, i: number) => (
-                                                                    <div key={`lab-${i}`}>
-                                                                        <p className="font-semibold text-xs truncate">{res.testName}</p>
-                                                                        <button onClick={() => setSelectedImage(res.imageDataUri)} className="transition-transform hover:scale-105 mt-1">
-                                                                            <Image src={res.imageDataUri} alt={res.testName} width={150} height={150} className="rounded-md border"/>
-                                                                        </button>
-                                                                    </div>
+                                                            <div className="space-y-4 mt-1">
+                                                                {step.userInput.labResults.map((res: SubmittedLabResult, i: number) => (
+                                                                    <LabResultView key={`lab-${i}`} result={res} onViewImage={setSelectedImage} />
                                                                 ))}
                                                             </div>
                                                         </div>
                                                     )}
                                                 </div>
                                             )}
+                                            <AiProvenanceDetails provenance={step.provenance} />
                                         </CardContent>
                                     </Card>
                                 ))}
@@ -555,6 +821,7 @@ export function DoctorDashboard() {
                                     <CardTitle className="text-base flex items-center gap-2"><Sparkles className="text-primary"/> Comprehensive Evaluation</CardTitle>
                                 </CardHeader>
                                 <CardContent className="space-y-3 text-sm">
+                                    <SafetyWarnings warnings={evaluationResult.safetyWarnings} />
                                     <div>
                                         <h4 className="font-bold">Holistic Summary</h4>
                                         <p className="text-muted-foreground">{evaluationResult.holisticSummary}</p>
@@ -589,10 +856,13 @@ export function DoctorDashboard() {
                                             <p><span className="font-semibold text-foreground/80">Follow-up:</span> {evaluationResult.suggestedTreatmentPlan.followUp}</p>
                                         </div>
                                     </div>
+                                    <AiProvenanceDetails provenance={evaluationResult.provenance} />
                                 </CardContent>
                             </Card>
                         )}
 
+                        <SafetyWarnings warnings={latestStep.aiAnalysis.safetyWarnings} />
+
                         <Alert variant={latestStep.aiAnalysis.urgency === 'Critical' ? 'destructive' : 'default'}>
                             <AlertTitle>AI Summary & Justification</AlertTitle>
                             <AlertDescription>{latestStep.aiAnalysis.analysisSummary || latestStep.aiAnalysis.refinedAnalysis} <br/><br/> <strong>Justification:</strong> {latestStep.aiAnalysis.justification}</AlertDescription>
@@ -608,6 +878,8 @@ export function DoctorDashboard() {
                                 </ul>
                             </CardContent>
                         </Card>
+
+                        <MedicationAdherence key={selectedCase.id} caseId={selectedCase.id} doctorPlan={selectedCase.doctorPlan} finalTreatmentPlan={selectedCase.finalTreatmentPlan} />
                         
                         {viewMode === 'final_review' && (
                              <Card><CardHeader><CardTitle className="text-base m-0">Final Plan / Note</CardTitle></CardHeader><CardContent className="space-y-4">
@@ -624,11 +896,13 @@ export function DoctorDashboard() {
                                         <Label className="font-bold">Preliminary Medications</Label>
                                         <div className="space-y-2 mt-2">
                                             {editablePlan.preliminaryMedications.map((med, index) => (
-                                                <div key={index} className="flex items-center gap-2">
-                                                    <Input value={med.name} placeholder="Medication Name" onChange={(e) => handlePlanChange(index, 'name', e.target.value)} />
-                                                    <Input value={med.dosage} placeholder="Dosage" onChange={(e) => handlePlanChange(index, 'dosage', e.target.value)} />
-                                                    <Button variant="ghost" size="icon" className="shrink-0" onClick={() => removePlanItem('preliminaryMedications', index)}><Trash2 className="h-4 w-4 text-destructive" /></Button>
-                                                </div>
+                                                <PrescriptionEditor
+                                                    key={index}
+                                                    index={index}
+                                                    prescription={med}
+                                                    onChange={(changes) => handlePlanChange(index, changes)}
+                                                    onRemove={() => removePlanItem('preliminaryMedications', index)}
+                                                />
                                             ))}
                                         </div>
                                         <Button variant="outline" size="sm" className="mt-2" onClick={() => addPlanItem('preliminaryMedications')}>Add Medication</Button>
@@ -696,10 +970,12 @@ export function DoctorDashboard() {
                 </DialogHeader>
                 <div className="max-h-[70vh] overflow-y-auto p-1">
                     <Tabs defaultValue="vitals">
-                        <TabsList className="grid w-full grid-cols-3">
+                        <TabsList className="grid w-full grid-cols-5">
                             <TabsTrigger value="vitals"><HeartPulse className="mr-2"/>Vitals</TabsTrigger>
                             <TabsTrigger value="strips"><Beaker className="mr-2"/>Test Strips</TabsTrigger>
+                            <TabsTrigger value="labs"><FlaskConical className="mr-2"/>Labs</TabsTrigger>
                             <TabsTrigger value="analyses"><BrainCircuit className="mr-2"/>Deep Dives</TabsTrigger>
+                            <TabsTrigger value="ranges"><Target className="mr-2"/>Ranges</TabsTrigger>
                         </TabsList>
                         <TabsContent value="vitals" className="mt-4">
                              <Card>
@@ -720,6 +996,20 @@ export function DoctorDashboard() {
                                 </CardContent>
                             </Card>
                         </TabsContent>
+                        <TabsContent value="labs" className="mt-4">
+                            <LabHistory
+                                patientId={analyticsPatient.id}
+                                recorder={user ? { uid: user.uid, name: doctorName, role: 'doctor' } : undefined}
+                            />
+                        </TabsContent>
+                        <TabsContent value="ranges" className="mt-4">
+                            {user && (
+                                <ReferenceRangesEditor
+                                    patientId={analyticsPatient.id}
+                                    editor={{ uid: user.uid, name: doctorName, role: 'doctor' }}
+                                />
+                            )}
+                        </TabsContent>
                         <TabsContent value="strips" className="mt-4">
                            <Card>
                                 <CardHeader>
@@ -798,11 +1088,27 @@ export function DoctorDashboard() {
 
   return (
     <div className="space-y-8">
-      <div className="space-y-2">
-        <h1 className="text-3xl md:text-4xl font-bold text-foreground/90">Doctor's Dashboard</h1>
-        <p className="text-lg text-muted-foreground">Welcome, {doctorName}.</p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-3xl md:text-4xl font-bold text-foreground/90">Doctor's Dashboard</h1>
+          <p className="text-lg text-muted-foreground">Welcome, {doctorName}.</p>
+        </div>
+        <Button variant="outline" asChild><Link href="/doctor/schedule"><CalendarClock className="mr-2 h-4 w-4" />Schedule</Link></Button>
       </div>
 
+      {!verificationLoading && !canActOnCases && (
+        <Alert>
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>License verification {VERIFICATION_STATUS_LABELS[verificationStatus].toLowerCase()}</AlertTitle>
+          <AlertDescription>
+            You can browse the case queue, but you can't review cases until an administrator verifies your license.{' '}
+            <Link href="/doctor/verification" className="font-semibold underline">
+              {verificationStatus === 'pending' ? 'View your application' : 'Go to verification'}
+            </Link>
+          </AlertDescription>
+        </Alert>
+      )}
+
        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 items-start">
         <div className="lg:col-span-3">
           <Card>
@@ -816,6 +1122,7 @@ export function DoctorDashboard() {
                         <TabsTrigger value="updates">Patient Updates ({patientUpdates.length})</TabsTrigger>
                     </TabsList>
                     <TabsContent value="queue">
+                        <CaseQueueFilters filter={queueFilter} specialties={specialties} onChange={setQueueFilter} />
                         {isLoading ? <div className="flex justify-center p-8"><Loader2 className="w-8 h-8 animate-spin" /></div> : (
                             <div className="space-y-4 pt-4">
                             {investigationQueue.length > 0 ? 
@@ -823,7 +1130,7 @@ export function DoctorDashboard() {
                                 <div className="text-center text-muted-foreground py-12">
                                     <User className="mx-auto w-12 h-12 text-gray-400" />
                                     <h3 className="mt-2 text-lg font-semibold">All Clear!</h3>
-                                    <p>There are no new cases waiting for your review.</p>
+                                    <p>There are no cases matching these filters.</p>
                                 </div>
                             }
                             </div>
@@ -879,6 +1186,21 @@ export function DoctorDashboard() {
       </div>
       
       {renderReviewDialog()}
+      {isDispatchOpen && selectedCase && user && (
+        <DispatchNurseDialog
+          onClose={() => setIsDispatchOpen(false)}
+          patient={{ uid: selectedCase.userId, name: selectedCase.userName }}
+          contact={selectedCase.patientContact}
+          doctor={{ uid: user.uid, name: doctorName }}
+          tests={(selectedCase.status === 'awaiting_follow_up_visit' ? selectedCase.followUpRequest : selectedCase.doctorPlan)?.suggestedLabTests ?? []}
+          onDispatch={(nurseDispatch) => handleUpdateInvestigation(selectedCase.id, 'dispatch_nurse', { nurseDispatch, nurseVisit: initialVisit() })}
+        />
+      )}
+      <PrescriptionWarningsDialog
+        warnings={pendingWarnings?.warnings ?? null}
+        onConfirm={() => pendingWarnings?.proceed()}
+        onCancel={() => setPendingWarnings(null)}
+      />
       
       {renderAnalyticsDialog()}
       
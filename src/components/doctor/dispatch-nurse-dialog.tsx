@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { addHours, format } from 'date-fns';
+import { Home, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { validateDispatch, type NurseDispatch } from '@/lib/nurse-visits';
+import { fetchNurses, type Nurse, type PatientContact } from '@/lib/nurse-visits-store';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+
+interface DispatchNurseDialogProps {
+    onClose: () => void;
+    patient: { uid: string; name: string };
+    /** Copied onto the case when it was submitted; older cases have none, so the doctor enters it. */
+    contact?: PatientContact;
+    doctor: { uid: string; name: string };
+    /** The tests the patient is waiting on; all are selected to start with. */
+    tests: string[];
+    onDispatch: (dispatch: NurseDispatch) => Promise<void>;
+}
+
+/**
+ * Sends a nurse to the patient's home to collect samples for the requested tests.
+ * Mounted only while open, so each dispatch starts from a fresh form.
+ */
+export function DispatchNurseDialog({ onClose, patient, contact, doctor, tests, onDispatch }: DispatchNurseDialogProps) {
+    const { toast } = useToast();
+    const [nurses, setNurses] = useState<Nurse[]>([]);
+    const [nurseUid, setNurseUid] = useState('');
+    const [address, setAddress] = useState(contact?.address ?? '');
+    const [phone, setPhone] = useState(contact?.phone ?? '');
+    const [scheduledFor, setScheduledFor] = useState(() => format(addHours(new Date(), 2), "yyyy-MM-dd'T'HH:00"));
+    const [tasks, setTasks] = useState<string[]>(tests);
+    const [instructions, setInstructions] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        fetchNurses()
+            .then(setNurses)
+            .catch(error => {
+                console.error("Error loading nurses:", error);
+                toast({ variant: 'destructive', title: 'Error', description: 'Could not load nurses.' });
+            })
+            .finally(() => setIsLoading(false));
+    }, [toast]);
+
+    const toggleTask = (task: string, checked: boolean) => {
+        setTasks(prev => checked ? [...prev, task] : prev.filter(t => t !== task));
+    };
+
+    const handleDispatch = async () => {
+        const nurse = nurses.find(n => n.uid === nurseUid);
+        const draft = {
+            nurseUid,
+            nurseName: nurse?.name ?? '',
+            dispatchedByUid: doctor.uid,
+            dispatchedByName: doctor.name,
+            scheduledFor: scheduledFor ? new Date(scheduledFor).toISOString() : '',
+            patientName: patient.name,
+            address: address.trim(),
+            tasks,
+        };
+        const error = validateDispatch(draft);
+        if (error) {
+            toast({ variant: 'destructive', title: 'Missing Information', description: error });
+            return;
+        }
+        const dispatch: NurseDispatch = { ...draft, dispatchedAt: new Date().toISOString() };
+        if (phone.trim()) dispatch.phone = phone.trim();
+        if (instructions.trim()) dispatch.instructions = instructions.trim();
+
+        setIsSaving(true);
+        try {
+            await onDispatch(dispatch);
+            onClose();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open onOpenChange={(open) => !open && onClose()}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Dispatch a Nurse</DialogTitle>
+                    <DialogDescription>A nurse will visit {patient.name} at home to collect samples.</DialogDescription>
+                </DialogHeader>
+                {isLoading ? (
+                    <div className="flex justify-center p-4"><Loader2 className="animate-spin" /></div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="space-y-1">
+                            <Label>Nurse</Label>
+                            <Select value={nurseUid} onValueChange={setNurseUid}>
+                                <SelectTrigger><SelectValue placeholder={nurses.length ? "Choose a nurse" : "No nurses are registered"} /></SelectTrigger>
+                                <SelectContent>
+                                    {nurses.map(n => <SelectItem key={n.uid} value={n.uid}>{n.name}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label>Visit Time</Label>
+                            <Input type="datetime-local" value={scheduledFor} onChange={(e) => setScheduledFor(e.target.value)} />
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            <div className="space-y-1 col-span-2">
+                                <Label>Address</Label>
+                                <Input value={address} onChange={(e) => setAddress(e.target.value)} placeholder="The patient has no address on file" />
+                            </div>
+                            <div className="space-y-1">
+                                <Label>Phone</Label>
+                                <Input value={phone} onChange={(e) => setPhone(e.target.value)} />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Samples to Collect</Label>
+                            {tests.map(test => (
+                                <div key={test} className="flex items-center gap-2">
+                                    <Checkbox id={`task-${test}`} checked={tasks.includes(test)} onCheckedChange={(checked) => toggleTask(test, checked === true)} />
+                                    <Label htmlFor={`task-${test}`} className="font-normal">{test}</Label>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="space-y-1">
+                            <Label>Instructions for the Nurse</Label>
+                            <Textarea value={instructions} onChange={(e) => setInstructions(e.target.value)} placeholder="e.g., Fasting sample; check blood pressure while there." />
+                        </div>
+                    </div>
+                )}
+                <DialogFooter>
+                    <Button variant="ghost" onClick={onClose}>Cancel</Button>
+                    <Button onClick={handleDispatch} disabled={isLoading || isSaving}>
+                        {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Home className="mr-2 h-4 w-4" />}
+                        Dispatch
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
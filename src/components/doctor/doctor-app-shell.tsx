@@ -2,7 +2,7 @@
 "use client"
 
 import * as React from "react"
-import { Bot, LogOut, Users, BarChart, MessageSquare, UserCircle } from "lucide-react"
+import { Bot, LogOut, Users, BarChart, MessageSquare, UserCircle, CalendarClock, BadgeCheck } from "lucide-react"
 import { usePathname, useRouter } from "next/navigation"
 import { signOut } from "firebase/auth"
 import { auth } from "@/lib/firebase"
@@ -16,7 +16,9 @@ import { DoctorProfileGuard } from "./doctor-profile-guard"
 const pageTitles: Record<string, string> = {
   "/doctor/dashboard": "Doctor Dashboard",
   "/doctor/messages": "Messages",
+  "/doctor/schedule": "Schedule",
   "/doctor/profile": "Your Profile",
+  "/doctor/verification": "License Verification",
 };
 
 function DoctorAppShellInternal({ children }: { children: React.ReactNode }) {
@@ -56,11 +58,17 @@ function DoctorAppShellInternal({ children }: { children: React.ReactNode }) {
              <Button asChild variant={pathname.startsWith('/doctor/messages') ? 'default' : 'ghost'} className="w-full justify-start">
                 <Link href="/doctor/messages"><MessageSquare className="mr-2"/>Messages</Link>
             </Button>
+            <Button asChild variant={pathname === '/doctor/schedule' ? 'default' : 'ghost'} className="w-full justify-start">
+                <Link href="/doctor/schedule"><CalendarClock className="mr-2"/>Schedule</Link>
+            </Button>
         </div>
          <div className="p-4 border-t border-primary/20">
             <Button asChild variant={pathname === '/doctor/profile' ? 'secondary' : 'ghost'} className="w-full justify-start">
                 <Link href="/doctor/profile"><UserCircle className="mr-2"/>Your Profile</Link>
             </Button>
+            <Button asChild variant={pathname === '/doctor/verification' ? 'secondary' : 'ghost'} className="w-full justify-start mt-2">
+                <Link href="/doctor/verification"><BadgeCheck className="mr-2"/>Verification</Link>
+            </Button>
             <Button variant="ghost" className="w-full justify-start mt-2" onClick={handleLogout}>
                 <LogOut className="mr-2"/>
                 <span>Logout</span>
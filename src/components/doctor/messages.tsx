@@ -1,26 +1,118 @@
-
 "use client";
 
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import Link from "next/link";
-import { Button } from "@/components/ui/button";
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, MessageSquare } from 'lucide-react';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/context/auth-provider';
+import { useProfile } from '@/context/profile-provider';
+import { unreadCount, type ThreadCase } from '@/lib/case-messages';
+import { threadFieldsFromFirestore } from '@/lib/case-messages-store';
+import { claimFromFirestore } from '@/lib/case-queue-store';
+import { INVESTIGATION_STATUS_LABELS, type InvestigationStatus } from '@/lib/investigation';
+import { CaseThread } from '@/components/messages/case-thread';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+interface ConversationCase extends ThreadCase {
+    id: string;
+    userName: string;
+    status: InvestigationStatus;
+    lastMessageContent?: string;
+    lastMessageTimestamp?: Date;
+}
 
+/** Conversations on the cases this doctor has reviewed, busiest first. */
 export function MessagesDashboard() {
+    const { user } = useAuth();
+    const { profile } = useProfile();
+    const doctorName = profile?.name || profile?.username || 'Doctor';
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const selectedId = searchParams.get('case');
+    const [cases, setCases] = useState<ConversationCase[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        if (!user) return;
+        const q = query(collection(db, 'investigations'), where('reviewedByUid', '==', user.uid));
+        const unsubscribe = onSnapshot(q, (snapshot) => {
+            setCases(snapshot.docs.map(doc => ({
+                id: doc.id,
+                ...doc.data(),
+                ...threadFieldsFromFirestore(doc.data()),
+                lastMessageTimestamp: doc.data().lastMessageTimestamp?.toDate(),
+                claim: claimFromFirestore(doc.data().claim),
+            } as ConversationCase)));
+            setIsLoading(false);
+        }, (error) => {
+            console.error("Error fetching conversations: ", error);
+            setIsLoading(false);
+        });
+        return () => unsubscribe();
+    }, [user]);
+
+    const sorted = useMemo(() => [...cases].sort((a, b) =>
+        (b.lastMessageTimestamp?.getTime() ?? 0) - (a.lastMessageTimestamp?.getTime() ?? 0)
+    ), [cases]);
+    const selected = cases.find(c => c.id === selectedId);
+
+    if (!user) return null;
+
     return (
-        <div className="flex items-center justify-center h-full">
-            <Card className="w-full max-w-md">
+        <div className="grid gap-6 md:grid-cols-3">
+            <Card className="md:col-span-1">
                 <CardHeader>
-                    <CardTitle>Feature Removed</CardTitle>
+                    <CardTitle>Conversations</CardTitle>
+                    <CardDescription>Patients whose cases you have reviewed.</CardDescription>
                 </CardHeader>
-                <CardContent className="text-center">
-                    <p className="text-muted-foreground mb-4">
-                        The direct messaging feature has been removed.
-                    </p>
-                    <Button asChild>
-                        <Link href="/doctor/dashboard">Back to Dashboard</Link>
-                    </Button>
+                <CardContent className="space-y-2">
+                    {isLoading ? (
+                        <div className="flex justify-center p-4"><Loader2 className="animate-spin" /></div>
+                    ) : sorted.length > 0 ? sorted.map(c => {
+                        const unread = unreadCount(c, 'doctor');
+                        return (
+                            <button
+                                key={c.id}
+                                onClick={() => router.replace(`/doctor/messages?case=${c.id}`)}
+                                className={cn("w-full text-left rounded-lg border p-3 hover:bg-secondary/50 transition-colors", c.id === selectedId && "bg-secondary")}
+                            >
+                                <div className="flex items-center justify-between gap-2">
+                                    <p className={cn("truncate", unread > 0 ? "font-bold" : "font-medium")}>{c.userName}</p>
+                                    {unread > 0 && <Badge>{unread}</Badge>}
+                                </div>
+                                <p className="text-xs text-muted-foreground truncate">{c.lastMessageContent ?? INVESTIGATION_STATUS_LABELS[c.status]}</p>
+                                {c.lastMessageTimestamp && (
+                                    <p className="text-xs text-muted-foreground">{formatDistanceToNow(c.lastMessageTimestamp, { addSuffix: true })}</p>
+                                )}
+                            </button>
+                        );
+                    }) : (
+                        <p className="text-sm text-muted-foreground text-center py-8">Once you review a case, you can message the patient here.</p>
+                    )}
                 </CardContent>
             </Card>
+            <Card className="md:col-span-2">
+                {selected ? (
+                    <>
+                        <CardHeader>
+                            <CardTitle>{selected.userName}</CardTitle>
+                            <CardDescription>{INVESTIGATION_STATUS_LABELS[selected.status]}</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <CaseThread caseId={selected.id} thread={selected} viewer={{ uid: user.uid, name: doctorName, role: 'doctor' }} />
+                        </CardContent>
+                    </>
+                ) : (
+                    <CardContent className="flex flex-col items-center justify-center text-muted-foreground py-24">
+                        <MessageSquare className="w-12 h-12 text-gray-400" />
+                        <p className="mt-2">Choose a conversation.</p>
+                    </CardContent>
+                )}
+            </Card>
         </div>
     );
 }
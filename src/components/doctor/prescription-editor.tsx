@@ -0,0 +1,71 @@
+"use client";
+
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DRUG_DICTIONARY, ROUTE_LABELS, type DrugRoute } from '@/lib/drug-dictionary';
+import { FREQUENCY_OPTIONS, MAX_REFILLS, type Prescription } from '@/lib/prescription';
+
+const routes = Object.keys(ROUTE_LABELS) as DrugRoute[];
+
+export function PrescriptionEditor({ prescription, index, onChange, onRemove }: {
+    prescription: Prescription;
+    index: number;
+    onChange: (changes: Partial<Prescription>) => void;
+    onRemove: () => void;
+}) {
+    const drug = prescription.drugId ? DRUG_DICTIONARY.find(d => d.id === prescription.drugId) : undefined;
+    const id = `prescription-${index}`;
+
+    return (
+        <div className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+                <Input value={prescription.name} placeholder="Medication Name" list={`${id}-drugs`} onChange={(e) => onChange({ name: e.target.value })} />
+                <datalist id={`${id}-drugs`}>
+                    {DRUG_DICTIONARY.map(d => <option key={d.id} value={d.name} />)}
+                </datalist>
+                <Button variant="ghost" size="icon" className="shrink-0" onClick={onRemove}><Trash2 className="h-4 w-4 text-destructive" /></Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                    <Label htmlFor={`${id}-strength`} className="text-xs">Strength</Label>
+                    <Input id={`${id}-strength`} value={prescription.strength} placeholder="e.g., 500 mg" list={`${id}-strengths`} onChange={(e) => onChange({ strength: e.target.value })} />
+                    <datalist id={`${id}-strengths`}>
+                        {drug?.strengths.map(s => <option key={s} value={s} />)}
+                    </datalist>
+                </div>
+                <div className="space-y-1">
+                    <Label className="text-xs">Route</Label>
+                    <Select value={prescription.route} onValueChange={(route) => onChange({ route: route as DrugRoute })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {routes.map(route => <SelectItem key={route} value={route} className="capitalize">{route}</SelectItem>)}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-1 col-span-2">
+                    <Label htmlFor={`${id}-frequency`} className="text-xs">Frequency</Label>
+                    <Input id={`${id}-frequency`} value={prescription.frequency} placeholder="e.g., twice a day" list={`${id}-frequencies`} onChange={(e) => onChange({ frequency: e.target.value })} />
+                    <datalist id={`${id}-frequencies`}>
+                        {FREQUENCY_OPTIONS.map(f => <option key={f} value={f} />)}
+                    </datalist>
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor={`${id}-duration`} className="text-xs">Duration (days)</Label>
+                    <Input id={`${id}-duration`} type="number" min={1} placeholder="Ongoing" value={prescription.durationDays ?? ''} onChange={(e) => onChange({ durationDays: e.target.value === '' ? null : Math.max(1, Math.round(Number(e.target.value))) })} />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor={`${id}-refills`} className="text-xs">Refills</Label>
+                    <Input id={`${id}-refills`} type="number" min={0} max={MAX_REFILLS} value={prescription.refills} onChange={(e) => onChange({ refills: Math.min(MAX_REFILLS, Math.max(0, Math.round(Number(e.target.value) || 0))) })} />
+                </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+                Patient sees: {prescription.dosage || '—'}
+                {prescription.name.trim() && !prescription.drugId && ' · Not in the drug dictionary, so it can\'t be checked for interactions.'}
+            </p>
+        </div>
+    );
+}
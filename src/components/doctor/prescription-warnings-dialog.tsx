@@ -0,0 +1,72 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { PrescriptionWarning } from '@/lib/prescription';
+
+const kindLabels: Record<PrescriptionWarning['kind'], string> = {
+    duplicate_drug: 'Duplicate drug',
+    duplicate_class: 'Duplicate therapy',
+    interaction: 'Interaction',
+};
+
+/** Lists prescription warnings and only lets the doctor proceed once they've acknowledged them. */
+export function PrescriptionWarningsDialog({ warnings, onConfirm, onCancel }: {
+    warnings: PrescriptionWarning[] | null;
+    onConfirm: () => void;
+    onCancel: () => void;
+}) {
+    const [acknowledged, setAcknowledged] = useState(false);
+
+    useEffect(() => {
+        setAcknowledged(false);
+    }, [warnings]);
+
+    return (
+        <AlertDialog open={!!warnings} onOpenChange={(open) => !open && onCancel()}>
+            <AlertDialogContent className="max-w-2xl">
+                <AlertDialogHeader>
+                    <AlertDialogTitle className="flex items-center gap-2"><AlertTriangle className="text-destructive" /> Review Prescription Warnings</AlertDialogTitle>
+                    <AlertDialogDescription>
+                        The plan was checked against itself and the patient&apos;s other active prescriptions.
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <ScrollArea className="max-h-[50vh] pr-4">
+                    <ul className="space-y-2">
+                        {warnings?.map(warning => (
+                            <li key={`${warning.id}:${warning.existingCaseId ?? ''}`} className="rounded-md border p-3 space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <Badge variant={warning.severity === 'major' ? 'destructive' : 'secondary'} className="capitalize">{warning.severity}</Badge>
+                                    <span className="text-sm font-semibold">{kindLabels[warning.kind]}</span>
+                                </div>
+                                <p className="text-sm">{warning.message}</p>
+                            </li>
+                        ))}
+                    </ul>
+                </ScrollArea>
+                <div className="flex items-center gap-2">
+                    <Checkbox id="acknowledge-warnings" checked={acknowledged} onCheckedChange={(checked) => setAcknowledged(checked === true)} />
+                    <Label htmlFor="acknowledge-warnings">I have reviewed these warnings and want to proceed with this plan.</Label>
+                </div>
+                <AlertDialogFooter>
+                    <AlertDialogCancel>Back to Plan</AlertDialogCancel>
+                    <AlertDialogAction onClick={onConfirm} disabled={!acknowledged}>Proceed</AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -10,47 +10,101 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { DoctorAvatar, VerificationBadge } from '@/components/doctors/doctor-card';
+import { MAX_BIO_LENGTH, MAX_PHOTO_BYTES, parseList, type DoctorProfile } from '@/lib/doctor-directory';
 import { useToast } from "@/hooks/use-toast";
-import { User, Edit } from "lucide-react";
+import { User, Edit, Camera } from "lucide-react";
 import { useAuth } from '@/context/auth-provider';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 
 const profileSchema = z.object({
   name: z.string().min(2, { message: "Name must be at least 2 characters." }),
   specialty: z.string().min(3, { message: "Specialty must be at least 3 characters." }),
+  qualifications: z.string(),
+  licenseNumber: z.string().min(3, { message: "Enter your license number." }),
+  licenseIssuer: z.string().min(2, { message: "Enter the body that issued your license." }),
+  languages: z.string(),
+  bio: z.string().max(MAX_BIO_LENGTH, { message: `Keep your bio under ${MAX_BIO_LENGTH} characters.` }),
+  consultationFee: z.string().regex(/^\d*$/, { message: "Enter a whole amount in Naira." }),
 });
 
 type ProfileFormValues = z.infer<typeof profileSchema>;
 
+const EMPTY_FORM: ProfileFormValues = {
+  name: "", specialty: "", qualifications: "", licenseNumber: "", licenseIssuer: "", languages: "", bio: "", consultationFee: "",
+};
+
+function toFormValues(profile: DoctorProfile): ProfileFormValues {
+  return {
+    name: profile.name,
+    specialty: profile.specialty,
+    qualifications: profile.qualifications?.join(', ') ?? "",
+    licenseNumber: profile.licenseNumber ?? "",
+    licenseIssuer: profile.licenseIssuer ?? "",
+    languages: profile.languages?.join(', ') ?? "",
+    bio: profile.bio ?? "",
+    consultationFee: profile.consultationFee?.toString() ?? "",
+  };
+}
+
+function toProfile(values: ProfileFormValues, photoDataUri: string | null): DoctorProfile {
+  return {
+    name: values.name,
+    specialty: values.specialty,
+    qualifications: parseList(values.qualifications),
+    licenseNumber: values.licenseNumber.trim(),
+    licenseIssuer: values.licenseIssuer.trim(),
+    languages: parseList(values.languages),
+    bio: values.bio.trim(),
+    ...(values.consultationFee ? { consultationFee: Number(values.consultationFee) } : {}),
+    ...(photoDataUri ? { photoDataUri } : {}),
+  };
+}
+
+
 export function DoctorProfileManager() {
   const { user } = useAuth();
   const { profile, createProfile, updateProfile } = useDoctorProfile();
   const { toast } = useToast();
   const router = useRouter();
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const [photoDataUri, setPhotoDataUri] = useState<string | null>(null);
 
   const form = useForm<ProfileFormValues>({
     resolver: zodResolver(profileSchema),
-    defaultValues: { name: "", specialty: "" },
+    defaultValues: EMPTY_FORM,
   });
 
   useEffect(() => {
     if (profile) {
-      form.reset({
-        name: profile.name,
-        specialty: profile.specialty,
-      });
+      form.reset(toFormValues(profile));
+      setPhotoDataUri(profile.photoDataUri ?? null);
     } else if (user?.displayName) {
-      form.reset({ name: user.displayName, specialty: "" });
+      form.reset({ ...EMPTY_FORM, name: user.displayName });
     }
   }, [profile, user, form]);
 
+  const handlePhotoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_PHOTO_BYTES) {
+      toast({ variant: "destructive", title: "Photo Too Large", description: `Choose a photo under ${Math.round(MAX_PHOTO_BYTES / 1024)} KB.` });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = () => setPhotoDataUri(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
   const onSubmit = async (values: ProfileFormValues) => {
     try {
       if (profile) {
-        await updateProfile(values);
+        await updateProfile(toProfile(values, photoDataUri));
         toast({ title: "Profile Updated", description: "Your profile has been successfully updated." });
       } else {
-        await createProfile(values);
+        await createProfile(toProfile(values, photoDataUri));
         toast({ title: "Profile Created", description: "Welcome! Your profile is now set up." });
       }
       router.push('/doctor/dashboard');
@@ -72,12 +126,31 @@ export function DoctorProfileManager() {
             {pageTitle}
           </CardTitle>
           <CardDescription>{pageDescription}</CardDescription>
+          <div className="flex items-center gap-2 pt-2 text-sm">
+            <VerificationBadge verification={profile?.verification} />
+            <Link href="/doctor/verification" className="underline text-muted-foreground">Manage license verification</Link>
+          </div>
         </CardHeader>
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <FormField control={form.control} name="name" render={({ field }) => (<FormItem><FormLabel>Full Name (e.g., Dr. Jane Doe)</FormLabel><FormControl><Input placeholder="Dr. Jane Doe" {...field} /></FormControl><FormMessage /></FormItem>)} />
+              <div className="flex items-center gap-4">
+                <DoctorAvatar doctor={{ name: form.watch('name'), photoDataUri: photoDataUri ?? undefined }} />
+                <Button type="button" variant="outline" size="sm" onClick={() => photoInputRef.current?.click()}><Camera className="mr-2 h-4 w-4" />{photoDataUri ? 'Change Photo' : 'Add Photo'}</Button>
+                <Input ref={photoInputRef} type="file" accept="image/*" onChange={handlePhotoUpload} className="hidden" />
+              </div>
               <FormField control={form.control} name="specialty" render={({ field }) => (<FormItem><FormLabel>Specialty</FormLabel><FormControl><Input placeholder="Cardiology" {...field} /></FormControl><FormMessage /></FormItem>)} />
+              <FormField control={form.control} name="qualifications" render={({ field }) => (<FormItem><FormLabel>Qualifications (comma separated)</FormLabel><FormControl><Input placeholder="MBBS, FWACP" {...field} /></FormControl><FormMessage /></FormItem>)} />
+              <div className="grid sm:grid-cols-2 gap-4">
+                <FormField control={form.control} name="licenseNumber" render={({ field }) => (<FormItem><FormLabel>License Number</FormLabel><FormControl><Input placeholder="MDCN/R/12345" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                <FormField control={form.control} name="licenseIssuer" render={({ field }) => (<FormItem><FormLabel>Issued By</FormLabel><FormControl><Input placeholder="Medical and Dental Council of Nigeria" {...field} /></FormControl><FormMessage /></FormItem>)} />
+              </div>
+              <div className="grid sm:grid-cols-2 gap-4">
+                <FormField control={form.control} name="languages" render={({ field }) => (<FormItem><FormLabel>Languages (comma separated)</FormLabel><FormControl><Input placeholder="English, Yoruba" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                <FormField control={form.control} name="consultationFee" render={({ field }) => (<FormItem><FormLabel>Consultation Fee (₦)</FormLabel><FormControl><Input inputMode="numeric" placeholder="5000" {...field} /></FormControl><FormMessage /></FormItem>)} />
+              </div>
+              <FormField control={form.control} name="bio" render={({ field }) => (<FormItem><FormLabel>About You</FormLabel><FormControl><Textarea rows={4} placeholder="Your experience and areas of interest, shown on your public profile." {...field} /></FormControl><FormMessage /></FormItem>)} />
               <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
                 {form.formState.isSubmitting ? 'Saving...' : buttonText}
               </Button>
@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, UserRoundCog } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { CaseClaimError } from '@/lib/case-queue';
+import { fetchDoctors, reassignCase } from '@/lib/case-queue-store';
+
+type Doctor = Awaited<ReturnType<typeof fetchDoctors>>[number];
+
+/** Lets the reviewing doctor hand a case to a colleague, with a reason for the record. */
+export function ReassignCase({ caseId, currentDoctor, onReassigned }: {
+    caseId: string;
+    currentDoctor: { uid: string; name: string };
+    onReassigned: () => void;
+}) {
+    const { toast } = useToast();
+    const [doctors, setDoctors] = useState<Doctor[]>([]);
+    const [targetUid, setTargetUid] = useState('');
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        fetchDoctors()
+            .then(all => setDoctors(all.filter(d => d.uid !== currentDoctor.uid)))
+            .catch(error => console.error("Error fetching doctors:", error));
+    }, [currentDoctor.uid]);
+
+    const handleReassign = async () => {
+        const target = doctors.find(d => d.uid === targetUid);
+        if (!target || !reason.trim()) {
+            toast({ variant: 'destructive', title: 'Missing Information', description: 'Choose a doctor and give a reason for the reassignment.' });
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await reassignCase(caseId, currentDoctor, { uid: target.uid, name: target.name }, reason.trim());
+            toast({ title: 'Case Reassigned', description: `${target.name} now holds this case.` });
+            onReassigned();
+        } catch (error) {
+            console.error("Error reassigning case:", error);
+            toast({ variant: 'destructive', title: 'Error', description: error instanceof CaseClaimError ? error.message : 'Failed to reassign the case.' });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (doctors.length === 0) return null;
+
+    return (
+        <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={targetUid} onValueChange={setTargetUid}>
+                <SelectTrigger className="sm:w-56"><SelectValue placeholder="Reassign to..." /></SelectTrigger>
+                <SelectContent>
+                    {doctors.map(d => <SelectItem key={d.uid} value={d.uid}>{d.name}{d.specialty ? ` (${d.specialty})` : ''}</SelectItem>)}
+                </SelectContent>
+            </Select>
+            <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason, e.g., needs a cardiologist" className="flex-1" />
+            <Button variant="outline" onClick={handleReassign} disabled={isSaving || !targetUid}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserRoundCog className="mr-2 h-4 w-4" />}
+                Reassign
+            </Button>
+        </div>
+    );
+}
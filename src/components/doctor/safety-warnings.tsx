@@ -0,0 +1,38 @@
+"use client";
+
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import type { GuardrailWarning } from '@/lib/clinical-guardrails';
+
+const kindLabels: Record<GuardrailWarning['kind'], string> = {
+    red_flag: 'Red flag',
+    banned_drug: 'Withheld',
+    dosage: 'Dose',
+    age: 'Age',
+    contraindication: 'Contraindication',
+};
+
+/** The guardrail findings stored with an AI result. Older results have none and render nothing. */
+export function SafetyWarnings({ warnings }: { warnings?: GuardrailWarning[] }) {
+    if (!warnings?.length) return null;
+    const major = warnings.some(w => w.severity === 'major');
+
+    return (
+        <Alert variant={major ? 'destructive' : 'default'}>
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>Safety Checks</AlertTitle>
+            <AlertDescription>
+                <ul className="mt-2 space-y-2">
+                    {warnings.map((warning, index) => (
+                        <li key={`${warning.id}:${index}`} className="flex items-start gap-2 text-sm">
+                            <Badge variant={warning.severity === 'major' ? 'destructive' : 'secondary'} className="shrink-0">{kindLabels[warning.kind]}</Badge>
+                            <span>{warning.message}</span>
+                        </li>
+                    ))}
+                </ul>
+            </AlertDescription>
+        </Alert>
+    );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/context/auth-provider';
+import { useProfile } from '@/context/profile-provider';
+import type { Appointment } from '@/lib/appointments';
+import { fetchDoctorAppointments } from '@/lib/appointments-store';
+import { AppointmentRow } from '@/components/appointments/case-appointments';
+import { AvailabilityEditor } from './availability-editor';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export function DoctorSchedule() {
+    const { user } = useAuth();
+    const { profile } = useProfile();
+    const doctorName = profile?.name || profile?.username || 'Doctor';
+    const [appointments, setAppointments] = useState<Appointment[] | null>(null);
+
+    const load = useCallback(() => {
+        if (!user) return;
+        fetchDoctorAppointments(user.uid)
+            .then(all => setAppointments(all.filter(a => a.end > new Date().toISOString())))
+            .catch(error => {
+                console.error("Error loading appointments:", error);
+                setAppointments([]);
+            });
+    }, [user]);
+
+    useEffect(load, [load]);
+
+    if (!user) return null;
+
+    return (
+        <div className="space-y-8">
+            <div className="space-y-2">
+                <h1 className="text-3xl md:text-4xl font-bold text-foreground/90">Schedule</h1>
+                <p className="text-lg text-muted-foreground">Your upcoming appointments and the hours patients can book.</p>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Upcoming Appointments</CardTitle>
+                        <CardDescription>Download an appointment to add it to your calendar.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {!appointments ? <Loader2 className="animate-spin" /> : appointments.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">No upcoming appointments.</p>
+                        ) : appointments.map(appointment => (
+                            <AppointmentRow key={appointment.id} appointment={appointment} viewer={{ uid: user.uid, name: doctorName, role: 'doctor' }} onChange={load} />
+                        ))}
+                    </CardContent>
+                </Card>
+                <AvailabilityEditor doctorUid={user.uid} />
+            </div>
+        </div>
+    );
+}
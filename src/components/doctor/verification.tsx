@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { BadgeCheck, FileText, Loader2, Trash2, Upload } from 'lucide-react';
+import { useAuth } from '@/context/auth-provider';
+import { useProfile } from '@/context/profile-provider';
+import { useToast } from '@/hooks/use-toast';
+import { useDoctorVerification } from '@/hooks/use-doctor-verification';
+import {
+    ACCEPTED_DOCUMENT_TYPES,
+    VERIFICATION_STATUS_LABELS,
+    canSubmit,
+    latestReviewNote,
+    submissionBlocker,
+    validateLicenseDocument,
+    type LicenseDocument,
+    type VerificationApplication,
+    type VerificationStatus,
+} from '@/lib/doctor-verification';
+import { addLicenseDocument, fetchLicenseDocuments, removeLicenseDocument, submitVerification } from '@/lib/doctor-verification-store';
+import { fetchDirectoryDoctor } from '@/lib/doctor-directory-store';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader } from '@/components/ui/loader';
+
+const readAsDataUri = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const EMPTY_APPLICATION: VerificationApplication = { specialty: '', licenseNumber: '', licenseIssuer: '' };
+
+export function VerificationStatusBadge({ status }: { status: VerificationStatus }) {
+    const variant = status === 'verified' ? 'default' : status === 'rejected' ? 'destructive' : status === 'unsubmitted' ? 'outline' : 'secondary';
+    return <Badge variant={variant}>{VERIFICATION_STATUS_LABELS[status]}</Badge>;
+}
+
+/** Where a doctor uploads their license and applies, or reapplies, for verification. */
+export function DoctorVerificationPanel() {
+    const { user } = useAuth();
+    const { profile } = useProfile();
+    const doctorName = profile?.name || profile?.username || 'Doctor';
+    const { toast } = useToast();
+    const { verification, status, loading } = useDoctorVerification(user?.uid);
+    const [application, setApplication] = useState<VerificationApplication>(EMPTY_APPLICATION);
+    const [documents, setDocuments] = useState<LicenseDocument[] | null>(null);
+    const [isUploading, setIsUploading] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (!user) return;
+        fetchLicenseDocuments(user.uid)
+            .then(setDocuments)
+            .catch(error => {
+                console.error("Error loading license documents:", error);
+                setDocuments([]);
+            });
+    }, [user]);
+
+    // Start from the last application, or from the license details on the doctor's profile
+    useEffect(() => {
+        if (!user) return;
+        if (verification) {
+            setApplication({ specialty: verification.specialty, licenseNumber: verification.licenseNumber, licenseIssuer: verification.licenseIssuer });
+            return;
+        }
+        fetchDirectoryDoctor(user.uid)
+            .then(doctor => doctor && setApplication({
+                specialty: doctor.specialty,
+                licenseNumber: doctor.licenseNumber ?? '',
+                licenseIssuer: doctor.licenseIssuer ?? '',
+            }))
+            .catch(error => console.error("Error loading doctor profile:", error));
+    }, [user, verification]);
+
+    if (!user || loading || !documents) return <div className="flex justify-center p-8"><Loader /></div>;
+
+    const editable = canSubmit(status);
+    const reviewNote = verification ? latestReviewNote(verification) : null;
+    const blocker = submissionBlocker(application, documents.length, status);
+    const update = (changes: Partial<VerificationApplication>) => setApplication(prev => ({ ...prev, ...changes }));
+
+    const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        const invalid = validateLicenseDocument(file, documents.length);
+        if (invalid) {
+            toast({ variant: "destructive", title: "Document Not Added", description: invalid });
+            return;
+        }
+        setIsUploading(true);
+        try {
+            const added = await addLicenseDocument(user.uid, {
+                name: file.name,
+                contentType: file.type,
+                size: file.size,
+                dataUri: await readAsDataUri(file),
+                uploadedAt: new Date().toISOString(),
+            });
+            setDocuments(prev => [...(prev ?? []), added]);
+        } catch (error) {
+            console.error("Error uploading license document:", error);
+            toast({ variant: "destructive", title: "Upload Failed", description: "Could not upload the document. Please try again." });
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const handleRemove = async (document: LicenseDocument) => {
+        try {
+            await removeLicenseDocument(user.uid, document.id);
+            setDocuments(prev => (prev ?? []).filter(d => d.id !== document.id));
+        } catch (error) {
+            console.error("Error removing license document:", error);
+            toast({ variant: "destructive", title: "Error", description: "Could not remove the document." });
+        }
+    };
+
+    const handleSubmit = async () => {
+        setIsSubmitting(true);
+        try {
+            await submitVerification({ uid: user.uid, name: doctorName }, application);
+            toast({ title: "Application Submitted", description: "An administrator will review your license shortly." });
+        } catch (error: any) {
+            console.error("Error submitting verification:", error);
+            toast({ variant: "destructive", title: "Not Submitted", description: error.message || "Could not submit your application." });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="max-w-2xl mx-auto space-y-6">
+            <div className="space-y-2">
+                <h1 className="text-3xl md:text-4xl font-bold text-foreground/90">License Verification</h1>
+                <p className="text-lg text-muted-foreground">An administrator checks your license before you can review cases.</p>
+            </div>
+
+            {status === 'verified' ? (
+                <Alert>
+                    <BadgeCheck className="h-4 w-4" />
+                    <AlertTitle>You're verified</AlertTitle>
+                    <AlertDescription>
+                        Your license was verified{verification?.reviewedAt && ` on ${format(parseISO(verification.reviewedAt), 'MMM d, yyyy')}`}. You can review cases.
+                    </AlertDescription>
+                </Alert>
+            ) : reviewNote && (
+                <Alert variant={status === 'rejected' ? 'destructive' : 'default'}>
+                    <AlertTitle>{status === 'rejected' ? 'Your application was rejected' : 'More information needed'}</AlertTitle>
+                    <AlertDescription className="whitespace-pre-line">{reviewNote}</AlertDescription>
+                </Alert>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-2">
+                        <CardTitle>Your License</CardTitle>
+                        <VerificationStatusBadge status={status} />
+                    </div>
+                    <CardDescription>
+                        {editable ? 'Enter your license details and upload a copy of your practising license.' : 'Your details are locked while your application is reviewed.'}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid sm:grid-cols-2 gap-4">
+                        <div className="space-y-1">
+                            <Label htmlFor="license-number">License number</Label>
+                            <Input id="license-number" value={application.licenseNumber} onChange={(e) => update({ licenseNumber: e.target.value })} disabled={!editable} />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="license-issuer">Issued by</Label>
+                            <Input id="license-issuer" placeholder="e.g. Medical and Dental Council of Nigeria" value={application.licenseIssuer} onChange={(e) => update({ licenseIssuer: e.target.value })} disabled={!editable} />
+                        </div>
+                        <div className="space-y-1 sm:col-span-2">
+                            <Label htmlFor="license-specialty">Specialty</Label>
+                            <Input id="license-specialty" value={application.specialty} onChange={(e) => update({ specialty: e.target.value })} disabled={!editable} />
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Documents</Label>
+                        {documents.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">No documents uploaded yet.</p>
+                        ) : documents.map(document => (
+                            <div key={document.id} className="flex items-center gap-2 rounded-md border p-2 text-sm">
+                                <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                <a href={document.dataUri} download={document.name} className="truncate underline">{document.name}</a>
+                                <span className="ml-auto text-xs text-muted-foreground">{Math.round(document.size / 1024)} KB</span>
+                                {editable && (
+                                    <Button variant="ghost" size="icon" onClick={() => handleRemove(document)} aria-label={`Remove ${document.name}`}>
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                        {editable && (
+                            <Button asChild variant="outline" size="sm" disabled={isUploading}>
+                                <label className="cursor-pointer">
+                                    {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                                    Upload Document
+                                    <input type="file" accept={ACCEPTED_DOCUMENT_TYPES.join(',')} className="hidden" onChange={handleUpload} disabled={isUploading} />
+                                </label>
+                            </Button>
+                        )}
+                    </div>
+                </CardContent>
+                {editable && (
+                    <CardFooter className="flex-col items-stretch gap-2">
+                        {blocker && <p className="text-sm text-muted-foreground">{blocker}</p>}
+                        <Button onClick={handleSubmit} disabled={!!blocker || isSubmitting}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {status === 'unsubmitted' ? 'Submit for Verification' : 'Resubmit for Verification'}
+                        </Button>
+                    </CardFooter>
+                )}
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import React from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { BadgeCheck, Languages, Star, UserCircle } from 'lucide-react';
+import { formatFee, type DirectoryDoctor, type DoctorRating } from '@/lib/doctor-directory';
+import type { ProfileVerification } from '@/lib/doctor-verification';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+export function DoctorAvatar({ doctor, size = 64 }: { doctor: Pick<DirectoryDoctor, 'name' | 'photoDataUri'>; size?: number }) {
+    if (!doctor.photoDataUri) return <UserCircle className="text-muted-foreground shrink-0" style={{ width: size, height: size }} />;
+    return <Image src={doctor.photoDataUri} alt={doctor.name} width={size} height={size} className="rounded-full object-cover shrink-0" style={{ width: size, height: size }} />;
+}
+
+export function RatingStars({ rating, className }: { rating?: DoctorRating; className?: string }) {
+    if (!rating?.count) return <span className={cn("text-xs text-muted-foreground", className)}>No ratings yet</span>;
+    return (
+        <span className={cn("flex items-center gap-1 text-sm", className)}>
+            <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+            <span className="font-semibold">{rating.average.toFixed(1)}</span>
+            <span className="text-muted-foreground">({rating.count})</span>
+        </span>
+    );
+}
+
+export function VerificationBadge({ verification }: { verification?: ProfileVerification }) {
+    if (verification?.status !== 'verified') return <Badge variant="outline" className="text-muted-foreground">License not yet verified</Badge>;
+    return <Badge variant="secondary" className="gap-1"><BadgeCheck className="h-3 w-3 text-primary" />Verified</Badge>;
+}
+
+export function DoctorCard({ doctor }: { doctor: DirectoryDoctor }) {
+    return (
+        <Card className="flex flex-col">
+            <CardHeader className="flex-row items-center gap-4 space-y-0">
+                <DoctorAvatar doctor={doctor} />
+                <div className="min-w-0">
+                    <CardTitle className="text-lg truncate">{doctor.name}</CardTitle>
+                    <CardDescription>{doctor.specialty}</CardDescription>
+                    <RatingStars rating={doctor.rating} className="mt-1" />
+                    <VerificationBadge verification={doctor.verification} />
+                </div>
+            </CardHeader>
+            <CardContent className="flex-1 space-y-2">
+                {!!doctor.qualifications?.length && (
+                    <div className="flex flex-wrap gap-1">
+                        {doctor.qualifications.map(q => <Badge key={q} variant="outline">{q}</Badge>)}
+                    </div>
+                )}
+                {!!doctor.languages?.length && (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground"><Languages className="h-3 w-3" />{doctor.languages.join(', ')}</p>
+                )}
+                {doctor.bio && <p className="text-sm text-muted-foreground line-clamp-3">{doctor.bio}</p>}
+            </CardContent>
+            <CardFooter className="justify-between">
+                <span className="text-sm font-semibold">{formatFee(doctor.consultationFee)}</span>
+                <Button asChild size="sm" variant="outline"><Link href={`/doctors?id=${doctor.uid}`}>View Profile</Link></Button>
+            </CardFooter>
+        </Card>
+    );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search } from 'lucide-react';
+import {
+    EMPTY_DIRECTORY_FILTERS,
+    directoryOptions,
+    filterDoctors,
+    sortDirectory,
+    type DirectoryDoctor,
+    type DirectoryFilters,
+} from '@/lib/doctor-directory';
+import { fetchDirectory } from '@/lib/doctor-directory-store';
+import { DoctorCard } from './doctor-card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Loader } from '@/components/ui/loader';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+/** Searchable list of every doctor with a profile. */
+export function DoctorDirectory() {
+    const [doctors, setDoctors] = useState<DirectoryDoctor[] | null>(null);
+    const [filters, setFilters] = useState<DirectoryFilters>(EMPTY_DIRECTORY_FILTERS);
+
+    useEffect(() => {
+        fetchDirectory()
+            .then(all => setDoctors(sortDirectory(all)))
+            .catch(error => {
+                console.error("Error loading doctor directory:", error);
+                setDoctors([]);
+            });
+    }, []);
+
+    const options = useMemo(() => directoryOptions(doctors ?? []), [doctors]);
+    const visible = useMemo(() => filterDoctors(doctors ?? [], filters), [doctors, filters]);
+    const update = (changes: Partial<DirectoryFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+    if (!doctors) return <div className="flex justify-center p-8"><Loader /></div>;
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-2">
+                <h1 className="text-3xl md:text-4xl font-bold text-foreground/90">Find a Doctor</h1>
+                <p className="text-lg text-muted-foreground">Browse the doctors who review cases on Lifeline, and ask for one when you submit yours.</p>
+            </div>
+            <div className="grid gap-3 md:grid-cols-5">
+                <div className="relative md:col-span-2">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input placeholder="Search by name, specialty or qualification" value={filters.query} onChange={(e) => update({ query: e.target.value })} className="pl-9" />
+                </div>
+                <Select value={filters.specialty} onValueChange={(specialty) => update({ specialty })}>
+                    <SelectTrigger><SelectValue placeholder="Specialty" /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">All specialties</SelectItem>
+                        {options.specialties.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+                <Select value={filters.language} onValueChange={(language) => update({ language })}>
+                    <SelectTrigger><SelectValue placeholder="Language" /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">Any language</SelectItem>
+                        {options.languages.map(l => <SelectItem key={l} value={l}>{l}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+                <Select value={String(filters.minRating)} onValueChange={(value) => update({ minRating: Number(value) })}>
+                    <SelectTrigger><SelectValue placeholder="Rating" /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="0">Any rating</SelectItem>
+                        {[4.5, 4, 3].map(r => <SelectItem key={r} value={String(r)}>{r}+ stars</SelectItem>)}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div className="flex items-center gap-3">
+                <Input
+                    type="number"
+                    min={0}
+                    placeholder="Maximum fee (₦)"
+                    value={filters.maxFee ?? ''}
+                    onChange={(e) => update({ maxFee: e.target.value === '' ? null : Number(e.target.value) })}
+                    className="max-w-xs"
+                />
+                <Button variant="ghost" onClick={() => setFilters(EMPTY_DIRECTORY_FILTERS)}>Clear filters</Button>
+                <span className="ml-auto text-sm text-muted-foreground">{visible.length} of {doctors.length} doctors</span>
+            </div>
+            {visible.length === 0 ? (
+                <p className="text-center text-muted-foreground py-12">No doctors match your search.</p>
+            ) : (
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                    {visible.map(doctor => <DoctorCard key={doctor.uid} doctor={doctor} />)}
+                </div>
+            )}
+        </div>
+    );
+}
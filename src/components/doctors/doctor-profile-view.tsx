@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { BadgeCheck, GraduationCap, Languages, ShieldX, Star, Stethoscope, Wallet } from 'lucide-react';
+import { formatFee, type DirectoryDoctor, type DoctorReview } from '@/lib/doctor-directory';
+import { fetchDirectoryDoctor, fetchDoctorReviews } from '@/lib/doctor-directory-store';
+import { DoctorAvatar, RatingStars, VerificationBadge } from './doctor-card';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Loader } from '@/components/ui/loader';
+
+export function DoctorProfileView({ doctorId }: { doctorId: string }) {
+    const [doctor, setDoctor] = useState<DirectoryDoctor | null>(null);
+    const [reviews, setReviews] = useState<DoctorReview[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setLoading(true);
+        Promise.all([fetchDirectoryDoctor(doctorId), fetchDoctorReviews(doctorId)])
+            .then(([profile, recent]) => {
+                if (!profile) setError("Doctor profile not found.");
+                setDoctor(profile);
+                setReviews(recent);
+            })
+            .catch(err => {
+                console.error("Error fetching doctor profile:", err);
+                setError("Failed to load doctor profile.");
+            })
+            .finally(() => setLoading(false));
+    }, [doctorId]);
+
+    if (loading) {
+        return <div className="flex justify-center items-center h-full"><Loader /></div>;
+    }
+
+    if (error || !doctor) {
+        return (
+            <div className="flex items-center justify-center h-full">
+                <Card className="w-full max-w-md text-center">
+                    <CardHeader>
+                        <ShieldX className="w-16 h-16 mx-auto text-destructive"/>
+                        <CardTitle>Error</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <p className="text-muted-foreground">{error}</p>
+                    </CardContent>
+                    <CardFooter className="justify-center"><Button asChild variant="outline"><Link href="/doctors">All Doctors</Link></Button></CardFooter>
+                </Card>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex justify-center items-start pt-10 h-full">
+            <Card className="w-full max-w-2xl">
+                <CardHeader className="text-center items-center">
+                    <DoctorAvatar doctor={doctor} size={96} />
+                    <CardTitle className="text-3xl mt-4">{doctor.name}</CardTitle>
+                    <CardDescription className="flex items-center gap-2 text-lg">
+                        <Stethoscope className="w-5 h-5 text-primary"/>
+                        <span>{doctor.specialty}</span>
+                    </CardDescription>
+                    <RatingStars rating={doctor.rating} />
+                    <VerificationBadge verification={doctor.verification} />
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {doctor.bio && <p className="text-muted-foreground whitespace-pre-line">{doctor.bio}</p>}
+                    <div className="grid sm:grid-cols-2 gap-4 text-sm">
+                        {!!doctor.qualifications?.length && (
+                            <div className="space-y-1">
+                                <p className="font-semibold flex items-center gap-2"><GraduationCap className="h-4 w-4"/>Qualifications</p>
+                                <div className="flex flex-wrap gap-1">{doctor.qualifications.map(q => <Badge key={q} variant="outline">{q}</Badge>)}</div>
+                            </div>
+                        )}
+                        {doctor.licenseNumber && (
+                            <div className="space-y-1">
+                                <p className="font-semibold flex items-center gap-2"><BadgeCheck className="h-4 w-4"/>License</p>
+                                <p className="text-muted-foreground">{doctor.licenseNumber}{doctor.licenseIssuer && `, ${doctor.licenseIssuer}`}</p>
+                            </div>
+                        )}
+                        {!!doctor.languages?.length && (
+                            <div className="space-y-1">
+                                <p className="font-semibold flex items-center gap-2"><Languages className="h-4 w-4"/>Languages</p>
+                                <p className="text-muted-foreground">{doctor.languages.join(', ')}</p>
+                            </div>
+                        )}
+                        <div className="space-y-1">
+                            <p className="font-semibold flex items-center gap-2"><Wallet className="h-4 w-4"/>Consultation fee</p>
+                            <p className="text-muted-foreground">{formatFee(doctor.consultationFee)}</p>
+                        </div>
+                    </div>
+                    {reviews.length > 0 && (
+                        <>
+                            <Separator />
+                            <div className="space-y-3">
+                                <h3 className="font-semibold">Patient Ratings</h3>
+                                {reviews.map(review => (
+                                    <div key={review.id} className="text-sm">
+                                        <p className="flex items-center gap-1">
+                                            {Array.from({ length: review.stars }, (_, i) => <Star key={i} className="h-3 w-3 fill-yellow-400 text-yellow-400" />)}
+                                            <span className="ml-2 text-xs text-muted-foreground">{format(parseISO(review.createdAt), 'MMM d, yyyy')}</span>
+                                        </p>
+                                        {review.comment && <p className="text-muted-foreground">{review.comment}</p>}
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </CardContent>
+                <CardFooter className="justify-center gap-2">
+                    <Button asChild variant="outline"><Link href="/doctors">All Doctors</Link></Button>
+                    {doctor.verification?.status === 'verified' && (
+                        <Button asChild><Link href={`/clinic?doctor=${doctor.uid}`}>Request {doctor.name}</Link></Button>
+                    )}
+                </CardFooter>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, Star } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { DoctorReviewError, MAX_REVIEW_COMMENT_LENGTH, type DoctorReview } from '@/lib/doctor-directory';
+import { fetchCaseReview, submitDoctorReview } from '@/lib/doctor-directory-store';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+
+/** Lets the patient rate the doctor who completed their case, once. */
+export function RateDoctor({ investigationId, patientUid, doctorName }: { investigationId: string; patientUid: string; doctorName: string }) {
+    const { toast } = useToast();
+    const [review, setReview] = useState<DoctorReview | null | undefined>(undefined);
+    const [stars, setStars] = useState(0);
+    const [comment, setComment] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        fetchCaseReview(investigationId).then(setReview).catch(error => {
+            console.error("Error loading review:", error);
+            setReview(null);
+        });
+    }, [investigationId]);
+
+    const handleSubmit = async () => {
+        setIsSaving(true);
+        try {
+            setReview(await submitDoctorReview(investigationId, patientUid, stars, comment));
+            toast({ title: 'Thank You', description: `Your rating helps other patients find ${doctorName}.` });
+        } catch (error) {
+            console.error("Error submitting review:", error);
+            const description = error instanceof DoctorReviewError ? error.message : 'Could not save your rating.';
+            toast({ variant: 'destructive', title: 'Error', description });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (review === undefined) return null;
+
+    const shown = review ? review.stars : stars;
+
+    return (
+        <div className="rounded-md border p-3 space-y-2">
+            <p className="text-sm font-semibold">{review ? `You rated ${doctorName}` : `How was your care with ${doctorName}?`}</p>
+            <div className="flex gap-1">
+                {[1, 2, 3, 4, 5].map(value => (
+                    <button key={value} type="button" disabled={!!review} onClick={() => setStars(value)} aria-label={`${value} stars`}>
+                        <Star className={cn("h-6 w-6", value <= shown ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground")} />
+                    </button>
+                ))}
+            </div>
+            {review ? (
+                review.comment && <p className="text-sm text-muted-foreground">{review.comment}</p>
+            ) : (
+                <>
+                    <Textarea rows={2} maxLength={MAX_REVIEW_COMMENT_LENGTH} placeholder="Anything you'd like to add (optional)" value={comment} onChange={(e) => setComment(e.target.value)} />
+                    <Button size="sm" onClick={handleSubmit} disabled={stars === 0 || isSaving}>
+                        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Submit Rating
+                    </Button>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { sortDirectory, type DirectoryDoctor, type RequestedDoctor } from '@/lib/doctor-directory';
+import { fetchDirectory } from '@/lib/doctor-directory-store';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const ANY_DOCTOR = 'any';
+
+/** Lets a patient ask for a particular doctor when submitting a case. */
+export function RequestDoctorSelect({ value, onChange }: { value: RequestedDoctor | null; onChange: (doctor: RequestedDoctor | null) => void }) {
+    const [doctors, setDoctors] = useState<DirectoryDoctor[]>([]);
+
+    useEffect(() => {
+        // Only verified doctors can take a case, so only they can be asked for
+        fetchDirectory()
+            .then(all => setDoctors(sortDirectory(all.filter(d => d.verification?.status === 'verified'))))
+            .catch(error => console.error("Error loading doctors:", error));
+    }, []);
+
+    const handleChange = (uid: string) => {
+        const doctor = doctors.find(d => d.uid === uid);
+        onChange(doctor ? { uid: doctor.uid, name: doctor.name } : null);
+    };
+
+    return (
+        <div className="space-y-1 w-full sm:w-72">
+            <Label>Doctor</Label>
+            <Select value={value?.uid ?? ANY_DOCTOR} onValueChange={handleChange}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                    <SelectItem value={ANY_DOCTOR}>First available doctor</SelectItem>
+                    {/* A doctor requested from the directory shows even before the list loads */}
+                    {value && !doctors.some(d => d.uid === value.uid) && <SelectItem value={value.uid}>{value.name}</SelectItem>}
+                    {doctors.map(d => <SelectItem key={d.uid} value={d.uid}>{d.name} · {d.specialty}</SelectItem>)}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Siren, Loader2 } from 'lucide-react';
+
+import { useAuth } from '@/context/auth-provider';
+import { useToast } from '@/hooks/use-toast';
+import { triggerSos } from '@/lib/sos';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+
+export function SosButton() {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const [isSending, setIsSending] = useState(false);
+
+    const handleSend = async () => {
+        if (!user) return;
+        setIsSending(true);
+        try {
+            const alert = await triggerSos(user.uid, 'manual');
+            const reached = new Set(alert.dispatches.filter(d => d.status !== 'failed').map(d => d.guardianId)).size;
+            if (alert.dispatches.length === 0) {
+                toast({ variant: 'destructive', title: 'Alert Recorded', description: 'You have no guardians yet. Add one under Settings so they can be notified.' });
+            } else {
+                toast({ title: 'SOS Sent', description: `${reached} guardian${reached === 1 ? '' : 's'} notified${alert.location ? ' with your location' : ''}.` });
+            }
+        } catch (error) {
+            console.error("Error sending SOS:", error);
+            toast({ variant: 'destructive', title: 'SOS Failed', description: 'Could not send the alert. If this is an emergency, call your local emergency number.' });
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <Card className="border-destructive/50">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2"><Siren className="text-destructive"/> Emergency</CardTitle>
+                <CardDescription>Notify your guardians with your current location. <Link href="/profiles" className="underline">Manage guardians</Link></CardDescription>
+            </CardHeader>
+            <CardContent>
+                <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                        <Button variant="destructive" size="lg" className="w-full text-lg font-bold" disabled={isSending}>
+                            {isSending ? <Loader2 className="mr-2 animate-spin"/> : <Siren className="mr-2"/>}
+                            Send Alert
+                        </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>Send an emergency alert?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                                All your guardians will be notified immediately with your location.
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={handleSend}>Send Alert</AlertDialogAction>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
+            </CardContent>
+        </Card>
+    );
+}
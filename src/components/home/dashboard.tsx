@@ -27,6 +27,10 @@ import { useToast } from '@/hooks/use-toast';
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import { Button } from '@/components/ui/button';
 import { useProfile } from '@/context/profile-provider';
+import { toCanonicalValue, type VitalsReading } from '@/lib/vitals';
+import { fetchVitals } from '@/lib/vitals-store';
+import { VitalAlerts } from './vital-alerts';
+import { SosButton } from '@/components/emergency/sos-button';
 
 
 type VitalType = 'blood_pressure' | 'blood_sugar' | 'oxygen_saturation' | 'pulse_rate';
@@ -41,14 +45,21 @@ interface LatestVital {
     status: 'Good' | 'Moderate' | 'Critical';
 }
 
-interface VitalHistoryEntry {
-    date: Date;
-    systolic?: string;
-    diastolic?: string;
-    bloodSugar?: string;
-    oxygenSaturation?: string;
-    pulseRate?: string;
-}
+type VitalHistoryEntry = Omit<VitalsReading, 'date'> & { date: Date };
+
+// Dashboard cards chart each vital in its canonical unit so mixed-unit history stays comparable.
+const vitalFieldForType: Record<VitalType, 'systolic' | 'bloodSugar' | 'oxygenSaturation' | 'pulseRate'> = {
+    blood_pressure: 'systolic',
+    blood_sugar: 'bloodSugar',
+    oxygen_saturation: 'oxygenSaturation',
+    pulse_rate: 'pulseRate',
+};
+
+const canonicalValue = (entry: VitalHistoryEntry, type: VitalType): number | undefined => {
+    const field = vitalFieldForType[type];
+    const measurement = entry[field];
+    return measurement ? toCanonicalValue(field, measurement) : undefined;
+};
 
 interface Post {
   id: string;
@@ -119,16 +130,12 @@ export function Dashboard() {
             setIsLoading(true);
             try {
                 // Fetch Vitals
-                const vitalsQuery = query(collection(db, `users/${user.uid}/vitals`), orderBy('date', 'desc'), limit(50));
-                const vitalsSnapshot = await getDocs(vitalsQuery);
+                const readings = await fetchVitals(user.uid, { limit: 50 });
                 
-                const history: VitalHistoryEntry[] = vitalsSnapshot.docs.map(doc => {
-                    const data = doc.data();
-                    return {
-                        ...data,
-                        date: data.date ? parseISO(data.date) : new Date(),
-                    } as VitalHistoryEntry;
-                });
+                const history: VitalHistoryEntry[] = readings.map(reading => ({
+                    ...reading,
+                    date: reading.date ? parseISO(reading.date) : new Date(),
+                }));
                 
                 const latestReadings = new Map<VitalType, VitalHistoryEntry>();
 
@@ -151,7 +158,7 @@ export function Dashboard() {
                     const latest = latestReadings.get(type);
                     if (!latest) return null;
 
-                    const historyForType = history.filter(v => (type === 'blood_pressure' && v.systolic) || (type === 'blood_sugar' && v.bloodSugar) || (type === 'oxygen_saturation' && v.oxygenSaturation) || (type === 'pulse_rate' && v.pulseRate));
+                    const historyForType = history.filter(v => canonicalValue(v, type) !== undefined);
                     if (historyForType.length < 2) return null;
                     
                     const previousIndex = historyForType.findIndex(v => v.date < latest.date);
@@ -159,35 +166,30 @@ export function Dashboard() {
 
                     let value = '', currentValue = 0, prevValue = 0, trend: 'up' | 'down' | 'stable' = 'stable', status: 'Good' | 'Moderate' | 'Critical' = 'Good';
 
+                    currentValue = canonicalValue(latest, type)!;
+                    prevValue = previous ? canonicalValue(previous, type)! : 0;
+
                     switch(type) {
                         case 'blood_pressure':
-                            value = `${latest.systolic}/${latest.diastolic}`;
-                            currentValue = parseFloat(latest.systolic!);
-                            prevValue = previous ? parseFloat(previous.systolic!) : 0;
-                            const s = parseFloat(latest.systolic!);
-                            const d = parseFloat(latest.diastolic!);
+                            value = `${latest.systolic!.value}/${latest.diastolic!.value}`;
+                            const s = latest.systolic!.value;
+                            const d = latest.diastolic!.value;
                             if (s >= 130 || d >= 80) status = 'Critical';
                             else if (s >= 120) status = 'Moderate';
                             else status = 'Good';
                             break;
                         case 'blood_sugar':
-                            value = latest.bloodSugar!;
-                            currentValue = parseFloat(value);
-                            prevValue = previous ? parseFloat(previous.bloodSugar!) : 0;
+                            value = String(Math.round(currentValue));
                             if (currentValue > 180 || currentValue < 70) status = 'Critical';
                             else if (currentValue > 140) status = 'Moderate';
                             break;
                         case 'oxygen_saturation':
-                            value = latest.oxygenSaturation!;
-                            currentValue = parseFloat(value);
-                            prevValue = previous ? parseFloat(previous.oxygenSaturation!) : 0;
+                            value = String(currentValue);
                             if (currentValue < 92) status = 'Critical';
                             else if (currentValue < 95) status = 'Moderate';
                             break;
                         case 'pulse_rate':
-                            value = latest.pulseRate!;
-                            currentValue = parseFloat(value);
-                            prevValue = previous ? parseFloat(previous.pulseRate!) : 0;
+                            value = String(currentValue);
                             if (currentValue > 100 || currentValue < 60) status = 'Critical';
                             else if (currentValue > 90) status = 'Moderate';
                             break;
@@ -201,14 +203,7 @@ export function Dashboard() {
                     const change = Math.abs(currentValue - (prevValue || currentValue));
                     const trendValue = `${change.toFixed(type === 'blood_pressure' ? 0 : 1)}${vitalConfig[type].unit}`;
                     
-                    const historyForChart = historyForType.slice(0, 10).reverse().map(d => {
-                        let chartValue = 0;
-                        if(type === 'blood_pressure' && d.systolic) chartValue = parseFloat(d.systolic);
-                        if(type === 'blood_sugar' && d.bloodSugar) chartValue = parseFloat(d.bloodSugar);
-                        if(type === 'oxygen_saturation' && d.oxygenSaturation) chartValue = parseFloat(d.oxygenSaturation);
-                        if(type === 'pulse_rate' && d.pulseRate) chartValue = parseFloat(d.pulseRate);
-                        return { value: chartValue };
-                    });
+                    const historyForChart = historyForType.slice(0, 10).reverse().map(d => ({ value: canonicalValue(d, type) ?? 0 }));
                     
                     return { type, value, unit: vitalConfig[type].unit, status, trend, trendValue, history: historyForChart };
 
@@ -220,7 +215,7 @@ export function Dashboard() {
                     .filter(v => v.systolic && v.diastolic)
                     .slice(0, 7)
                     .reverse()
-                    .map(d => ({ name: format(d.date, 'eee'), systolic: parseFloat(d.systolic!), diastolic: parseFloat(d.diastolic!) }));
+                    .map(d => ({ name: format(d.date, 'eee'), systolic: d.systolic!.value, diastolic: d.diastolic!.value }));
                 setBpHistory(bpHistoryForChart);
 
                 const trendsHistoryForChart = history
@@ -228,9 +223,9 @@ export function Dashboard() {
                     .reverse()
                     .map(d => ({
                         name: format(d.date, 'eee'),
-                        blood_sugar: d.bloodSugar ? parseFloat(d.bloodSugar) : undefined,
-                        oxygen_saturation: d.oxygenSaturation ? parseFloat(d.oxygenSaturation) : undefined,
-                        pulse_rate: d.pulseRate ? parseFloat(d.pulseRate) : undefined,
+                        blood_sugar: canonicalValue(d, 'blood_sugar'),
+                        oxygen_saturation: canonicalValue(d, 'oxygen_saturation'),
+                        pulse_rate: canonicalValue(d, 'pulse_rate'),
                     }));
                 setTrendsHistory(trendsHistoryForChart);
 
@@ -326,6 +321,8 @@ export function Dashboard() {
                 <p className="text-muted-foreground">Here’s what’s happening with your health today.</p>
             </div>
 
+            <VitalAlerts />
+
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
                 <WalletCard />
                 {latestVitals.slice(0, 3).map(v => <VitalCard key={v.type} vital={v} />)}
@@ -367,33 +364,36 @@ export function Dashboard() {
                         </ResponsiveContainer>
                     </CardContent>
                 </Card>
-                <Card className="lg:col-span-2">
-                    <CardHeader>
-                        <CardTitle className="flex items-center gap-2"><BookOpen/> From the Blog</CardTitle>
-                        <CardDescription>Latest insights and updates.</CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                        {blogPosts.length > 0 ? (
-                             <div className="space-y-4">
-                                {blogPosts.map(post => (
-                                    <div key={post.id} className="flex items-center justify-between gap-4 p-3 rounded-md bg-secondary/50">
-                                        <h4 className="font-semibold text-sm truncate">{post.title}</h4>
-                                        <Button asChild variant="ghost" size="sm">
-                                            <Link href={`/blog/${post.slug}`}>Read <ArrowRight className="ml-2 h-4 w-4"/></Link>
-                                        </Button>
-                                    </div>
-                                ))}
-                                <Button variant="outline" className="w-full" asChild>
-                                    <Link href="/blog">View All Posts</Link>
-                                </Button>
-                            </div>
-                        ) : (
-                            <div className="text-center py-10 text-muted-foreground">
-                                <p>No blog posts available yet.</p>
-                            </div>
-                        )}
-                    </CardContent>
-                </Card>
+                <div className="lg:col-span-2 space-y-6">
+                    <SosButton />
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2"><BookOpen/> From the Blog</CardTitle>
+                            <CardDescription>Latest insights and updates.</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {blogPosts.length > 0 ? (
+                                 <div className="space-y-4">
+                                    {blogPosts.map(post => (
+                                        <div key={post.id} className="flex items-center justify-between gap-4 p-3 rounded-md bg-secondary/50">
+                                            <h4 className="font-semibold text-sm truncate">{post.title}</h4>
+                                            <Button asChild variant="ghost" size="sm">
+                                                <Link href={`/blog/${post.slug}`}>Read <ArrowRight className="ml-2 h-4 w-4"/></Link>
+                                            </Button>
+                                        </div>
+                                    ))}
+                                    <Button variant="outline" className="w-full" asChild>
+                                        <Link href="/blog">View All Posts</Link>
+                                    </Button>
+                                </div>
+                            ) : (
+                                <div className="text-center py-10 text-muted-foreground">
+                                    <p>No blog posts available yet.</p>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
             </div>
         </div>
     );
@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { ShieldAlert, Check, ArrowRight } from 'lucide-react';
+
+import { useAuth } from '@/context/auth-provider';
+import { useToast } from '@/hooks/use-toast';
+import { fetchAlerts, acknowledgeAlert } from '@/lib/alerts-store';
+import type { HealthAlert } from '@/lib/alerts';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+const SeverityConfig: Record<HealthAlert['severity'], { color: string; border: string }> = {
+    'Moderate': { color: 'bg-orange-500', border: 'border-orange-500/50' },
+    'Critical': { color: 'bg-red-600', border: 'border-red-600/50' },
+};
+
+export function VitalAlerts() {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const [alerts, setAlerts] = useState<HealthAlert[]>([]);
+
+    useEffect(() => {
+        if (!user) return;
+        fetchAlerts(user.uid, { limit: 20, unacknowledgedOnly: true })
+            .then(setAlerts)
+            .catch(error => console.error("Error fetching alerts:", error));
+    }, [user]);
+
+    const handleAcknowledge = async (alert: HealthAlert) => {
+        if (!user) return;
+        try {
+            await acknowledgeAlert(user.uid, alert.id);
+            setAlerts(prev => prev.filter(a => a.id !== alert.id));
+        } catch (error) {
+            console.error("Error acknowledging alert:", error);
+            toast({ variant: 'destructive', title: 'Error', description: 'Could not dismiss the alert.' });
+        }
+    };
+
+    if (alerts.length === 0) return null;
+
+    return (
+        <Card className={cn("border-2", alerts.some(a => a.severity === 'Critical') ? SeverityConfig.Critical.border : SeverityConfig.Moderate.border)}>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2"><ShieldAlert className="text-destructive"/> Health Alerts</CardTitle>
+                <CardDescription>Out-of-range readings and emergency alerts you haven't dismissed.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {alerts.slice(0, 5).map(alert => (
+                    <div key={alert.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-md bg-secondary/50">
+                        <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                                <Badge className={cn("text-white", SeverityConfig[alert.severity]?.color)}>{alert.severity}</Badge>
+                                <p className="font-semibold text-sm">{alert.title}</p>
+                            </div>
+                            <p className="text-sm text-muted-foreground">{alert.message}</p>
+                            <p className="text-xs text-muted-foreground">{formatDistanceToNow(parseISO(alert.timestamp), { addSuffix: true })}</p>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                            {alert.entry && (
+                                <Button asChild variant="ghost" size="sm">
+                                    <Link href={alert.entry.href}>View Entry <ArrowRight className="ml-2 h-4 w-4"/></Link>
+                                </Button>
+                            )}
+                            <Button variant="outline" size="sm" onClick={() => handleAcknowledge(alert)}><Check className="mr-2 h-4 w-4"/>Dismiss</Button>
+                        </div>
+                    </div>
+                ))}
+            </CardContent>
+        </Card>
+    );
+}
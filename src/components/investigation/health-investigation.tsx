@@ -3,15 +3,16 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/context/auth-provider';
+import { useProfile } from '@/context/profile-provider';
 import { db } from '@/lib/firebase';
-import { collection, query, where, onSnapshot, orderBy, addDoc, doc, updateDoc } from 'firebase/firestore';
+import { collection, query, where, onSnapshot, orderBy } from 'firebase/firestore';
 import { useToast } from '@/hooks/use-toast';
+import { useAiStream } from '@/hooks/use-ai-stream';
 import { format, formatDistanceToNow, parseISO } from 'date-fns';
 import Image from 'next/image';
 import Link from 'next/link';
 
 // AI Flows
-import { conductInterview } from '@/ai/flows/conduct-interview-flow';
 import { startInvestigation } from '@/ai/flows/start-investigation-flow';
 import { continueInvestigation } from '@/ai/flows/continue-investigation-flow';
 
@@ -27,12 +28,17 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { Loader2, Bot, User, PlusCircle, Camera, Trash2, ShieldCheck, Send, AlertCircle, Sparkles, X, Pill, TestTube, Upload, Check, Salad, MessageSquare, ClipboardList, FileText, Video, Share2, ChevronsUpDown, Pencil } from 'lucide-react';
+import { Loader2, Bot, User, PlusCircle, Camera, Trash2, ShieldCheck, Send, AlertCircle, Sparkles, X, Pill, TestTube, Upload, Check, Salad, MessageSquare, ClipboardList, FileText, Video, Share2, ChevronsUpDown, Square } from 'lucide-react';
 import { ScrollArea } from '../ui/scroll-area';
 import { cn } from '@/lib/utils';
+import { INVESTIGATION_STATUS_LABELS, type InvestigationStatus } from '@/lib/investigation';
+import { LabResultView, type SubmittedLabResult } from './lab-result-view';
+import type { NurseDispatch } from '@/lib/nurse-visits';
+import type { ThreadCase } from '@/lib/case-messages';
+import { threadFieldsFromFirestore } from '@/lib/case-messages-store';
+import { CaseThread } from '@/components/messages/case-thread';
 import { Separator } from '../ui/separator';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { Textarea } from '../ui/textarea';
 
 // Types
 interface Message {
@@ -40,10 +46,9 @@ interface Message {
   content: string;
 }
 
-type InvestigationStatus = 'pending_review' | 'awaiting_nurse_visit' | 'awaiting_lab_results' | 'pending_final_review' | 'completed' | 'rejected' | 'awaiting_follow_up_visit';
 type RequiredFeedback = 'pictures' | 'videos' | 'text';
 
-interface Investigation {
+interface Investigation extends ThreadCase {
   id: string;
   status: InvestigationStatus;
   type: 'admission' | 'clinic';
@@ -59,6 +64,7 @@ interface Investigation {
   doctorNote?: string;
   reviewedByUid?: string;
   reviewedByName?: string;
+  nurseDispatch?: NurseDispatch;
 }
 
 interface InvestigationStep {
@@ -72,89 +78,21 @@ interface InvestigationStep {
     };
 }
 
-interface ChatMessage {
-  id: string;
-  role: 'user' | 'doctor';
-  content: string;
-  timestamp: string;
-  authorId: string;
-  authorName: string;
-  edited?: boolean;
-}
-
 
 const statusConfig: Record<InvestigationStatus, { text: string; color: string }> = {
-  pending_review: { text: 'Awaiting Doctor Review', color: 'bg-yellow-500' },
-  awaiting_nurse_visit: { text: 'Nurse Visit Pending', color: 'bg-cyan-500' },
-  awaiting_lab_results: { text: 'Awaiting Lab Results', color: 'bg-blue-500' },
-  pending_final_review: { text: 'Doctor Reviewing Results', color: 'bg-yellow-500' },
-  completed: { text: 'Case Complete', color: 'bg-green-500' },
-  rejected: { text: 'Case Closed', color: 'bg-red-500' },
-  awaiting_follow_up_visit: { text: 'Follow-up Visit Pending', color: 'bg-cyan-500' },
+  pending_review: { text: INVESTIGATION_STATUS_LABELS.pending_review, color: 'bg-yellow-500' },
+  awaiting_nurse_visit: { text: INVESTIGATION_STATUS_LABELS.awaiting_nurse_visit, color: 'bg-cyan-500' },
+  awaiting_lab_results: { text: INVESTIGATION_STATUS_LABELS.awaiting_lab_results, color: 'bg-blue-500' },
+  pending_final_review: { text: INVESTIGATION_STATUS_LABELS.pending_final_review, color: 'bg-yellow-500' },
+  completed: { text: INVESTIGATION_STATUS_LABELS.completed, color: 'bg-green-500' },
+  rejected: { text: INVESTIGATION_STATUS_LABELS.rejected, color: 'bg-red-500' },
+  awaiting_follow_up_visit: { text: INVESTIGATION_STATUS_LABELS.awaiting_follow_up_visit, color: 'bg-cyan-500' },
 };
 
-function CaseChat({ investigationId, doctorName }: { investigationId: string, doctorName: string }) {
+function CaseChat({ investigation, doctorName }: { investigation: Investigation, doctorName: string }) {
   const { user } = useAuth();
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [newMessage, setNewMessage] = useState("");
-  const [isChatLoading, setIsChatLoading] = useState(true);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [editingMessage, setEditingMessage] = useState<{id: string, content: string} | null>(null);
-
-  useEffect(() => {
-    const messagesCol = collection(db, `investigations/${investigationId}/messages`);
-    const q = query(messagesCol, orderBy("timestamp", "asc"));
-
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      setMessages(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ChatMessage)));
-      setIsChatLoading(false);
-    }, (error) => {
-      console.error("Chat Error: ", error);
-      setIsChatLoading(false);
-    });
-
-    return () => unsubscribe();
-  }, [investigationId]);
-
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
-
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newMessage.trim() || !user) return;
-
-    const messagesCol = collection(db, `investigations/${investigationId}/messages`);
-    await addDoc(messagesCol, {
-      role: 'user',
-      content: newMessage,
-      timestamp: new Date().toISOString(),
-      authorId: user.uid,
-      authorName: user.displayName || 'Patient',
-    });
-    setNewMessage("");
-  };
-
-  const handleStartEdit = (message: ChatMessage) => {
-    setEditingMessage({ id: message.id, content: message.content });
-  };
-  
-  const handleCancelEdit = () => {
-    setEditingMessage(null);
-  };
-
-  const handleSaveEdit = async () => {
-      if (!editingMessage || !user) return;
-  
-      const messageRef = doc(db, `investigations/${investigationId}/messages`, editingMessage.id);
-      await updateDoc(messageRef, {
-          content: editingMessage.content,
-          edited: true,
-          editedAt: new Date().toISOString(),
-      });
-  
-      setEditingMessage(null);
-  };
+  const { profile } = useProfile();
+  if (!user) return null;
 
   return (
     <div className="mt-4">
@@ -162,59 +100,7 @@ function CaseChat({ investigationId, doctorName }: { investigationId: string, do
         <MessageSquare size={16} /> Chat with Dr. {doctorName}
       </h4>
       <div className="border rounded-lg p-2 bg-background/50">
-        <ScrollArea className="h-48 pr-4">
-          <div className="space-y-4">
-            {isChatLoading && <Loader2 className="animate-spin mx-auto"/>}
-            {!isChatLoading && messages.length === 0 && (
-              <p className="text-center text-sm text-muted-foreground pt-4">No messages yet. Say hello!</p>
-            )}
-            {messages.map((message) => {
-              const isMyMessage = message.authorId === user?.uid;
-
-              if (editingMessage?.id === message.id && isMyMessage) {
-                return (
-                  <div key={message.id} className={`flex items-end gap-2 w-full ${isMyMessage ? 'justify-end' : 'justify-start'}`}>
-                    <div className="w-full max-w-[80%] space-y-2">
-                        <Textarea 
-                            value={editingMessage.content} 
-                            onChange={(e) => setEditingMessage(prev => prev ? {...prev, content: e.target.value} : null)}
-                            className="bg-background"
-                            rows={3}
-                        />
-                        <div className="flex justify-end gap-2">
-                            <Button variant="ghost" size="sm" onClick={handleCancelEdit}>Cancel</Button>
-                            <Button size="sm" onClick={handleSaveEdit}>Save changes</Button>
-                        </div>
-                    </div>
-                    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-secondary text-secondary-foreground flex items-center justify-center"><User size={20}/></div>
-                  </div>
-                )
-              }
-
-              return (
-                <div key={message.id} className={`group flex items-end gap-2 ${isMyMessage ? 'justify-end' : 'justify-start'}`}>
-                  {isMyMessage && 
-                      <Button variant="ghost" size="icon" className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity" onClick={() => handleStartEdit(message)}>
-                          <Pencil size={14} />
-                          <span className="sr-only">Edit</span>
-                      </Button>
-                  }
-                  {message.role === 'doctor' && <div className="flex-shrink-0 w-8 h-8 rounded-full bg-secondary text-secondary-foreground flex items-center justify-center"><Bot size={20}/></div>}
-                  <div className={`max-w-[80%] rounded-lg p-3 ${isMyMessage ? 'bg-primary text-primary-foreground' : 'bg-secondary'}`}>
-                    <p className="whitespace-pre-wrap">{message.content}</p>
-                    {message.edited && <span className="text-xs opacity-70 mt-1 block">(edited)</span>}
-                  </div>
-                  {isMyMessage && <div className="flex-shrink-0 w-8 h-8 rounded-full bg-secondary text-secondary-foreground flex items-center justify-center"><User size={20}/></div>}
-                </div>
-              )
-            })}
-            <div ref={messagesEndRef} />
-          </div>
-        </ScrollArea>
-        <form onSubmit={handleSendMessage} className="flex items-center gap-2 pt-2 border-t mt-2">
-          <Input value={newMessage} onChange={(e) => setNewMessage(e.target.value)} placeholder="Type a message..." disabled={!!editingMessage} />
-          <Button type="submit" size="icon" disabled={!!editingMessage}><Send /></Button>
-        </form>
+        <CaseThread caseId={investigation.id} thread={investigation} viewer={{ uid: user.uid, name: profile?.name || profile?.username || 'Patient', role: 'patient' }} />
       </div>
     </div>
   );
@@ -234,6 +120,7 @@ export function Admission() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [isChatLoading, setIsChatLoading] = useState(false);
+  const interviewStream = useAiStream('conductInterview');
   const [interviewState, setInterviewState] = useState<'not_started' | 'in_progress' | 'awaiting_upload' | 'submitting'>('not_started');
   const [imageDataUri, setImageDataUri] = useState<string | null>(null);
   
@@ -253,7 +140,7 @@ export function Admission() {
 
     const q = query(collection(db, "investigations"), where("userId", "==", user.uid), orderBy("createdAt", "desc"));
     const unsubscribe = onSnapshot(q, (snapshot) => {
-        setInvestigations(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Investigation)));
+        setInvestigations(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data(), ...threadFieldsFromFirestore(doc.data()) } as Investigation)));
         setIsLoadingHistory(false);
     }, (err) => {
         console.error("Error fetching investigations: ", err);
@@ -279,6 +166,7 @@ export function Admission() {
   };
 
   const cancelAdmission = () => {
+    interviewStream.cancel();
     setMessages([]);
     setInterviewState('not_started');
     setActiveView('list');
@@ -293,8 +181,13 @@ export function Admission() {
     setIsChatLoading(true);
 
     try {
-      setMessages([...newMessages, { role: 'model', content: '' }]); // Thinking indicator
-      const result = await conductInterview({ chatHistory: newMessages });
+      setMessages([...newMessages, { role: 'model', content: '' }]); // Thinking indicator until the first words arrive
+      const result = await interviewStream.start({ chatHistory: newMessages }, text => setMessages([...newMessages, { role: 'model', content: text }]));
+      if (!result) {
+        // Stopped: drop the half-written question and keep the patient's message for the next turn.
+        setMessages(current => current.slice(0, newMessages.length));
+        return;
+      }
       setMessages([...newMessages, { role: 'model', content: result.nextQuestion }]);
       if (result.isFinalQuestion) {
         setInterviewState('awaiting_upload');
@@ -426,7 +319,7 @@ export function Admission() {
                          <div key={index} className={`flex items-end gap-2 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                             {message.role === 'model' && <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/20 text-primary flex items-center justify-center"><Bot size={20}/></div>}
                             <div className={`max-w-[90%] md:max-w-md rounded-lg p-3 ${message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-secondary'}`}>
-                                {isChatLoading && index === messages.length - 1 && message.role === 'model' ? (
+                                {isChatLoading && index === messages.length - 1 && message.role === 'model' && !message.content ? (
                                     <div className="flex items-center justify-center gap-1.5 h-5">
                                         <span className="h-2 w-2 rounded-full bg-current animate-bounce [animation-delay:-0.3s]"></span>
                                         <span className="h-2 w-2 rounded-full bg-current animate-bounce [animation-delay:-0.15s]"></span>
@@ -444,7 +337,9 @@ export function Admission() {
             {interviewState === 'in_progress' ? (
                 <form onSubmit={(e) => { e.preventDefault(); handleSendMessage((e.currentTarget.elements.namedItem('message') as HTMLInputElement).value); e.currentTarget.reset(); }} className="w-full flex items-center gap-2">
                     <Input name="message" placeholder="Type your message..." disabled={isChatLoading} autoComplete="off" />
-                    <Button type="submit" disabled={isChatLoading}><Send /></Button>
+                    {isChatLoading
+                        ? <Button type="button" variant="outline" onClick={interviewStream.cancel} aria-label="Stop"><Square /></Button>
+                        : <Button type="submit"><Send /></Button>}
                 </form>
             ) : interviewState === 'awaiting_upload' ? (
                 <div className="w-full space-y-4">
@@ -572,14 +467,9 @@ export function Admission() {
                                                                 {step.userInput.labResults?.length > 0 && (
                                                                     <div>
                                                                         <h4 className="font-semibold text-sm mb-2">Lab Test Results</h4>
-                                                                        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                                                                            {step.userInput.labResults.map((res: any, i: number) => (
-                                                                                <div key={`lab-${i}`}>
-                                                                                    <p className="font-semibold text-xs truncate">{res.testName}</p>
-                                                                                    <button onClick={() => setSelectedImage(res.imageDataUri)} className="transition-transform hover:scale-105 mt-1">
-                                                                                        <Image src={res.imageDataUri} alt={res.testName} width={150} height={150} className="rounded-md border"/>
-                                                                                    </button>
-                                                                                </div>
+                                                                        <div className="space-y-4">
+                                                                            {step.userInput.labResults.map((res: SubmittedLabResult, i: number) => (
+                                                                                <LabResultView key={`lab-${i}`} result={res} onViewImage={setSelectedImage} />
                                                                             ))}
                                                                         </div>
                                                                     </div>
@@ -642,7 +532,11 @@ export function Admission() {
                                                 {c.doctorPlan?.suggestedLabTests?.length > 0 && (
                                                     <div>
                                                         <h3 className="font-bold flex items-center gap-2"><TestTube/> Required Lab Tests</h3>
-                                                        <p className="text-sm text-muted-foreground mb-2">{c.status === 'awaiting_nurse_visit' ? 'A nurse has been dispatched to your location to collect samples for these tests.' : 'Please get these tests done and upload the results below.'}</p>
+                                                        <p className="text-sm text-muted-foreground mb-2">{c.status === 'awaiting_nurse_visit'
+                                                            ? c.nurseDispatch
+                                                                ? `${c.nurseDispatch.nurseName} will visit you at home on ${format(parseISO(c.nurseDispatch.scheduledFor), 'PPp')} to collect samples for these tests.`
+                                                                : 'A nurse has been dispatched to your location to collect samples for these tests.'
+                                                            : 'Please get these tests done and upload the results below.'}</p>
                                                          <ul className="list-disc list-inside pl-4 text-muted-foreground text-sm">
                                                             {c.doctorPlan.suggestedLabTests.map((test, i) => <li key={i}>{test}</li>)}
                                                         </ul>
@@ -705,7 +599,7 @@ export function Admission() {
 
                                     {c.reviewedByUid && (c.status !== 'rejected' && c.status !== 'completed') && (
                                         <div className="pt-4 mt-4 border-t">
-                                            <CaseChat investigationId={c.id} doctorName={c.reviewedByName || 'the Doctor'} />
+                                            <CaseChat investigation={c} doctorName={c.reviewedByName || 'the Doctor'} />
                                         </div>
                                     )}
                                 </div>
@@ -0,0 +1,68 @@
+"use client";
+
+import React from 'react';
+import Image from 'next/image';
+import { FileText } from 'lucide-react';
+import type { ExtractLabReportOutput } from '@/ai/flows/extract-lab-report-flow';
+import { isOutOfRange, isPdfDataUri } from '@/lib/lab-observations';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LabFlagBadge } from '@/components/labs/lab-flag-badge';
+import { cn } from '@/lib/utils';
+
+/** Below this the values may be misread, so the reviewer is pointed at the original report. */
+const LOW_CONFIDENCE = 80;
+
+export interface SubmittedLabResult {
+    testName: string;
+    imageDataUri: string;
+    extraction?: ExtractLabReportOutput;
+}
+
+/** A submitted lab report: the original document and, when it could be read, its analytes. */
+export function LabResultView({ result, onViewImage }: { result: SubmittedLabResult; onViewImage: (dataUri: string) => void }) {
+    const { extraction } = result;
+
+    return (
+        <div className="space-y-2">
+            <p className="font-semibold text-xs truncate">{result.testName}</p>
+            {isPdfDataUri(result.imageDataUri) ? (
+                <a href={result.imageDataUri} download={`${result.testName}.pdf`} className="inline-flex items-center gap-1 text-sm text-primary hover:underline">
+                    <FileText className="h-4 w-4" /> Open PDF report
+                </a>
+            ) : (
+                <button onClick={() => onViewImage(result.imageDataUri)} className="transition-transform hover:scale-105">
+                    <Image src={result.imageDataUri} alt={result.testName} width={150} height={150} className="rounded-md border"/>
+                </button>
+            )}
+            {extraction && extraction.analytes.length > 0 ? (
+                <>
+                    <p className={cn("text-xs text-muted-foreground", extraction.confidenceScore < LOW_CONFIDENCE && "text-orange-500")}>
+                        {extraction.summary} Read with {extraction.confidenceScore}% confidence{extraction.confidenceScore < LOW_CONFIDENCE ? '; check the original report.' : '.'}
+                    </p>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Analyte</TableHead>
+                                <TableHead>Result</TableHead>
+                                <TableHead>Reference</TableHead>
+                                <TableHead>Flag</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {extraction.analytes.map((analyte, i) => (
+                                <TableRow key={`${analyte.name}-${i}`} className={cn(isOutOfRange(analyte.flag) && "bg-orange-500/5")}>
+                                    <TableCell className="font-medium">{analyte.name}</TableCell>
+                                    <TableCell>{analyte.valueText} {analyte.unit}</TableCell>
+                                    <TableCell className="text-muted-foreground">{analyte.referenceRange?.text ?? '—'}</TableCell>
+                                    <TableCell><LabFlagBadge flag={analyte.flag} /></TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </>
+            ) : (
+                <p className="text-xs text-muted-foreground">No values could be read from this report automatically.</p>
+            )}
+        </div>
+    );
+}
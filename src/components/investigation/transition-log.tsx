@@ -0,0 +1,33 @@
+"use client";
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { ChevronsUpDown } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { INVESTIGATION_STATUS_LABELS, type TransitionLogEntry } from '@/lib/investigation';
+
+/** The case's status history, newest first. */
+export function TransitionLog({ transitions }: { transitions?: TransitionLogEntry[] }) {
+    if (!transitions?.length) return null;
+
+    return (
+        <Collapsible>
+            <CollapsibleTrigger className="flex w-full items-center justify-between rounded-md p-2 text-left text-sm font-semibold hover:bg-secondary/50">
+                <span>Status History ({transitions.length})</span>
+                <ChevronsUpDown className="h-4 w-4" />
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-2">
+                <ol className="space-y-2 border-l pl-4">
+                    {[...transitions].reverse().map((entry, index) => (
+                        <li key={`${entry.at}-${index}`} className="text-sm">
+                            <p className="font-medium">{INVESTIGATION_STATUS_LABELS[entry.to]}</p>
+                            <p className="text-xs text-muted-foreground">
+                                {format(parseISO(entry.at), 'MMM d, yyyy, h:mm a')} · {entry.by.name || 'Unknown'} ({entry.by.role})
+                            </p>
+                        </li>
+                    ))}
+                </ol>
+            </CollapsibleContent>
+        </Collapsible>
+    );
+}
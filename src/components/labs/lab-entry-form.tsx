@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { parseReferenceRange, type LabAnalyte, type LabObservation } from '@/lib/lab-observations';
+import { addLabObservations } from '@/lib/lab-observations-store';
+import type { InvestigationSummary } from '@/lib/investigation-store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const MANUAL_TEST_NAME = 'Manual entry';
+
+interface LabEntryFormProps {
+    patientId: string;
+    recorder: LabObservation['recordedBy'];
+    cases: InvestigationSummary[];
+    defaultCaseId?: string;
+    onRecorded: (observations: LabObservation[]) => void;
+}
+
+/** Records a single analyte value against one of the patient's cases. */
+export function LabEntryForm({ patientId, recorder, cases, defaultCaseId, onRecorded }: LabEntryFormProps) {
+    const { toast } = useToast();
+    const [caseId, setCaseId] = useState(defaultCaseId ?? cases[0]?.id ?? '');
+    const [testName, setTestName] = useState('');
+    const [name, setName] = useState('');
+    const [valueText, setValueText] = useState('');
+    const [unit, setUnit] = useState('');
+    const [range, setRange] = useState('');
+    const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!caseId || !name.trim() || !valueText.trim() || !date) {
+            toast({ variant: 'destructive', title: 'Missing Information', description: 'Choose a case and enter the analyte, its result and the date.' });
+            return;
+        }
+        const analyte: LabAnalyte = { name: name.trim(), valueText: valueText.trim() };
+        const numeric = Number(valueText.trim().replace(',', '.'));
+        if (Number.isFinite(numeric)) analyte.value = numeric;
+        if (unit.trim()) analyte.unit = unit.trim();
+        if (range.trim()) analyte.referenceRange = parseReferenceRange(range);
+
+        setIsSaving(true);
+        try {
+            const observations = await addLabObservations(
+                patientId,
+                { investigationId: caseId, testName: testName.trim() || MANUAL_TEST_NAME },
+                [analyte],
+                new Date(`${date}T00:00:00`).toISOString(),
+                recorder,
+            );
+            toast({ title: 'Result Recorded', description: `${analyte.name} was added to the lab history.` });
+            setName('');
+            setValueText('');
+            setUnit('');
+            setRange('');
+            onRecorded(observations);
+        } catch (error) {
+            console.error("Error recording lab result:", error);
+            toast({ variant: 'destructive', title: 'Error', description: 'Failed to record the lab result.' });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (cases.length === 0) {
+        return <p className="text-sm text-muted-foreground">Lab results are recorded against a case. There are no cases yet.</p>;
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+            <div className="space-y-1 col-span-2">
+                <Label className="text-xs">Case</Label>
+                <Select value={caseId} onValueChange={setCaseId}>
+                    <SelectTrigger><SelectValue placeholder="Choose a case" /></SelectTrigger>
+                    <SelectContent>
+                        {cases.map(c => <SelectItem key={c.id} value={c.id}>{c.title} ({format(new Date(c.createdAt), 'MMM d, yyyy')})</SelectItem>)}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div className="space-y-1">
+                <Label className="text-xs">Test</Label>
+                <Input value={testName} onChange={(e) => setTestName(e.target.value)} placeholder="e.g., Renal Panel" />
+            </div>
+            <div className="space-y-1">
+                <Label className="text-xs">Date</Label>
+                <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+                <Label className="text-xs">Analyte</Label>
+                <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Creatinine" />
+            </div>
+            <div className="space-y-1">
+                <Label className="text-xs">Result</Label>
+                <Input value={valueText} onChange={(e) => setValueText(e.target.value)} placeholder="e.g., 1.4" />
+            </div>
+            <div className="space-y-1">
+                <Label className="text-xs">Unit</Label>
+                <Input value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="e.g., mg/dL" />
+            </div>
+            <div className="space-y-1">
+                <Label className="text-xs">Reference Range</Label>
+                <Input value={range} onChange={(e) => setRange(e.target.value)} placeholder="e.g., 0.6 - 1.2" />
+            </div>
+            <Button type="submit" disabled={isSaving} className="col-span-2 md:col-span-4">
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                Record Result
+            </Button>
+        </form>
+    );
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import React from 'react';
+import { LAB_FLAG_LABELS, isOutOfRange, type LabFlag } from '@/lib/lab-observations';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+export function LabFlagBadge({ flag }: { flag?: LabFlag }) {
+    if (!flag) return null;
+    const critical = flag === 'critical_low' || flag === 'critical_high';
+    return (
+        <Badge variant={critical ? 'destructive' : 'outline'} className={cn("text-xs", !critical && isOutOfRange(flag) && "border-orange-500 text-orange-500")}>
+            {LAB_FLAG_LABELS[flag]}
+        </Badge>
+    );
+}
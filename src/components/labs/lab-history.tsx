@@ -0,0 +1,195 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Download, FlaskConical, Loader2, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { toCsv } from '@/lib/csv';
+import { groupLabSeries, isOutOfRange, labObservationsToCsvRows, type LabObservation } from '@/lib/lab-observations';
+import { fetchLabObservations } from '@/lib/lab-observations-store';
+import { fetchPatientInvestigations, type InvestigationSummary } from '@/lib/investigation-store';
+import { LabEntryForm } from '@/components/labs/lab-entry-form';
+import { LabFlagBadge } from '@/components/labs/lab-flag-badge';
+import { LabTrendChart } from '@/components/labs/lab-trend-chart';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+
+interface LabHistoryProps {
+    patientId: string;
+    /** When set, new results can be recorded and are stamped with this person. */
+    recorder?: LabObservation['recordedBy'];
+    /** Narrows the view to one case to start with, e.g. when opened from a case review. */
+    initialCaseId?: string;
+}
+
+/** A patient's lab results across all cases, grouped by analyte and trended against reference ranges. */
+export function LabHistory({ patientId, recorder, initialCaseId }: LabHistoryProps) {
+    const { toast } = useToast();
+    const [observations, setObservations] = useState<LabObservation[]>([]);
+    const [cases, setCases] = useState<InvestigationSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [caseFilter, setCaseFilter] = useState(initialCaseId ?? 'all');
+    const [search, setSearch] = useState('');
+    const [abnormalOnly, setAbnormalOnly] = useState(false);
+    const [isRecording, setIsRecording] = useState(false);
+
+    useEffect(() => {
+        setIsLoading(true);
+        Promise.all([fetchLabObservations(patientId), fetchPatientInvestigations(patientId)])
+            .then(([fetchedObservations, fetchedCases]) => {
+                setObservations(fetchedObservations);
+                setCases(fetchedCases);
+            })
+            .catch(error => {
+                console.error("Error fetching lab history:", error);
+                toast({ variant: 'destructive', title: 'Error', description: 'Could not load lab results.' });
+            })
+            .finally(() => setIsLoading(false));
+    }, [patientId, toast]);
+
+    const caseTitles = useMemo(() => new Map(cases.map(c => [c.id, `${c.title} (${format(new Date(c.createdAt), 'MMM d, yyyy')})`])), [cases]);
+
+    const visible = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return observations.filter(o =>
+            (caseFilter === 'all' || o.source.investigationId === caseFilter)
+            && (!term || o.name.toLowerCase().includes(term) || o.analyteKey.includes(term))
+        );
+    }, [observations, caseFilter, search]);
+
+    const series = useMemo(() => {
+        const grouped = groupLabSeries(visible);
+        return abnormalOnly ? grouped.filter(s => s.abnormalCount > 0) : grouped;
+    }, [visible, abnormalOnly]);
+
+    const handleExport = () => {
+        const exported = series.flatMap(s => s.observations);
+        const blob = new Blob([toCsv(labObservationsToCsvRows(exported))], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `lab-results-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-4">
+            <Card>
+                <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                        <div>
+                            <CardTitle className="flex items-center gap-2"><FlaskConical/>Lab Results</CardTitle>
+                            <CardDescription>Every lab result across cases, grouped by analyte. The shaded band is the reference range.</CardDescription>
+                        </div>
+                        <div className="flex gap-2">
+                            {recorder && (
+                                <Button variant="outline" size="sm" onClick={() => setIsRecording(prev => !prev)}>
+                                    <Plus className="mr-2 h-4 w-4" /> Record
+                                </Button>
+                            )}
+                            <Button variant="outline" size="sm" onClick={handleExport} disabled={series.length === 0}>
+                                <Download className="mr-2 h-4 w-4" /> Export CSV
+                            </Button>
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {recorder && isRecording && (
+                        <LabEntryForm
+                            patientId={patientId}
+                            recorder={recorder}
+                            cases={cases}
+                            defaultCaseId={caseFilter !== 'all' ? caseFilter : undefined}
+                            onRecorded={(added) => setObservations(prev => [...added, ...prev])}
+                        />
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                        <div className="space-y-1">
+                            <Label className="text-xs">Case</Label>
+                            <Select value={caseFilter} onValueChange={setCaseFilter}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="all">All cases</SelectItem>
+                                    {cases.map(c => <SelectItem key={c.id} value={c.id}>{caseTitles.get(c.id)}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="text-xs">Analyte</Label>
+                            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="e.g., creatinine" />
+                        </div>
+                        <div className="flex items-center gap-2 pb-2">
+                            <Switch id="abnormal-only" checked={abnormalOnly} onCheckedChange={setAbnormalOnly} />
+                            <Label htmlFor="abnormal-only" className="text-sm">Only analytes with abnormal results</Label>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {isLoading ? (
+                <div className="flex justify-center p-8"><Loader2 className="animate-spin" /></div>
+            ) : series.length === 0 ? (
+                <p className="text-center text-sm text-muted-foreground p-8">No lab results match this view.</p>
+            ) : (
+                series.map(s => {
+                    const latest = s.observations[s.observations.length - 1];
+                    return (
+                        <Card key={s.analyteKey}>
+                            <CardHeader>
+                                <div className="flex items-start justify-between gap-2">
+                                    <div>
+                                        <CardTitle className="text-base">{s.name}</CardTitle>
+                                        <CardDescription>
+                                            {s.observations.length} result{s.observations.length === 1 ? '' : 's'}
+                                            {s.referenceRange?.text && ` · Reference ${s.referenceRange.text} ${s.unit ?? ''}`}
+                                        </CardDescription>
+                                    </div>
+                                    <div className="text-right">
+                                        <p className="font-bold">{latest.valueText} <span className="text-xs font-normal text-muted-foreground">{latest.unit}</span></p>
+                                        <LabFlagBadge flag={latest.flag} />
+                                    </div>
+                                </div>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <LabTrendChart series={s} />
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Date</TableHead>
+                                            <TableHead>Result</TableHead>
+                                            <TableHead>Reference</TableHead>
+                                            <TableHead>Flag</TableHead>
+                                            <TableHead>Case</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {[...s.observations].reverse().map(o => (
+                                            <TableRow key={o.id} className={cn(isOutOfRange(o.flag) && "bg-orange-500/5")}>
+                                                <TableCell>{format(parseISO(o.observedAt), 'MMM d, yyyy')}</TableCell>
+                                                <TableCell className={cn(isOutOfRange(o.flag) && "font-semibold")}>{o.valueText} {o.unit}</TableCell>
+                                                <TableCell className="text-muted-foreground">{o.referenceRange?.text ?? '—'}</TableCell>
+                                                <TableCell><LabFlagBadge flag={o.flag} /></TableCell>
+                                                <TableCell className="text-xs text-muted-foreground">
+                                                    {o.source.testName} · {caseTitles.get(o.source.investigationId) ?? 'Unknown case'}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </CardContent>
+                        </Card>
+                    );
+                })
+            )}
+        </div>
+    );
+}
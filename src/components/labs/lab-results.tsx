@@ -0,0 +1,21 @@
+"use client";
+
+import React from 'react';
+import { useAuth } from '@/context/auth-provider';
+import { useProfile } from '@/context/profile-provider';
+import { LabHistory } from '@/components/labs/lab-history';
+import { Loader } from '@/components/ui/loader';
+
+export function LabResults() {
+    const { user } = useAuth();
+    const { profile } = useProfile();
+
+    if (!user) return <Loader />;
+
+    return (
+        <LabHistory
+            patientId={user.uid}
+            recorder={{ uid: user.uid, name: profile?.name || profile?.username || 'Patient', role: 'patient' }}
+        />
+    );
+}
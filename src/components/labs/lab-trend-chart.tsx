@@ -0,0 +1,54 @@
+"use client";
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { chartableObservations, isOutOfRange, type LabSeries } from '@/lib/lab-observations';
+
+const chartConfig = {
+    value: { label: "Result", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+interface DotProps {
+    cx?: number;
+    cy?: number;
+    payload?: { abnormal: boolean };
+}
+
+/** Out-of-range results are drawn as larger red dots. */
+function FlagDot({ cx, cy, payload }: DotProps) {
+    if (cx === undefined || cy === undefined) return null;
+    return payload?.abnormal
+        ? <circle cx={cx} cy={cy} r={5} fill="hsl(var(--destructive))" stroke="hsl(var(--background))" strokeWidth={1} />
+        : <circle cx={cx} cy={cy} r={3} fill="var(--color-value)" />;
+}
+
+/** One analyte over time, with its reference range shaded behind the line. */
+export function LabTrendChart({ series }: { series: LabSeries }) {
+    const points = chartableObservations(series).map(o => ({
+        date: format(parseISO(o.observedAt), 'MMM d, yy'),
+        value: o.value,
+        abnormal: isOutOfRange(o.flag),
+    }));
+    if (points.length === 0) return null;
+
+    const { low, high } = series.referenceRange ?? {};
+
+    return (
+        <ChartContainer config={chartConfig} className="w-full h-[220px]">
+            <LineChart accessibilityLayer data={points} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis width={40} domain={['auto', 'auto']} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                {low !== undefined && high !== undefined && (
+                    <ReferenceArea y1={low} y2={high} fill="hsl(var(--chart-2))" fillOpacity={0.15} ifOverflow="extendDomain" />
+                )}
+                {low !== undefined && high === undefined && <ReferenceLine y={low} stroke="hsl(var(--chart-2))" strokeDasharray="4 4" ifOverflow="extendDomain" />}
+                {high !== undefined && low === undefined && <ReferenceLine y={high} stroke="hsl(var(--chart-2))" strokeDasharray="4 4" ifOverflow="extendDomain" />}
+                <Line type="monotone" dataKey="value" stroke="var(--color-value)" strokeWidth={2} dot={<FlagDot />} activeDot={{ r: 6 }} />
+            </LineChart>
+        </ChartContainer>
+    );
+}
@@ -3,7 +3,7 @@
 
 import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { ShieldCheck, Zap, Bot, ArrowRight, MessageSquare, Star } from 'lucide-react';
+import { ShieldCheck, Zap, Bot, ArrowRight, MessageSquare, Star, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import Image from 'next/image';
@@ -12,7 +12,8 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { Form, FormControl, FormField, FormItem, FormMessage } from '../ui/form';
-import { askLifeline, type AskLifelineOutput } from '@/ai/flows/lifeline-ai-flow';
+import type { AskLifelineOutput } from '@/ai/flows/lifeline-ai-flow';
+import { useAiStream } from '@/hooks/use-ai-stream';
 import { Loader2 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -24,6 +25,8 @@ type AskFormValues = z.infer<typeof askSchema>;
 export function LandingPage() {
     const router = useRouter();
     const [aiResponse, setAiResponse] = useState<AskLifelineOutput | null>(null);
+    const [streamedAnswer, setStreamedAnswer] = useState('');
+    const lifelineStream = useAiStream('askLifeline');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     
@@ -39,10 +42,16 @@ export function LandingPage() {
     const onSubmit = async (data: AskFormValues) => {
         setIsLoading(true);
         setAiResponse(null);
+        setStreamedAnswer('');
         setError(null);
         try {
-            const result = await askLifeline({ query: data.question });
-            setAiResponse(result);
+            const result = await lifelineStream.start({ query: data.question }, setStreamedAnswer);
+            if (result) {
+                setAiResponse(result);
+            } else {
+                // Stopped: a partial answer would be shown without its disclaimer.
+                setStreamedAnswer('');
+            }
         } catch (err) {
             console.error(err);
             setError("Sorry, I couldn't process that question. Please try again.");
@@ -116,20 +125,26 @@ export function LandingPage() {
                                         <FormField control={form.control} name="question" render={({ field }) => (
                                             <FormItem className="flex-grow"><FormControl><Input placeholder="e.g., What are the early signs of dehydration?" {...field} className="h-12"/></FormControl><FormMessage className="pl-2"/></FormItem>
                                         )}/>
-                                        <Button type="submit" size="lg" className="h-12" disabled={isLoading}>
-                                            <MessageSquare className="mr-2"/> {isLoading ? 'Thinking...' : 'Ask Lifeline AI'}
-                                        </Button>
+                                        {isLoading ? (
+                                            <Button type="button" size="lg" variant="outline" className="h-12" onClick={lifelineStream.cancel}>
+                                                <Square className="mr-2"/> Stop
+                                            </Button>
+                                        ) : (
+                                            <Button type="submit" size="lg" className="h-12">
+                                                <MessageSquare className="mr-2"/> Ask Lifeline AI
+                                            </Button>
+                                        )}
                                     </form>
                                 </Form>
-                                {isLoading && <div className="flex justify-center p-8"><Loader2 className="w-12 h-12 animate-spin text-primary"/></div>}
+                                {isLoading && !streamedAnswer && <div className="flex justify-center p-8"><Loader2 className="w-12 h-12 animate-spin text-primary"/></div>}
                                 {error && <p className="text-destructive text-center p-4">{error}</p>}
-                                {aiResponse && (
+                                {(aiResponse || streamedAnswer) && (
                                     <div className="mt-8 p-4 md:p-6 bg-secondary/30 rounded-lg animate-in fade-in-50 duration-500">
                                         <div className="flex items-start gap-4">
                                             <div className="flex-shrink-0 h-10 w-10 flex items-center justify-center rounded-full bg-primary/10 text-primary"><Bot /></div>
-                                            <div className="flex-grow min-w-0"><h4 className="font-bold text-lg">Lifeline AI Says:</h4><p className="text-muted-foreground whitespace-pre-line break-words">{aiResponse.answer}</p></div>
+                                            <div className="flex-grow min-w-0"><h4 className="font-bold text-lg">Lifeline AI Says:</h4><p className="text-muted-foreground whitespace-pre-line break-words">{aiResponse?.answer ?? streamedAnswer}</p></div>
                                         </div>
-                                        {aiResponse.disclaimer && (<p className="text-xs text-muted-foreground/80 mt-6 pt-4 border-t border-muted/20"><strong>Disclaimer:</strong> {aiResponse.disclaimer}</p>)}
+                                        {aiResponse?.disclaimer && (<p className="text-xs text-muted-foreground/80 mt-6 pt-4 border-t border-muted/20"><strong>Disclaimer:</strong> {aiResponse.disclaimer}</p>)}
                                     </div>
                                 )}
                             </CardContent>
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+
+import { VITAL_DEFINITIONS, VITAL_FIELDS, VITAL_UNITS, parseVitalsInput, validateVitals, type VitalField, type VitalsValues } from '@/lib/vitals';
+import { STRIP_MARKERS, STRIP_MARKER_LABELS, levelsFor, type TestStripValues } from '@/lib/test-strips';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const NO_LEVEL = 'none';
+
+type EditableEntry =
+    | { type: 'vitals'; values: VitalsValues }
+    | { type: 'strips'; values: TestStripValues };
+
+export function EntryEditForm({ entry, onSave, onCancel }: {
+    entry: EditableEntry;
+    onSave: (values: VitalsValues | TestStripValues) => Promise<void>;
+    onCancel: () => void;
+}) {
+    const [text, setText] = useState<Record<string, string>>(() => entry.type === 'vitals'
+        ? Object.fromEntries(VITAL_FIELDS.map(field => [field, entry.values[field] ? String(entry.values[field]!.value) : '']))
+        : Object.fromEntries(STRIP_MARKERS.map(marker => [marker, entry.values[marker] ?? ''])));
+    const [units, setUnits] = useState<Partial<Record<VitalField, string>>>(() => entry.type === 'vitals'
+        ? Object.fromEntries(VITAL_FIELDS.map(field => [field, entry.values[field]?.unit ?? VITAL_DEFINITIONS[field].defaultUnit]))
+        : {});
+    const [errors, setErrors] = useState<string[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSave = async () => {
+        let values: VitalsValues | TestStripValues;
+        if (entry.type === 'vitals') {
+            values = parseVitalsInput(text, units);
+            const fieldErrors = Object.values(validateVitals(values));
+            if (fieldErrors.length > 0) {
+                setErrors(fieldErrors);
+                return;
+            }
+        } else {
+            values = Object.fromEntries(STRIP_MARKERS.filter(marker => text[marker]).map(marker => [marker, text[marker]]));
+        }
+        setIsSaving(true);
+        try {
+            await onSave(values);
+        } catch (error: any) {
+            setErrors([error.message]);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {entry.type === 'vitals' ? VITAL_FIELDS.map(field => (
+                    <div key={field} className="space-y-1">
+                        <Label className="text-xs">{VITAL_DEFINITIONS[field].label}</Label>
+                        <div className="flex gap-2">
+                            <Input type="number" step="0.1" value={text[field]} onChange={(e) => setText(prev => ({ ...prev, [field]: e.target.value }))} className="h-8" />
+                            {VITAL_UNITS[field].length > 1 ? (
+                                <Select value={units[field]} onValueChange={(unit) => setUnits(prev => ({ ...prev, [field]: unit }))}>
+                                    <SelectTrigger className="h-8 w-24"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {VITAL_UNITS[field].map(unit => <SelectItem key={unit} value={unit}>{unit}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            ) : <span className="text-xs text-muted-foreground self-center w-24">{VITAL_UNITS[field][0]}</span>}
+                        </div>
+                    </div>
+                )) : STRIP_MARKERS.map(marker => (
+                    <div key={marker} className="space-y-1">
+                        <Label className="text-xs">{STRIP_MARKER_LABELS[marker]}</Label>
+                        <Select value={text[marker] || NO_LEVEL} onValueChange={(level) => setText(prev => ({ ...prev, [marker]: level === NO_LEVEL ? '' : level }))}>
+                            <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NO_LEVEL}>Not recorded</SelectItem>
+                                {levelsFor(marker).map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                ))}
+            </div>
+            {errors.map((error, i) => <p key={i} className="text-sm text-destructive">{error}</p>)}
+            <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+                <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                    {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>}
+                    Save Changes
+                </Button>
+            </div>
+        </div>
+    );
+}
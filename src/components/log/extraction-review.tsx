@@ -0,0 +1,243 @@
+"use client";
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Trash2, Loader2, ScanLine, HeartPulse, Beaker } from 'lucide-react';
+
+import { useAuth } from '@/context/auth-provider';
+import { useToast } from '@/hooks/use-toast';
+import type { ExtractDataFromImageOutput, ExtractedReading } from '@/ai/flows/extract-data-from-image-flow';
+import { VITAL_DEFINITIONS, VITAL_FIELDS, VITAL_UNITS, parseVitalsInput, validateVitals, type VitalField, type VitalsValues } from '@/lib/vitals';
+import { STRIP_MARKERS, STRIP_MARKER_LABELS, normalizeStripLevel, type StripMarker, type TestStripValues } from '@/lib/test-strips';
+import { writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { batchVitals } from '@/lib/vitals-store';
+import { batchTestStrips } from '@/lib/test-strips-store';
+import { checkNewVitalsOrQueue } from '@/lib/alerts-store';
+import type { ImportedReadings } from './import-wizard';
+
+import { Card, CardHeader, CardTitle, CardContent, CardDescription, CardFooter } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+/** Fields below this confidence are highlighted for the user to double-check. */
+const LOW_CONFIDENCE = 80;
+
+interface ReviewRow {
+    key: string;
+    accepted: boolean;
+    kind: ExtractedReading['kind'];
+    /** `datetime-local` input value. */
+    date: string;
+    values: Record<string, string>;
+    units: Partial<Record<VitalField, string>>;
+    confidence: Record<string, number | undefined>;
+    errors: string[];
+}
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+function toReviewRow(reading: ExtractedReading, index: number): ReviewRow {
+    const row: ReviewRow = {
+        key: `${index}`,
+        accepted: true,
+        kind: reading.kind,
+        date: toDateInput(reading.timestamp ? new Date(reading.timestamp) : new Date()),
+        values: {},
+        units: {},
+        confidence: {},
+        errors: [],
+    };
+    if (reading.kind === 'vitals') {
+        for (const field of VITAL_FIELDS) {
+            const measurement = reading.vitals?.[field];
+            if (!measurement) continue;
+            row.values[field] = String(measurement.value);
+            row.units[field] = measurement.unit;
+            row.confidence[field] = reading.fieldConfidence[field];
+        }
+    } else {
+        for (const marker of STRIP_MARKERS) {
+            const level = reading.testStrip?.[marker];
+            if (!level) continue;
+            row.values[marker] = level;
+            row.confidence[marker] = reading.fieldConfidence[`strip_${marker}`];
+        }
+    }
+    return row;
+}
+
+type ParsedRow = { kind: 'vitals'; date: string; values: VitalsValues } | { kind: 'test_strip'; date: string; values: TestStripValues };
+
+function parseRow(row: ReviewRow): ParsedRow | string[] {
+    const date = new Date(row.date);
+    const errors: string[] = [];
+    if (Number.isNaN(date.getTime())) errors.push('Enter a date and time.');
+    else if (date > new Date()) errors.push('Date is in the future.');
+
+    if (row.kind === 'vitals') {
+        const values = parseVitalsInput(row.values, row.units);
+        errors.push(...Object.values(validateVitals(values)));
+        if (Object.keys(values).length === 0) errors.push('No values left on this reading.');
+        return errors.length > 0 ? errors : { kind: 'vitals', date: date.toISOString(), values };
+    }
+    const values: TestStripValues = {};
+    for (const marker of STRIP_MARKERS) {
+        const raw = row.values[marker]?.trim();
+        if (!raw) continue;
+        const level = normalizeStripLevel(marker, raw);
+        if (level) values[marker] = level;
+        else errors.push(`${STRIP_MARKER_LABELS[marker]} "${raw}" is not a recognised level.`);
+    }
+    if (Object.keys(values).length === 0) errors.push('No values left on this reading.');
+    return errors.length > 0 ? errors : { kind: 'test_strip', date: date.toISOString(), values };
+}
+
+export function ExtractionReview({ extraction, onSaved, onDiscard }: {
+    extraction: ExtractDataFromImageOutput;
+    onSaved: (saved: ImportedReadings) => void;
+    onDiscard: () => void;
+}) {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const [rows, setRows] = useState<ReviewRow[]>(() => extraction.readings.map(toReviewRow));
+    const [isSaving, setIsSaving] = useState(false);
+
+    const updateRow = (key: string, update: (row: ReviewRow) => ReviewRow) => {
+        setRows(prev => prev.map(row => row.key === key ? { ...update(row), errors: [] } : row));
+    };
+
+    const acceptedCount = rows.filter(row => row.accepted).length;
+
+    const handleSave = async () => {
+        if (!user) return;
+        const accepted = rows.filter(row => row.accepted);
+        const parsed = accepted.map(parseRow);
+        if (parsed.some(Array.isArray)) {
+            setRows(prev => prev.map(row => {
+                const index = accepted.indexOf(row);
+                return index === -1 || !Array.isArray(parsed[index]) ? row : { ...row, errors: parsed[index] as string[] };
+            }));
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const valid = parsed as ParsedRow[];
+            // One photo's readings fit in a single batch, so the vitals and strips are saved together or not at all
+            const batch = writeBatch(db);
+            const vitals = batchVitals(batch, user.uid, valid.flatMap(r => r.kind === 'vitals' ? [{ date: r.date, values: r.values }] : []));
+            const strips = batchTestStrips(batch, user.uid, valid.flatMap(r => r.kind === 'test_strip' ? [{ date: r.date, values: r.values }] : []));
+            await batch.commit();
+            onSaved({ vitals, strips });
+
+            const alerts = await checkNewVitalsOrQueue(user.uid, vitals);
+
+            const saved = `${vitals.length + strips.length} reading${vitals.length + strips.length === 1 ? '' : 's'} saved.`;
+            if (alerts.length > 0) {
+                toast({ variant: alerts.some(a => a.severity === 'Critical') ? 'destructive' : 'default', title: alerts[0].title, description: `${saved} ${alerts[0].message}` });
+            } else {
+                toast({ title: 'Data Saved', description: saved });
+            }
+        } catch (error) {
+            console.error("Error saving extracted readings:", error);
+            toast({ variant: 'destructive', title: 'Save Failed', description: 'Could not save the readings.' });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const renderField = (row: ReviewRow, field: string) => {
+        const confidence = row.confidence[field];
+        const isLow = confidence !== undefined && confidence < LOW_CONFIDENCE;
+        const label = row.kind === 'vitals' ? VITAL_DEFINITIONS[field as VitalField].label : STRIP_MARKER_LABELS[field as StripMarker];
+        const unitOptions = row.kind === 'vitals' ? VITAL_UNITS[field as VitalField] : [];
+        return (
+            <div key={field} className="flex items-center gap-1">
+                <span className="text-xs text-muted-foreground w-20 shrink-0">{label}</span>
+                <Input
+                    value={row.values[field]}
+                    onChange={(e) => updateRow(row.key, r => ({ ...r, values: { ...r.values, [field]: e.target.value } }))}
+                    className={cn("h-8 w-20", isLow && "border-orange-500")}
+                    disabled={!row.accepted}
+                />
+                {unitOptions.length > 1 ? (
+                    <Select value={row.units[field as VitalField]} onValueChange={(unit) => updateRow(row.key, r => ({ ...r, units: { ...r.units, [field]: unit } }))} disabled={!row.accepted}>
+                        <SelectTrigger className="h-8 w-24"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {unitOptions.map(unit => <SelectItem key={unit} value={unit}>{unit}</SelectItem>)}
+                        </SelectContent>
+                    </Select>
+                ) : unitOptions.length === 1 ? <span className="text-xs text-muted-foreground w-12">{unitOptions[0]}</span> : null}
+                {confidence !== undefined && (
+                    <Badge variant="outline" className={cn("text-xs", isLow && "border-orange-500 text-orange-500")}>{confidence}%</Badge>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2"><ScanLine className="w-6 h-6"/>Review Extracted Readings</CardTitle>
+                <CardDescription>
+                    {extraction.analysisSummary} Check each reading, especially values highlighted in orange, then save the ones you want to keep.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {rows.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-6">No readings could be read from this image.</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="w-10">Keep</TableHead>
+                                <TableHead>Taken</TableHead>
+                                <TableHead>Values</TableHead>
+                                <TableHead className="w-10"></TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {rows.map(row => (
+                                <TableRow key={row.key} className={cn(!row.accepted && "opacity-50")}>
+                                    <TableCell>
+                                        <Checkbox checked={row.accepted} onCheckedChange={(checked) => updateRow(row.key, r => ({ ...r, accepted: !!checked }))} />
+                                    </TableCell>
+                                    <TableCell className="align-top">
+                                        <div className="flex items-center gap-2 mb-1">
+                                            {row.kind === 'vitals' ? <HeartPulse className="w-4 h-4 text-red-400"/> : <Beaker className="w-4 h-4 text-blue-400"/>}
+                                            <span className="text-xs font-semibold">{row.kind === 'vitals' ? 'Vitals' : 'Test Strip'}</span>
+                                        </div>
+                                        <Input type="datetime-local" value={row.date} onChange={(e) => updateRow(row.key, r => ({ ...r, date: e.target.value }))} className="h-8 w-48" disabled={!row.accepted} />
+                                    </TableCell>
+                                    <TableCell className="space-y-1">
+                                        {Object.keys(row.values).map(field => renderField(row, field))}
+                                        {row.errors.map((error, i) => <p key={i} className="text-xs text-destructive">{error}</p>)}
+                                    </TableCell>
+                                    <TableCell>
+                                        <Button variant="ghost" size="icon" onClick={() => setRows(prev => prev.filter(r => r.key !== row.key))}><Trash2 className="h-4 w-4 text-destructive"/></Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+                {extraction.otherData && extraction.otherData.length > 0 && (
+                    <p className="text-xs text-muted-foreground">Also seen but not saved: {extraction.otherData.map(d => `${d.metricName}: ${d.metricValue}`).join(', ')}.</p>
+                )}
+            </CardContent>
+            <CardFooter className="flex justify-end gap-2">
+                <Button variant="ghost" onClick={onDiscard} disabled={isSaving}>Discard</Button>
+                <Button onClick={handleSave} disabled={acceptedCount === 0 || isSaving}>
+                    {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>}
+                    Save {acceptedCount} Reading{acceptedCount === 1 ? '' : 's'}
+                </Button>
+            </CardFooter>
+        </Card>
+    );
+}
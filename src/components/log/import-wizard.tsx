@@ -0,0 +1,322 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Upload, FileSpreadsheet, Download, Loader2, ArrowLeft, ArrowRight, CheckCircle } from 'lucide-react';
+
+import { useAuth } from '@/context/auth-provider';
+import { useToast } from '@/hooks/use-toast';
+import { parseCsv } from '@/lib/csv';
+import {
+    DATE_FORMATS, IMPORT_FIELDS, IMPORT_FIELD_LABELS, UNIT_CHOICE_FIELDS,
+    buildErrorReport, buildImportRows, detectDateFormat, guessColumnMapping, summarizeImport,
+    type ColumnMapping, type ColumnUnits, type DateFormat, type ExistingReadings, type ImportRow, type ImportTarget,
+} from '@/lib/vitals-import';
+import { VITAL_DEFINITIONS, VITAL_FIELDS, VITAL_UNITS, formatMeasurement, type VitalsReading } from '@/lib/vitals';
+import { STRIP_MARKERS, STRIP_MARKER_LABELS, type TestStripReading } from '@/lib/test-strips';
+import { addVitalsBatch, fetchVitals } from '@/lib/vitals-store';
+import { addTestStripsBatch, fetchTestStrips } from '@/lib/test-strips-store';
+
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const NOT_MAPPED = 'none';
+
+const StatusConfig: Record<ImportRow['status'], { label: string; className: string }> = {
+    valid: { label: 'Ready', className: 'bg-green-600' },
+    invalid: { label: 'Error', className: 'bg-red-600' },
+    duplicate: { label: 'Duplicate', className: 'bg-gray-500' },
+};
+
+export interface ImportedReadings {
+    vitals: VitalsReading[];
+    strips: TestStripReading[];
+}
+
+export function ImportWizard({ onImported }: { onImported: (imported: ImportedReadings) => void }) {
+    const { user } = useAuth();
+    const { toast } = useToast();
+
+    const [open, setOpen] = useState(false);
+    const [step, setStep] = useState<Step>('upload');
+    const [target, setTarget] = useState<ImportTarget>('vitals');
+    const [fileName, setFileName] = useState('');
+    const [csvRows, setCsvRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [units, setUnits] = useState<ColumnUnits>({});
+    const [dateFormat, setDateFormat] = useState<DateFormat>('yyyy-MM-dd');
+    const [existing, setExisting] = useState<ExistingReadings>([]);
+    const [isWorking, setIsWorking] = useState(false);
+    const [importedCount, setImportedCount] = useState(0);
+
+    const headers = csvRows[0] ?? [];
+
+    const rows = useMemo(
+        () => step === 'preview' || step === 'done' ? buildImportRows(csvRows, { target, mapping, dateFormat, units }, existing) : [],
+        [step, csvRows, target, mapping, dateFormat, units, existing],
+    );
+    const summary = summarizeImport(rows);
+
+    const reset = () => {
+        setStep('upload');
+        setFileName('');
+        setCsvRows([]);
+        setMapping({});
+        setUnits({});
+        setExisting([]);
+        setImportedCount(0);
+    };
+
+    const handleOpenChange = (isOpen: boolean) => {
+        if (isWorking) return;
+        setOpen(isOpen);
+        if (!isOpen) reset();
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const parsed = parseCsv(await file.text());
+        if (parsed.length < 2) {
+            toast({ variant: 'destructive', title: 'Empty File', description: 'The file needs a header row and at least one reading.' });
+            return;
+        }
+        const guess = guessColumnMapping(target, parsed[0]);
+        setFileName(file.name);
+        setCsvRows(parsed);
+        setMapping(guess.mapping);
+        setUnits(guess.units);
+        if (guess.mapping.date !== undefined) {
+            setDateFormat(detectDateFormat(parsed.slice(1, 51).map(row => row[guess.mapping.date!] ?? '')));
+        }
+        setStep('map');
+    };
+
+    const handlePreview = async () => {
+        if (!user) return;
+        setIsWorking(true);
+        try {
+            const readings: ExistingReadings = target === 'vitals'
+                ? (await fetchVitals(user.uid)).map(reading => ({ date: reading.date, vitals: reading }))
+                : (await fetchTestStrips(user.uid)).map(reading => ({ date: reading.date, strips: reading }));
+            setExisting(readings);
+            setStep('preview');
+        } catch (error) {
+            console.error("Error loading existing readings:", error);
+            toast({ variant: 'destructive', title: 'Error', description: 'Could not check for existing readings.' });
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!user) return;
+        const validRows = rows.filter(row => row.status === 'valid');
+        setIsWorking(true);
+        try {
+            if (target === 'vitals') {
+                const vitals = await addVitalsBatch(user.uid, validRows.map(row => ({ date: row.date!, values: row.vitals! })));
+                onImported({ vitals, strips: [] });
+            } else {
+                const strips = await addTestStripsBatch(user.uid, validRows.map(row => ({ date: row.date!, values: row.strips! })));
+                onImported({ vitals: [], strips });
+            }
+            setImportedCount(validRows.length);
+            setStep('done');
+        } catch (error) {
+            console.error("Error importing readings:", error);
+            toast({ variant: 'destructive', title: 'Import Failed', description: 'Some readings may have been saved. Re-importing the file will skip them as duplicates.' });
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const downloadErrorReport = () => {
+        const blob = new Blob([buildErrorReport(headers, rows)], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${fileName.replace(/\.csv$/i, '') || 'import'}-errors.csv`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const renderValues = (row: ImportRow) => {
+        if (row.vitals) {
+            return VITAL_FIELDS.filter(field => row.vitals![field]).map(field => `${VITAL_DEFINITIONS[field].label}: ${formatMeasurement(row.vitals![field])}`).join(', ');
+        }
+        return STRIP_MARKERS.filter(marker => row.strips?.[marker]).map(marker => `${STRIP_MARKER_LABELS[marker]}: ${row.strips![marker]}`).join(', ');
+    };
+
+    const renderUpload = () => (
+        <div className="space-y-4">
+            <div className="space-y-2">
+                <Label>What does the file contain?</Label>
+                <Select value={target} onValueChange={(value) => setTarget(value as ImportTarget)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="vitals">Vitals (blood pressure, glucose, weight...)</SelectItem>
+                        <SelectItem value="test_strips">Urine test strips</SelectItem>
+                    </SelectContent>
+                </Select>
+            </div>
+            <label htmlFor="import-file" className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed rounded-lg cursor-pointer hover:bg-secondary/50">
+                <Upload className="w-8 h-8 text-primary" />
+                <p className="font-semibold">Choose a CSV file</p>
+                <p className="text-sm text-muted-foreground text-center">Spreadsheet exports and files from home monitors both work. The first row must be column headers.</p>
+            </label>
+            <Input id="import-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+        </div>
+    );
+
+    const renderMapping = () => (
+        <div className="space-y-4">
+            <p className="text-sm text-muted-foreground flex items-center gap-2"><FileSpreadsheet className="w-4 h-4"/>{fileName}: {csvRows.length - 1} rows</p>
+            <ScrollArea className="h-[50vh] pr-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {IMPORT_FIELDS[target].map(field => (
+                        <div key={field} className="space-y-2">
+                            <Label>{IMPORT_FIELD_LABELS[field]}{field === 'date' ? ' *' : ''}</Label>
+                            <div className="flex gap-2">
+                                <Select
+                                    value={mapping[field] !== undefined ? String(mapping[field]) : NOT_MAPPED}
+                                    onValueChange={(value) => setMapping(prev => ({ ...prev, [field]: value === NOT_MAPPED ? undefined : Number(value) }))}
+                                >
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                                        {headers.map((header, i) => <SelectItem key={i} value={String(i)}>{header || `Column ${i + 1}`}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                                {(UNIT_CHOICE_FIELDS as readonly string[]).includes(field) && mapping[field] !== undefined && (
+                                    <Select
+                                        value={units[field as keyof ColumnUnits] ?? VITAL_DEFINITIONS[field as keyof ColumnUnits].defaultUnit}
+                                        onValueChange={(value) => setUnits(prev => ({ ...prev, [field]: value }))}
+                                    >
+                                        <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            {VITAL_UNITS[field as keyof ColumnUnits].map(unit => <SelectItem key={unit} value={unit}>{unit}</SelectItem>)}
+                                        </SelectContent>
+                                    </Select>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                    <div className="space-y-2">
+                        <Label>Date format</Label>
+                        <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as DateFormat)}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {DATE_FORMATS.map(f => <SelectItem key={f} value={f}>{f}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+            </ScrollArea>
+        </div>
+    );
+
+    const renderPreview = () => (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+                <Badge className="bg-green-600">{summary.valid} ready</Badge>
+                <Badge className="bg-red-600">{summary.invalid} with errors</Badge>
+                <Badge className="bg-gray-500">{summary.duplicate} duplicates (skipped)</Badge>
+            </div>
+            <ScrollArea className="h-[50vh]">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Line</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead>Date</TableHead>
+                            <TableHead>Values / Errors</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {rows.map(row => (
+                            <TableRow key={row.line}>
+                                <TableCell>{row.line}</TableCell>
+                                <TableCell><Badge className={StatusConfig[row.status].className}>{StatusConfig[row.status].label}</Badge></TableCell>
+                                <TableCell className="whitespace-nowrap">{row.date ? format(parseISO(row.date), 'PPp') : '—'}</TableCell>
+                                <TableCell className={row.status === 'invalid' ? 'text-destructive' : undefined}>
+                                    {row.status === 'invalid' ? row.errors.join(' ') : renderValues(row)}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </ScrollArea>
+        </div>
+    );
+
+    const renderDone = () => (
+        <div className="flex flex-col items-center text-center gap-3 py-6">
+            <CheckCircle className="w-12 h-12 text-green-500" />
+            <p className="font-semibold">{importedCount} reading{importedCount === 1 ? '' : 's'} imported.</p>
+            {summary.invalid > 0 && (
+                <>
+                    <p className="text-sm text-muted-foreground">{summary.invalid} row{summary.invalid === 1 ? ' was' : 's were'} rejected. Download the error report, fix the rows and import it again.</p>
+                    <Button variant="outline" onClick={downloadErrorReport}><Download className="mr-2 h-4 w-4"/>Download Error Report</Button>
+                </>
+            )}
+        </div>
+    );
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm"><Upload className="mr-2 h-4 w-4"/>Import CSV</Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>Import Readings</DialogTitle>
+                    <DialogDescription>
+                        {step === 'upload' && 'Bring in past readings from a spreadsheet or a device export.'}
+                        {step === 'map' && 'Match your file\'s columns to Lifeline fields. We\'ve guessed where we could.'}
+                        {step === 'preview' && 'Check the rows before importing. Only rows marked Ready will be saved.'}
+                        {step === 'done' && 'Your readings now appear in your log history.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {step === 'upload' && renderUpload()}
+                {step === 'map' && renderMapping()}
+                {step === 'preview' && renderPreview()}
+                {step === 'done' && renderDone()}
+
+                <DialogFooter className="gap-2">
+                    {step === 'map' && (
+                        <>
+                            <Button variant="ghost" onClick={reset}><ArrowLeft className="mr-2 h-4 w-4"/>Choose Another File</Button>
+                            <Button onClick={handlePreview} disabled={mapping.date === undefined || isWorking}>
+                                {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : null}
+                                Preview <ArrowRight className="ml-2 h-4 w-4"/>
+                            </Button>
+                        </>
+                    )}
+                    {step === 'preview' && (
+                        <>
+                            <Button variant="ghost" onClick={() => setStep('map')} disabled={isWorking}><ArrowLeft className="mr-2 h-4 w-4"/>Back</Button>
+                            {summary.invalid > 0 && <Button variant="outline" onClick={downloadErrorReport}><Download className="mr-2 h-4 w-4"/>Error Report</Button>}
+                            <Button onClick={handleImport} disabled={summary.valid === 0 || isWorking}>
+                                {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : null}
+                                Import {summary.valid} Reading{summary.valid === 1 ? '' : 's'}
+                            </Button>
+                        </>
+                    )}
+                    {step === 'done' && <Button onClick={() => handleOpenChange(false)}>Close</Button>}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+
+import { describeChanges, type EntryCollection, type EntryRevision } from '@/lib/entry-history';
+import { fetchRevisions } from '@/lib/entry-history-store';
+import { Badge } from '@/components/ui/badge';
+
+const actionLabels: Record<EntryRevision['action'], string> = {
+    update: 'Edited',
+    delete: 'Deleted',
+    restore: 'Restored',
+};
+
+/** Lists every change made to an entry, newest first. */
+export function RevisionHistory({ patientId, collection, entryId, createdAt }: {
+    patientId: string;
+    collection: EntryCollection;
+    entryId: string;
+    createdAt?: string;
+}) {
+    const [revisions, setRevisions] = useState<EntryRevision[] | null>(null);
+
+    useEffect(() => {
+        fetchRevisions(patientId, collection, entryId)
+            .then(setRevisions)
+            .catch(error => {
+                console.error("Error fetching revisions:", error);
+                setRevisions([]);
+            });
+    }, [patientId, collection, entryId]);
+
+    if (!revisions) return <Loader2 className="mx-auto w-5 h-5 animate-spin text-primary" />;
+
+    return (
+        <ol className="space-y-3 text-sm">
+            {revisions.map(revision => (
+                <li key={revision.revision} className="border-l-2 pl-3">
+                    <div className="flex items-center gap-2">
+                        <Badge variant="outline">v{revision.revision}</Badge>
+                        <span className="font-semibold">{actionLabels[revision.action]}</span>
+                        <span className="text-xs text-muted-foreground">by {revision.by.name} ({revision.by.role}), {format(parseISO(revision.at), 'MMM d, yyyy, h:mm a')}</span>
+                    </div>
+                    {revision.action === 'update' && (
+                        <ul className="mt-1 text-xs text-muted-foreground">
+                            {describeChanges(collection, revision.before, revision.after).map(change => (
+                                <li key={change.field}>{change.label}: <span className="line-through">{change.before}</span> → <span className="font-semibold text-foreground">{change.after}</span></li>
+                            ))}
+                        </ul>
+                    )}
+                </li>
+            ))}
+            <li className="border-l-2 pl-3">
+                <div className="flex items-center gap-2">
+                    <Badge variant="outline">v1</Badge>
+                    <span className="font-semibold">Original entry</span>
+                    <span className="text-xs text-muted-foreground">{createdAt && format(parseISO(createdAt), 'MMM d, yyyy, h:mm a')}</span>
+                </div>
+            </li>
+        </ol>
+    );
+}
@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -9,16 +9,34 @@ import { format, parseISO } from 'date-fns';
 import { AnimatePresence, motion } from 'framer-motion';
 
 import { useAuth } from '@/context/auth-provider';
+import { useProfile } from '@/context/profile-provider';
 import { useToast } from '@/hooks/use-toast';
-import { db } from '@/lib/firebase';
-import { collection, addDoc, getDocs, query, orderBy, deleteDoc, doc } from 'firebase/firestore';
+import { VITAL_DEFINITIONS, VITAL_FIELDS, VITAL_UNITS, formatMeasurement, normalizeVitalsDoc, parseVitalsInput, validateVitals, type VitalField, type VitalsReading, type VitalsValues } from '@/lib/vitals';
+import { addVitals, fetchVitals, migrateLegacyVitals } from '@/lib/vitals-store';
+import type { HealthAlert } from '@/lib/alerts';
+import { triggerSos } from '@/lib/sos';
+import { STRIP_MARKERS, STRIP_MARKER_LABELS, levelsFor, type TestStripReading, type TestStripValues } from '@/lib/test-strips';
+import { addTestStrip, fetchTestStrips } from '@/lib/test-strips-store';
+import { EntryConflictError, currentRevision, type EntryEditor, type RevisionAction } from '@/lib/entry-history';
+import { reviseOrQueue } from '@/lib/sync-store';
+import { applyPendingWrites, isOfflineError, pendingDocIds } from '@/lib/offline-queue';
+import { useSync } from '@/context/sync-provider';
+import { ImportWizard, type ImportedReadings } from './import-wizard';
+import { ExtractionReview } from './extraction-review';
+import { EntryEditForm } from './entry-edit-form';
+import { RevisionHistory } from './revision-history';
+import { extractDataFromImage, type ExtractDataFromImageOutput } from '@/ai/flows/extract-data-from-image-flow';
 
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { HeartPulse, Droplets, Wind, Thermometer, Scale, Beaker, FileClock, Trash2, ArrowLeft, Loader2 } from 'lucide-react';
+import { HeartPulse, Droplets, Wind, Thermometer, Scale, Beaker, FileClock, Trash2, ArrowLeft, Loader2, Camera, Pencil, History, RotateCcw } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
@@ -38,8 +56,8 @@ const testStripSchema = z.object({
 
 type VitalType = 'blood_pressure' | 'blood_sugar' | 'oxygen_saturation' | 'temperature' | 'weight' | 'test_strip';
 
-interface Vital { type: 'vitals'; id: string; date: string; systolic?: string; diastolic?: string; pulseRate?: string; bloodSugar?: string; oxygenSaturation?: string; temperature?: string; weight?: string; }
-interface Strip { type: 'strips'; id: string; date: string; protein?: string; glucose?: string; ketones?: string; blood?: string; nitrite?: string; ph?: string; }
+type Vital = VitalsReading & { type: 'vitals' };
+type Strip = TestStripReading & { type: 'strips' };
 type HistoryItem = Vital | Strip;
 
 
@@ -52,22 +70,34 @@ const vitalOptions: { type: VitalType, title: string, icon: React.ElementType, s
     { type: 'test_strip', title: 'Test Strip', icon: Beaker, schema: testStripSchema },
 ];
 
-const stripMarkers = [
-    { value: "protein", label: "Protein" }, { value: "glucose", label: "Glucose" }, { value: "ketones", label: "Ketones" },
-    { value: "blood", label: "Blood" }, { value: "nitrite", label: "Nitrite" }, { value: "ph", label: "pH" },
-];
-const generalLevels = ["Negative", "Trace", "+", "++", "+++"];
-const phLevels = ["5.0", "6.0", "6.5", "7.0", "7.5", "8.0", "9.0"];
+
+// Fields whose unit the user picks; the rest only have one unit.
+const unitFields = { blood_sugar: 'bloodSugar', temperature: 'temperature', weight: 'weight' } as const satisfies Partial<Record<VitalType, VitalField>>;
 
 
 // --- Main Component ---
 export function UnifiedLogger() {
     const { user } = useAuth();
+    const { profile } = useProfile();
     const { toast } = useToast();
 
     const [activeForm, setActiveForm] = useState<typeof vitalOptions[number] | null>(null);
     const [history, setHistory] = useState<HistoryItem[]>([]);
     const [isHistoryLoading, setIsHistoryLoading] = useState(true);
+    const [openEntryId, setOpenEntryId] = useState<string>('');
+    const [extraction, setExtraction] = useState<ExtractDataFromImageOutput | null>(null);
+    const [isExtracting, setIsExtracting] = useState(false);
+    const imageInputRef = useRef<HTMLInputElement>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
+    const [showDeleted, setShowDeleted] = useState(false);
+    const { pending, lastSyncedAt } = useSync();
+
+    // Alerts link to `/log?entry=<id>`; open that entry once history has loaded.
+    useEffect(() => {
+        const entryId = new URLSearchParams(window.location.search).get('entry');
+        if (entryId) setOpenEntryId(entryId);
+    }, []);
 
     const form = useForm({
         resolver: activeForm ? zodResolver(activeForm.schema) : undefined,
@@ -75,6 +105,9 @@ export function UnifiedLogger() {
             systolic: "", diastolic: "", pulseRate: "",
             bloodSugar: "", oxygenSaturation: "", temperature: "", weight: "",
             protein: "", glucose: "", ketones: "", blood: "", nitrite: "", ph: "",
+            bloodSugarUnit: VITAL_DEFINITIONS.bloodSugar.defaultUnit,
+            temperatureUnit: VITAL_DEFINITIONS.temperature.defaultUnit,
+            weightUnit: VITAL_DEFINITIONS.weight.defaultUnit,
         },
     });
     
@@ -93,43 +126,68 @@ export function UnifiedLogger() {
         const fetchHistory = async () => {
             setIsHistoryLoading(true);
             try {
-                const basePath = `users/${user.uid}`;
-                const vitalsSnap = await getDocs(query(collection(db, `${basePath}/vitals`), orderBy('date', 'desc')));
-                const vitalsData = vitalsSnap.docs.map(doc => ({ type: 'vitals' as const, id: doc.id, ...doc.data() } as Vital));
-                
-                const stripsSnap = await getDocs(query(collection(db, `${basePath}/test_strips`), orderBy('date', 'desc')));
-                const stripsData = stripsSnap.docs.map(doc => ({ type: 'strips' as const, id: doc.id, ...doc.data() } as Strip));
+                const vitalsData = (await fetchVitals(user.uid, { includeDeleted: true })).map(reading => ({ type: 'vitals' as const, ...reading }));
+                const stripsData = (await fetchTestStrips(user.uid, { includeDeleted: true })).map(reading => ({ type: 'strips' as const, ...reading }));
 
                 const combinedHistory = [...vitalsData, ...stripsData].sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime());
                 setHistory(combinedHistory);
 
             } catch (error) {
                 console.error("Error fetching log history:", error);
-                toast({ variant: 'destructive', title: 'Error', description: 'Could not fetch your log history.' });
+                if (isOfflineError(error)) {
+                    toast({ title: 'You Are Offline', description: 'Only entries saved on this device are shown until you reconnect.' });
+                } else {
+                    toast({ variant: 'destructive', title: 'Error', description: 'Could not fetch your log history.' });
+                }
             } finally {
                 setIsHistoryLoading(false);
             }
         };
         fetchHistory();
-    }, [user, toast]);
+
+        // Rewrite any pre-typed string documents in the background; reads already normalize them.
+        migrateLegacyVitals(user.uid).catch(error => console.error("Error migrating legacy vitals:", error));
+    }, [user, toast, lastSyncedAt]);
     
     const handleSave = async (data: any) => {
         if (!user || !activeForm) return;
 
         const date = new Date().toISOString();
-        const collectionName = activeForm.type === 'test_strip' ? 'test_strips' : 'vitals';
-        const collectionRef = collection(db, `users/${user.uid}/${collectionName}`);
-        
+
         try {
-            const docRef = await addDoc(collectionRef, { ...data, date });
-            const newItem: HistoryItem = { 
-                type: collectionName as 'vitals' | 'strips', 
-                id: docRef.id, 
-                ...data, 
-                date 
-            };
+            let newItem: HistoryItem;
+            let alert: HealthAlert | null = null;
+            if (activeForm.type === 'test_strip') {
+                const values = Object.fromEntries(STRIP_MARKERS.filter(marker => data[marker]).map(marker => [marker, data[marker]]));
+                newItem = { type: 'strips', ...(await addTestStrip(user.uid, values, date)) };
+            } else {
+                const values = parseVitalsInput(data, {
+                    bloodSugar: data.bloodSugarUnit,
+                    temperature: data.temperatureUnit,
+                    weight: data.weightUnit,
+                });
+                const errors = validateVitals(values);
+                const invalidFields = Object.keys(errors) as VitalField[];
+                if (invalidFields.length > 0) {
+                    invalidFields.forEach(field => form.setError(field, { message: errors[field] }));
+                    return;
+                }
+                const saved = await addVitals(user.uid, values, date);
+                newItem = { type: 'vitals', ...saved.reading };
+                alert = saved.alert;
+            }
+            const autoSos = alert?.severity === 'Critical' && !!profile?.autoSosOnCriticalVitals;
+            if (alert && autoSos) {
+                // Not awaited: locating the device and notifying guardians must not hold up the save.
+                triggerSos(user.uid, 'critical_vitals', { entry: alert.entry, reason: alert.message })
+                    .catch(error => console.error("Error sending automatic SOS:", error));
+            }
             setHistory(prev => [newItem, ...prev].sort((a,b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()));
-            toast({ title: 'Data Saved', description: `${activeForm.title} has been logged.` });
+            if (alert) {
+                toast({ variant: alert.severity === 'Critical' ? 'destructive' : 'default', title: alert.title, description: `${activeForm.title} has been logged. ${alert.message}${autoSos ? ' Your guardians are being notified.' : ''}` });
+            } else {
+                toast({ title: 'Data Saved', description: `${activeForm.title} has been logged.` });
+            }
             setActiveForm(null);
         } catch (error) {
             console.error("Error saving data:", error);
@@ -137,22 +195,130 @@ export function UnifiedLogger() {
         }
     };
     
+    const handleImported = ({ vitals, strips }: ImportedReadings) => {
+        const imported: HistoryItem[] = [
+            ...vitals.map(reading => ({ type: 'vitals' as const, ...reading })),
+            ...strips.map(reading => ({ type: 'strips' as const, ...reading })),
+        ];
+        setHistory(prev => [...imported, ...prev].sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime()));
+    };
+
+    const handleImageSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onloadend = async () => {
+            setIsExtracting(true);
+            try {
+                const result = await extractDataFromImage({ imageDataUri: reader.result as string });
+                setExtraction(result);
+            } catch (error) {
+                console.error("Error extracting data from image:", error);
+                toast({ variant: 'destructive', title: 'Scan Failed', description: 'Could not read any data from the image.' });
+            } finally {
+                setIsExtracting(false);
+            }
+        };
+        reader.readAsDataURL(file);
+    };
+
+    const editor = (): EntryEditor => ({ uid: user!.uid, name: profile?.name || profile?.username || 'Patient', role: 'patient' });
+    const entryCollection = (item: HistoryItem) => item.type === 'strips' ? 'test_strips' as const : 'vitals' as const;
+
+    /**
+     * Applies an edit, delete or restore. When it is queued offline the pending overlay
+     * shows it, and history is reloaded once it syncs; otherwise local state is updated.
+     */
+    const reviseHistoryItem = async (item: HistoryItem, action: RevisionAction, values?: VitalsValues | TestStripValues) => {
+        if (!user) return false;
+        const { revision, queued } = await reviseOrQueue(user.uid, {
+            collection: entryCollection(item),
+            id: item.id,
+            action,
+            editor: editor(),
+            baseRevision: currentRevision(item),
+            values,
+        });
+        if (queued) return true;
+        const fields: readonly string[] = item.type === 'vitals' ? VITAL_FIELDS : STRIP_MARKERS;
+        setHistory(prev => prev.map(h => {
+            if (h.id !== item.id) return h;
+            const updated: Record<string, unknown> = { ...h, revision: revision.revision, updatedAt: revision.at };
+            if (action === 'update') fields.forEach(field => { updated[field] = revision.after[field]; });
+            if (action === 'delete') updated.deletedAt = revision.at;
+            if (action === 'restore') delete updated.deletedAt;
+            return updated as unknown as HistoryItem;
+        }));
+        return false;
+    };
+
+    const conflictMessage = 'This entry was changed on another device. Reload the page to see the latest version.';
+
+    const saveHistoryEdit = async (item: HistoryItem, values: VitalsValues | TestStripValues) => {
+        try {
+            const queued = await reviseHistoryItem(item, 'update', values);
+            setEditingId(null);
+            toast({ title: 'Entry Updated', description: queued ? 'Saved on this device. It will sync when you are back online.' : 'Your change has been saved. The previous values are kept in the entry\'s history.' });
+        } catch (error) {
+            // Shown in the edit form.
+            throw error instanceof EntryConflictError ? new Error(conflictMessage) : error;
+        }
+    };
+
     const deleteHistoryItem = async (item: HistoryItem) => {
-        if (!user) return;
-        
-        const collectionName = item.type === 'strips' ? 'test_strips' : 'vitals';
-        const docRef = doc(db, `users/${user.uid}/${collectionName}`, item.id);
-        
         try {
-            await deleteDoc(docRef);
-            setHistory(prev => prev.filter(h => h.id !== item.id));
-            toast({ title: 'Entry Deleted', description: 'The log entry has been removed.' });
+            const queued = await reviseHistoryItem(item, 'delete');
+            toast({ title: 'Entry Deleted', description: queued ? 'Deleted on this device. It will sync when you are back online.' : 'You can restore it from deleted entries.' });
         } catch (error) {
             console.error("Error deleting item:", error);
-            toast({ variant: 'destructive', title: 'Delete Failed' });
+            toast({ variant: 'destructive', title: 'Delete Failed', description: error instanceof EntryConflictError ? conflictMessage : undefined });
+        }
+    };
+
+    const restoreHistoryItem = async (item: HistoryItem) => {
+        try {
+            await reviseHistoryItem(item, 'restore');
+            toast({ title: 'Entry Restored' });
+        } catch (error) {
+            console.error("Error restoring item:", error);
+            toast({ variant: 'destructive', title: 'Restore Failed', description: error instanceof EntryConflictError ? conflictMessage : undefined });
         }
     };
 
+    const vitalsPath = `users/${user?.uid}/vitals`;
+    const stripsPath = `users/${user?.uid}/test_strips`;
+
+    // Server data with this device's unsynced writes laid over it.
+    const displayedHistory = useMemo(() => {
+        const vitalsItems = applyPendingWrites(history.filter((item): item is Vital => item.type === 'vitals'), pending, vitalsPath,
+            (id, data): Vital => ({ type: 'vitals', ...normalizeVitalsDoc(id, data) }));
+        const stripItems = applyPendingWrites(history.filter((item): item is Strip => item.type === 'strips'), pending, stripsPath,
+            (id, data) => ({ type: 'strips', id, ...data } as Strip));
+        return [...vitalsItems, ...stripItems].sort((a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime());
+    }, [history, pending, vitalsPath, stripsPath]);
+
+    const syncStatusById = useMemo(
+        () => new Map([...pendingDocIds(pending, vitalsPath), ...pendingDocIds(pending, stripsPath)]),
+        [pending, vitalsPath, stripsPath],
+    );
+
+    const visibleHistory = showDeleted ? displayedHistory : displayedHistory.filter(item => !item.deletedAt);
+
+    const renderUnitSelect = (field: typeof unitFields[keyof typeof unitFields]) => (
+        <FormField control={form.control} name={`${field}Unit` as const} render={({ field: unitField }) => (
+            <FormItem className="w-28">
+                <FormLabel>Unit</FormLabel>
+                <Select onValueChange={unitField.onChange} value={unitField.value}>
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                        {VITAL_UNITS[field].map(unit => <SelectItem key={unit} value={unit}>{unit}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+            </FormItem>
+        )} />
+    );
+
     const renderFormFields = () => {
         if (!activeForm) return null;
 
@@ -164,23 +330,32 @@ export function UnifiedLogger() {
                     <FormField control={form.control} name="pulseRate" render={({ field }) => (<FormItem><FormLabel>Pulse Rate (BPM) (Optional)</FormLabel><FormControl><Input placeholder="70" type="number" {...field} /></FormControl><FormMessage /></FormItem>)} />
                 </>;
             case 'blood_sugar':
-                return <FormField control={form.control} name="bloodSugar" render={({ field }) => (<FormItem><FormLabel>Blood Sugar (mg/dL)</FormLabel><FormControl><Input placeholder="100" type="number" {...field} /></FormControl><FormMessage /></FormItem>)} />;
+                return <div className="flex gap-4 items-start">
+                    <FormField control={form.control} name="bloodSugar" render={({ field }) => (<FormItem className="flex-1"><FormLabel>Blood Sugar</FormLabel><FormControl><Input placeholder={form.watch('bloodSugarUnit') === 'mmol/L' ? "5.5" : "100"} type="number" step="0.1" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    {renderUnitSelect('bloodSugar')}
+                </div>;
             case 'oxygen_saturation':
                 return <FormField control={form.control} name="oxygenSaturation" render={({ field }) => (<FormItem><FormLabel>Oxygen Saturation (%)</FormLabel><FormControl><Input placeholder="98" type="number" {...field} /></FormControl><FormMessage /></FormItem>)} />;
             case 'temperature':
-                return <FormField control={form.control} name="temperature" render={({ field }) => (<FormItem><FormLabel>Temperature (°F)</FormLabel><FormControl><Input placeholder="98.6" type="number" step="0.1" {...field} /></FormControl><FormMessage /></FormItem>)} />;
+                return <div className="flex gap-4 items-start">
+                    <FormField control={form.control} name="temperature" render={({ field }) => (<FormItem className="flex-1"><FormLabel>Temperature</FormLabel><FormControl><Input placeholder={form.watch('temperatureUnit') === '°C' ? "37.0" : "98.6"} type="number" step="0.1" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    {renderUnitSelect('temperature')}
+                </div>;
             case 'weight':
-                return <FormField control={form.control} name="weight" render={({ field }) => (<FormItem><FormLabel>Weight (lbs)</FormLabel><FormControl><Input placeholder="150" type="number" step="0.1" {...field} /></FormControl><FormMessage /></FormItem>)} />;
+                return <div className="flex gap-4 items-start">
+                    <FormField control={form.control} name="weight" render={({ field }) => (<FormItem className="flex-1"><FormLabel>Weight</FormLabel><FormControl><Input placeholder={form.watch('weightUnit') === 'kg' ? "70" : "150"} type="number" step="0.1" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    {renderUnitSelect('weight')}
+                </div>;
             case 'test_strip':
                 return <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {stripMarkers.map(marker => (
-                        <FormField key={marker.value} control={form.control} name={marker.value as any} render={({ field }) => (
+                    {STRIP_MARKERS.map(marker => (
+                        <FormField key={marker} control={form.control} name={marker} render={({ field }) => (
                             <FormItem>
-                                <FormLabel>{marker.label}</FormLabel>
+                                <FormLabel>{STRIP_MARKER_LABELS[marker]}</FormLabel>
                                 <Select onValueChange={field.onChange} defaultValue={field.value}>
                                     <FormControl><SelectTrigger><SelectValue placeholder="Select level" /></SelectTrigger></FormControl>
                                     <SelectContent>
-                                        {(marker.value === 'ph' ? phLevels : generalLevels).map(level => (
+                                        {levelsFor(marker).map(level => (
                                             <SelectItem key={level} value={level}>{level}</SelectItem>
                                         ))}
                                     </SelectContent>
@@ -199,9 +374,16 @@ export function UnifiedLogger() {
                 <AnimatePresence mode="wait">
                     {!activeForm ? (
                         <motion.div key="selection" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
-                            <CardHeader>
-                                <CardTitle>Log New Vitals</CardTitle>
-                                <CardDescription>What would you like to log today?</CardDescription>
+                            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                                <div className="space-y-1.5">
+                                    <CardTitle>Log New Vitals</CardTitle>
+                                    <CardDescription>What would you like to log today?</CardDescription>
+                                </div>
+                                <Button variant="outline" size="sm" onClick={() => imageInputRef.current?.click()} disabled={isExtracting || !!extraction}>
+                                    {isExtracting ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Camera className="mr-2 h-4 w-4"/>}
+                                    Scan Photo
+                                </Button>
+                                <Input ref={imageInputRef} type="file" accept="image/*" onChange={handleImageSelected} className="hidden" />
                             </CardHeader>
                             <CardContent>
                                 <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
@@ -242,53 +424,108 @@ export function UnifiedLogger() {
                 </AnimatePresence>
             </Card>
 
+            {extraction && (
+                <ExtractionReview
+                    extraction={extraction}
+                    onSaved={(saved) => { handleImported(saved); setExtraction(null); }}
+                    onDiscard={() => setExtraction(null)}
+                />
+            )}
+
              <Card>
-                <CardHeader>
-                    <CardTitle className="flex items-center gap-2"><FileClock className="w-6 h-6"/>Log History</CardTitle>
-                    <CardDescription>View your previously logged data.</CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                    <div className="space-y-1.5">
+                        <CardTitle className="flex items-center gap-2"><FileClock className="w-6 h-6"/>Log History</CardTitle>
+                        <CardDescription>View your previously logged data.</CardDescription>
+                    </div>
+                    <ImportWizard onImported={handleImported} />
                 </CardHeader>
                 <CardContent>
-                    {isHistoryLoading ? <Loader2 className="mx-auto w-8 h-8 animate-spin text-primary" /> : history.length > 0 ? (
-                        <Accordion type="single" collapsible className="w-full">
-                            {history.map(item => (
-                                <AccordionItem value={item.id} key={item.id}>
+                    {displayedHistory.some(item => item.deletedAt) && (
+                        <div className="flex items-center justify-end gap-2 mb-2">
+                            <Label htmlFor="show-deleted" className="text-sm text-muted-foreground">Show deleted entries</Label>
+                            <Switch id="show-deleted" checked={showDeleted} onCheckedChange={setShowDeleted} />
+                        </div>
+                    )}
+                    {isHistoryLoading ? <Loader2 className="mx-auto w-8 h-8 animate-spin text-primary" /> : visibleHistory.length > 0 ? (
+                        <Accordion type="single" collapsible className="w-full" value={openEntryId} onValueChange={setOpenEntryId}>
+                            {visibleHistory.map(item => (
+                                <AccordionItem value={item.id} key={item.id} className={cn(item.deletedAt && "opacity-60")}>
                                     <AccordionTrigger>
                                         <div className="flex items-center gap-3">
                                             {item.type === 'vitals' ? <HeartPulse className="w-5 h-5 text-red-400"/> : <Beaker className="w-5 h-5 text-blue-400"/>}
                                             <div className="text-left">
                                                 <p className="font-bold">{item.type === 'vitals' ? 'Vitals Log' : 'Test Strip Log'}</p>
-                                                <p className="text-xs text-muted-foreground">{format(parseISO(item.date), 'MMM d, yyyy, h:mm a')}</p>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {format(parseISO(item.date), 'MMM d, yyyy, h:mm a')}
+                                                    {item.deletedAt ? ' · Deleted' : item.updatedAt ? ' · Edited' : ''}
+                                                </p>
+                                                {syncStatusById.has(item.id) && (
+                                                    <Badge variant={syncStatusById.get(item.id) === 'pending' ? 'secondary' : 'destructive'} className="mt-1 text-xs">
+                                                        {syncStatusById.get(item.id) === 'pending' ? 'Pending sync' : syncStatusById.get(item.id) === 'conflict' ? 'Sync conflict' : 'Sync failed'}
+                                                    </Badge>
+                                                )}
                                             </div>
                                         </div>
                                     </AccordionTrigger>
                                     <AccordionContent className="pl-10 pr-2 space-y-4">
-                                        <div className="text-sm space-y-2">
-                                            {Object.entries(item).filter(([key, value]) => key !== 'id' && key !== 'type' && key !== 'date' && value).map(([key, value]) => (
-                                                <div key={key} className="flex justify-between">
-                                                    <span className="text-muted-foreground capitalize">{key.replace(/([A-Z])/g, ' $1')}</span>
-                                                    <span className="font-bold">{String(value)}</span>
-                                                </div>
-                                            ))}
-                                        </div>
-                                        <div className="flex justify-end">
-                                            <AlertDialog>
-                                                <AlertDialogTrigger asChild>
-                                                    <Button variant="destructive" size="sm"><Trash2 className="mr-2 h-4 w-4"/>Delete</Button>
-                                                </AlertDialogTrigger>
-                                                <AlertDialogContent>
-                                                    <AlertDialogHeader>
-                                                    <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                                                    <AlertDialogDescription>
-                                                        This action cannot be undone. This will permanently delete this log entry from our servers.
-                                                    </AlertDialogDescription>
-                                                    </AlertDialogHeader>
-                                                    <AlertDialogFooter>
-                                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                                    <AlertDialogAction onClick={() => deleteHistoryItem(item)}>Delete</AlertDialogAction>
-                                                    </AlertDialogFooter>
-                                                </AlertDialogContent>
-                                            </AlertDialog>
-                                        </div>
+                                        {editingId === item.id ? (
+                                            <EntryEditForm
+                                                entry={item.type === 'vitals' ? { type: 'vitals', values: item } : { type: 'strips', values: item }}
+                                                onSave={(values) => saveHistoryEdit(item, values)}
+                                                onCancel={() => setEditingId(null)}
+                                            />
+                                        ) : (
+                                            <div className="text-sm space-y-2">
+                                                {item.type === 'vitals' ? VITAL_FIELDS.filter(field => item[field]).map(field => (
+                                                    <div key={field} className="flex justify-between">
+                                                        <span className="text-muted-foreground">{VITAL_DEFINITIONS[field].label}</span>
+                                                        <span className="font-bold">{formatMeasurement(item[field])}</span>
+                                                    </div>
+                                                )) : STRIP_MARKERS.filter(marker => item[marker]).map(marker => (
+                                                    <div key={marker} className="flex justify-between">
+                                                        <span className="text-muted-foreground">{STRIP_MARKER_LABELS[marker]}</span>
+                                                        <span className="font-bold">{item[marker]}</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                        {historyOpenId === item.id && user && (
+                                            <RevisionHistory patientId={user.uid} collection={item.type === 'vitals' ? 'vitals' : 'test_strips'} entryId={item.id} createdAt={item.date} />
+                                        )}
+                                        {editingId !== item.id && (
+                                            <div className="flex justify-end gap-2">
+                                                {(item.revision ?? 1) > 1 && (
+                                                    <Button variant="ghost" size="sm" onClick={() => setHistoryOpenId(historyOpenId === item.id ? null : item.id)}>
+                                                        <History className="mr-2 h-4 w-4"/>{historyOpenId === item.id ? 'Hide History' : 'History'}
+                                                    </Button>
+                                                )}
+                                                {item.deletedAt ? (
+                                                    <Button variant="outline" size="sm" onClick={() => restoreHistoryItem(item)}><RotateCcw className="mr-2 h-4 w-4"/>Restore</Button>
+                                                ) : (
+                                                    <>
+                                                        <Button variant="outline" size="sm" onClick={() => setEditingId(item.id)}><Pencil className="mr-2 h-4 w-4"/>Edit</Button>
+                                                        <AlertDialog>
+                                                            <AlertDialogTrigger asChild>
+                                                                <Button variant="destructive" size="sm"><Trash2 className="mr-2 h-4 w-4"/>Delete</Button>
+                                                            </AlertDialogTrigger>
+                                                            <AlertDialogContent>
+                                                                <AlertDialogHeader>
+                                                                <AlertDialogTitle>Delete this entry?</AlertDialogTitle>
+                                                                <AlertDialogDescription>
+                                                                    It will be hidden from your history and analyses. You can restore it later from deleted entries.
+                                                                </AlertDialogDescription>
+                                                                </AlertDialogHeader>
+                                                                <AlertDialogFooter>
+                                                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                                                <AlertDialogAction onClick={() => deleteHistoryItem(item)}>Delete</AlertDialogAction>
+                                                                </AlertDialogFooter>
+                                                            </AlertDialogContent>
+                                                        </AlertDialog>
+                                                    </>
+                                                )}
+                                            </div>
+                                        )}
                                     </AccordionContent>
                                 </AccordionItem>
                             ))}
@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Image from 'next/image';
+import { collection, onSnapshot } from 'firebase/firestore';
+import { format, isToday } from 'date-fns';
+import { CheckCheck, FileText, Loader2, Paperclip, Pencil, Send, X } from 'lucide-react';
+import { db } from '@/lib/firebase';
+import { useToast } from '@/hooks/use-toast';
+import {
+    CaseMessageError,
+    MAX_ATTACHMENTS,
+    canEditMessage,
+    isReadBy,
+    isSystemMessage,
+    readByOtherSideAt,
+    sideOf,
+    unreadCount,
+    validateAttachment,
+    type CaseMessage,
+    type MessageAttachment,
+    type MessageAuthor,
+    type ThreadCase,
+} from '@/lib/case-messages';
+import { editMessage, markThreadRead, messageFromFirestore, sendMessage } from '@/lib/case-messages-store';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+
+interface CaseThreadProps {
+    caseId: string;
+    /** The case as last read, for participants, unread counts and read receipts. */
+    thread: ThreadCase;
+    viewer: MessageAuthor;
+    className?: string;
+}
+
+const readAsDataUri = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const formatSentAt = (date: Date) => format(date, isToday(date) ? 'p' : 'MMM d, p');
+
+function AttachmentView({ attachment }: { attachment: MessageAttachment }) {
+    if (attachment.contentType === 'application/pdf') {
+        return (
+            <a href={attachment.dataUri} download={attachment.name} className="flex items-center gap-1 text-sm underline">
+                <FileText className="h-4 w-4" />{attachment.name}
+            </a>
+        );
+    }
+    return (
+        <a href={attachment.dataUri} target="_blank" rel="noopener noreferrer">
+            <Image src={attachment.dataUri} alt={attachment.name} width={160} height={160} className="rounded-md border object-cover" />
+        </a>
+    );
+}
+
+/** The conversation on one case between the patient and their care team. */
+export function CaseThread({ caseId, thread, viewer, className }: CaseThreadProps) {
+    const { toast } = useToast();
+    const side = sideOf(viewer.role)!;
+    const [messages, setMessages] = useState<CaseMessage[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [draft, setDraft] = useState('');
+    const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+    const [isSending, setIsSending] = useState(false);
+    const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
+    const [now, setNow] = useState(() => new Date());
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const endRef = useRef<HTMLDivElement>(null);
+    const unread = unreadCount(thread, side);
+
+    useEffect(() => {
+        setIsLoading(true);
+        const unsubscribe = onSnapshot(collection(db, 'investigations', caseId, 'messages'), (snapshot) => {
+            // Pending server timestamps are estimated so a new message sorts last straight away
+            const fetched = snapshot.docs.map(d => messageFromFirestore(d.id, d.data({ serverTimestamps: 'estimate' })));
+            setMessages(fetched.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()));
+            setIsLoading(false);
+        }, (error) => {
+            console.error("Error fetching messages: ", error);
+            setIsLoading(false);
+        });
+        return () => unsubscribe();
+    }, [caseId]);
+
+    useEffect(() => {
+        if (unread > 0) {
+            markThreadRead(caseId, side).catch(error => console.error("Error marking messages read:", error));
+        }
+    }, [caseId, side, unread]);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [messages.length]);
+
+    // Edit buttons disappear as their windows close
+    useEffect(() => {
+        const interval = setInterval(() => setNow(new Date()), 30_000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const readAt = readByOtherSideAt(thread, side);
+    const lastSeenId = useMemo(() => (
+        [...messages].reverse().find(m => m.authorId === viewer.uid && isReadBy(m, readAt))?.id
+    ), [messages, viewer.uid, readAt]);
+
+    const handleFiles = async (files: FileList | null) => {
+        if (!files) return;
+        const selected = Array.from(files).slice(0, MAX_ATTACHMENTS - attachments.length);
+        for (const file of selected) {
+            const error = validateAttachment({ name: file.name, contentType: file.type, size: file.size });
+            if (error) {
+                toast({ variant: 'destructive', title: 'Attachment Rejected', description: error });
+                continue;
+            }
+            const dataUri = await readAsDataUri(file);
+            setAttachments(prev => [...prev, { name: file.name, contentType: file.type, size: file.size, dataUri }]);
+        }
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handleSend = async () => {
+        setIsSending(true);
+        try {
+            await sendMessage(caseId, thread, viewer, draft, attachments);
+            setDraft('');
+            setAttachments([]);
+        } catch (error) {
+            console.error("Error sending message:", error);
+            const description = error instanceof CaseMessageError ? error.message : 'Could not send your message.';
+            toast({ variant: 'destructive', title: 'Not Sent', description });
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const handleSaveEdit = async () => {
+        if (!editing) return;
+        try {
+            await editMessage(caseId, editing.id, viewer.uid, editing.content);
+            setEditing(null);
+        } catch (error) {
+            console.error("Error editing message:", error);
+            const description = error instanceof CaseMessageError ? error.message : 'Could not save your changes.';
+            toast({ variant: 'destructive', title: 'Not Saved', description });
+        }
+    };
+
+    return (
+        <div className={cn("flex flex-col", className)}>
+            <ScrollArea className="flex-1 h-80 pr-3">
+                {isLoading ? (
+                    <div className="flex justify-center p-4"><Loader2 className="animate-spin" /></div>
+                ) : messages.length === 0 ? (
+                    <p className="text-center text-sm text-muted-foreground p-4">No messages yet.</p>
+                ) : (
+                    <div className="space-y-3">
+                        {messages.map(message => {
+                            if (isSystemMessage(message)) {
+                                return (
+                                    <p key={message.id} className="text-center text-xs text-muted-foreground">
+                                        {message.content} · {formatSentAt(message.timestamp)}
+                                    </p>
+                                );
+                            }
+                            const isOwn = message.authorId === viewer.uid;
+                            const isEditing = editing?.id === message.id;
+                            return (
+                                <div key={message.id} className={cn("flex flex-col", isOwn ? "items-end" : "items-start")}>
+                                    <div className={cn("max-w-[80%] rounded-lg px-3 py-2 space-y-2", isOwn ? "bg-primary text-primary-foreground" : "bg-secondary")}>
+                                        {!isOwn && <p className="text-xs font-semibold">{message.authorName}</p>}
+                                        {isEditing ? (
+                                            <div className="space-y-2">
+                                                <Textarea value={editing.content} onChange={(e) => setEditing({ id: message.id, content: e.target.value })} className="text-foreground" />
+                                                <div className="flex justify-end gap-1">
+                                                    <Button size="sm" variant="ghost" onClick={() => setEditing(null)}><X className="h-4 w-4" /></Button>
+                                                    <Button size="sm" variant="secondary" onClick={handleSaveEdit}>Save</Button>
+                                                </div>
+                                            </div>
+                                        ) : (
+                                            message.content && <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                                        )}
+                                        {message.attachments.map((attachment, i) => <AttachmentView key={i} attachment={attachment} />)}
+                                    </div>
+                                    <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
+                                        <span>{formatSentAt(message.timestamp)}</span>
+                                        {message.editedAt && (
+                                            <span title={message.edits.map(e => `${format(new Date(e.editedAt), 'p')}: ${e.content}`).join('\n')}>(edited)</span>
+                                        )}
+                                        {message.id === lastSeenId && <span className="flex items-center gap-1"><CheckCheck className="h-3 w-3" />Seen</span>}
+                                        {!isEditing && canEditMessage(message, viewer.uid, now) && (
+                                            <button onClick={() => setEditing({ id: message.id, content: message.content })} className="hover:text-foreground" aria-label="Edit message">
+                                                <Pencil className="h-3 w-3" />
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                        <div ref={endRef} />
+                    </div>
+                )}
+            </ScrollArea>
+            {attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 pt-2">
+                    {attachments.map((attachment, i) => (
+                        <span key={i} className="flex items-center gap-1 rounded-md border px-2 py-1 text-xs">
+                            {attachment.name}
+                            <button onClick={() => setAttachments(prev => prev.filter((_, j) => j !== i))} aria-label="Remove attachment"><X className="h-3 w-3" /></button>
+                        </span>
+                    ))}
+                </div>
+            )}
+            <div className="flex items-end gap-2 pt-2">
+                <input ref={fileInputRef} type="file" accept="image/*,application/pdf" multiple className="hidden" onChange={(e) => handleFiles(e.target.files)} />
+                <Button variant="ghost" size="icon" onClick={() => fileInputRef.current?.click()} disabled={attachments.length >= MAX_ATTACHMENTS} aria-label="Attach a file">
+                    <Paperclip className="h-4 w-4" />
+                </Button>
+                <Textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
+                    placeholder="Write a message..."
+                    rows={1}
+                    className="min-h-[40px]"
+                />
+                <Button size="icon" onClick={handleSend} disabled={isSending} aria-label="Send">
+                    {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -1,4 +1,212 @@
 
+"use client";
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useRouter } from 'next/navigation';
+import { createUserWithEmailAndPassword, signInWithEmailAndPassword, updateProfile, UserCredential } from 'firebase/auth';
+import { auth, db } from '@/lib/firebase';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription, CardFooter } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, ShieldAlert, Bot, Eye, EyeOff } from 'lucide-react';
+import { Loader } from '../ui/loader';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { useSettings } from '@/context/settings-provider';
+
+const formSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address." }),
+  password: z.string().min(6, { message: "Password must be at least 6 characters." }),
+  name: z.string().optional(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
 export function NurseAuthForm() {
-    return null;
+  const [isLogin, setIsLogin] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showPassword, setShowPassword] = useState(false);
+  const { settings } = useSettings();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const isNurseSignupDisabled = settings?.signupControls?.isNurseSignupDisabled ?? false;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { email: "", password: "", name: "" },
+  });
+
+  const handleAuthSuccess = async (userCredential: UserCredential, isNewUser: boolean = false) => {
+    const user = userCredential.user;
+    const userDocRef = doc(db, 'users', user.uid);
+
+    if (isNewUser) {
+        if (isNurseSignupDisabled) {
+            await auth.signOut();
+            throw new Error("Nurse sign-ups are currently disabled.");
+        }
+        await setDoc(userDocRef, {
+            role: 'nurse',
+            name: user.displayName,
+            email: user.email,
+        });
+        toast({ title: "Nurse Sign Up Successful", description: "Your assigned home visits will appear on your dashboard." });
+    } else {
+        const docSnap = await getDoc(userDocRef);
+        if (!docSnap.exists() || docSnap.data().role !== 'nurse') {
+            await auth.signOut();
+            throw new Error("This is not a nurse account.");
+        }
+        toast({ title: "Nurse Login Successful", description: "Welcome back!" });
+    }
+    router.push('/nurse/dashboard');
+  };
+
+  const handleAuthError = (error: any) => {
+    let errorMessage = error.message || "An unexpected error occurred.";
+    if (error.code === 'auth/user-not-found' || error.code === 'auth/wrong-password' || error.code === 'auth/invalid-credential') {
+        errorMessage = "Invalid email or password.";
+    } else if (error.code === 'auth/email-already-in-use') {
+        errorMessage = "This email address is already in use.";
+    }
+    toast({ variant: "destructive", title: "Authentication Failed", description: errorMessage });
+  };
+
+  const onSubmit = async (data: FormValues) => {
+    setIsLoading(true);
+    if (!auth) {
+        toast({ variant: "destructive", title: "Configuration Error", description: "Firebase is not configured." });
+        setIsLoading(false);
+        return;
+    }
+    try {
+      if (isLogin) {
+        const userCredential = await signInWithEmailAndPassword(auth, data.email, data.password);
+        await handleAuthSuccess(userCredential, false);
+      } else {
+        if (!data.name) {
+            form.setError("name", { type: "manual", message: "Name is required for sign up." });
+            setIsLoading(false);
+            return;
+        }
+        const userCredential = await createUserWithEmailAndPassword(auth, data.email, data.password);
+        await updateProfile(userCredential.user, { displayName: data.name });
+        await handleAuthSuccess(userCredential, true);
+      }
+    } catch (error: any) {
+      handleAuthError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleForm = () => {
+    setIsLogin(!isLogin);
+    form.reset();
+  };
+
+  if (isLoading) {
+    return <Loader />
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-secondary/50">
+      <div className="absolute inset-0 -z-10 h-full w-full bg-background bg-[radial-gradient(hsl(var(--primary)/0.15)_1px,transparent_1px)] [background-size:32px_32px] [mask-image:radial-gradient(ellipse_50%_50%_at_50%_50%,#000_60%,transparent_100%)]"></div>
+      <Card className="w-full max-w-md mx-4 relative bg-card/80 backdrop-blur-sm border-primary/20">
+         <Button variant="ghost" size="icon" className="absolute top-4 left-4" onClick={() => router.push('/landing')}>
+          <ArrowLeft />
+        </Button>
+        <CardHeader className="text-center pt-16">
+            <div className="flex justify-center items-center gap-2 mb-4">
+                <Bot className="w-10 h-10 text-primary"/>
+                <h1 className="text-3xl font-bold">Lifeline</h1>
+            </div>
+          <CardTitle>{isLogin ? "Nurse Portal" : "Nurse Registration"}</CardTitle>
+          <CardDescription>{isLogin ? "Sign in to see your home visits." : "Create a new nurse account."}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!isLogin && isNurseSignupDisabled && (
+            <Alert variant="destructive" className="mb-4">
+                <ShieldAlert className="h-4 w-4" />
+                <AlertTitle>Sign-ups Disabled</AlertTitle>
+                <AlertDescription>
+                    New nurse registrations are currently not being accepted. Please check back later.
+                </AlertDescription>
+            </Alert>
+          )}
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {!isLogin && (
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Jane Doe" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input placeholder="you@example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                     <div className="relative">
+                        <FormControl>
+                            <Input type={showPassword ? "text" : "password"} placeholder="••••••••" {...field} />
+                        </FormControl>
+                        <Button type="button" variant="ghost" size="icon" className="absolute top-0 right-0 h-full w-10 text-muted-foreground" onClick={() => setShowPassword(!showPassword)}>
+                            {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </Button>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={isLoading || (!isLogin && isNurseSignupDisabled)}>
+                {isLoading ? 'Processing...' : (isLogin ? 'Log In with Email' : 'Sign Up with Email')}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+        <CardFooter className="text-center flex-col gap-2">
+          <p className="text-sm text-muted-foreground">
+            {isLogin ? "Don't have a nurse account?" : "Already have a nurse account?"}{' '}
+            <Button variant="link" onClick={toggleForm} className="p-0 h-auto">
+              {isLogin ? 'Sign Up' : 'Log In'}
+            </Button>
+          </p>
+           <Button variant="link" size="sm" className="text-xs" onClick={() => router.push('/admin/auth')}>
+                Admin Portal
+           </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
 }
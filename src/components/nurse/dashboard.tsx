@@ -1,4 +1,82 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+import { Home, Loader2 } from 'lucide-react';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/context/auth-provider';
+import { useProfile } from '@/context/profile-provider';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { VisitCard, type AssignedVisit } from './visit-card';
+import { VisitReportDialog } from './visit-report-dialog';
 
 export function NurseDashboard() {
-    return null;
+    const { user } = useAuth();
+    const { profile } = useProfile();
+    const nurseName = profile?.name || profile?.username || 'Nurse';
+    const [visits, setVisits] = useState<AssignedVisit[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [reportingVisit, setReportingVisit] = useState<AssignedVisit | null>(null);
+
+    useEffect(() => {
+        if (!user) return;
+        const q = query(collection(db, 'investigations'), where('nurseDispatch.nurseUid', '==', user.uid));
+        const unsubscribe = onSnapshot(q, (snapshot) => {
+            setVisits(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AssignedVisit)));
+            setIsLoading(false);
+        }, (error) => {
+            console.error("Error fetching visits: ", error);
+            setIsLoading(false);
+        });
+        return () => unsubscribe();
+    }, [user]);
+
+    const upcoming = useMemo(() => visits
+        .filter(v => v.status === 'awaiting_nurse_visit')
+        .sort((a, b) => a.nurseDispatch.scheduledFor.localeCompare(b.nurseDispatch.scheduledFor)), [visits]);
+    const completed = useMemo(() => visits
+        .filter(v => v.status !== 'awaiting_nurse_visit')
+        .sort((a, b) => b.nurseDispatch.scheduledFor.localeCompare(a.nurseDispatch.scheduledFor)), [visits]);
+
+    if (!user) return null;
+
+    const renderVisits = (list: AssignedVisit[], empty: string) => list.length > 0 ? (
+        <div className="grid gap-4 lg:grid-cols-2">
+            {list.map(visit => <VisitCard key={visit.id} visit={visit} nurseUid={user.uid} onReport={setReportingVisit} />)}
+        </div>
+    ) : (
+        <div className="text-center text-muted-foreground py-12">
+            <Home className="mx-auto w-12 h-12 text-gray-400" />
+            <p className="mt-2">{empty}</p>
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Home Visits</CardTitle>
+                    <CardDescription>Visits doctors have assigned to you. Record each sample as you collect it, then submit the visit report.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center p-8"><Loader2 className="animate-spin" /></div>
+                    ) : (
+                        <Tabs defaultValue="upcoming">
+                            <TabsList>
+                                <TabsTrigger value="upcoming">Upcoming ({upcoming.length})</TabsTrigger>
+                                <TabsTrigger value="completed">Completed ({completed.length})</TabsTrigger>
+                            </TabsList>
+                            <TabsContent value="upcoming" className="pt-4">{renderVisits(upcoming, 'No visits are assigned to you right now.')}</TabsContent>
+                            <TabsContent value="completed" className="pt-4">{renderVisits(completed, 'Visits you have reported will appear here.')}</TabsContent>
+                        </Tabs>
+                    )}
+                </CardContent>
+            </Card>
+            {reportingVisit && (
+                <VisitReportDialog visit={reportingVisit} nurse={{ uid: user.uid, name: nurseName }} onClose={() => setReportingVisit(null)} />
+            )}
+        </div>
+    );
 }
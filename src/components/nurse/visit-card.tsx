@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Check, ClipboardList, Loader2, MapPin, Phone, TestTube } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { InvestigationStatus } from '@/lib/investigation';
+import {
+    NurseVisitError,
+    SAMPLE_TYPES,
+    VISIT_STAGE_LABELS,
+    mapsUrl,
+    nextStage,
+    pendingTasks,
+    type NurseDispatch,
+    type NurseVisit,
+} from '@/lib/nurse-visits';
+import { advanceVisit, recordSample } from '@/lib/nurse-visits-store';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+export interface AssignedVisit {
+    id: string;
+    userId: string;
+    userName: string;
+    status: InvestigationStatus;
+    nurseDispatch: NurseDispatch;
+    nurseVisit?: NurseVisit;
+}
+
+function SampleForm({ visit, task, nurseUid }: { visit: AssignedVisit; task: string; nurseUid: string }) {
+    const { toast } = useToast();
+    const recorded = visit.nurseVisit?.samples.find(s => s.task === task);
+    const [sampleType, setSampleType] = useState<string>(recorded?.sampleType ?? SAMPLE_TYPES[0]);
+    const [notes, setNotes] = useState(recorded?.notes ?? '');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleRecord = async () => {
+        setIsSaving(true);
+        try {
+            const sample = { task, sampleType, collectedAt: new Date().toISOString(), ...(notes.trim() ? { notes: notes.trim() } : {}) };
+            await recordSample(visit.id, nurseUid, sample);
+        } catch (error) {
+            console.error("Error recording sample:", error);
+            const description = error instanceof NurseVisitError ? error.message : 'Could not record the sample.';
+            toast({ variant: 'destructive', title: 'Error', description });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center justify-between">
+                <p className="font-semibold text-sm">{task}</p>
+                {recorded && <Badge variant="secondary"><Check className="mr-1 h-3 w-3" />Collected {format(parseISO(recorded.collectedAt), 'p')}</Badge>}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <Select value={sampleType} onValueChange={setSampleType}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        {SAMPLE_TYPES.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+                <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes (e.g., 2 tubes, fasting)" className="sm:col-span-2" />
+            </div>
+            <Button size="sm" variant={recorded ? 'outline' : 'default'} onClick={handleRecord} disabled={isSaving}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <TestTube className="mr-2 h-4 w-4" />}
+                {recorded ? 'Update Sample' : 'Record Sample'}
+            </Button>
+        </div>
+    );
+}
+
+/** One assigned home visit: where to go, what to collect and how far along it is. */
+export function VisitCard({ visit, nurseUid, onReport }: { visit: AssignedVisit; nurseUid: string; onReport: (visit: AssignedVisit) => void }) {
+    const { toast } = useToast();
+    const [isAdvancing, setIsAdvancing] = useState(false);
+    const { nurseDispatch: dispatch, nurseVisit } = visit;
+    const stage = nurseVisit?.stage ?? 'scheduled';
+    const isActive = visit.status === 'awaiting_nurse_visit';
+    const next = nextStage(stage);
+    const pending = pendingTasks(dispatch, nurseVisit);
+    const canCollect = isActive && (stage === 'arrived' || stage === 'samples_collected');
+
+    const handleAdvance = async () => {
+        if (!next) return;
+        setIsAdvancing(true);
+        try {
+            await advanceVisit(visit.id, nurseUid, next);
+        } catch (error) {
+            console.error("Error updating visit:", error);
+            const description = error instanceof NurseVisitError ? error.message : 'Could not update the visit.';
+            toast({ variant: 'destructive', title: 'Error', description });
+        } finally {
+            setIsAdvancing(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                    <div>
+                        <CardTitle className="text-lg">{dispatch.patientName}</CardTitle>
+                        <CardDescription>{format(parseISO(dispatch.scheduledFor), 'PPPP p')} · sent by {dispatch.dispatchedByName}</CardDescription>
+                    </div>
+                    <Badge variant={isActive ? 'default' : 'secondary'}>{isActive ? VISIT_STAGE_LABELS[stage] : 'Reported'}</Badge>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="space-y-1 text-sm">
+                    <a href={mapsUrl(dispatch.address)} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-primary hover:underline">
+                        <MapPin className="h-4 w-4" />{dispatch.address}
+                    </a>
+                    {dispatch.phone && (
+                        <a href={`tel:${dispatch.phone}`} className="flex items-center gap-2 text-primary hover:underline">
+                            <Phone className="h-4 w-4" />{dispatch.phone}
+                        </a>
+                    )}
+                </div>
+                {dispatch.instructions && (
+                    <p className="text-sm rounded-md bg-secondary/50 p-2"><span className="font-semibold">From the doctor:</span> {dispatch.instructions}</p>
+                )}
+                {canCollect ? (
+                    <div className="space-y-2">
+                        <p className="text-sm font-semibold">Samples ({dispatch.tasks.length - pending.length} of {dispatch.tasks.length} collected)</p>
+                        {dispatch.tasks.map(task => <SampleForm key={task} visit={visit} task={task} nurseUid={nurseUid} />)}
+                    </div>
+                ) : (
+                    <div>
+                        <p className="text-sm font-semibold">Samples to Collect</p>
+                        <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                            {dispatch.tasks.map(task => <li key={task}>{task}</li>)}
+                        </ul>
+                    </div>
+                )}
+            </CardContent>
+            {isActive && (
+                <CardFooter className="justify-end gap-2">
+                    {next && next !== 'samples_collected' && (
+                        <Button variant="secondary" onClick={handleAdvance} disabled={isAdvancing}>
+                            {isAdvancing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Mark as {VISIT_STAGE_LABELS[next]}
+                        </Button>
+                    )}
+                    <Button onClick={() => onReport(visit)} disabled={pending.length > 0}>
+                        <ClipboardList className="mr-2 h-4 w-4" />Submit Visit Report
+                    </Button>
+                </CardFooter>
+            )}
+        </Card>
+    );
+}
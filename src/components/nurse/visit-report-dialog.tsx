@@ -0,0 +1,145 @@
+"use client";
+
+import React, { useState } from 'react';
+import Image from 'next/image';
+import { Camera, FileText, Loader2, Send, Trash2, Upload, Video } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { continueInvestigation } from '@/ai/flows/continue-investigation-flow';
+import { InvestigationTransitionError } from '@/lib/investigation';
+import { isPdfDataUri } from '@/lib/lab-observations';
+import type { SampleCollection } from '@/lib/nurse-visits';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { AssignedVisit } from './visit-card';
+
+const readAsDataUri = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const describeSample = (sample: SampleCollection) => [`${sample.task}: ${sample.sampleType}`, sample.notes].filter(Boolean).join(', ');
+
+/**
+ * The nurse's report on a finished visit. Results are optional here: most samples go to the
+ * lab, but point-of-care results can be attached straight away.
+ */
+export function VisitReportDialog({ visit, nurse, onClose }: { visit: AssignedVisit; nurse: { uid: string; name: string }; onClose: () => void }) {
+    const { toast } = useToast();
+    const [text, setText] = useState('');
+    const [pictures, setPictures] = useState<string[]>([]);
+    const [videos, setVideos] = useState<string[]>([]);
+    const [results, setResults] = useState<Record<string, string>>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const addFiles = async (files: FileList | null, add: (uris: string[]) => void) => {
+        if (!files) return;
+        add(await Promise.all(Array.from(files).map(readAsDataUri)));
+    };
+
+    const handleResultUpload = async (task: string, file?: File) => {
+        if (!file) return;
+        const dataUri = await readAsDataUri(file);
+        setResults(prev => ({ ...prev, [task]: dataUri }));
+    };
+
+    const handleSubmit = async () => {
+        if (!text.trim()) {
+            toast({ variant: 'destructive', title: 'Missing Report', description: 'Describe the visit before submitting.' });
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            await continueInvestigation({
+                userId: visit.userId,
+                investigationId: visit.id,
+                labResults: Object.entries(results).map(([testName, imageDataUri]) => ({ testName, imageDataUri })),
+                nurseReport: {
+                    text: text.trim(),
+                    pictures,
+                    videos,
+                    samplesCollected: (visit.nurseVisit?.samples ?? []).map(describeSample),
+                },
+                nurse,
+            });
+            toast({ title: 'Visit Report Submitted', description: 'The doctor has been notified.' });
+            onClose();
+        } catch (error) {
+            console.error("Error submitting visit report:", error);
+            const description = error instanceof InvestigationTransitionError ? error.message : 'Could not submit the visit report.';
+            toast({ variant: 'destructive', title: 'Submission Failed', description });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Visit Report: {visit.nurseDispatch.patientName}</DialogTitle>
+                    <DialogDescription>Sent to {visit.nurseDispatch.dispatchedByName} with the samples you recorded.</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
+                    <div className="space-y-1">
+                        <Label>Report</Label>
+                        <Textarea value={text} onChange={(e) => setText(e.target.value)} rows={5} placeholder="How the patient was, observations, anything the doctor should know." />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-1">
+                            <Label className="flex items-center gap-2"><Camera className="h-4 w-4" />Pictures</Label>
+                            <Input type="file" accept="image/*" multiple onChange={(e) => addFiles(e.target.files, uris => setPictures(prev => [...prev, ...uris]))} />
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="flex items-center gap-2"><Video className="h-4 w-4" />Videos</Label>
+                            <Input type="file" accept="video/*" multiple onChange={(e) => addFiles(e.target.files, uris => setVideos(prev => [...prev, ...uris]))} />
+                        </div>
+                    </div>
+                    {(pictures.length > 0 || videos.length > 0) && (
+                        <div className="flex flex-wrap gap-2">
+                            {pictures.map((pic, i) => (
+                                <div key={`pic-${i}`} className="relative">
+                                    <Image src={pic} alt={`Visit picture ${i + 1}`} width={80} height={80} className="rounded-md border object-cover" />
+                                    <Button size="icon" variant="destructive" className="absolute -top-2 -right-2 h-6 w-6" onClick={() => setPictures(prev => prev.filter((_, j) => j !== i))}><Trash2 className="h-3 w-3" /></Button>
+                                </div>
+                            ))}
+                            {videos.map((_, i) => (
+                                <div key={`video-${i}`} className="relative flex h-20 w-20 items-center justify-center rounded-md border">
+                                    <Video className="h-6 w-6 text-muted-foreground" />
+                                    <Button size="icon" variant="destructive" className="absolute -top-2 -right-2 h-6 w-6" onClick={() => setVideos(prev => prev.filter((_, j) => j !== i))}><Trash2 className="h-3 w-3" /></Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    <div className="space-y-2">
+                        <Label>Results Available Now (optional)</Label>
+                        {visit.nurseDispatch.tasks.map(task => (
+                            <div key={task} className="flex items-center gap-2">
+                                <p className="text-sm flex-1 truncate">{task}</p>
+                                {results[task] ? (
+                                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                        {isPdfDataUri(results[task]) ? <FileText className="h-4 w-4" /> : <Upload className="h-4 w-4" />}Attached
+                                        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setResults(({ [task]: _, ...rest }) => rest)}><Trash2 className="h-3 w-3" /></Button>
+                                    </span>
+                                ) : (
+                                    <Input type="file" accept="image/*,application/pdf" className="max-w-[220px]" onChange={(e) => handleResultUpload(task, e.target.files?.[0])} />
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button variant="ghost" onClick={onClose}>Cancel</Button>
+                    <Button onClick={handleSubmit} disabled={isSubmitting}>
+                        {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                        Submit Report
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -16,7 +16,11 @@ import { CalendarIcon, Droplet, HeartHandshake, Loader2, Sparkles, UserX, Target
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/context/auth-provider';
 import { db } from '@/lib/firebase';
-import { collection, onSnapshot, query, orderBy, addDoc, limit, doc, deleteDoc } from 'firebase/firestore';
+import { collection, onSnapshot, query, orderBy, limit } from 'firebase/firestore';
+import { useSync } from '@/context/sync-provider';
+import { applyPendingWrites, pendingDocIds } from '@/lib/offline-queue';
+import { createOrQueue, deleteOrQueue } from '@/lib/offline-queue-store';
+import { Badge } from '../ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
 import { useProfile } from '@/context/profile-provider';
@@ -99,6 +103,7 @@ export function PeriodTracker() {
   const { toast } = useToast();
   const [cycleLogs, setCycleLogs] = useState<CycleLog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const { pending } = useSync();
 
   const form = useForm<PeriodTrackerFormValues>({
     resolver: zodResolver(periodTrackerSchema),
@@ -108,12 +113,22 @@ export function PeriodTracker() {
     },
   });
 
+  const cyclesPath = `users/${user?.uid}/cycles`;
+
+  // Logs from Firestore with this device's unsynced writes laid over them.
+  const displayedLogs = useMemo(
+    () => applyPendingWrites(cycleLogs, pending, cyclesPath, (id, data) => ({ id, ...data } as CycleLog))
+      .sort((a, b) => b.startDate.localeCompare(a.startDate)),
+    [cycleLogs, pending, cyclesPath],
+  );
+  const syncStatusById = useMemo(() => pendingDocIds(pending, cyclesPath), [pending, cyclesPath]);
+
   const latestLog = useMemo(() => {
-    if (cycleLogs.length > 0) {
-      return cycleLogs[0];
+    if (displayedLogs.length > 0) {
+      return displayedLogs[0];
     }
     return null;
-  }, [cycleLogs]);
+  }, [displayedLogs]);
 
   const loadLatestLogIntoForm = useCallback(() => {
     if (latestLog) {
@@ -137,6 +152,9 @@ export function PeriodTracker() {
         const logs = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as CycleLog));
         setCycleLogs(logs);
         setIsLoading(false);
+    }, (error) => {
+        console.error("Error fetching cycle logs:", error);
+        setIsLoading(false);
     });
     return () => unsubscribe();
   }, [user]);
@@ -177,8 +195,8 @@ export function PeriodTracker() {
         cycleLength: data.cycleLength,
     };
     try {
-      await addDoc(collection(db, `users/${user.uid}/cycles`), submissionData);
-      toast({ title: 'Cycle Logged', description: 'Your new cycle information has been saved.' });
+      const { queued } = await createOrQueue(user.uid, cyclesPath, submissionData);
+      toast({ title: 'Cycle Logged', description: queued ? 'Saved on this device. It will sync when you are back online.' : 'Your new cycle information has been saved.' });
       form.reset({ cycleLength: 28, lastPeriodStartDate: undefined });
     } catch (error) {
       console.error("Error logging cycle:", error);
@@ -189,7 +207,7 @@ export function PeriodTracker() {
   const deleteLog = async (logId: string) => {
     if (!user) return;
     try {
-        await deleteDoc(doc(db, `users/${user.uid}/cycles`, logId));
+        await deleteOrQueue(user.uid, cyclesPath, logId);
         toast({ title: 'Log Deleted', description: 'The cycle log has been removed.' });
     } catch (error) {
         console.error("Error deleting log:", error);
@@ -250,12 +268,19 @@ export function PeriodTracker() {
                 <CardDescription>View and manage your past cycle logs.</CardDescription>
             </CardHeader>
             <CardContent>
-                {cycleLogs.length > 0 ? (
+                {displayedLogs.length > 0 ? (
                     <Accordion type="single" collapsible className="w-full">
-                        {cycleLogs.map(log => (
+                        {displayedLogs.map(log => (
                             <AccordionItem value={log.id} key={log.id}>
                                 <AccordionTrigger>
-                                    Cycle starting {format(parseISO(log.startDate), 'MMMM d, yyyy')}
+                                    <span className="flex items-center gap-2">
+                                        Cycle starting {format(parseISO(log.startDate), 'MMMM d, yyyy')}
+                                        {syncStatusById.has(log.id) && (
+                                            <Badge variant={syncStatusById.get(log.id) === 'failed' ? 'destructive' : 'secondary'} className="text-xs">
+                                                {syncStatusById.get(log.id) === 'failed' ? 'Sync failed' : 'Pending sync'}
+                                            </Badge>
+                                        )}
+                                    </span>
                                 </AccordionTrigger>
                                 <AccordionContent className="flex justify-between items-center">
                                     <p className="text-sm text-muted-foreground">
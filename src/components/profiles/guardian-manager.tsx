@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ShieldPlus, Trash2, Loader2, Phone, Mail, Bell } from 'lucide-react';
+
+import { useAuth } from '@/context/auth-provider';
+import { useProfile } from '@/context/profile-provider';
+import { useToast } from '@/hooks/use-toast';
+import { GuardianSchema, NOTIFICATION_CHANNELS, type Guardian, type GuardianInput, type NotificationChannel } from '@/lib/guardians';
+import { addGuardian, fetchGuardians, removeGuardian } from '@/lib/guardians-store';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+
+const channelConfig: Record<NotificationChannel, { label: string; icon: React.ElementType }> = {
+  sms: { label: 'SMS', icon: Phone },
+  email: { label: 'Email', icon: Mail },
+  push: { label: 'Push', icon: Bell },
+};
+
+export function GuardianManager() {
+  const { user } = useAuth();
+  const { profile, updateProfile } = useProfile();
+  const { toast } = useToast();
+  const [guardians, setGuardians] = useState<Guardian[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const form = useForm<GuardianInput>({
+    resolver: zodResolver(GuardianSchema),
+    defaultValues: { name: "", relationship: "", phone: "", email: "", channels: ['sms'] },
+  });
+
+  useEffect(() => {
+    if (!user) return;
+    fetchGuardians(user.uid)
+      .then(setGuardians)
+      .catch(error => {
+        console.error("Error fetching guardians:", error);
+        toast({ variant: "destructive", title: "Error", description: "Could not load your guardians." });
+      })
+      .finally(() => setIsLoading(false));
+  }, [user, toast]);
+
+  const onSubmit = async (values: GuardianInput) => {
+    if (!user) return;
+    try {
+      const guardian = await addGuardian(user.uid, values);
+      setGuardians(prev => [...prev, guardian]);
+      form.reset();
+      toast({ title: "Guardian Added", description: `${guardian.name} will be notified if you send an alert.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    }
+  };
+
+  const handleRemove = async (guardian: Guardian) => {
+    if (!user) return;
+    try {
+      await removeGuardian(user.uid, guardian.id);
+      setGuardians(prev => prev.filter(g => g.id !== guardian.id));
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    }
+  };
+
+  const handleAutoSosChange = async (checked: boolean) => {
+    try {
+      await updateProfile({ autoSosOnCriticalVitals: checked });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><ShieldPlus /> Guardians</CardTitle>
+        <CardDescription>Emergency contacts notified with your location when you send an alert.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? <Loader2 className="mx-auto w-8 h-8 animate-spin text-primary" /> : guardians.length > 0 ? (
+          <div className="space-y-3">
+            {guardians.map(guardian => (
+              <div key={guardian.id} className="flex items-center justify-between p-3 rounded-md bg-secondary/50">
+                <div>
+                  <p className="font-semibold">{guardian.name} <span className="text-sm text-muted-foreground">({guardian.relationship})</span></p>
+                  <div className="flex gap-1 mt-1">
+                    {guardian.channels.map(channel => <Badge key={channel} variant="outline">{channelConfig[channel].label}</Badge>)}
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleRemove(guardian)}><Trash2 className="h-4 w-4 text-destructive" /></Button>
+              </div>
+            ))}
+          </div>
+        ) : <p className="text-sm text-muted-foreground text-center">No guardians added yet.</p>}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField control={form.control} name="name" render={({ field }) => (<FormItem><FormLabel>Name</FormLabel><FormControl><Input placeholder="Jane Doe" {...field} /></FormControl><FormMessage /></FormItem>)} />
+              <FormField control={form.control} name="relationship" render={({ field }) => (<FormItem><FormLabel>Relationship</FormLabel><FormControl><Input placeholder="Sister" {...field} /></FormControl><FormMessage /></FormItem>)} />
+              <FormField control={form.control} name="phone" render={({ field }) => (<FormItem><FormLabel>Phone</FormLabel><FormControl><Input placeholder="e.g., 08012345678" {...field} /></FormControl><FormMessage /></FormItem>)} />
+              <FormField control={form.control} name="email" render={({ field }) => (<FormItem><FormLabel>Email</FormLabel><FormControl><Input placeholder="jane@example.com" {...field} /></FormControl><FormMessage /></FormItem>)} />
+            </div>
+            <FormField control={form.control} name="channels" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Notify via</FormLabel>
+                <div className="flex gap-4">
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <div key={channel} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`channel-${channel}`}
+                        checked={field.value.includes(channel)}
+                        onCheckedChange={(checked) => field.onChange(checked ? [...field.value, channel] : field.value.filter(c => c !== channel))}
+                      />
+                      <Label htmlFor={`channel-${channel}`}>{channelConfig[channel].label}</Label>
+                    </div>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )} />
+            <Button type="submit" variant="outline" className="w-full" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? 'Adding...' : 'Add Guardian'}
+            </Button>
+          </form>
+        </Form>
+
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="auto-sos" className="text-base">Alert guardians on critical readings</Label>
+            <p className="text-sm text-muted-foreground">Automatically send an SOS when you log a critical vital sign.</p>
+          </div>
+          <Switch id="auto-sos" checked={!!profile?.autoSosOnCriticalVitals} onCheckedChange={handleAutoSosChange} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
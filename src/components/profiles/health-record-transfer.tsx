@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Download, Upload, Loader2, FileHeart } from 'lucide-react';
+
+import { useAuth } from '@/context/auth-provider';
+import { useProfile } from '@/context/profile-provider';
+import { useToast } from '@/hooks/use-toast';
+import type { ExternalRecord } from '@/lib/fhir';
+import { exportHealthRecord, fetchExternalRecords, importHealthRecord, type FhirImportResult } from '@/lib/fhir-store';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from '@/components/ui/badge';
+
+const recordTypeLabels: Record<ExternalRecord['resourceType'], string> = {
+  Condition: 'Condition',
+  MedicationRequest: 'Medication',
+  ServiceRequest: 'Test / Referral',
+};
+
+export function HealthRecordTransfer() {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [lastImport, setLastImport] = useState<FhirImportResult | null>(null);
+  const [externalRecords, setExternalRecords] = useState<ExternalRecord[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchExternalRecords(user.uid)
+      .then(setExternalRecords)
+      .catch(error => console.error("Error fetching external records:", error));
+  }, [user, lastImport]);
+
+  const handleExport = async () => {
+    if (!user) return;
+    setIsExporting(true);
+    try {
+      const bundle = await exportHealthRecord({
+        uid: user.uid,
+        name: profile?.name,
+        gender: profile?.gender,
+        phone: profile?.phone,
+        address: profile?.address,
+      });
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `lifeline-health-record-${format(new Date(), 'yyyy-MM-dd')}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting health record:", error);
+      toast({ variant: "destructive", title: "Export Failed", description: "Could not build your health record." });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!user || !file) return;
+    setIsImporting(true);
+    try {
+      let json: unknown;
+      try {
+        json = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The file is not valid JSON.');
+      }
+      const result = await importHealthRecord(user.uid, json, profile ?? {});
+      setLastImport(result);
+      toast({ title: "Record Imported", description: `${result.vitals + result.strips + result.clinical} new entries added.` });
+    } catch (error: any) {
+      console.error("Error importing health record:", error);
+      toast({ variant: "destructive", title: "Import Failed", description: error.message });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><FileHeart /> Health Record</CardTitle>
+        <CardDescription>Download your record as a FHIR R4 file to share with a hospital, or bring in records from one.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Export Record
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import Record
+          </Button>
+          <Input ref={fileInputRef} type="file" accept=".json,application/json,application/fhir+json" onChange={handleImport} className="hidden" />
+        </div>
+
+        {lastImport && (
+          <Alert>
+            <AlertTitle>Import complete</AlertTitle>
+            <AlertDescription className="space-y-1">
+              <p>{lastImport.vitals} vitals, {lastImport.strips} test strips and {lastImport.clinical} clinical records added{lastImport.duplicates > 0 ? `; ${lastImport.duplicates} already on file were skipped` : ''}.</p>
+              {lastImport.patientUpdated && <p>Missing profile details were filled in from the file.</p>}
+              {lastImport.issues.length > 0 && (
+                <ul className="list-disc list-inside text-xs text-muted-foreground">
+                  {lastImport.issues.slice(0, 10).map((issue, i) => <li key={i}>Entry {issue.entry + 1} ({issue.resourceType}): {issue.message}</li>)}
+                  {lastImport.issues.length > 10 && <li>...and {lastImport.issues.length - 10} more.</li>}
+                </ul>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {externalRecords.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="font-semibold text-sm">Records from other providers</p>
+            {externalRecords.map(record => (
+              <div key={record.id} className="p-3 rounded-md bg-secondary/50 text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{recordTypeLabels[record.resourceType]}</Badge>
+                  <p className="font-semibold">{record.title}</p>
+                </div>
+                {record.detail && <p className="text-muted-foreground mt-1">{record.detail}</p>}
+                {record.date && <p className="text-xs text-muted-foreground mt-1">{format(parseISO(record.date), 'MMM d, yyyy')}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
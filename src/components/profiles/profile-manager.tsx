@@ -8,14 +8,18 @@ import * as z from 'zod';
 import { useProfile } from '@/context/profile-provider';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { User, Edit } from "lucide-react";
 import { useAuth } from '@/context/auth-provider';
 import { Textarea } from '../ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { useRouter } from 'next/navigation';
+import { ReferenceRangesEditor } from '@/components/vitals/reference-ranges-editor';
+import { GuardianManager } from './guardian-manager';
+import { HealthRecordTransfer } from './health-record-transfer';
 
 const profileSchema = z.object({
   name: z.string().min(2, { message: "Name must be at least 2 characters." }),
@@ -23,6 +27,8 @@ const profileSchema = z.object({
   gender: z.enum(['Male', 'Female'], { required_error: "Please select a gender." }),
   phone: z.string().min(10, { message: "Please enter a valid phone number." }),
   address: z.string().min(10, { message: "Please enter a valid address for home visits." }),
+  knownConditions: z.string().optional(),
+  pregnant: z.boolean().optional(),
 });
 
 type ProfileFormValues = z.infer<typeof profileSchema>;
@@ -35,7 +41,7 @@ export function ProfileManager() {
 
   const form = useForm<ProfileFormValues>({
     resolver: zodResolver(profileSchema),
-    defaultValues: { name: "", age: "", gender: undefined, phone: "", address: "" },
+    defaultValues: { name: "", age: "", gender: undefined, phone: "", address: "", knownConditions: "", pregnant: false },
   });
 
   useEffect(() => {
@@ -46,6 +52,8 @@ export function ProfileManager() {
         gender: profile.gender,
         phone: profile.phone,
         address: profile.address,
+        knownConditions: profile.knownConditions ?? "",
+        pregnant: !!profile.pregnant,
       });
     } else if (user?.displayName) {
       // Fallback for newly created user before profile is fully synced
@@ -55,7 +63,7 @@ export function ProfileManager() {
   
   const onSubmit = async (values: ProfileFormValues) => {
     try {
-      await updateProfile(values);
+      await updateProfile({ ...values, knownConditions: values.knownConditions ?? "", pregnant: values.gender === 'Female' && !!values.pregnant });
       toast({ title: "Profile Updated", description: "Your profile has been successfully updated." });
       // Don't redirect if just updating
     } catch (error: any) {
@@ -70,7 +78,7 @@ export function ProfileManager() {
   const buttonText = isInitialSetup ? "Save and Continue" : "Save Changes";
 
   return (
-    <div className="flex items-center justify-center">
+    <div className="flex flex-col items-center justify-center gap-8">
       <Card className="w-full max-w-lg">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -115,6 +123,29 @@ export function ProfileManager() {
                     <FormMessage />
                 </FormItem>
               )} />
+              <FormField control={form.control} name="knownConditions" render={({ field }) => (
+                <FormItem>
+                    <FormLabel>Known Conditions (optional)</FormLabel>
+                    <FormControl>
+                        <Textarea placeholder="e.g., Asthma, Type 2 diabetes, kidney disease" {...field} />
+                    </FormControl>
+                    <FormDescription>Used to check AI-suggested medications for conditions they could worsen.</FormDescription>
+                    <FormMessage />
+                </FormItem>
+              )} />
+              {form.watch('gender') === 'Female' && (
+                <FormField control={form.control} name="pregnant" render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                          <FormLabel>Currently pregnant</FormLabel>
+                          <FormDescription>Medications that are unsafe in pregnancy will be flagged.</FormDescription>
+                      </div>
+                      <FormControl>
+                          <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                  </FormItem>
+                )} />
+              )}
               <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
                 {form.formState.isSubmitting ? 'Saving...' : buttonText}
               </Button>
@@ -122,6 +153,15 @@ export function ProfileManager() {
           </Form>
         </CardContent>
       </Card>
+      {user && !isInitialSetup && (
+        <>
+          <GuardianManager />
+          <HealthRecordTransfer />
+          <div className="w-full max-w-lg">
+            <ReferenceRangesEditor patientId={user.uid} />
+          </div>
+        </>
+      )}
     </div>
   );
 }
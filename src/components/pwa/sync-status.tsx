@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useState } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { CloudOff, RefreshCw, Loader2, AlertTriangle } from 'lucide-react';
+import { useSync } from '@/context/sync-provider';
+import { describeChanges } from '@/lib/entry-history';
+import { describeOperation, type PendingWrite } from '@/lib/offline-queue';
+import { SidebarMenuButton, SidebarMenuItem } from '../ui/sidebar';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+function ConflictDetail({ write }: { write: PendingWrite }) {
+  const { operation, conflict } = write;
+  if (operation.kind !== 'revise' || !conflict) return null;
+  if (conflict.remoteDeleted) {
+    return <p className="text-xs text-muted-foreground">This entry was deleted on another device.</p>;
+  }
+  const changes = describeChanges(operation.collection, conflict.remoteValues, operation.values ?? conflict.remoteValues);
+  return (
+    <div className="text-xs space-y-1">
+      <p className="text-muted-foreground">Changed on another device (now v{conflict.remoteRevision}).</p>
+      {changes.map(change => (
+        <p key={change.field}>{change.label}: theirs <span className="font-semibold">{change.before}</span>, yours <span className="font-semibold">{change.after}</span></p>
+      ))}
+    </div>
+  );
+}
+
+export function SyncStatus() {
+  const { pending, isOnline, isSyncing, syncNow, resolveConflict, retryWrite, discardWrite } = useSync();
+  const [open, setOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Nothing to say while online with everything synced.
+  if (isOnline && pending.length === 0) {
+    return null;
+  }
+
+  const needsAttention = pending.filter(write => write.status !== 'pending').length;
+  const label = !isOnline ? 'Offline' : needsAttention > 0 ? `${needsAttention} to review` : `${pending.length} pending sync`;
+
+  const act = async (write: PendingWrite, action: () => Promise<void>) => {
+    setBusyId(write.id);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Error settling queued change:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <SidebarMenuItem>
+      <SidebarMenuButton onClick={() => setOpen(true)} tooltip={label} icon={needsAttention > 0 ? <AlertTriangle className="text-orange-500" /> : <CloudOff />}>
+        {label}
+      </SidebarMenuButton>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Offline Changes</DialogTitle>
+            <DialogDescription>
+              {isOnline
+                ? 'Changes you made offline are saved to your account as soon as they can be.'
+                : 'You are offline. Changes are kept on this device and saved to your account when you reconnect.'}
+            </DialogDescription>
+          </DialogHeader>
+          {pending.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">Everything is synced.</p>
+          ) : (
+            <ScrollArea className="max-h-[50vh] pr-4">
+              <div className="space-y-3">
+                {pending.map(write => (
+                  <div key={write.id} className="p-3 rounded-md bg-secondary/50 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <p className="font-semibold text-sm">{describeOperation(write.operation)}</p>
+                        <p className="text-xs text-muted-foreground">Made {formatDistanceToNow(parseISO(write.queuedAt), { addSuffix: true })}</p>
+                      </div>
+                      <Badge variant={write.status === 'pending' ? 'secondary' : 'destructive'}>
+                        {write.status === 'pending' ? 'Pending' : write.status === 'conflict' ? 'Conflict' : 'Failed'}
+                      </Badge>
+                    </div>
+                    {write.status === 'conflict' && (
+                      <>
+                        <ConflictDetail write={write} />
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" disabled={busyId === write.id} onClick={() => act(write, () => resolveConflict(write, 'theirs'))}>Keep Theirs</Button>
+                          <Button size="sm" disabled={busyId === write.id} onClick={() => act(write, () => resolveConflict(write, 'mine'))}>Keep Mine</Button>
+                        </div>
+                      </>
+                    )}
+                    {write.status === 'failed' && (
+                      <>
+                        {write.error && <p className="text-xs text-destructive">{write.error}</p>}
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" disabled={busyId === write.id} onClick={() => act(write, () => discardWrite(write))}>Discard</Button>
+                          <Button size="sm" disabled={busyId === write.id || !isOnline} onClick={() => act(write, () => retryWrite(write))}>Retry</Button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+          <Button variant="outline" onClick={syncNow} disabled={!isOnline || isSyncing}>
+            {isSyncing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Sync Now
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </SidebarMenuItem>
+  );
+}
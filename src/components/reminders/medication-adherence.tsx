@@ -0,0 +1,65 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Progress } from '@/components/ui/progress';
+import { Pill } from 'lucide-react';
+import { computeAdherence, describeSchedule, prescribedMedications, type MedicationPlan } from '@/lib/medication-schedule';
+import { fetchMedicationPlans } from '@/lib/medication-schedule-store';
+
+type Medications = { name: string; dosage: string }[];
+
+/** Read-only adherence summary for the medications prescribed on a case, shown to the reviewing doctor. */
+export function MedicationAdherence({ caseId, doctorPlan, finalTreatmentPlan }: {
+    caseId: string;
+    doctorPlan?: { preliminaryMedications?: Medications };
+    finalTreatmentPlan?: { medications?: Medications };
+}) {
+    const [plans, setPlans] = useState<Record<string, MedicationPlan>>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const medications = prescribedMedications({ doctorPlan, finalTreatmentPlan });
+
+    useEffect(() => {
+        setIsLoading(true);
+        fetchMedicationPlans(caseId)
+            .then(setPlans)
+            .catch(error => console.error("Error fetching medication plans:", error))
+            .finally(() => setIsLoading(false));
+    }, [caseId]);
+
+    if (medications.length === 0) return null;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2"><Pill className="h-4 w-4" /> Medication Adherence</CardTitle>
+                <CardDescription>Doses the patient has marked as taken against the schedule they are following.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {isLoading ? <p className="text-sm text-muted-foreground">Loading adherence...</p> : medications.map(med => {
+                    const plan = plans[med.key];
+                    const adherence = plan ? computeAdherence(plan.schedule, plan.doses) : null;
+                    return (
+                        <div key={med.key} className="space-y-1 text-sm">
+                            <div className="flex justify-between gap-2">
+                                <span className="font-semibold">{med.name}</span>
+                                <span className="text-muted-foreground">
+                                    {!plan || plan.schedule.asNeeded || adherence?.percent === null
+                                        ? 'No doses due yet'
+                                        : `${adherence?.percent}% (${adherence?.taken}/${adherence?.due} taken, ${adherence?.missed} missed)`}
+                                </span>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                {plan ? `${describeSchedule(plan.schedule)}${plan.scheduleEdited ? ' · adjusted by patient' : ''}` : `Prescribed: ${med.dosage} · the patient hasn't opened this prescription yet`}
+                            </p>
+                            {plan && plan.dosage !== med.dosage && (
+                                <p className="text-xs text-orange-600">Schedule is based on the earlier dosage &quot;{plan.dosage}&quot;.</p>
+                            )}
+                            {adherence?.percent != null && !plan?.schedule.asNeeded && <Progress value={adherence.percent} />}
+                        </div>
+                    );
+                })}
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,34 +1,59 @@
 
 "use client";
 
-import React, { useState, useEffect } from 'react';
-import { format, parseISO } from 'date-fns';
+import React, { useState, useEffect, useMemo } from 'react';
+import { addDays, endOfDay, format, parseISO } from 'date-fns';
 
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { FileSpreadsheet } from "lucide-react";
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { FileSpreadsheet, AlertTriangle, CalendarClock } from "lucide-react";
 import { useAuth } from '@/context/auth-provider';
 import { db } from '@/lib/firebase';
 import { collection, getDocs, query, where } from 'firebase/firestore';
 import { useToast } from '@/hooks/use-toast';
+import {
+    computeAdherence,
+    courseStatus,
+    describeSchedule,
+    doseEvents,
+    prescribedMedications,
+    resolveMedicationPlan,
+    type DoseStatus,
+    type MedicationPlan,
+    type MedicationSchedule,
+} from '@/lib/medication-schedule';
+import { fetchMedicationPlans, recordDose, saveMedicationSchedule } from '@/lib/medication-schedule-store';
+import { RemindersList, type ScheduledDose } from './reminders-list';
+import { ScheduleEditor } from './schedule-editor';
 
-interface Medication {
-  name: string;
-  dosage: string;
+interface PrescribedPlan {
+    plan: MedicationPlan;
+    source: 'preliminary' | 'final';
+    recognised: boolean;
 }
 
 interface Prescription {
   caseId: string;
   createdAt: string; // ISO string of case creation
-  medications: Medication[];
+  medications: PrescribedPlan[];
 }
 
+const statusBadges = {
+    upcoming: { label: 'Starts soon', variant: 'outline' },
+    active: { label: 'Active', variant: 'default' },
+    completed: { label: 'Completed', variant: 'secondary' },
+} as const;
+
 export function PrescriptionsList() {
     const { user } = useAuth();
     const { toast } = useToast();
-    
+
     const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    const [editingKey, setEditingKey] = useState<string | null>(null);
 
     // Fetch all data
     useEffect(() => {
@@ -36,7 +61,7 @@ export function PrescriptionsList() {
             setIsLoading(false);
             return;
         }
-        
+
         const fetchData = async () => {
             setIsLoading(true);
             try {
@@ -44,24 +69,25 @@ export function PrescriptionsList() {
                 const investigationsCol = collection(db, 'investigations');
                 const qCases = query(investigationsCol, where('userId', '==', user.uid));
                 const casesSnap = await getDocs(qCases);
-                
-                const fetchedPrescriptions: Prescription[] = [];
-                casesSnap.forEach(doc => {
-                    const data = doc.data();
-                    const planMeds = data.doctorPlan?.preliminaryMedications || [];
-                    const finalMeds = data.finalTreatmentPlan?.medications || [];
 
-                    const combinedMeds = [...planMeds, ...finalMeds].filter(m => m.name && m.dosage);
+                const fetchedPrescriptions = await Promise.all(casesSnap.docs.map(async (doc): Promise<Prescription | null> => {
+                    const data = doc.data();
+                    const meds = prescribedMedications(data);
+                    if (meds.length === 0) return null;
 
-                    if (combinedMeds.length > 0) {
-                        fetchedPrescriptions.push({
-                            caseId: doc.id,
-                            createdAt: data.createdAt,
-                            medications: combinedMeds,
-                        });
-                    }
-                });
-                setPrescriptions(fetchedPrescriptions.sort((a,b) => parseISO(b.createdAt).getTime() - parseISO(a.createdAt).getTime()));
+                    const stored = await fetchMedicationPlans(doc.id);
+                    const prescribedAt = data.reviewedAt ?? data.createdAt;
+                    return {
+                        caseId: doc.id,
+                        createdAt: data.createdAt,
+                        medications: meds.map(med => ({ ...resolveMedicationPlan(user.uid, med, stored[med.key], prescribedAt), source: med.source })),
+                    };
+                }));
+                setPrescriptions(
+                    fetchedPrescriptions
+                        .filter((p): p is Prescription => p !== null)
+                        .sort((a,b) => parseISO(b.createdAt).getTime() - parseISO(a.createdAt).getTime())
+                );
 
             } catch (error) {
                 console.error("Error fetching data:", error);
@@ -74,9 +100,47 @@ export function PrescriptionsList() {
         fetchData();
 
     }, [user, toast]);
-    
+
+    const replacePlan = (caseId: string, plan: MedicationPlan) => {
+        setPrescriptions(prev => prev.map(p => p.caseId !== caseId ? p : {
+            ...p,
+            medications: p.medications.map(m => m.plan.key === plan.key ? { ...m, plan } : m),
+        }));
+    };
+
+    const todaysDoses = useMemo(() => {
+        // Include yesterday's late doses so they can still be recorded.
+        const now = new Date();
+        const from = addDays(now, -1);
+        const to = endOfDay(now);
+        return prescriptions
+            .flatMap(p => p.medications.flatMap(({ plan }) => doseEvents(plan.schedule, from, to).map((event): ScheduledDose => ({
+                caseId: p.caseId,
+                plan,
+                event,
+                record: plan.doses[event.id],
+            }))))
+            .sort((a, b) => a.event.scheduledAt.localeCompare(b.event.scheduledAt));
+    }, [prescriptions]);
+
+    const handleRecordDose = async (dose: ScheduledDose, status: DoseStatus) => {
+        try {
+            replacePlan(dose.caseId, await recordDose(dose.caseId, dose.plan, dose.event.id, status));
+        } catch (error) {
+            console.error("Error recording dose:", error);
+            toast({ variant: 'destructive', title: "Error", description: "Could not record this dose." });
+        }
+    };
+
+    const handleSaveSchedule = async (caseId: string, plan: MedicationPlan, schedule: MedicationSchedule) => {
+        replacePlan(caseId, await saveMedicationSchedule(caseId, plan, schedule));
+        setEditingKey(null);
+        toast({ title: "Schedule Updated", description: `Reminders for ${plan.name} now follow your schedule.` });
+    };
+
     return (
         <div className="space-y-6">
+            {!isLoading && <RemindersList doses={todaysDoses} onRecord={handleRecordDose} />}
             <Card>
                 <CardHeader>
                     <CardTitle className="flex items-center gap-3">
@@ -84,7 +148,7 @@ export function PrescriptionsList() {
                         <span className="text-2xl">My Prescriptions</span>
                     </CardTitle>
                     <CardDescription>
-                        View all medications prescribed from your clinic cases and their dosage plans.
+                        View all medications prescribed from your clinic cases, their dose schedules and how closely you have followed them.
                     </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -97,12 +161,52 @@ export function PrescriptionsList() {
                                     </AccordionTrigger>
                                     <AccordionContent className="space-y-4">
                                         <ul className="space-y-2">
-                                            {p.medications.map((med, index) => (
-                                                <li key={index} className="p-3 bg-secondary rounded-md">
-                                                    <p className="font-bold">{med.name}</p>
-                                                    <p className="text-sm text-muted-foreground">{med.dosage}</p>
-                                                </li>
-                                            ))}
+                                            {p.medications.map(({ plan, source, recognised }) => {
+                                                const status = courseStatus(plan.schedule);
+                                                const adherence = computeAdherence(plan.schedule, plan.doses);
+                                                const editorKey = `${p.caseId}-${plan.key}`;
+                                                return (
+                                                    <li key={plan.key} className="p-3 bg-secondary rounded-md space-y-3">
+                                                        <div className="flex items-start justify-between gap-2">
+                                                            <div>
+                                                                <p className="font-bold">{plan.name}</p>
+                                                                <p className="text-sm text-muted-foreground">{plan.dosage}</p>
+                                                                <p className="text-xs text-muted-foreground">{source === 'final' ? 'Final plan' : 'Initial plan'}</p>
+                                                            </div>
+                                                            <Badge variant={statusBadges[status].variant}>{statusBadges[status].label}</Badge>
+                                                        </div>
+                                                        <p className="text-sm flex items-center gap-2"><CalendarClock className="h-4 w-4" />{describeSchedule(plan.schedule)}</p>
+                                                        {!recognised && !plan.scheduleEdited && (
+                                                            <p className="text-sm text-orange-600 flex items-center gap-2">
+                                                                <AlertTriangle className="h-4 w-4" />
+                                                                We couldn&apos;t read how often to take this, so it defaults to once a day. Please check the schedule.
+                                                            </p>
+                                                        )}
+                                                        {!plan.schedule.asNeeded && (
+                                                            <div className="space-y-1">
+                                                                <div className="flex justify-between text-xs text-muted-foreground">
+                                                                    <span>Adherence</span>
+                                                                    <span>
+                                                                        {adherence.percent === null
+                                                                            ? 'No doses due yet'
+                                                                            : `${adherence.percent}% · ${adherence.taken} taken, ${adherence.skipped} skipped, ${adherence.missed} missed`}
+                                                                    </span>
+                                                                </div>
+                                                                <Progress value={adherence.percent ?? 0} />
+                                                            </div>
+                                                        )}
+                                                        {editingKey === editorKey ? (
+                                                            <ScheduleEditor
+                                                                schedule={plan.schedule}
+                                                                onSave={(schedule) => handleSaveSchedule(p.caseId, plan, schedule)}
+                                                                onCancel={() => setEditingKey(null)}
+                                                            />
+                                                        ) : (
+                                                            <Button variant="outline" size="sm" onClick={() => setEditingKey(editorKey)}>Adjust Schedule</Button>
+                                                        )}
+                                                    </li>
+                                                );
+                                            })}
                                         </ul>
                                     </AccordionContent>
                                 </AccordionItem>
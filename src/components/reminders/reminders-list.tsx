@@ -1,21 +1,108 @@
-
 "use client";
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { format, isPast, parseISO } from 'date-fns';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
-import { Pill } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Pill, Check, X, BellRing, Loader2 } from "lucide-react";
+import { useToast } from '@/hooks/use-toast';
+import type { DoseEvent, DoseRecord, DoseStatus, MedicationPlan } from '@/lib/medication-schedule';
+
+export interface ScheduledDose {
+    caseId: string;
+    plan: MedicationPlan;
+    event: DoseEvent;
+    record?: DoseRecord;
+}
+
+/** Today's doses across all of the patient's prescriptions, with reminders while the page is open. */
+export function RemindersList({ doses, onRecord }: {
+    doses: ScheduledDose[];
+    onRecord: (dose: ScheduledDose, status: DoseStatus) => Promise<void>;
+}) {
+    const { toast } = useToast();
+    const [savingId, setSavingId] = useState<string | null>(null);
+    const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+
+    useEffect(() => {
+        setPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+    }, []);
+
+    // Remind at the next dose that hasn't been recorded yet.
+    useEffect(() => {
+        const next = doses.find(dose => !dose.record && !isPast(parseISO(dose.event.scheduledAt)));
+        if (!next) return;
+        const timer = setTimeout(() => {
+            const message = `${next.plan.name}${next.plan.schedule.doseAmount ? `, ${next.plan.schedule.doseAmount}` : ''}`;
+            toast({ title: 'Time for your medication', description: message });
+            if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+                new Notification('Time for your medication', { body: message, tag: `${next.caseId}-${next.plan.key}-${next.event.id}` });
+            }
+        }, parseISO(next.event.scheduledAt).getTime() - Date.now());
+        return () => clearTimeout(timer);
+    }, [doses, toast]);
+
+    const enableNotifications = async () => {
+        setPermission(await Notification.requestPermission());
+    };
+
+    const record = async (dose: ScheduledDose, status: DoseStatus) => {
+        const id = `${dose.caseId}-${dose.plan.key}-${dose.event.id}`;
+        setSavingId(id);
+        try {
+            await onRecord(dose, status);
+        } finally {
+            setSavingId(null);
+        }
+    };
 
-export function RemindersList() {
     return (
         <Card>
-            <CardHeader>
-                <CardTitle className="flex items-center gap-2"><Pill /> Medications</CardTitle>
-                <CardDescription>This feature has been updated. Please see your prescriptions in the Clinic section.</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2"><Pill /> Today&apos;s Doses</CardTitle>
+                    <CardDescription>Mark each dose as taken or skipped so your doctor can follow how the treatment is going.</CardDescription>
+                </div>
+                {permission === 'default' && (
+                    <Button variant="outline" size="sm" onClick={enableNotifications}><BellRing className="mr-2 h-4 w-4" />Enable Reminders</Button>
+                )}
             </CardHeader>
             <CardContent>
-                <p className="text-muted-foreground">
-                    All prescribed medications and dosage plans are now listed within each specific case on the Clinic page for easier management.
-                </p>
+                {doses.length === 0 ? (
+                    <p className="text-muted-foreground text-center py-6">No doses scheduled for today.</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {doses.map(dose => {
+                            const id = `${dose.caseId}-${dose.plan.key}-${dose.event.id}`;
+                            const due = isPast(parseISO(dose.event.scheduledAt));
+                            return (
+                                <li key={id} className="flex items-center justify-between gap-2 p-3 rounded-md bg-secondary/50">
+                                    <div>
+                                        <p className="font-semibold">{dose.plan.name}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {format(parseISO(dose.event.scheduledAt), 'h:mm a')}
+                                            {dose.plan.schedule.doseAmount ? ` · ${dose.plan.schedule.doseAmount}` : ''}
+                                        </p>
+                                    </div>
+                                    {dose.record ? (
+                                        <Badge variant={dose.record.status === 'taken' ? 'default' : 'secondary'}>
+                                            {dose.record.status === 'taken' ? 'Taken' : 'Skipped'} {format(parseISO(dose.record.recordedAt), 'h:mm a')}
+                                        </Badge>
+                                    ) : savingId === id ? (
+                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                        <div className="flex items-center gap-2">
+                                            {due && <Badge variant="outline" className="border-orange-500 text-orange-500">Due</Badge>}
+                                            <Button size="sm" variant="ghost" onClick={() => record(dose, 'skipped')}><X className="mr-1 h-4 w-4" />Skip</Button>
+                                            <Button size="sm" onClick={() => record(dose, 'taken')}><Check className="mr-1 h-4 w-4" />Taken</Button>
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
             </CardContent>
         </Card>
     );
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { defaultDoseTimes, type MedicationSchedule } from '@/lib/medication-schedule';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const intervalOptions = [
+    { value: '1', label: 'Every day' },
+    { value: '2', label: 'Every other day' },
+    { value: '7', label: 'Once a week' },
+];
+
+export function ScheduleEditor({ schedule, onSave, onCancel }: {
+    schedule: MedicationSchedule;
+    onSave: (schedule: MedicationSchedule) => Promise<void>;
+    onCancel: () => void;
+}) {
+    const [draft, setDraft] = useState(schedule);
+    const [duration, setDuration] = useState(schedule.durationDays?.toString() ?? '');
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const setTimesPerDay = (value: string) => {
+        const timesPerDay = Number(value);
+        setDraft(prev => ({ ...prev, timesPerDay, doseTimes: defaultDoseTimes(timesPerDay) }));
+    };
+
+    const setDoseTime = (index: number, time: string) => {
+        setDraft(prev => ({ ...prev, doseTimes: prev.doseTimes.map((t, i) => i === index ? time : t) }));
+    };
+
+    const handleSave = async () => {
+        const durationDays = duration.trim() === '' ? null : Number(duration);
+        if (durationDays !== null && (!Number.isInteger(durationDays) || durationDays < 1)) {
+            setError('Duration must be a whole number of days, or left blank for an ongoing course.');
+            return;
+        }
+        if (!draft.startDate) {
+            setError('Choose a start date.');
+            return;
+        }
+        if (draft.doseTimes.some(time => !time)) {
+            setError('Set a time for every dose.');
+            return;
+        }
+        setError(null);
+        setIsSaving(true);
+        try {
+            await onSave({ ...draft, durationDays, doseTimes: [...draft.doseTimes].sort() });
+        } catch (e: any) {
+            setError(e.message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4 p-3 border rounded-md">
+            <div className="flex items-center gap-2">
+                <Switch id="as-needed" checked={draft.asNeeded} onCheckedChange={(asNeeded) => setDraft(prev => ({ ...prev, asNeeded }))} />
+                <Label htmlFor="as-needed">Only when needed</Label>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                    <Label>Start date</Label>
+                    <Input type="date" value={draft.startDate} onChange={(e) => setDraft(prev => ({ ...prev, startDate: e.target.value }))} />
+                </div>
+                <div className="space-y-1">
+                    <Label>Duration (days)</Label>
+                    <Input type="number" min={1} placeholder="Ongoing" value={duration} onChange={(e) => setDuration(e.target.value)} />
+                </div>
+                {!draft.asNeeded && (
+                    <>
+                        <div className="space-y-1">
+                            <Label>How often</Label>
+                            <Select value={String(draft.intervalDays)} onValueChange={(value) => setDraft(prev => ({ ...prev, intervalDays: Number(value) }))}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {intervalOptions.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label>Doses that day</Label>
+                            <Select value={String(draft.timesPerDay)} onValueChange={setTimesPerDay}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {Array.from(new Set([1, 2, 3, 4, 6, schedule.timesPerDay])).sort((a, b) => a - b).map(n => <SelectItem key={n} value={String(n)}>{n}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </>
+                )}
+            </div>
+            {!draft.asNeeded && (
+                <div className="space-y-1">
+                    <Label>Dose times</Label>
+                    <div className="flex flex-wrap gap-2">
+                        {draft.doseTimes.map((time, index) => (
+                            <Input key={index} type="time" value={time} onChange={(e) => setDoseTime(index, e.target.value)} className="w-28" />
+                        ))}
+                    </div>
+                </div>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+                <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                    {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save Schedule
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -19,6 +19,8 @@ import { generateMonthlyReport, type GenerateMonthlyReportOutput } from '@/ai/fl
 import { Badge } from '../ui/badge';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { fetchVitals } from '@/lib/vitals-store';
+import { fetchTestStrips } from '@/lib/test-strips-store';
 
 
 const months = Array.from({ length: 12 }, (_, i) => ({ value: i, label: format(new Date(0, i), 'MMMM') }));
@@ -62,27 +64,21 @@ export function HealthReport() {
 
             try {
                 // Fetch all historical data for context
-                const vitalsCol = collection(db, `${basePath}/vitals`);
-                const vitalsQuery = query(vitalsCol, orderBy('date', 'desc'), limit(500));
-                
-                const stripsCol = collection(db, `${basePath}/test_strips`);
-                const stripsQuery = query(stripsCol, orderBy('date', 'desc'), limit(500));
-
                 const analysesCol = collection(db, `${basePath}/health_analyses`);
                 const analysesQuery = query(analysesCol, orderBy('timestamp', 'desc'), limit(200));
                 
                 const alertsCol = collection(db, `${basePath}/alerts`);
                 const alertsQuery = query(alertsCol, orderBy('timestamp', 'desc'), limit(100));
                 
-                const [vitalsSnap, stripsSnap, analysesSnap, alertsSnap] = await Promise.all([
-                    getDocs(vitalsQuery),
-                    getDocs(stripsQuery),
+                const [vitalReadings, stripReadings, analysesSnap, alertsSnap] = await Promise.all([
+                    fetchVitals(user.uid, { limit: 500 }),
+                    fetchTestStrips(user.uid, { limit: 500 }),
                     getDocs(analysesQuery),
                     getDocs(alertsQuery),
                 ]);
 
-                const allVitals = vitalsSnap.docs.map(d => d.data());
-                const allStrips = stripsSnap.docs.map(d => d.data());
+                const allVitals = vitalReadings.map(({ id, ...reading }) => reading);
+                const allStrips = stripReadings.map(({ id, ...reading }) => reading);
                 const allAnalyses = analysesSnap.docs.map(d => d.data().analysisResult);
                 const allAlerts = alertsSnap.docs.map(d => d.data());
 
@@ -5,7 +5,7 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { answerSystemQuestion, type SystemSupportOutput } from '@/ai/flows/system-support-flow';
+import { useAiStream } from '@/hooks/use-ai-stream';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -13,7 +13,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
 import { Textarea } from '@/components/ui/textarea';
-import { Bot, LifeBuoy, Send, Loader2, User } from 'lucide-react';
+import { Bot, LifeBuoy, Send, Loader2, User, Square } from 'lucide-react';
 import { ScrollArea } from '../ui/scroll-area';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
 
@@ -31,6 +31,7 @@ type FormValues = z.infer<typeof formSchema>;
 export function SupportChat() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const supportStream = useAiStream('answerSystemQuestion');
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: { query: "" },
@@ -42,8 +43,9 @@ export function SupportChat() {
     setMessages(newMessages);
 
     try {
-      const result: SystemSupportOutput = await answerSystemQuestion({ query: data.query });
-      setMessages([...newMessages, { role: 'model', content: result.answer }]);
+      const result = await supportStream.start({ query: data.query }, text => setMessages([...newMessages, { role: 'model', content: text }]));
+      // A stopped answer keeps whatever had arrived.
+      if (result) setMessages([...newMessages, { role: 'model', content: result.answer }]);
       form.reset();
     } catch (error) {
       console.error("Support AI failed:", error);
@@ -88,7 +90,7 @@ export function SupportChat() {
                             {message.role === 'user' && <div className="flex-shrink-0 w-8 h-8 rounded-full bg-secondary text-secondary-foreground hidden sm:flex items-center justify-center"><User size={20}/></div>}
                         </div>
                     ))}
-                     {isLoading && (
+                     {isLoading && messages[messages.length - 1]?.role === 'user' && (
                         <div className="flex items-start gap-3">
                             <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/20 text-primary hidden sm:flex items-center justify-center"><Bot size={20}/></div>
                             <div className="max-w-2xl rounded-lg p-3 bg-secondary flex items-center">
@@ -118,7 +120,9 @@ export function SupportChat() {
                                 </FormItem>
                             )}
                             />
-                            <Button type="submit" disabled={isLoading} size="lg"><Send/></Button>
+                            {isLoading
+                                ? <Button type="button" variant="outline" size="lg" onClick={supportStream.cancel} aria-label="Stop"><Square/></Button>
+                                : <Button type="submit" size="lg"><Send/></Button>}
                         </form>
                     </Form>
                 </div>
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Save, Target } from 'lucide-react';
+
+import { useToast } from '@/hooks/use-toast';
+import { VITAL_DEFINITIONS, VITAL_FIELDS, type VitalField } from '@/lib/vitals';
+import { DEFAULT_REFERENCE_RANGES, formatRange, type ReferenceRange, type ReferenceRanges } from '@/lib/reference-ranges';
+import { fetchReferenceRanges, saveReferenceRange } from '@/lib/reference-ranges-store';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+
+type BoundKey = 'criticalLow' | 'low' | 'high' | 'criticalHigh';
+const boundColumns: { key: BoundKey; label: string }[] = [
+    { key: 'criticalLow', label: 'Critical Low' },
+    { key: 'low', label: 'Target Low' },
+    { key: 'high', label: 'Target High' },
+    { key: 'criticalHigh', label: 'Critical High' },
+];
+
+type DraftRanges = Record<VitalField, Record<BoundKey, string>>;
+
+const toDraft = (ranges: ReferenceRanges): DraftRanges => Object.fromEntries(
+    VITAL_FIELDS.map(field => [field, Object.fromEntries(boundColumns.map(({ key }) => [key, ranges[field][key]?.toString() ?? '']))])
+) as DraftRanges;
+
+interface ReferenceRangesEditorProps {
+    patientId: string;
+    /** When set, the ranges can be edited and are stamped with this editor. */
+    editor?: NonNullable<ReferenceRange['updatedBy']>;
+}
+
+export function ReferenceRangesEditor({ patientId, editor }: ReferenceRangesEditorProps) {
+    const { toast } = useToast();
+    const [ranges, setRanges] = useState<ReferenceRanges>(DEFAULT_REFERENCE_RANGES);
+    const [draft, setDraft] = useState<DraftRanges>(toDraft(DEFAULT_REFERENCE_RANGES));
+    const [isLoading, setIsLoading] = useState(true);
+    const [savingField, setSavingField] = useState<VitalField | null>(null);
+
+    useEffect(() => {
+        setIsLoading(true);
+        fetchReferenceRanges(patientId)
+            .then(fetched => {
+                setRanges(fetched);
+                setDraft(toDraft(fetched));
+            })
+            .catch(error => {
+                console.error("Error fetching reference ranges:", error);
+                toast({ variant: 'destructive', title: 'Error', description: 'Could not load target ranges.' });
+            })
+            .finally(() => setIsLoading(false));
+    }, [patientId, toast]);
+
+    const handleSave = async (field: VitalField) => {
+        if (!editor) return;
+        const parsed = Object.fromEntries(
+            boundColumns.map(({ key }) => [key, draft[field][key].trim() === '' ? undefined : parseFloat(draft[field][key])])
+        ) as Pick<ReferenceRange, BoundKey>;
+
+        setSavingField(field);
+        try {
+            const saved = await saveReferenceRange(patientId, field, parsed, editor);
+            setRanges(prev => ({ ...prev, [field]: saved }));
+            toast({ title: 'Range Updated', description: `${VITAL_DEFINITIONS[field].label} target range saved.` });
+        } catch (error: any) {
+            toast({ variant: 'destructive', title: 'Invalid Range', description: error.message });
+        } finally {
+            setSavingField(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2"><Target/>Vital Target Ranges</CardTitle>
+                <CardDescription>
+                    {editor ? 'Readings outside these ranges raise an alert for the patient.' : 'Readings outside these ranges raise an alert. Only your doctor can change them.'}
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? <Loader2 className="mx-auto w-8 h-8 animate-spin text-primary" /> : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Vital</TableHead>
+                                {editor ? boundColumns.map(col => <TableHead key={col.key}>{col.label}</TableHead>) : <TableHead>Target</TableHead>}
+                                {editor && <TableHead />}
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {VITAL_FIELDS.map(field => (
+                                <TableRow key={field}>
+                                    <TableCell>
+                                        <p className="font-semibold">{VITAL_DEFINITIONS[field].label}</p>
+                                        <p className="text-xs text-muted-foreground">{VITAL_DEFINITIONS[field].canonicalUnit}</p>
+                                        {ranges[field].updatedBy && ranges[field].updatedAt && (
+                                            <p className="text-xs text-muted-foreground">Set by {ranges[field].updatedBy!.name} on {format(parseISO(ranges[field].updatedAt!), 'MMM d, yyyy')}</p>
+                                        )}
+                                    </TableCell>
+                                    {editor ? boundColumns.map(({ key }) => (
+                                        <TableCell key={key}>
+                                            <Input
+                                                type="number"
+                                                step="0.1"
+                                                className="w-24"
+                                                value={draft[field][key]}
+                                                onChange={(e) => setDraft(prev => ({ ...prev, [field]: { ...prev[field], [key]: e.target.value } }))}
+                                            />
+                                        </TableCell>
+                                    )) : <TableCell>{formatRange(field, ranges[field])}</TableCell>}
+                                    {editor && (
+                                        <TableCell>
+                                            <Button size="icon" variant="ghost" onClick={() => handleSave(field)} disabled={savingField === field}>
+                                                {savingField === field ? <Loader2 className="h-4 w-4 animate-spin"/> : <Save className="h-4 w-4"/>}
+                                            </Button>
+                                        </TableCell>
+                                    )}
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
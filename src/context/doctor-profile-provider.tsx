@@ -6,12 +6,11 @@ import { useAuth } from '@/context/auth-provider';
 import { db, auth } from '@/lib/firebase';
 import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
 import { updateProfile as updateAuthProfile } from 'firebase/auth';
+import type { DoctorProfile } from '@/lib/doctor-directory';
+import { profileVerification } from '@/lib/doctor-verification';
+import { fetchVerification } from '@/lib/doctor-verification-store';
 
-
-export interface DoctorProfile {
-  name: string;
-  specialty: string;
-}
+export type { DoctorProfile };
 
 interface DoctorProfileContextType {
   profile: DoctorProfile | null;
@@ -62,9 +61,13 @@ export function DoctorProfileProvider({ children }: { children: React.ReactNode
         await updateAuthProfile(auth.currentUser, { displayName: data.name });
     }
 
+    // A doctor verified before they filled in a profile carries the status over
+    const verification = await fetchVerification(user.uid);
+    const profileData = verification ? { ...data, verification: profileVerification(verification) } : data;
+
     const profileDocRef = doc(db, 'doctor_profiles', user.uid);
-    await setDoc(profileDocRef, data);
-    setProfile(data);
+    await setDoc(profileDocRef, profileData);
+    setProfile(profileData);
   }, [user]);
 
   const updateProfile = useCallback(async (data: Partial<DoctorProfile>) => {
@@ -19,6 +19,9 @@ export interface Profile {
   role: 'patient'; // Only patient role for now
   username: string; // From Pi
   uid: string; // From Pi
+  autoSosOnCriticalVitals?: boolean; // Send an SOS to guardians when a critical reading is logged
+  pregnant?: boolean; // Checked by the AI safety guardrails, with the conditions below
+  knownConditions?: string; // Free text, e.g. "Type 2 diabetes, asthma"
 }
 
 interface ProfileContextType {
@@ -15,6 +15,7 @@ export interface FeatureFlags {
 export interface SignupControls {
   isPatientSignupDisabled: boolean;
   isDoctorSignupDisabled: boolean;
+  isNurseSignupDisabled: boolean;
   isAdminSignupDisabled: boolean;
 }
 
@@ -40,6 +41,7 @@ const defaultSettings: SystemSettings = {
     signupControls: {
         isPatientSignupDisabled: false,
         isDoctorSignupDisabled: false,
+        isNurseSignupDisabled: false,
         isAdminSignupDisabled: true,
     }
 }
@@ -0,0 +1,113 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/auth-provider';
+import { useToast } from '@/hooks/use-toast';
+import { REPLAY_MESSAGE, type PendingWrite } from '@/lib/offline-queue';
+import { listPendingWrites, subscribeToQueue } from '@/lib/offline-queue-store';
+import { discardWrite, replayPendingWrites, resolveConflict, retryWrite } from '@/lib/sync-store';
+
+interface SyncContextType {
+  /** The user's queued writes, including conflicts and failures awaiting action. */
+  pending: PendingWrite[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  /** Set after a replay saves anything, so views holding server data know to reload it. */
+  lastSyncedAt: string | null;
+  syncNow: () => Promise<void>;
+  resolveConflict: (write: PendingWrite, resolution: 'mine' | 'theirs') => Promise<void>;
+  retryWrite: (write: PendingWrite) => Promise<void>;
+  discardWrite: (write: PendingWrite) => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | null>(null);
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [pending, setPending] = useState<PendingWrite[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+
+  const uid = user?.uid;
+
+  const syncNow = useCallback(async () => {
+    if (!uid || !navigator.onLine) return;
+    setIsSyncing(true);
+    try {
+      const result = await replayPendingWrites(uid);
+      if (result.synced > 0) setLastSyncedAt(new Date().toISOString());
+      if (result.conflicts > 0) {
+        toast({ variant: 'destructive', title: 'Sync Conflict', description: 'Some offline changes clash with edits made on another device. Review them from the sync status in the menu.' });
+      } else if (result.failed > 0) {
+        toast({ variant: 'destructive', title: 'Sync Failed', description: 'Some offline changes could not be saved. Review them from the sync status in the menu.' });
+      } else if (result.synced > 0) {
+        toast({ title: 'Changes Synced', description: `${result.synced} change${result.synced === 1 ? '' : 's'} made offline ${result.synced === 1 ? 'has' : 'have'} been saved.` });
+      }
+    } catch (error) {
+      console.error("Error replaying offline changes:", error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [uid, toast]);
+
+  useEffect(() => {
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.register('/sw.js').catch(error => console.error("Error registering service worker:", error));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!uid) {
+      setPending([]);
+      return;
+    }
+    const load = () => listPendingWrites(uid).then(setPending).catch(error => console.error("Error reading offline queue:", error));
+    load();
+    return subscribeToQueue(load);
+  }, [uid]);
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === REPLAY_MESSAGE) syncNow();
+    };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+    // Drain anything left over from a previous session.
+    syncNow();
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, [syncNow]);
+
+  const value = {
+    pending,
+    isOnline,
+    isSyncing,
+    lastSyncedAt,
+    syncNow,
+    resolveConflict,
+    retryWrite,
+    discardWrite,
+  };
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+}
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { readAiStream, type StreamingFlow, type StreamingFlows } from '@/lib/ai-stream';
+
+export interface AiStream<F extends StreamingFlow> {
+  /** Streams a response into `onText`. Resolves with the full result, or null if it was cancelled. */
+  start: (input: StreamingFlows[F]['input'], onText: (text: string) => void) => Promise<StreamingFlows[F]['output'] | null>;
+  cancel: () => void;
+}
+
+/** One streamed response at a time from a chat flow. Starting another, or unmounting, cancels the last. */
+export function useAiStream<F extends StreamingFlow>(flow: F): AiStream<F> {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = useCallback(async (input: StreamingFlows[F]['input'], onText: (text: string) => void) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    try {
+      return await readAiStream(flow, input, { onText, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) return null;
+      throw error;
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, [flow]);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  return { start, cancel };
+}
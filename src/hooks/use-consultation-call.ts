@@ -0,0 +1,220 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ICE_SERVERS, isHost, type ConsultationRoom } from '@/lib/consultation-rooms';
+import { endConsultation, startConsultation } from '@/lib/consultation-rooms-store';
+import { createSignallingTransport, isFor, type Signal, type SignalPeer, type SignallingTransport } from '@/lib/signalling';
+
+export type CallPhase = 'idle' | 'waiting' | 'connecting' | 'connected' | 'ended';
+
+export interface ConsultationCallResult {
+  phase: CallPhase;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  /** Guests in the waiting room; only the host sees any. */
+  waitingGuests: SignalPeer[];
+  isMuted: boolean;
+  isCameraOff: boolean;
+  error: string | null;
+  join: () => Promise<void>;
+  admit: (guest: SignalPeer) => void;
+  hangUp: () => Promise<void>;
+  toggleMute: () => void;
+  toggleCamera: () => void;
+}
+
+/**
+ * One side of a consultation. The doctor hosts and makes the offer once they admit the
+ * patient; the patient announces themselves and waits. When the host hangs up the room is
+ * ended and logged on the case; when the guest hangs up the host returns to waiting.
+ *
+ * Signals aren't authenticated, so each side only negotiates with the peer it expects: the
+ * host with the guest it admitted, the guest with the room's doctor.
+ */
+export function useConsultationCall(room: ConsultationRoom | null, self: SignalPeer | null): ConsultationCallResult {
+  const [phase, setPhase] = useState<CallPhase>('idle');
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [waitingGuests, setWaitingGuests] = useState<SignalPeer[]>([]);
+  const [isMuted, setIsMuted] = useState(false);
+  const [isCameraOff, setIsCameraOff] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const transportRef = useRef<SignallingTransport | null>(null);
+  const peerRef = useRef<RTCPeerConnection | null>(null);
+  const localRef = useRef<MediaStream | null>(null);
+  const pendingIceRef = useRef<RTCIceCandidateInit[]>([]);
+  const admittedRef = useRef<string | null>(null);
+
+  const closePeer = useCallback(() => {
+    peerRef.current?.close();
+    peerRef.current = null;
+    pendingIceRef.current = [];
+    setRemoteStream(null);
+  }, []);
+
+  const leave = useCallback(() => {
+    closePeer();
+    localRef.current?.getTracks().forEach(track => track.stop());
+    localRef.current = null;
+    setLocalStream(null);
+    transportRef.current?.close();
+    transportRef.current = null;
+  }, [closePeer]);
+
+  const join = useCallback(async () => {
+    if (!room || !self || transportRef.current) return;
+    const hosting = isHost(room, self.uid);
+    setError(null);
+
+    const send = (type: Signal['type'], to?: string, payload?: any) => {
+      transportRef.current?.send({ type, roomId: room.id, from: self, to, payload });
+    };
+
+    const flushIce = async (peer: RTCPeerConnection) => {
+      for (const candidate of pendingIceRef.current) await peer.addIceCandidate(candidate);
+      pendingIceRef.current = [];
+    };
+
+    const createPeer = (remoteUid: string) => {
+      closePeer();
+      const peer = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+      localRef.current?.getTracks().forEach(track => peer.addTrack(track, localRef.current!));
+      peer.onicecandidate = (event) => {
+        if (event.candidate) send('ice', remoteUid, event.candidate.toJSON());
+      };
+      peer.ontrack = (event) => setRemoteStream(event.streams[0] ?? null);
+      peer.onconnectionstatechange = () => {
+        if (peer.connectionState === 'connected') {
+          setPhase('connected');
+          if (hosting) startConsultation(room.id).catch(e => console.error('Error starting consultation:', e));
+        } else if (peer.connectionState === 'failed') {
+          setError('The connection was lost. Check your network and rejoin.');
+        }
+      };
+      peerRef.current = peer;
+      return peer;
+    };
+
+    const handleSignal = async (signal: Signal) => {
+      if (!isFor(signal, self.uid)) return;
+      // Hellos and byes come from whoever is in the room; the call itself only from the expected peer
+      const fromPeer = signal.from.uid === (hosting ? admittedRef.current : room.doctorUid);
+      if (!fromPeer && signal.type !== 'hello' && signal.type !== 'bye') return;
+      try {
+        switch (signal.type) {
+          case 'hello':
+            if (hosting) {
+              if (signal.from.uid !== room.patientId) break;
+              setWaitingGuests(prev => prev.some(g => g.uid === signal.from.uid) ? prev : [...prev, signal.from]);
+            } else if (signal.from.uid === room.doctorUid) {
+              // The host arrived after us; let them know we are waiting
+              send('hello', signal.from.uid);
+            }
+            break;
+          case 'admit':
+            if (hosting) break;
+            setPhase('connecting');
+            createPeer(signal.from.uid);
+            send('ready', signal.from.uid);
+            break;
+          case 'ready': {
+            if (!hosting) break;
+            const peer = createPeer(signal.from.uid);
+            const offer = await peer.createOffer();
+            await peer.setLocalDescription(offer);
+            send('offer', signal.from.uid, offer);
+            break;
+          }
+          case 'offer': {
+            if (hosting) break;
+            const peer = peerRef.current ?? createPeer(signal.from.uid);
+            await peer.setRemoteDescription(signal.payload);
+            await flushIce(peer);
+            const answer = await peer.createAnswer();
+            await peer.setLocalDescription(answer);
+            send('answer', signal.from.uid, answer);
+            break;
+          }
+          case 'answer':
+            if (peerRef.current) {
+              await peerRef.current.setRemoteDescription(signal.payload);
+              await flushIce(peerRef.current);
+            }
+            break;
+          case 'ice':
+            if (peerRef.current?.remoteDescription) {
+              await peerRef.current.addIceCandidate(signal.payload);
+            } else {
+              pendingIceRef.current.push(signal.payload);
+            }
+            break;
+          case 'bye':
+            if (hosting) {
+              setWaitingGuests(prev => prev.filter(g => g.uid !== signal.from.uid));
+              if (!fromPeer) break;
+              admittedRef.current = null;
+              closePeer();
+              setPhase('waiting');
+            } else if (fromPeer) {
+              leave();
+              setPhase('ended');
+            }
+            break;
+        }
+      } catch (e) {
+        console.error(`Error handling ${signal.type} signal:`, e);
+        setError('Something went wrong setting up the call.');
+      }
+    };
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+      localRef.current = stream;
+      setLocalStream(stream);
+      const transport = createSignallingTransport();
+      await transport.connect(room.id, handleSignal);
+      transportRef.current = transport;
+      setPhase('waiting');
+      send('hello');
+    } catch (e: any) {
+      console.error('Error joining consultation:', e);
+      leave();
+      setError(e?.name === 'NotAllowedError' ? 'Allow camera and microphone access to join.' : e?.message || 'Could not join the consultation.');
+    }
+  }, [room, self, closePeer, leave]);
+
+  const admit = useCallback((guest: SignalPeer) => {
+    if (!room || !self) return;
+    admittedRef.current = guest.uid;
+    setWaitingGuests(prev => prev.filter(g => g.uid !== guest.uid));
+    setPhase('connecting');
+    transportRef.current?.send({ type: 'admit', roomId: room.id, from: self, to: guest.uid });
+  }, [room, self]);
+
+  const hangUp = useCallback(async () => {
+    if (!room || !self) return;
+    transportRef.current?.send({ type: 'bye', roomId: room.id, from: self });
+    leave();
+    setPhase('ended');
+    if (isHost(room, self.uid)) await endConsultation(room.id, self.uid);
+  }, [room, self, leave]);
+
+  const toggleMute = useCallback(() => {
+    localRef.current?.getAudioTracks().forEach(track => { track.enabled = isMuted; });
+    setIsMuted(!isMuted);
+  }, [isMuted]);
+
+  const toggleCamera = useCallback(() => {
+    localRef.current?.getVideoTracks().forEach(track => { track.enabled = isCameraOff; });
+    setIsCameraOff(!isCameraOff);
+  }, [isCameraOff]);
+
+  // Leaving the page drops out of the room without ending it
+  useEffect(() => () => {
+    if (room && self) transportRef.current?.send({ type: 'bye', roomId: room.id, from: self });
+    leave();
+  }, [room, self, leave]);
+
+  return { phase, localStream, remoteStream, waitingGuests, isMuted, isCameraOff, error, join, admit, hangUp, toggleMute, toggleCamera };
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import type { DoctorVerification, VerificationStatus } from '@/lib/doctor-verification';
+
+export interface DoctorVerificationResult {
+  verification: DoctorVerification | null;
+  status: VerificationStatus;
+  loading: boolean;
+}
+
+/** The signed-in doctor's application, kept live so an admin's decision shows without a reload. */
+export function useDoctorVerification(doctorUid: string | undefined): DoctorVerificationResult {
+  const [verification, setVerification] = useState<DoctorVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!doctorUid) {
+      setVerification(null);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    const unsubscribe = onSnapshot(doc(db, 'doctor_verifications', doctorUid), snapshot => {
+      setVerification(snapshot.exists() ? snapshot.data() as DoctorVerification : null);
+      setLoading(false);
+    }, error => {
+      console.error("Error loading verification:", error);
+      setLoading(false);
+    });
+    return unsubscribe;
+  }, [doctorUid]);
+
+  return { verification, status: verification?.status ?? 'unsubmitted', loading };
+}
@@ -0,0 +1,71 @@
+import type { StreamEvent } from '@/ai/streaming';
+import type { WithProvenance } from '@/ai/provenance';
+import type { ConductInterviewInput, ConductInterviewOutput } from '@/ai/flows/conduct-interview-flow';
+import type { AskLifelineInput, AskLifelineOutput } from '@/ai/flows/lifeline-ai-flow';
+import type { SystemSupportInput, SystemSupportOutput } from '@/ai/flows/system-support-flow';
+
+/** The chat flows that can stream, with what each takes and finally returns. */
+export interface StreamingFlows {
+  conductInterview: { input: ConductInterviewInput; output: WithProvenance<ConductInterviewOutput> };
+  askLifeline: { input: AskLifelineInput; output: WithProvenance<AskLifelineOutput> };
+  answerSystemQuestion: { input: SystemSupportInput; output: WithProvenance<SystemSupportOutput> };
+}
+export type StreamingFlow = keyof StreamingFlows;
+
+export const STREAMING_FLOW_ROUTES: Record<StreamingFlow, string> = {
+  conductInterview: '/api/ai/conduct-interview',
+  askLifeline: '/api/ai/lifeline',
+  answerSystemQuestion: '/api/ai/system-support',
+};
+
+export class AiStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiStreamError';
+  }
+}
+
+export interface ReadAiStreamOptions {
+  /** Called with everything generated so far, each time it grows. */
+  onText: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs a flow through its streaming route and resolves with the flow's full result once the
+ * stream ends. Aborting the signal closes the request: the server stops relaying and drops the
+ * result, though the model call it already made runs to completion.
+ */
+export async function readAiStream<F extends StreamingFlow>(
+  flow: F,
+  input: StreamingFlows[F]['input'],
+  { onText, signal }: ReadAiStreamOptions,
+): Promise<StreamingFlows[F]['output']> {
+  const response = await fetch(STREAMING_FLOW_ROUTES[flow], {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new AiStreamError(`The ${flow} stream failed to start (${response.status}).`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as StreamEvent<StreamingFlows[F]['output']>;
+      if ('error' in event) throw new AiStreamError(event.error);
+      if ('result' in event) return event.result;
+      onText(event.text);
+    }
+  }
+  throw new AiStreamError(`The ${flow} stream ended without a result.`);
+}
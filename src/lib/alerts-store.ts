@@ -0,0 +1,80 @@
+import { db } from '@/lib/firebase';
+import { collection, addDoc, getDoc, getDocs, query, orderBy, limit as limitTo, doc, setDoc, updateDoc } from 'firebase/firestore';
+import { normalizeVitalsDoc, type VitalsReading } from '@/lib/vitals';
+import { currentRevision, isDeleted } from '@/lib/entry-history';
+import { evaluateVitals } from '@/lib/reference-ranges';
+import { fetchReferenceRanges } from '@/lib/reference-ranges-store';
+import { buildVitalsRangeAlert, isCurrentReading, type HealthAlert } from '@/lib/alerts';
+import { isOfflineError } from '@/lib/offline-queue';
+import { enqueueWrite, withWriteTimeout } from '@/lib/offline-queue-store';
+
+const alertsCollection = (uid: string) => collection(db, `users/${uid}/alerts`);
+
+export async function addAlert<T extends Omit<HealthAlert, 'id'>>(uid: string, alert: T): Promise<T & { id: string }> {
+  const docRef = await addDoc(alertsCollection(uid), alert);
+  return { ...alert, id: docRef.id };
+}
+
+export async function fetchAlerts(uid: string, options: { limit?: number; unacknowledgedOnly?: boolean } = {}): Promise<HealthAlert[]> {
+  const snapshot = await getDocs(query(alertsCollection(uid), orderBy('timestamp', 'desc'), limitTo(options.limit ?? 50)));
+  const alerts = snapshot.docs.map(d => ({ id: d.id, ...d.data() } as HealthAlert));
+  return options.unacknowledgedOnly ? alerts.filter(a => !a.acknowledged) : alerts;
+}
+
+export async function acknowledgeAlert(uid: string, alertId: string): Promise<void> {
+  await updateDoc(doc(db, `users/${uid}/alerts`, alertId), { acknowledged: true, acknowledgedAt: new Date().toISOString() });
+}
+
+/** One alert per revision of a reading, so checking it again after a retry doesn't raise it twice. */
+const vitalsAlertId = (reading: VitalsReading) => `vitals_${reading.id}_${currentRevision(reading)}`;
+
+/**
+ * Checks a saved reading against the user's reference ranges and records an alert
+ * if anything is out of range. Returns the alert, or null if the reading is fine.
+ */
+export async function raiseVitalsAlerts(uid: string, reading: VitalsReading): Promise<HealthAlert | null> {
+  const ranges = await fetchReferenceRanges(uid);
+  const alert = buildVitalsRangeAlert(reading.id, evaluateVitals(reading, ranges));
+  if (!alert) return null;
+  const id = vitalsAlertId(reading);
+  await setDoc(doc(alertsCollection(uid), id), alert);
+  return { ...alert, id };
+}
+
+/**
+ * Raises the alert for one revision of a stored reading, reading it first unless it is
+ * given. Readings that are deleted, edited since or too old to be current are skipped.
+ */
+export async function checkVitals(uid: string, entryId: string, revision: number, reading?: VitalsReading): Promise<HealthAlert | null> {
+  if (!reading) {
+    const snapshot = await getDoc(doc(db, `users/${uid}/vitals`, entryId));
+    if (!snapshot.exists()) return null;
+    reading = normalizeVitalsDoc(snapshot.id, snapshot.data());
+  }
+  if (isDeleted(reading) || currentRevision(reading) !== revision || !isCurrentReading(reading.date)) return null;
+  return raiseVitalsAlerts(uid, reading);
+}
+
+/**
+ * Checks a reading once it has been saved. If the check can't run now it is queued with the
+ * user's other offline writes, so a failure is retried and shown like theirs rather than lost.
+ */
+export async function checkVitalsOrQueue(uid: string, entryId: string, revision: number, reading?: VitalsReading): Promise<HealthAlert | null> {
+  const online = typeof navigator === 'undefined' || navigator.onLine;
+  if (online) {
+    try {
+      return await withWriteTimeout(checkVitals(uid, entryId, revision, reading));
+    } catch (error) {
+      if (!isOfflineError(error)) console.error("Error checking reading against reference ranges:", error);
+    }
+  }
+  await enqueueWrite(uid, { kind: 'check_vitals', path: `users/${uid}/vitals`, docId: entryId, revision });
+  return null;
+}
+
+/** Checks newly saved readings, skipping the ones too old to be current. Returns the alerts raised. */
+export async function checkNewVitalsOrQueue(uid: string, readings: VitalsReading[]): Promise<HealthAlert[]> {
+  const current = readings.filter(reading => isCurrentReading(reading.date));
+  const alerts = await Promise.all(current.map(reading => checkVitalsOrQueue(uid, reading.id, currentRevision(reading), reading)));
+  return alerts.filter((alert): alert is HealthAlert => alert !== null);
+}
@@ -0,0 +1,122 @@
+import { VITAL_DEFINITIONS } from '@/lib/vitals';
+import { highestSeverity, type RangeBreach, type RangeSeverity } from '@/lib/reference-ranges';
+import type { NotificationResult } from '@/lib/notifier';
+
+/**
+ * Documents in `users/{uid}/alerts`. The monthly report reads this collection
+ * ordered by `timestamp`, so every alert type must carry one.
+ */
+
+export type AlertSeverity = RangeSeverity;
+
+export interface AlertEntryLink {
+  collection: 'vitals' | 'test_strips';
+  id: string;
+  href: string;
+}
+
+export interface VitalsRangeAlert {
+  id: string;
+  type: 'vitals_out_of_range';
+  timestamp: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  triggers: RangeBreach[];
+  entry: AlertEntryLink;
+  acknowledged: boolean;
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+export interface SosAlert {
+  id: string;
+  type: 'sos';
+  timestamp: string;
+  severity: 'Critical';
+  title: string;
+  message: string;
+  /** `critical_vitals` alerts are raised automatically from a critical reading. */
+  trigger: 'manual' | 'critical_vitals';
+  location: GeoLocation | null;
+  entry?: AlertEntryLink;
+  /** One result per guardian and channel, filled in once dispatch completes. */
+  dispatches: NotificationResult[];
+  acknowledged: boolean;
+}
+
+export type HealthAlert = VitalsRangeAlert | SosAlert;
+
+export function entryLink(collection: AlertEntryLink['collection'], id: string): AlertEntryLink {
+  return { collection, id, href: `/log?entry=${id}` };
+}
+
+export function describeBreach(breach: RangeBreach): string {
+  const { label } = VITAL_DEFINITIONS[breach.field];
+  return `${label} ${breach.value} ${breach.unit} is ${breach.direction === 'low' ? 'below' : 'above'} your target`;
+}
+
+/** Only readings from the last day say anything about how the user is doing now; older ones are history. */
+export const CURRENT_READING_HOURS = 24;
+
+export function isCurrentReading(date: string, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(date).getTime() < CURRENT_READING_HOURS * 60 * 60 * 1000;
+}
+
+/** Builds the alert for a reading, or null when every value is within range. */
+export function buildVitalsRangeAlert(entryId: string, breaches: RangeBreach[]): Omit<VitalsRangeAlert, 'id'> | null {
+  const severity = highestSeverity(breaches);
+  if (!severity) return null;
+  return {
+    type: 'vitals_out_of_range',
+    timestamp: new Date().toISOString(),
+    severity,
+    title: severity === 'Critical' ? 'Critical reading logged' : 'Reading outside your target range',
+    message: breaches.map(describeBreach).join('; ') + '.',
+    triggers: breaches,
+    entry: entryLink('vitals', entryId),
+    acknowledged: false,
+  };
+}
+
+export function mapsLink(location: GeoLocation): string {
+  return `https://maps.google.com/?q=${location.latitude},${location.longitude}`;
+}
+
+export function buildSosAlert(
+  trigger: SosAlert['trigger'],
+  location: GeoLocation | null,
+  options: { entry?: AlertEntryLink; reason?: string } = {},
+): Omit<SosAlert, 'id'> {
+  const reason = options.reason ?? (trigger === 'manual' ? 'SOS button pressed.' : 'A critical vital reading was logged.');
+  const alert: Omit<SosAlert, 'id'> = {
+    type: 'sos',
+    timestamp: new Date().toISOString(),
+    severity: 'Critical',
+    title: trigger === 'manual' ? 'SOS alert sent' : 'Automatic SOS: critical reading',
+    message: reason,
+    trigger,
+    location,
+    dispatches: [],
+    acknowledged: false,
+  };
+  // Firestore rejects undefined fields, so only attach the entry link when there is one.
+  if (options.entry) alert.entry = options.entry;
+  return alert;
+}
+
+/** The text guardians receive for an SOS alert. */
+export function composeSosMessage(alert: Omit<SosAlert, 'id'>, patientName: string, patientPhone?: string): { subject: string; body: string } {
+  const lines = [
+    `${patientName} has triggered an emergency alert on Lifeline.`,
+    `Reason: ${alert.message}`,
+    alert.location ? `Location: ${mapsLink(alert.location)}` : 'Location: unavailable',
+  ];
+  if (patientPhone) lines.push(`Call them: ${patientPhone}`);
+  lines.push(`Sent: ${new Date(alert.timestamp).toUTCString()}`);
+  return { subject: `Emergency alert from ${patientName}`, body: lines.join('\n') };
+}
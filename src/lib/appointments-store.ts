@@ -0,0 +1,213 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDoc, getDocs, query, runTransaction, setDoc, where, type Transaction } from 'firebase/firestore';
+import {
+  AppointmentError,
+  DEFAULT_AVAILABILITY,
+  bookingDates,
+  bookingDayId,
+  changeBlocker,
+  openSlots,
+  overlaps,
+  rescheduleBlocker,
+  slotBlocker,
+  validateAvailability,
+  zonedDate,
+  type Appointment,
+  type BookedSlot,
+  type BookingDay,
+  type DoctorAvailability,
+  type Slot,
+} from '@/lib/appointments';
+import { postSystemMessage } from '@/lib/case-messages-store';
+
+/**
+ * Availability lives on `doctor_profiles/{uid}.availability`, appointments in `appointments/{id}`
+ * and taken slots in `doctor_bookings/{doctorUid}_{date}`. Booking, cancelling and rescheduling
+ * all re-read the bookings day in a transaction, so two patients can't take the same slot.
+ */
+
+interface Participant {
+  uid: string;
+  name: string;
+}
+
+const appointmentsRef = collection(db, 'appointments');
+const appointmentRef = (id: string) => doc(db, 'appointments', id);
+const bookingDayRef = (doctorUid: string, date: string) => doc(db, 'doctor_bookings', bookingDayId(doctorUid, date));
+
+/** The doctor's availability, or the default hours if they haven't set any. */
+export async function fetchDoctorAvailability(doctorUid: string): Promise<DoctorAvailability> {
+  const snapshot = await getDoc(doc(db, 'doctor_profiles', doctorUid));
+  return (snapshot.data()?.availability as DoctorAvailability | undefined) ?? DEFAULT_AVAILABILITY;
+}
+
+export async function saveDoctorAvailability(doctorUid: string, availability: DoctorAvailability): Promise<void> {
+  const error = validateAvailability(availability);
+  if (error) throw new AppointmentError(error, 'invalid_availability');
+  await setDoc(doc(db, 'doctor_profiles', doctorUid), { availability }, { merge: true });
+}
+
+/** Open slots over the next few days, skipping those already booked. */
+export async function fetchOpenSlots(doctorUid: string, days: number, now: Date = new Date()): Promise<Slot[]> {
+  const availability = await fetchDoctorAvailability(doctorUid);
+  const bookingDays = await Promise.all(bookingDates(availability, now, days).map(date => getDoc(bookingDayRef(doctorUid, date))));
+  const booked = bookingDays.flatMap(day => Object.values((day.data() as BookingDay | undefined)?.slots ?? {}));
+  return openSlots(availability, now, days, booked, now);
+}
+
+async function readBookingDay(transaction: Transaction, doctorUid: string, date: string): Promise<BookedSlot[]> {
+  const snapshot = await transaction.get(bookingDayRef(doctorUid, date));
+  return Object.values((snapshot.data() as BookingDay | undefined)?.slots ?? {});
+}
+
+/** Reads what booking a slot needs; every read has to happen before the transaction writes. */
+async function readSlot(transaction: Transaction, doctorUid: string, slot: Slot) {
+  const profile = await transaction.get(doc(db, 'doctor_profiles', doctorUid));
+  const availability = (profile.data()?.availability as DoctorAvailability | undefined) ?? DEFAULT_AVAILABILITY;
+  const date = zonedDate(new Date(slot.start), availability.timeZone);
+  const booked = await readBookingDay(transaction, doctorUid, date);
+  return { availability, date, booked };
+}
+
+function writeBookingDay(transaction: Transaction, doctorUid: string, date: string, slots: BookedSlot[], appointmentId: string) {
+  const day: BookingDay = { doctorUid, date, slots: Object.fromEntries(slots.map(slot => [slot.start, slot])), appointmentId };
+  transaction.set(bookingDayRef(doctorUid, date), day);
+}
+
+function takeSlot(transaction: Transaction, doctorUid: string, date: string, booked: BookedSlot[], slot: BookedSlot) {
+  // Only the slot's times, so the booked entry matches the appointment exactly
+  const taken: BookedSlot = { start: slot.start, end: slot.end, appointmentId: slot.appointmentId };
+  writeBookingDay(transaction, doctorUid, date, [...booked, taken], slot.appointmentId);
+}
+
+/** Patients can't hold two appointments at once, even with different doctors. */
+async function assertPatientFree(patientId: string, slot: Slot, ignoreId?: string): Promise<void> {
+  const snapshot = await getDocs(query(appointmentsRef, where('patientId', '==', patientId), where('status', '==', 'booked')));
+  const clash = snapshot.docs.some(d => d.id !== ignoreId && overlaps(d.data() as Slot, slot));
+  if (clash) throw new AppointmentError('You already have an appointment at that time.', 'slot_taken');
+}
+
+export async function bookAppointment(investigationId: string, patient: Participant, doctor: Participant, slot: Slot): Promise<Appointment> {
+  await assertPatientFree(patient.uid, slot);
+  const ref = doc(appointmentsRef);
+  const appointment = await runTransaction(db, async transaction => {
+    const { availability, date, booked } = await readSlot(transaction, doctor.uid, slot);
+    const blocker = slotBlocker(availability, slot, booked);
+    if (blocker) throw new AppointmentError(blocker, booked.some(b => overlaps(b, slot)) ? 'slot_taken' : 'slot_unavailable');
+    const created: Appointment = {
+      id: ref.id,
+      investigationId,
+      patientId: patient.uid,
+      patientName: patient.name,
+      doctorUid: doctor.uid,
+      doctorName: doctor.name,
+      start: slot.start,
+      end: slot.end,
+      timeZone: availability.timeZone,
+      status: 'booked',
+      createdAt: new Date().toISOString(),
+      rescheduleCount: 0,
+    };
+    takeSlot(transaction, doctor.uid, date, booked, { ...slot, appointmentId: ref.id });
+    const { id, ...data } = created;
+    transaction.set(ref, data);
+    return created;
+  });
+  const when = new Date(slot.start).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+  await postSystemMessage(investigationId, patient.uid, `${patient.name} booked an appointment for ${when}.`, 'doctor');
+  return appointment;
+}
+
+function fromSnapshot(id: string, data: any): Appointment {
+  return { id, ...data } as Appointment;
+}
+
+export async function cancelAppointment(appointmentId: string, by: Participant, reason?: string): Promise<void> {
+  const appointment = await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(appointmentRef(appointmentId));
+    if (!snapshot.exists()) throw new AppointmentError('This appointment does not exist.', 'not_found');
+    const current = fromSnapshot(snapshot.id, snapshot.data());
+    const blocker = changeBlocker(current, by.uid);
+    if (blocker) throw new AppointmentError(blocker, 'not_changeable');
+    const date = zonedDate(new Date(current.start), current.timeZone);
+    const booked = await readBookingDay(transaction, current.doctorUid, date);
+    writeBookingDay(transaction, current.doctorUid, date, booked.filter(s => s.appointmentId !== appointmentId), appointmentId);
+    transaction.update(appointmentRef(appointmentId), {
+      status: 'cancelled',
+      cancelledAt: new Date().toISOString(),
+      cancelledByUid: by.uid,
+      ...(reason ? { cancellationReason: reason } : {}),
+    });
+    return current;
+  });
+  const when = new Date(appointment.start).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+  const notify = by.uid === appointment.patientId ? 'doctor' : 'patient';
+  await postSystemMessage(appointment.investigationId, by.uid, `${by.name} cancelled the appointment on ${when}.${reason ? ` Reason: ${reason}` : ''}`, notify);
+}
+
+/** Moves an appointment to a new slot: the old one is marked rescheduled and a new one booked in the same transaction. */
+export async function rescheduleAppointment(appointmentId: string, by: Participant, slot: Slot): Promise<Appointment> {
+  const existing = await getDoc(appointmentRef(appointmentId));
+  if (!existing.exists()) throw new AppointmentError('This appointment does not exist.', 'not_found');
+  // Doctors can't read the patient's other appointments; the doctor's own bookings still can't clash
+  if (by.uid === existing.data().patientId) await assertPatientFree(by.uid, slot, appointmentId);
+
+  const ref = doc(appointmentsRef);
+  const moved = await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(appointmentRef(appointmentId));
+    if (!snapshot.exists()) throw new AppointmentError('This appointment does not exist.', 'not_found');
+    const current = fromSnapshot(snapshot.id, snapshot.data());
+    const blocker = rescheduleBlocker(current, by.uid);
+    if (blocker) throw new AppointmentError(blocker, 'not_changeable');
+
+    const oldDate = zonedDate(new Date(current.start), current.timeZone);
+    const oldBooked = await readBookingDay(transaction, current.doctorUid, oldDate);
+    const { availability, date, booked } = await readSlot(transaction, current.doctorUid, slot);
+    // The old slot is freed by the move, so it doesn't count against the new one
+    const othersBooked = booked.filter(s => s.appointmentId !== appointmentId);
+    const slotError = slotBlocker(availability, slot, othersBooked);
+    if (slotError) throw new AppointmentError(slotError, othersBooked.some(b => overlaps(b, slot)) ? 'slot_taken' : 'slot_unavailable');
+
+    const next: Appointment = {
+      ...current,
+      id: ref.id,
+      start: slot.start,
+      end: slot.end,
+      timeZone: availability.timeZone,
+      createdAt: new Date().toISOString(),
+      rescheduleCount: current.rescheduleCount + 1,
+      rescheduledFromId: current.id,
+    };
+    if (oldDate === date) {
+      takeSlot(transaction, current.doctorUid, date, othersBooked, { ...slot, appointmentId: ref.id });
+    } else {
+      writeBookingDay(transaction, current.doctorUid, oldDate, oldBooked.filter(s => s.appointmentId !== appointmentId), appointmentId);
+      takeSlot(transaction, current.doctorUid, date, booked, { ...slot, appointmentId: ref.id });
+    }
+    transaction.update(appointmentRef(appointmentId), { status: 'rescheduled', rescheduledToId: ref.id });
+    const { id, ...data } = next;
+    transaction.set(ref, data);
+    return next;
+  });
+  const when = new Date(slot.start).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+  const notify = by.uid === moved.patientId ? 'doctor' : 'patient';
+  await postSystemMessage(moved.investigationId, by.uid, `${by.name} moved the appointment to ${when}.`, notify);
+  return moved;
+}
+
+/** A case's appointments, soonest first. */
+export async function fetchCaseAppointments(investigationId: string, uid: string): Promise<Appointment[]> {
+  // Filtering on a participant keeps the query within what the rules allow
+  const [asPatient, asDoctor] = await Promise.all([
+    getDocs(query(appointmentsRef, where('investigationId', '==', investigationId), where('patientId', '==', uid))),
+    getDocs(query(appointmentsRef, where('investigationId', '==', investigationId), where('doctorUid', '==', uid))),
+  ]);
+  const appointments = [...asPatient.docs, ...asDoctor.docs].map(d => fromSnapshot(d.id, d.data()));
+  return appointments.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/** The doctor's booked appointments, soonest first. */
+export async function fetchDoctorAppointments(doctorUid: string): Promise<Appointment[]> {
+  const snapshot = await getDocs(query(appointmentsRef, where('doctorUid', '==', doctorUid), where('status', '==', 'booked')));
+  return snapshot.docs.map(d => fromSnapshot(d.id, d.data())).sort((a, b) => a.start.localeCompare(b.start));
+}
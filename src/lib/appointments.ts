@@ -0,0 +1,314 @@
+/**
+ * Doctor availability and appointment booking. Doctors keep weekly hours, in their own time
+ * zone, on their profile, with dated exceptions for days off or changed hours. Patients book
+ * a slot from those hours from their case; each doctor has one bookings document per local
+ * day listing the slots taken, which booking re-reads in a transaction so a slot can't be
+ * given out twice.
+ */
+
+export interface WeeklyHours {
+  /** 0 is Sunday, as with `Date.getDay()`. */
+  weekday: number;
+  /** Local wall-clock times, `HH:mm`. */
+  start: string;
+  end: string;
+}
+
+export interface AvailabilityException {
+  /** `yyyy-MM-dd` in the doctor's time zone. */
+  date: string;
+  /** The hours offered that day instead of the weekly ones; empty for a day off. */
+  hours: { start: string; end: string }[];
+  note?: string;
+}
+
+export interface DoctorAvailability {
+  /** IANA time zone the hours are in, e.g. `Africa/Lagos`. */
+  timeZone: string;
+  slotMinutes: number;
+  weekly: WeeklyHours[];
+  exceptions: AvailabilityException[];
+}
+
+export type AppointmentStatus = 'booked' | 'cancelled' | 'rescheduled';
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  booked: 'Booked',
+  cancelled: 'Cancelled',
+  rescheduled: 'Rescheduled',
+};
+
+export interface Appointment {
+  id: string;
+  investigationId: string;
+  patientId: string;
+  patientName: string;
+  doctorUid: string;
+  doctorName: string;
+  start: string;
+  end: string;
+  /** The doctor's time zone when booked. */
+  timeZone: string;
+  status: AppointmentStatus;
+  createdAt: string;
+  rescheduleCount: number;
+  rescheduledFromId?: string;
+  rescheduledToId?: string;
+  cancelledAt?: string;
+  cancelledByUid?: string;
+  cancellationReason?: string;
+}
+
+export interface Slot {
+  start: string;
+  end: string;
+}
+
+export interface BookedSlot extends Slot {
+  appointmentId: string;
+}
+
+/** `doctor_bookings/{doctorUid}_{date}`: the slots taken on one of the doctor's local days. */
+export interface BookingDay {
+  doctorUid: string;
+  date: string;
+  /** Keyed by start time, so the rules can refuse a second booking of the same slot. */
+  slots: Record<string, BookedSlot>;
+  /** The appointment whose booking, cancellation or move last changed the day; the rules check the change against it. */
+  appointmentId?: string;
+}
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const SLOT_MINUTE_OPTIONS = [15, 20, 30, 45, 60] as const;
+/** How far ahead patients can book. */
+export const BOOKING_HORIZON_DAYS = 28;
+/** The soonest a slot can be booked, so the doctor isn't surprised. */
+export const MIN_LEAD_MINUTES = 60;
+/** Patients can cancel or reschedule up to this long before the appointment; doctors any time before it. */
+export const CHANGE_NOTICE_HOURS = 12;
+export const MAX_RESCHEDULES = 2;
+
+export const DEFAULT_AVAILABILITY: DoctorAvailability = {
+  timeZone: 'Africa/Lagos',
+  slotMinutes: 30,
+  weekly: [1, 2, 3, 4, 5].map(weekday => ({ weekday, start: '09:00', end: '17:00' })),
+  exceptions: [],
+};
+
+export class AppointmentError extends Error {
+  constructor(
+    message: string,
+    public code: 'not_found' | 'not_participant' | 'no_availability' | 'slot_unavailable' | 'slot_taken' | 'not_changeable' | 'invalid_availability',
+  ) {
+    super(message);
+    this.name = 'AppointmentError';
+  }
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Minutes the zone is ahead of UTC at that instant. */
+function zoneOffsetMinutes(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+  }).formatToParts(at);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+  return Math.round((wallClock - Math.floor(at.getTime() / 60_000) * 60_000) / 60_000);
+}
+
+/** The instant a wall-clock time on a local date occurs in the zone. */
+export function zonedTime(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const minutes = toMinutes(time);
+  const guess = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  const offset = zoneOffsetMinutes(new Date(guess), timeZone);
+  const instant = guess - offset * 60_000;
+  // Around a daylight saving change the offset at the answer can differ from the guess
+  const corrected = zoneOffsetMinutes(new Date(instant), timeZone);
+  return new Date(corrected === offset ? instant : guess - corrected * 60_000);
+}
+
+/** The `yyyy-MM-dd` date an instant falls on in the zone. */
+export function zonedDate(at: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(at);
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+export function validateAvailability(availability: DoctorAvailability): string | null {
+  if (!isValidTimeZone(availability.timeZone)) return 'Choose a valid time zone.';
+  if (!SLOT_MINUTE_OPTIONS.includes(availability.slotMinutes as typeof SLOT_MINUTE_OPTIONS[number])) {
+    return 'Choose a supported appointment length.';
+  }
+  const windows = [
+    ...availability.weekly.map(w => ({ ...w, label: WEEKDAY_LABELS[w.weekday] })),
+    ...availability.exceptions.flatMap(e => e.hours.map(h => ({ ...h, label: e.date }))),
+  ];
+  for (const window of windows) {
+    if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) return `Enter times as HH:mm (${window.label}).`;
+    if (toMinutes(window.end) - toMinutes(window.start) < availability.slotMinutes) {
+      return `Hours on ${window.label} must be at least one appointment long.`;
+    }
+  }
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const hours = availability.weekly.filter(w => w.weekday === weekday);
+    if (hasOverlap(hours)) return `Hours on ${WEEKDAY_LABELS[weekday]} overlap.`;
+  }
+  const dates = availability.exceptions.map(e => e.date);
+  if (dates.some(date => !DATE_PATTERN.test(date))) return 'Choose a date for each exception.';
+  if (new Set(dates).size !== dates.length) return 'Each date can only have one exception.';
+  if (availability.exceptions.some(e => hasOverlap(e.hours))) return 'Hours on an exception date overlap.';
+  return null;
+}
+
+function hasOverlap(hours: { start: string; end: string }[]): boolean {
+  const sorted = [...hours].sort((a, b) => a.start.localeCompare(b.start));
+  return sorted.some((h, i) => i > 0 && toMinutes(h.start) < toMinutes(sorted[i - 1].end));
+}
+
+/** The hours offered on a local date: the exception for that date if there is one, otherwise the weekly hours. */
+export function hoursOn(availability: DoctorAvailability, date: string): { start: string; end: string }[] {
+  const exception = availability.exceptions.find(e => e.date === date);
+  if (exception) return exception.hours;
+  return availability.weekly.filter(w => w.weekday === weekdayOf(date));
+}
+
+/** Every slot the doctor offers on a local date, booked or not. */
+export function slotsOn(availability: DoctorAvailability, date: string): Slot[] {
+  const { slotMinutes, timeZone } = availability;
+  return hoursOn(availability, date).flatMap(window => {
+    const slots: Slot[] = [];
+    for (let m = toMinutes(window.start); m + slotMinutes <= toMinutes(window.end); m += slotMinutes) {
+      const start = zonedTime(date, fromMinutes(m), timeZone);
+      slots.push({ start: start.toISOString(), end: new Date(start.getTime() + slotMinutes * 60_000).toISOString() });
+    }
+    return slots;
+  });
+}
+
+export function overlaps(a: Slot, b: Slot): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/** Why a slot can't be booked right now, or null if it can. */
+export function slotBlocker(availability: DoctorAvailability, slot: Slot, booked: Slot[], now: Date = new Date()): string | null {
+  const start = new Date(slot.start).getTime();
+  if (start < now.getTime() + MIN_LEAD_MINUTES * 60_000) return `Appointments must be booked at least ${MIN_LEAD_MINUTES} minutes ahead.`;
+  if (start > now.getTime() + BOOKING_HORIZON_DAYS * 24 * 60 * 60_000) return `Appointments can be booked up to ${BOOKING_HORIZON_DAYS} days ahead.`;
+  const offered = slotsOn(availability, zonedDate(new Date(slot.start), availability.timeZone));
+  if (!offered.some(s => s.start === slot.start && s.end === slot.end)) return 'The doctor is not available at that time.';
+  if (booked.some(b => overlaps(b, slot))) return 'That time has just been booked. Choose another.';
+  return null;
+}
+
+/** Open slots from `from` for the given number of the doctor's local days. */
+export function openSlots(availability: DoctorAvailability, from: Date, days: number, booked: Slot[], now: Date = new Date()): Slot[] {
+  const firstDay = zonedDate(from, availability.timeZone);
+  const slots: Slot[] = [];
+  for (let i = 0; i < days; i++) {
+    for (const slot of slotsOn(availability, addDays(firstDay, i))) {
+      if (!slotBlocker(availability, slot, booked, now)) slots.push(slot);
+    }
+  }
+  return slots;
+}
+
+/** The doctor's local dates a range of days covers, for loading their bookings documents. */
+export function bookingDates(availability: DoctorAvailability, from: Date, days: number): string[] {
+  const firstDay = zonedDate(from, availability.timeZone);
+  return Array.from({ length: days }, (_, i) => addDays(firstDay, i));
+}
+
+export function bookingDayId(doctorUid: string, date: string): string {
+  return `${doctorUid}_${date}`;
+}
+
+export function isAppointmentParticipant(appointment: Pick<Appointment, 'patientId' | 'doctorUid'>, uid: string): boolean {
+  return appointment.patientId === uid || appointment.doctorUid === uid;
+}
+
+/** Why the user can't cancel or reschedule the appointment, or null if they can. */
+export function changeBlocker(appointment: Appointment, uid: string, now: Date = new Date()): string | null {
+  if (!isAppointmentParticipant(appointment, uid)) return 'Only the patient and doctor can change this appointment.';
+  if (appointment.status !== 'booked') return `This appointment was ${appointment.status}.`;
+  const untilStart = new Date(appointment.start).getTime() - now.getTime();
+  if (untilStart <= 0) return 'This appointment has already started.';
+  if (uid === appointment.patientId && untilStart < CHANGE_NOTICE_HOURS * 60 * 60_000) {
+    return `Appointments can only be changed up to ${CHANGE_NOTICE_HOURS} hours ahead. Message your doctor instead.`;
+  }
+  return null;
+}
+
+export function rescheduleBlocker(appointment: Appointment, uid: string, now: Date = new Date()): string | null {
+  const blocker = changeBlocker(appointment, uid, now);
+  if (blocker) return blocker;
+  if (appointment.rescheduleCount >= MAX_RESCHEDULES) {
+    return `This appointment has already been rescheduled ${MAX_RESCHEDULES} times. Cancel it and book a new one.`;
+  }
+  return null;
+}
+
+function icsDate(iso: string): string {
+  return iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function icsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Lines longer than 75 characters continue on the next line after a space (RFC 5545 §3.1). */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < line.length; i += 74) chunks.push(line.slice(i, i + 74));
+  return chunks.join('\r\n ');
+}
+
+/** An iCalendar file with the appointment, worded for whoever is downloading it. */
+export function appointmentIcs(appointment: Appointment, viewer: 'patient' | 'doctor', now: Date = new Date()): string {
+  const summary = viewer === 'patient' ? `Appointment with ${appointment.doctorName}` : `Appointment with ${appointment.patientName}`;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Lifeline//Appointments//EN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${appointment.id}@lifeline`,
+    `DTSTAMP:${icsDate(now.toISOString())}`,
+    `DTSTART:${icsDate(appointment.start)}`,
+    `DTEND:${icsDate(appointment.end)}`,
+    `SUMMARY:${icsText(summary)}`,
+    `DESCRIPTION:${icsText(`Follow-up for case ${appointment.investigationId}.`)}`,
+    `STATUS:${appointment.status === 'booked' ? 'CONFIRMED' : 'CANCELLED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
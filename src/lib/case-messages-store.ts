@@ -0,0 +1,131 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, increment, runTransaction, serverTimestamp, updateDoc, writeBatch } from 'firebase/firestore';
+import {
+  CaseMessageError,
+  canEditMessage,
+  isCaseParticipant,
+  messagePreview,
+  otherSide,
+  sideOf,
+  type CaseMessage,
+  type MessageAttachment,
+  type MessageAuthor,
+  type ThreadCase,
+  type ThreadSide,
+} from '@/lib/case-messages';
+
+/**
+ * Per-case messages on `investigations/{id}/messages`. Sending a message also bumps the
+ * other side's unread counter on the case, in the same batch, so the counters never drift
+ * from the thread. Message times are Firestore timestamps so the rules can check the edit window.
+ */
+
+const investigationRef = (caseId: string) => doc(db, 'investigations', caseId);
+const messagesRef = (caseId: string) => collection(db, 'investigations', caseId, 'messages');
+
+const READ_FIELDS: Record<ThreadSide, string> = {
+  patient: 'lastPatientReadTimestamp',
+  doctor: 'lastDoctorReadTimestamp',
+};
+
+const toDate = (value: any): Date | undefined => value ? value.toDate?.() ?? new Date(value) : undefined;
+
+export function messageFromFirestore(id: string, data: any): CaseMessage {
+  return {
+    id,
+    authorId: data.authorId,
+    authorName: data.authorName,
+    role: data.role,
+    content: data.content ?? '',
+    // Messages sent before timestamps were server-set stored ISO strings
+    timestamp: toDate(data.timestamp) ?? new Date(),
+    attachments: data.attachments ?? [],
+    editedAt: toDate(data.editedAt),
+    edits: data.edits ?? [],
+  };
+}
+
+/** Converts the read and unread fields of a case document. */
+export function threadFieldsFromFirestore(data: any): Pick<ThreadCase, 'unreadCount' | 'lastPatientReadTimestamp' | 'lastDoctorReadTimestamp'> {
+  return {
+    unreadCount: data.unreadCount ?? {},
+    lastPatientReadTimestamp: toDate(data.lastPatientReadTimestamp),
+    lastDoctorReadTimestamp: toDate(data.lastDoctorReadTimestamp),
+  };
+}
+
+export async function sendMessage(caseId: string, thread: ThreadCase, author: MessageAuthor, content: string, attachments: MessageAttachment[] = []): Promise<void> {
+  if (!content.trim() && attachments.length === 0) {
+    throw new CaseMessageError('Write a message or attach a file.', 'empty');
+  }
+  if (!isCaseParticipant(thread, author.uid)) {
+    throw new CaseMessageError('Only the patient and their care team can message on this case.', 'not_participant');
+  }
+  const batch = writeBatch(db);
+  batch.set(doc(messagesRef(caseId)), {
+    authorId: author.uid,
+    authorName: author.name,
+    role: author.role,
+    content: content.trim(),
+    attachments,
+    timestamp: serverTimestamp(),
+  });
+  const side = sideOf(author.role)!;
+  batch.update(investigationRef(caseId), {
+    lastMessageTimestamp: serverTimestamp(),
+    lastMessageContent: messagePreview(content, attachments),
+    [`unreadCount.${otherSide(side)}`]: increment(1),
+    // Sending implies the author has read everything before it
+    [READ_FIELDS[side]]: serverTimestamp(),
+    [`unreadCount.${side}`]: 0,
+  });
+  await batch.commit();
+}
+
+/**
+ * Automatic notices, e.g. when results arrive; they count as unread for `notify`. `postedBy` is
+ * the participant whose action posted it, which the rules check in place of the author.
+ */
+export async function postSystemMessage(caseId: string, postedBy: string, content: string, notify: ThreadSide): Promise<void> {
+  const batch = writeBatch(db);
+  batch.set(doc(messagesRef(caseId)), {
+    authorId: 'system',
+    authorName: 'Lifeline System',
+    role: 'system',
+    content,
+    attachments: [],
+    timestamp: serverTimestamp(),
+    postedBy,
+  });
+  batch.update(investigationRef(caseId), { [`unreadCount.${notify}`]: increment(1) });
+  await batch.commit();
+}
+
+/** Replaces the content, keeping the previous version, while the edit window is open. */
+export async function editMessage(caseId: string, messageId: string, authorUid: string, content: string): Promise<void> {
+  const ref = doc(messagesRef(caseId), messageId);
+  await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists()) throw new CaseMessageError('This message no longer exists.', 'not_editable');
+    const message = messageFromFirestore(snapshot.id, snapshot.data());
+    if (!canEditMessage(message, authorUid)) {
+      throw new CaseMessageError('Messages can only be edited by their author shortly after sending.', 'not_editable');
+    }
+    if (!content.trim() && message.attachments.length === 0) {
+      throw new CaseMessageError('A message cannot be left empty.', 'empty');
+    }
+    const now = new Date();
+    transaction.update(ref, {
+      content: content.trim(),
+      editedAt: now,
+      edits: [...message.edits, { content: message.content, editedAt: now.toISOString() }],
+    });
+  });
+}
+
+export async function markThreadRead(caseId: string, side: ThreadSide): Promise<void> {
+  await updateDoc(investigationRef(caseId), {
+    [READ_FIELDS[side]]: serverTimestamp(),
+    [`unreadCount.${side}`]: 0,
+  });
+}
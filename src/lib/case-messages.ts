@@ -0,0 +1,124 @@
+/**
+ * Messages between a patient and their care team on `investigations/{id}/messages`.
+ * Only the case's participants may take part: the patient, the doctor reviewing the case
+ * (or holding its claim) and a nurse dispatched to it. Read receipts and unread counters
+ * are kept per side on the case itself, so the queues can show them without loading threads.
+ */
+
+export type MessageRole = 'patient' | 'doctor' | 'nurse' | 'system';
+
+/** Doctors and nurses share the care-team side of a conversation. */
+export type ThreadSide = 'patient' | 'doctor';
+
+/** Authors may correct a message for this long after sending it. */
+export const EDIT_WINDOW_MINUTES = 15;
+
+/** Attachments are stored inline, so they must leave room in the 1 MiB document limit. */
+export const MAX_ATTACHMENT_BYTES = 700 * 1024;
+export const MAX_ATTACHMENTS = 3;
+
+const ATTACHMENT_TYPES = /^(image\/(png|jpe?g|gif|webp|heic)|application\/pdf)$/;
+
+export interface MessageAttachment {
+  name: string;
+  contentType: string;
+  size: number;
+  dataUri: string;
+}
+
+export interface MessageEdit {
+  content: string;
+  editedAt: string;
+}
+
+export interface CaseMessage {
+  id: string;
+  authorId: string;
+  authorName: string;
+  role: MessageRole;
+  content: string;
+  timestamp: Date;
+  attachments: MessageAttachment[];
+  editedAt?: Date;
+  /** Earlier versions of the content, oldest first. */
+  edits: MessageEdit[];
+}
+
+export interface MessageAuthor {
+  uid: string;
+  name: string;
+  role: Exclude<MessageRole, 'system'>;
+}
+
+/** The case fields that decide who is in the conversation and what they have read. */
+export interface ThreadCase {
+  userId: string;
+  reviewedByUid?: string;
+  claim?: { doctorUid: string } | null;
+  nurseDispatch?: { nurseUid: string };
+  unreadCount?: Partial<Record<ThreadSide, number>>;
+  lastPatientReadTimestamp?: Date;
+  lastDoctorReadTimestamp?: Date;
+}
+
+export class CaseMessageError extends Error {
+  constructor(message: string, public code: 'empty' | 'attachment_rejected' | 'not_participant' | 'not_editable') {
+    super(message);
+    this.name = 'CaseMessageError';
+  }
+}
+
+export function sideOf(role: MessageRole): ThreadSide | null {
+  if (role === 'system') return null;
+  return role === 'patient' ? 'patient' : 'doctor';
+}
+
+export function otherSide(side: ThreadSide): ThreadSide {
+  return side === 'patient' ? 'doctor' : 'patient';
+}
+
+/** Older system messages were stored with the doctor role and a 'system' author. */
+export function isSystemMessage(message: Pick<CaseMessage, 'role' | 'authorId'>): boolean {
+  return message.role === 'system' || message.authorId === 'system';
+}
+
+export function isCaseParticipant(c: ThreadCase, uid: string): boolean {
+  return c.userId === uid
+    || c.reviewedByUid === uid
+    || c.claim?.doctorUid === uid
+    || c.nurseDispatch?.nurseUid === uid;
+}
+
+export function unreadCount(c: ThreadCase, side: ThreadSide): number {
+  return c.unreadCount?.[side] ?? 0;
+}
+
+/** When the other side last opened the thread, for read receipts on `side`'s messages. */
+export function readByOtherSideAt(c: ThreadCase, side: ThreadSide): Date | undefined {
+  return side === 'patient' ? c.lastDoctorReadTimestamp : c.lastPatientReadTimestamp;
+}
+
+export function isReadBy(message: CaseMessage, readAt?: Date): boolean {
+  return !!readAt && readAt.getTime() >= message.timestamp.getTime();
+}
+
+export function editDeadline(message: CaseMessage): Date {
+  return new Date(message.timestamp.getTime() + EDIT_WINDOW_MINUTES * 60_000);
+}
+
+export function canEditMessage(message: CaseMessage, uid: string, now: Date = new Date()): boolean {
+  return !isSystemMessage(message) && message.authorId === uid && now < editDeadline(message);
+}
+
+export function validateAttachment(attachment: Omit<MessageAttachment, 'dataUri'>): string | null {
+  if (!ATTACHMENT_TYPES.test(attachment.contentType)) return `${attachment.name} is not an image or PDF.`;
+  if (attachment.size > MAX_ATTACHMENT_BYTES) return `${attachment.name} is larger than ${Math.round(MAX_ATTACHMENT_BYTES / 1024)} KB.`;
+  return null;
+}
+
+/** A one-line preview for case lists. */
+export function messagePreview(content: string, attachments: MessageAttachment[]): string {
+  const text = content.trim().replace(/\s+/g, ' ');
+  if (text) return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+  return attachments.length === 1 ? `Sent ${attachments[0].name}` : `Sent ${attachments.length} attachments`;
+}
@@ -0,0 +1,126 @@
+import { db } from '@/lib/firebase';
+import { arrayUnion, collection, doc, getDocs, runTransaction, Timestamp } from 'firebase/firestore';
+import {
+  CLAIM_LEASE_MINUTES,
+  CaseClaimError,
+  needsEscalation,
+  waitingSince,
+  type CaseAssignment,
+  type CaseClaim,
+  type CaseEscalation,
+  type QueueCase,
+} from '@/lib/case-queue';
+import { isOpenStatus, type InvestigationStatus } from '@/lib/investigation';
+
+/**
+ * Claim leases and escalations on `investigations/{id}`. Every change re-reads the case
+ * in a transaction, so two doctors racing for the same case can't both win.
+ * Claim times are stored as Firestore timestamps so the security rules can check expiry.
+ */
+
+interface Doctor {
+  uid: string;
+  name: string;
+}
+
+const investigationRef = (caseId: string) => doc(db, 'investigations', caseId);
+
+export function claimFromFirestore(data: any): CaseClaim | null {
+  if (!data?.doctorUid || !data.expiresAt) return null;
+  return {
+    doctorUid: data.doctorUid,
+    doctorName: data.doctorName,
+    claimedAt: data.claimedAt?.toDate?.() ?? new Date(data.claimedAt),
+    expiresAt: data.expiresAt?.toDate?.() ?? new Date(data.expiresAt),
+  };
+}
+
+function leaseFor(doctor: Doctor, now: Date) {
+  return {
+    doctorUid: doctor.uid,
+    doctorName: doctor.name,
+    claimedAt: Timestamp.fromDate(now),
+    expiresAt: Timestamp.fromDate(new Date(now.getTime() + CLAIM_LEASE_MINUTES * 60_000)),
+  };
+}
+
+/** Claims the case for `doctor`, or renews the lease if they already hold it. */
+export async function claimCase(caseId: string, doctor: Doctor): Promise<CaseClaim> {
+  return runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(investigationRef(caseId));
+    if (!snapshot.exists()) throw new CaseClaimError('This case no longer exists.', 'not_claimable');
+    const data = snapshot.data();
+    if (!isOpenStatus(data.status as InvestigationStatus)) {
+      throw new CaseClaimError('This case is already closed.', 'not_claimable');
+    }
+    const now = new Date();
+    const current = claimFromFirestore(data.claim);
+    if (current && current.doctorUid !== doctor.uid && current.expiresAt > now) {
+      throw new CaseClaimError(`${current.doctorName} is already reviewing this case.`, 'claimed_by_other');
+    }
+    const lease = leaseFor(doctor, now);
+    transaction.update(investigationRef(caseId), { claim: lease });
+    return claimFromFirestore(lease)!;
+  });
+}
+
+/** Gives up the claim, if `doctor` still holds it. */
+export async function releaseCase(caseId: string, doctor: Doctor): Promise<void> {
+  await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(investigationRef(caseId));
+    const current = claimFromFirestore(snapshot.data()?.claim);
+    if (current?.doctorUid === doctor.uid) {
+      transaction.update(investigationRef(caseId), { claim: null });
+    }
+  });
+}
+
+/**
+ * Hands the case to another doctor with a fresh lease. Only the current holder may
+ * reassign a claimed case; an unclaimed one can be assigned by anyone.
+ */
+export async function reassignCase(caseId: string, from: Doctor, to: Doctor, reason: string): Promise<void> {
+  await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(investigationRef(caseId));
+    if (!snapshot.exists()) throw new CaseClaimError('This case no longer exists.', 'not_claimable');
+    const now = new Date();
+    const current = claimFromFirestore(snapshot.data().claim);
+    if (current && current.doctorUid !== from.uid && current.expiresAt > now) {
+      throw new CaseClaimError(`Only ${current.doctorName}, who holds this case, can reassign it.`, 'not_holder');
+    }
+    const assignment: CaseAssignment = {
+      fromUid: from.uid,
+      fromName: from.name,
+      toUid: to.uid,
+      toName: to.name,
+      reason,
+      at: now.toISOString(),
+    };
+    transaction.update(investigationRef(caseId), { claim: leaseFor(to, now), assignments: arrayUnion(assignment) });
+  });
+}
+
+/** Marks the case escalated if it still qualifies; returns whether this call escalated it. */
+export async function escalateCase(caseId: string): Promise<boolean> {
+  return runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(investigationRef(caseId));
+    if (!snapshot.exists()) return false;
+    const data = snapshot.data();
+    const queueCase: QueueCase = { ...data, id: snapshot.id, claim: claimFromFirestore(data.claim) } as QueueCase;
+    const now = new Date();
+    if (!needsEscalation(queueCase, now)) return false;
+    const since = waitingSince(queueCase);
+    const escalation: CaseEscalation = {
+      escalatedAt: now.toISOString(),
+      waitingSince: since,
+      waitingMinutes: Math.round((now.getTime() - new Date(since).getTime()) / 60_000),
+    };
+    transaction.update(investigationRef(caseId), { escalation });
+    return true;
+  });
+}
+
+export async function fetchDoctors(): Promise<(Doctor & { specialty: string })[]> {
+  const snapshot = await getDocs(collection(db, 'doctor_profiles'));
+  return snapshot.docs.map(d => ({ uid: d.id, name: d.data().name, specialty: d.data().specialty }));
+}
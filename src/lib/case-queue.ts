@@ -0,0 +1,174 @@
+import type { InvestigationStatus, TransitionLogEntry } from '@/lib/investigation';
+import type { RequestedDoctor } from '@/lib/doctor-directory';
+
+/**
+ * Triage for the doctors' case queue: ordering by urgency and waiting time, claim
+ * leases so only one doctor reviews a case at a time, and the review SLA that escalates
+ * Critical cases nobody has picked up.
+ */
+
+export const CASE_SPECIALTIES = [
+  'General Practice',
+  'Cardiology',
+  'Dermatology',
+  'Endocrinology',
+  'Gastroenterology',
+  'Infectious Disease',
+  'Nephrology',
+  'Neurology',
+  'Obstetrics & Gynaecology',
+  'Orthopaedics',
+  'Paediatrics',
+  'Psychiatry',
+  'Pulmonology',
+] as const;
+
+export type CaseSpecialty = typeof CASE_SPECIALTIES[number];
+
+/** Older cases were submitted before the AI suggested a specialty. */
+export const DEFAULT_SPECIALTY: CaseSpecialty = 'General Practice';
+
+export type Urgency = 'Critical' | 'High' | 'Medium' | 'Low';
+
+const URGENCY_RANK: Record<string, number> = { Critical: 0, High: 1, Medium: 2, Low: 3 };
+
+/** How long a case may wait in a review status before its SLA is breached. */
+export const REVIEW_SLA_MINUTES: Record<Urgency, number> = {
+  Critical: 15,
+  High: 60,
+  Medium: 4 * 60,
+  Low: 24 * 60,
+};
+
+/** The SLA counts as "due soon" in its final quarter. */
+const DUE_SOON_FRACTION = 0.75;
+
+export const CLAIM_LEASE_MINUTES = 30;
+
+/** Statuses where the next step is the doctor's. */
+export const REVIEW_STATUSES: InvestigationStatus[] = ['pending_review', 'pending_final_review'];
+
+export interface CaseClaim {
+  doctorUid: string;
+  doctorName: string;
+  claimedAt: Date;
+  expiresAt: Date;
+}
+
+export interface CaseAssignment {
+  fromUid: string | null;
+  fromName: string | null;
+  toUid: string;
+  toName: string;
+  reason: string;
+  at: string;
+}
+
+export interface CaseEscalation {
+  escalatedAt: string;
+  /** When the case entered the status it was escalated in; a later review period escalates afresh. */
+  waitingSince: string;
+  waitingMinutes: number;
+}
+
+/** The parts of an investigation the queue needs. */
+export interface QueueCase {
+  id: string;
+  status: InvestigationStatus;
+  createdAt: string;
+  steps: { timestamp: string; aiAnalysis?: { urgency?: string; suggestedSpecialty?: string } }[];
+  transitions?: TransitionLogEntry[];
+  claim?: CaseClaim | null;
+  escalation?: CaseEscalation | null;
+  requestedDoctor?: RequestedDoctor | null;
+}
+
+export type SlaState = 'ok' | 'due_soon' | 'breached';
+
+export class CaseClaimError extends Error {
+  constructor(message: string, public code: 'claimed_by_other' | 'not_holder' | 'not_claimable') {
+    super(message);
+    this.name = 'CaseClaimError';
+  }
+}
+
+export function caseUrgency(c: QueueCase): Urgency {
+  const urgency = c.steps[c.steps.length - 1]?.aiAnalysis?.urgency;
+  return urgency && urgency in REVIEW_SLA_MINUTES ? urgency as Urgency : 'Medium';
+}
+
+export function caseSpecialty(c: QueueCase): string {
+  for (let i = c.steps.length - 1; i >= 0; i--) {
+    const specialty = c.steps[i].aiAnalysis?.suggestedSpecialty;
+    if (specialty) return specialty;
+  }
+  return DEFAULT_SPECIALTY;
+}
+
+/** When the case entered its current status. */
+export function waitingSince(c: QueueCase): string {
+  const entered = c.transitions?.filter(t => t.to === c.status).at(-1)?.at;
+  return entered ?? c.steps[c.steps.length - 1]?.timestamp ?? c.createdAt;
+}
+
+export function activeClaim(c: QueueCase, now: Date = new Date()): CaseClaim | null {
+  return c.claim && c.claim.expiresAt > now ? c.claim : null;
+}
+
+export function isClaimedByOther(c: QueueCase, uid: string, now: Date = new Date()): boolean {
+  const claim = activeClaim(c, now);
+  return !!claim && claim.doctorUid !== uid;
+}
+
+export function slaDeadline(c: QueueCase): Date {
+  return new Date(new Date(waitingSince(c)).getTime() + REVIEW_SLA_MINUTES[caseUrgency(c)] * 60_000);
+}
+
+export function slaState(c: QueueCase, now: Date = new Date()): SlaState {
+  const start = new Date(waitingSince(c)).getTime();
+  const deadline = slaDeadline(c).getTime();
+  if (now.getTime() >= deadline) return 'breached';
+  return now.getTime() >= start + (deadline - start) * DUE_SOON_FRACTION ? 'due_soon' : 'ok';
+}
+
+/** Critical cases still unclaimed past their SLA, not yet escalated for this review period. */
+export function needsEscalation(c: QueueCase, now: Date = new Date()): boolean {
+  return REVIEW_STATUSES.includes(c.status)
+    && caseUrgency(c) === 'Critical'
+    && !activeClaim(c, now)
+    && slaState(c, now) === 'breached'
+    && c.escalation?.waitingSince !== waitingSince(c);
+}
+
+export function isEscalated(c: QueueCase): boolean {
+  return !!c.escalation && c.escalation.waitingSince === waitingSince(c);
+}
+
+/** The patient asked for this doctor; any doctor may still review the case. */
+export function isRequestedFor(c: QueueCase, uid: string): boolean {
+  return c.requestedDoctor?.uid === uid;
+}
+
+/** Escalated cases first, then those the patient asked the viewer for, then by urgency, then longest waiting. */
+export function sortQueue<T extends QueueCase>(cases: T[], viewerUid?: string): T[] {
+  const requested = (c: T) => Number(!!viewerUid && isRequestedFor(c, viewerUid));
+  return [...cases].sort((a, b) =>
+    Number(isEscalated(b)) - Number(isEscalated(a))
+    || requested(b) - requested(a)
+    || (URGENCY_RANK[caseUrgency(a)] - URGENCY_RANK[caseUrgency(b)])
+    || waitingSince(a).localeCompare(waitingSince(b)),
+  );
+}
+
+export interface QueueFilter {
+  /** 'review' means any status awaiting the doctor. */
+  status: InvestigationStatus | 'review' | 'all';
+  specialty: string | 'all';
+}
+
+export function filterQueue<T extends QueueCase>(cases: T[], filter: QueueFilter): T[] {
+  return cases.filter(c =>
+    (filter.status === 'all' || (filter.status === 'review' ? REVIEW_STATUSES.includes(c.status) : c.status === filter.status))
+    && (filter.specialty === 'all' || caseSpecialty(c) === filter.specialty),
+  );
+}
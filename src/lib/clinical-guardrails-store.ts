@@ -0,0 +1,24 @@
+import { db } from '@/lib/firebase';
+import { doc, getDoc } from 'firebase/firestore';
+import { parseAge, type PatientContext } from '@/lib/clinical-guardrails';
+import { convertMeasurement } from '@/lib/vitals';
+import { fetchVitals } from '@/lib/vitals-store';
+
+/** How far back to look for a weight reading. */
+const WEIGHT_LOOKBACK_READINGS = 50;
+
+/** Age, pregnancy and known conditions from the patient's profile, and their latest logged weight. */
+export async function fetchPatientContext(patientId: string): Promise<PatientContext> {
+  const [profileSnap, readings] = await Promise.all([
+    getDoc(doc(db, 'users', patientId)),
+    fetchVitals(patientId, { limit: WEIGHT_LOOKBACK_READINGS }),
+  ]);
+  const profile: Record<string, any> = profileSnap.exists() ? profileSnap.data() : {};
+  const weight = readings.find(reading => reading.weight)?.weight;
+  return {
+    ageYears: parseAge(profile.age),
+    weightKg: weight ? convertMeasurement('weight', weight, 'kg').value : null,
+    pregnant: profile.gender === 'Female' && !!profile.pregnant,
+    knownConditions: profile.knownConditions ?? '',
+  };
+}
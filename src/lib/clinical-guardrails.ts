@@ -0,0 +1,346 @@
+import { drugClassLabel, findDrug, type DrugEntry, type InteractionSeverity } from '@/lib/drug-dictionary';
+import { parseDosage } from '@/lib/medication-schedule';
+import type { Urgency } from '@/lib/case-queue';
+
+/**
+ * Safety checks every clinical AI result passes through before it is saved or shown to a
+ * doctor: red-flag symptoms raise the urgency, banned drug classes are withheld, and each
+ * remaining medication is checked for dose, age and contraindications against the patient.
+ *
+ * Nothing is silently corrected. Every change and every concern becomes a warning stored
+ * with the result, and medications the checks can't place in the dictionary pass unchecked.
+ */
+
+export type GuardrailWarningKind = 'red_flag' | 'banned_drug' | 'dosage' | 'age' | 'contraindication';
+
+export interface GuardrailWarning {
+  /** Stable for the same finding, so repeated runs on a case can be compared. */
+  id: string;
+  kind: GuardrailWarningKind;
+  severity: InteractionSeverity;
+  /** The medication as the AI wrote it, for warnings about one medication. */
+  medication?: string;
+  message: string;
+}
+
+/** What the checks know about the patient, from their profile and latest weight. */
+export interface PatientContext {
+  ageYears: number | null;
+  weightKg: number | null;
+  pregnant: boolean;
+  /** Free text from the profile, e.g. "Type 2 diabetes, asthma". */
+  knownConditions: string;
+}
+
+export interface Medication {
+  name: string;
+  dosage: string;
+}
+
+// --- Red flags ---
+
+/** Symptoms that should never be triaged below High. */
+export const RED_FLAGS: { label: string; pattern: RegExp }[] = [
+  { label: 'chest pain', pattern: /chest (pain|tightness|pressure)/i },
+  { label: 'difficulty breathing', pattern: /short(ness)? of breath|difficulty breathing|can'?t breathe|struggling to breathe/i },
+  { label: 'coughing or vomiting blood', pattern: /(cough|vomit)(ing|ed)? (up )?blood/i },
+  { label: 'blood in stool', pattern: /blood in (my )?stool|black,? tarry stool/i },
+  { label: 'loss of consciousness', pattern: /faint(ed|ing)|passed out|lost consciousness|unconscious/i },
+  { label: 'seizure', pattern: /seizure|convuls/i },
+  { label: 'stroke signs', pattern: /face (is )?droop|slurred speech|weakness on one side|can'?t move (my )?(arm|leg)/i },
+  { label: 'thunderclap headache', pattern: /worst headache|sudden severe headache|thunderclap/i },
+  { label: 'stiff neck with fever', pattern: /stiff neck/i },
+  { label: 'bleeding in pregnancy', pattern: /pregnan[a-z]*.{0,60}bleed|bleed[a-z]*.{0,60}pregnan/i },
+  { label: 'suicidal thoughts', pattern: /suicid|kill myself|end my life/i },
+];
+
+const ESCALATED_URGENCY: Urgency = 'High';
+const URGENCY_ORDER: Urgency[] = ['Low', 'Medium', 'High', 'Critical'];
+
+// The assistant's own questions ("Any chest pain?") aren't symptoms.
+const ASSISTANT_LINE = /^\s*(ai assistant|assistant|model)\s*:/i;
+const NEGATION = /\b(no|not|never|none|denies|denied|without)\b|n't\b/i;
+// A negation only covers a symptom a few words after it in the same clause: "no chest pain",
+// "I haven't had any chest pain", but not "I fainted and I don't know why".
+const NEGATION_WORDS = 4;
+const CLAUSE_BREAK = /,|\b(and|but|or|though|although|because|so)\b/gi;
+
+function negated(sentence: string, matchIndex: number): boolean {
+  const before = sentence.slice(0, matchIndex);
+  const clauseStart = Math.max(0, ...[...before.matchAll(CLAUSE_BREAK)].map(m => m.index! + m[0].length));
+  const words = before.slice(clauseStart).trim().split(/\s+/).slice(-NEGATION_WORDS).join(' ');
+  return NEGATION.test(words);
+}
+
+function reported(sentence: string, pattern: RegExp): boolean {
+  const all = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  return [...sentence.matchAll(all)].some(m => !negated(sentence, m.index!));
+}
+
+/** Red-flag symptoms the patient reported, ignoring the assistant's lines and negated symptoms. */
+export function redFlagsIn(text: string): string[] {
+  const sentences = text
+    .split('\n')
+    .filter(line => !ASSISTANT_LINE.test(line))
+    .flatMap(line => line.split(/[.!?;]/));
+  return RED_FLAGS.filter(flag => sentences.some(sentence => reported(sentence, flag.pattern))).map(flag => flag.label);
+}
+
+function escalate(patientText: string, urgency: Urgency): { urgency: Urgency; warnings: GuardrailWarning[] } {
+  const flags = redFlagsIn(patientText);
+  if (flags.length === 0) return { urgency, warnings: [] };
+  const raised = URGENCY_ORDER.indexOf(urgency) < URGENCY_ORDER.indexOf(ESCALATED_URGENCY);
+  return {
+    urgency: raised ? ESCALATED_URGENCY : urgency,
+    warnings: [{
+      id: `red_flag:${flags.join('+')}`,
+      kind: 'red_flag',
+      severity: raised ? 'major' : 'moderate',
+      message: raised
+        ? `Red-flag symptoms reported (${flags.join(', ')}); urgency raised from ${urgency} to ${ESCALATED_URGENCY}.`
+        : `Red-flag symptoms reported (${flags.join(', ')}).`,
+    }],
+  };
+}
+
+// --- Medications ---
+
+/** Classes only a doctor may start, so AI suggestions of them are withheld. */
+export const BANNED_DRUG_CLASSES: Record<string, string> = {
+  opioid: 'risk of dependence and respiratory depression',
+  anticoagulant: 'needs bleeding-risk assessment and monitoring',
+  antimetabolite: 'needs blood monitoring and specialist initiation',
+  maoi: 'dangerous dietary and drug interactions',
+  mood_stabiliser: 'narrow therapeutic range with level monitoring',
+};
+
+interface DoseLimit {
+  maxSingleMg: number;
+  maxDailyMg: number;
+  /** Weight-based limits for children, capped at the adult limits. */
+  perKg?: { maxSingleMg: number; maxDailyMg: number };
+}
+
+/** Usual maximum oral doses, keyed by dictionary id. */
+export const DOSE_LIMITS: Record<string, DoseLimit> = {
+  paracetamol: { maxSingleMg: 1000, maxDailyMg: 4000, perKg: { maxSingleMg: 15, maxDailyMg: 60 } },
+  ibuprofen: { maxSingleMg: 800, maxDailyMg: 3200, perKg: { maxSingleMg: 10, maxDailyMg: 40 } },
+  naproxen: { maxSingleMg: 500, maxDailyMg: 1250 },
+  diclofenac: { maxSingleMg: 75, maxDailyMg: 150 },
+  aspirin: { maxSingleMg: 1000, maxDailyMg: 4000 },
+  amoxicillin: { maxSingleMg: 1000, maxDailyMg: 3000, perKg: { maxSingleMg: 45, maxDailyMg: 90 } },
+  azithromycin: { maxSingleMg: 500, maxDailyMg: 500, perKg: { maxSingleMg: 10, maxDailyMg: 10 } },
+  clarithromycin: { maxSingleMg: 500, maxDailyMg: 1000, perKg: { maxSingleMg: 7.5, maxDailyMg: 15 } },
+  ciprofloxacin: { maxSingleMg: 750, maxDailyMg: 1500 },
+  doxycycline: { maxSingleMg: 200, maxDailyMg: 200 },
+  metronidazole: { maxSingleMg: 2000, maxDailyMg: 4000, perKg: { maxSingleMg: 10, maxDailyMg: 30 } },
+  cetirizine: { maxSingleMg: 10, maxDailyMg: 10 },
+  loratadine: { maxSingleMg: 10, maxDailyMg: 10 },
+  prednisolone: { maxSingleMg: 60, maxDailyMg: 60, perKg: { maxSingleMg: 2, maxDailyMg: 2 } },
+  omeprazole: { maxSingleMg: 40, maxDailyMg: 80 },
+  metformin: { maxSingleMg: 1000, maxDailyMg: 3000 },
+};
+
+/** Below this age, doses are checked per kilogram. */
+export const PAEDIATRIC_AGE_YEARS = 12;
+
+interface AgeRestriction {
+  /** A drug id or a drug class. */
+  drug: string;
+  minAgeYears: number;
+  severity: InteractionSeverity;
+  reason: string;
+}
+
+export const AGE_RESTRICTIONS: AgeRestriction[] = [
+  { drug: 'aspirin', minAgeYears: 16, severity: 'major', reason: 'risk of Reye\'s syndrome' },
+  { drug: 'tetracycline', minAgeYears: 8, severity: 'major', reason: 'permanent tooth discolouration' },
+  { drug: 'fluoroquinolone', minAgeYears: 18, severity: 'moderate', reason: 'risk of joint and tendon damage' },
+  { drug: 'naproxen', minAgeYears: 16, severity: 'moderate', reason: 'not licensed for children for general pain' },
+  { drug: 'diclofenac', minAgeYears: 14, severity: 'moderate', reason: 'not licensed for younger children for general pain' },
+];
+
+interface Contraindication {
+  /** A drug id or a drug class. */
+  drug: string;
+  /** Pregnancy, or a pattern matched against the patient's known conditions. */
+  when: 'pregnancy' | RegExp;
+  /** How the warning names the condition. */
+  condition: string;
+  severity: InteractionSeverity;
+  description: string;
+}
+
+const KIDNEY_DISEASE = /kidney|renal|ckd/i;
+
+export const CONTRAINDICATIONS: Contraindication[] = [
+  { drug: 'nsaid', when: 'pregnancy', condition: 'pregnancy', severity: 'major', description: 'NSAIDs are avoided in pregnancy, particularly after 20 weeks, because of the risk to the baby\'s kidneys and heart.' },
+  { drug: 'aspirin', when: 'pregnancy', condition: 'pregnancy', severity: 'moderate', description: 'Pain-relief doses of aspirin are avoided in pregnancy; low-dose aspirin only on specialist advice.' },
+  { drug: 'ace_inhibitor', when: 'pregnancy', condition: 'pregnancy', severity: 'major', description: 'ACE inhibitors can harm the baby\'s kidneys and skull development.' },
+  { drug: 'arb', when: 'pregnancy', condition: 'pregnancy', severity: 'major', description: 'Angiotensin receptor blockers can harm the baby\'s kidneys and skull development.' },
+  { drug: 'statin', when: 'pregnancy', condition: 'pregnancy', severity: 'major', description: 'Statins are contraindicated in pregnancy.' },
+  { drug: 'tetracycline', when: 'pregnancy', condition: 'pregnancy', severity: 'major', description: 'Tetracyclines affect the baby\'s teeth and bone growth.' },
+  { drug: 'fluoroquinolone', when: 'pregnancy', condition: 'pregnancy', severity: 'moderate', description: 'Fluoroquinolones are avoided in pregnancy when an alternative exists.' },
+  { drug: 'trimethoprim', when: 'pregnancy', condition: 'pregnancy', severity: 'moderate', description: 'Trimethoprim is a folate antagonist and is avoided in the first trimester.' },
+  { drug: 'nsaid', when: KIDNEY_DISEASE, condition: 'kidney disease', severity: 'major', description: 'NSAIDs can worsen kidney function.' },
+  { drug: 'nsaid', when: /ulcer|(gi|gastrointestinal|stomach) bleed/i, condition: 'a history of ulcers or bleeding', severity: 'major', description: 'NSAIDs can cause ulcers to bleed.' },
+  { drug: 'nsaid', when: /heart failure/i, condition: 'heart failure', severity: 'major', description: 'NSAIDs cause fluid retention and can worsen heart failure.' },
+  { drug: 'nsaid', when: /asthma/i, condition: 'asthma', severity: 'moderate', description: 'NSAIDs can trigger bronchospasm in some people with asthma.' },
+  { drug: 'aspirin', when: /ulcer|bleeding disorder|ha?emophilia/i, condition: 'ulcers or a bleeding disorder', severity: 'major', description: 'Aspirin increases the risk of bleeding.' },
+  { drug: 'aspirin', when: /asthma/i, condition: 'asthma', severity: 'moderate', description: 'Aspirin can trigger bronchospasm in some people with asthma.' },
+  { drug: 'beta_blocker', when: /asthma/i, condition: 'asthma', severity: 'major', description: 'Beta blockers can provoke severe bronchospasm in asthma.' },
+  { drug: 'biguanide', when: KIDNEY_DISEASE, condition: 'kidney disease', severity: 'moderate', description: 'Metformin needs a dose adjusted to kidney function and is stopped when it is poor.' },
+  { drug: 'potassium_sparing_diuretic', when: KIDNEY_DISEASE, condition: 'kidney disease', severity: 'major', description: 'Risk of dangerous hyperkalaemia with reduced kidney function.' },
+  { drug: 'paracetamol', when: /liver|hepat|cirrhosis/i, condition: 'liver disease', severity: 'moderate', description: 'Paracetamol needs a lower maximum dose in liver disease.' },
+  { drug: 'corticosteroid', when: /diabet/i, condition: 'diabetes', severity: 'moderate', description: 'Corticosteroids raise blood glucose; diabetes control needs closer monitoring.' },
+  { drug: 'fluoroquinolone', when: /epilep|seizure/i, condition: 'epilepsy', severity: 'moderate', description: 'Fluoroquinolones lower the seizure threshold.' },
+  { drug: 'fluoroquinolone', when: /myasthenia/i, condition: 'myasthenia gravis', severity: 'major', description: 'Fluoroquinolones can worsen myasthenia gravis.' },
+  { drug: 'thiazide', when: /gout/i, condition: 'gout', severity: 'moderate', description: 'Thiazides raise uric acid and can trigger gout.' },
+];
+
+const matches = (entry: DrugEntry, drug: string) => entry.id === drug || entry.drugClass === drug;
+
+const UNIT_MG: Record<string, number> = { g: 1000, mg: 1, mcg: 0.001, 'µg': 0.001 };
+
+/** The amount of a single dose in mg, e.g. "2 tablets of 500mg" is 1000; null when it isn't stated. */
+export function singleDoseMg(medication: Medication): number | null {
+  // The dosage wins over a strength in the name, e.g. "Paracetamol 500mg" taken as "1 g".
+  const strengthIn = (text: string) => text.toLowerCase().match(/(\d+(?:\.\d+)?)\s?(mg|mcg|µg|g)\b(?!\s?\/)/);
+  const strength = strengthIn(medication.dosage) ?? strengthIn(medication.name);
+  if (!strength) return null;
+  const units = medication.dosage.toLowerCase().match(/\b(\d+(?:\.\d+)?)\s?(?:tablets?|tabs?|capsules?|caps?)\b/);
+  return Number(strength[1]) * UNIT_MG[strength[2]] * (units ? Number(units[1]) : 1);
+}
+
+function doseWarnings(medication: Medication, entry: DrugEntry, patient: PatientContext): GuardrailWarning[] {
+  const limit = DOSE_LIMITS[entry.id];
+  const single = singleDoseMg(medication);
+  if (!limit || single === null) return [];
+  const child = patient.ageYears !== null && patient.ageYears < PAEDIATRIC_AGE_YEARS;
+  if (child && limit.perKg && patient.weightKg === null) {
+    return [{
+      id: `dosage:${entry.id}:no_weight`, kind: 'dosage', severity: 'moderate', medication: medication.name,
+      message: `${entry.name} for a ${patient.ageYears}-year-old: no weight is recorded, so the dose couldn't be checked.`,
+    }];
+  }
+  const useWeight = child && limit.perKg && patient.weightKg !== null;
+  const maxSingle = useWeight ? Math.min(limit.perKg!.maxSingleMg * patient.weightKg!, limit.maxSingleMg) : limit.maxSingleMg;
+  const maxDaily = useWeight ? Math.min(limit.perKg!.maxDailyMg * patient.weightKg!, limit.maxDailyMg) : limit.maxDailyMg;
+  const basis = useWeight ? ` for ${patient.weightKg} kg` : '';
+
+  const { schedule, recognised } = parseDosage(medication.dosage, '');
+  const daily = recognised && !schedule.asNeeded ? single * schedule.timesPerDay / schedule.intervalDays : null;
+  if (single > maxSingle) {
+    return [{
+      id: `dosage:${entry.id}:single`, kind: 'dosage', severity: 'major', medication: medication.name,
+      message: `${entry.name} ${single} mg per dose is above the usual maximum of ${Math.round(maxSingle)} mg${basis}.`,
+    }];
+  }
+  if (daily !== null && daily > maxDaily) {
+    return [{
+      id: `dosage:${entry.id}:daily`, kind: 'dosage', severity: 'major', medication: medication.name,
+      message: `${entry.name} ${daily} mg a day is above the usual maximum of ${Math.round(maxDaily)} mg a day${basis}.`,
+    }];
+  }
+  return [];
+}
+
+function patientWarnings(medication: Medication, entry: DrugEntry, patient: PatientContext): GuardrailWarning[] {
+  const warnings: GuardrailWarning[] = [];
+  for (const restriction of AGE_RESTRICTIONS) {
+    if (matches(entry, restriction.drug) && patient.ageYears !== null && patient.ageYears < restriction.minAgeYears) {
+      warnings.push({
+        id: `age:${entry.id}`, kind: 'age', severity: restriction.severity, medication: medication.name,
+        message: `${entry.name} is not recommended under ${restriction.minAgeYears} (${restriction.reason}); the patient is ${patient.ageYears}.`,
+      });
+    }
+  }
+  for (const rule of CONTRAINDICATIONS) {
+    if (!matches(entry, rule.drug)) continue;
+    const applies = rule.when === 'pregnancy' ? patient.pregnant : rule.when.test(patient.knownConditions);
+    if (applies) {
+      warnings.push({
+        id: `contraindication:${entry.id}:${rule.condition}`,
+        kind: 'contraindication', severity: rule.severity, medication: medication.name,
+        message: `${entry.name} with ${rule.condition}: ${rule.description}`,
+      });
+    }
+  }
+  return warnings;
+}
+
+function checkMedications(medications: Medication[], patient: PatientContext): { medications: Medication[]; warnings: GuardrailWarning[] } {
+  const kept: Medication[] = [];
+  const warnings: GuardrailWarning[] = [];
+  for (const medication of medications) {
+    const entry = findDrug(medication.name);
+    if (!entry) {
+      kept.push(medication);
+      continue;
+    }
+    const banned = BANNED_DRUG_CLASSES[entry.drugClass];
+    if (banned) {
+      warnings.push({
+        id: `banned_drug:${entry.id}`, kind: 'banned_drug', severity: 'major', medication: medication.name,
+        message: `${medication.name} (${medication.dosage}) was withheld: ${drugClassLabel(entry.drugClass)}s are only started by a doctor (${banned}).`,
+      });
+      continue;
+    }
+    kept.push(medication);
+    warnings.push(...doseWarnings(medication, entry, patient), ...patientWarnings(medication, entry, patient));
+  }
+  return { medications: kept, warnings };
+}
+
+// --- Entry point ---
+
+export interface GuardrailInput {
+  /** What the patient said, checked for red flags. Omit for results without an urgency. */
+  patientText?: string;
+  urgency?: Urgency;
+  medications: Medication[];
+}
+
+export interface GuardrailResult {
+  urgency?: Urgency;
+  medications: Medication[];
+  /** Most severe first. */
+  warnings: GuardrailWarning[];
+}
+
+export function applyGuardrails(input: GuardrailInput, patient: PatientContext): GuardrailResult {
+  const escalation = input.urgency && input.patientText !== undefined
+    ? escalate(input.patientText, input.urgency)
+    : { urgency: input.urgency, warnings: [] };
+  const checked = checkMedications(input.medications, patient);
+  const warnings = [...escalation.warnings, ...checked.warnings]
+    .sort((a, b) => Number(b.severity === 'major') - Number(a.severity === 'major'));
+  return { urgency: escalation.urgency, medications: checked.medications, warnings };
+}
+
+interface InvestigationAnalysis {
+  urgency: Urgency;
+  suggestedNextSteps: { preliminaryMedications: Medication[] };
+}
+
+/** An initial or follow-up investigation analysis with the guardrails applied and its warnings attached. */
+export function guardInvestigationAnalysis<T extends InvestigationAnalysis>(
+  analysis: T,
+  patientText: string,
+  patient: PatientContext,
+): T & { safetyWarnings: GuardrailWarning[] } {
+  const { preliminaryMedications } = analysis.suggestedNextSteps;
+  const guarded = applyGuardrails({ patientText, urgency: analysis.urgency, medications: preliminaryMedications }, patient);
+  return {
+    ...analysis,
+    urgency: guarded.urgency ?? analysis.urgency,
+    suggestedNextSteps: { ...analysis.suggestedNextSteps, preliminaryMedications: guarded.medications },
+    safetyWarnings: guarded.warnings,
+  };
+}
+
+/** The patient's age in years from the profile's free-text age, or null if it isn't a number. */
+export function parseAge(age: string | undefined): number | null {
+  const years = Number.parseInt(age ?? '', 10);
+  return Number.isNaN(years) || years <= 0 ? null : years;
+}
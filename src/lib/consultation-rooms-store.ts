@@ -0,0 +1,120 @@
+import { db } from '@/lib/firebase';
+import { addDoc, arrayUnion, collection, doc, getDoc, getDocs, query, runTransaction, where } from 'firebase/firestore';
+import {
+  ConsultationError,
+  buildConsultationLogEntry,
+  formatCallDuration,
+  joinPath,
+  validateSchedule,
+  type ConsultationLogEntry,
+  type ConsultationRoom,
+} from '@/lib/consultation-rooms';
+import { postSystemMessage } from '@/lib/case-messages-store';
+
+/**
+ * Consultation rooms in `consultation_rooms/{id}`. Starting and ending re-read the room in a
+ * transaction so a consultation is only started once and only logged once.
+ */
+
+interface Participant {
+  uid: string;
+  name: string;
+}
+
+const roomsRef = collection(db, 'consultation_rooms');
+const roomRef = (roomId: string) => doc(db, 'consultation_rooms', roomId);
+
+export async function scheduleConsultation(
+  investigationId: string,
+  patient: Participant,
+  doctor: Participant,
+  scheduledFor: string,
+): Promise<ConsultationRoom> {
+  const error = validateSchedule(scheduledFor);
+  if (error) throw new ConsultationError(error, 'invalid_schedule');
+  const room: Omit<ConsultationRoom, 'id'> = {
+    investigationId,
+    patientId: patient.uid,
+    patientName: patient.name,
+    doctorUid: doctor.uid,
+    doctorName: doctor.name,
+    scheduledFor,
+    status: 'scheduled',
+    createdAt: new Date().toISOString(),
+  };
+  const ref = await addDoc(roomsRef, room);
+  const when = new Date(scheduledFor).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+  await postSystemMessage(investigationId, doctor.uid, `${doctor.name} scheduled a video consultation for ${when}. Join at ${joinPath(ref.id)}`, 'patient');
+  return { id: ref.id, ...room };
+}
+
+export async function fetchConsultationRoom(roomId: string): Promise<ConsultationRoom> {
+  const snapshot = await getDoc(roomRef(roomId));
+  if (!snapshot.exists()) throw new ConsultationError('This consultation does not exist.', 'not_found');
+  return { id: snapshot.id, ...snapshot.data() } as ConsultationRoom;
+}
+
+/** The rooms for one case, newest first. */
+export async function fetchCaseConsultations(investigationId: string, uid: string): Promise<ConsultationRoom[]> {
+  // Filtering on a participant keeps the query within what the rules allow
+  const [asPatient, asDoctor] = await Promise.all([
+    getDocs(query(roomsRef, where('investigationId', '==', investigationId), where('patientId', '==', uid))),
+    getDocs(query(roomsRef, where('investigationId', '==', investigationId), where('doctorUid', '==', uid))),
+  ]);
+  const rooms = [...asPatient.docs, ...asDoctor.docs].map(d => ({ id: d.id, ...d.data() } as ConsultationRoom));
+  return rooms.sort((a, b) => b.scheduledFor.localeCompare(a.scheduledFor));
+}
+
+export async function fetchMyConsultations(uid: string): Promise<ConsultationRoom[]> {
+  const [asPatient, asDoctor] = await Promise.all([
+    getDocs(query(roomsRef, where('patientId', '==', uid))),
+    getDocs(query(roomsRef, where('doctorUid', '==', uid))),
+  ]);
+  const rooms = [...asPatient.docs, ...asDoctor.docs].map(d => ({ id: d.id, ...d.data() } as ConsultationRoom));
+  return rooms.sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+}
+
+/** Marks the room in progress when the patient is first connected; later calls keep the first start time. */
+export async function startConsultation(roomId: string): Promise<void> {
+  await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(roomRef(roomId));
+    if (!snapshot.exists()) throw new ConsultationError('This consultation does not exist.', 'not_found');
+    const room = snapshot.data() as ConsultationRoom;
+    if (room.status !== 'scheduled') return;
+    transaction.update(roomRef(roomId), { status: 'in_progress', startedAt: new Date().toISOString() });
+  });
+}
+
+/** Ends the room and writes it to the case's consultation log; returns the entry, or null if it had already ended. */
+export async function endConsultation(roomId: string, endedBy: string): Promise<ConsultationLogEntry | null> {
+  const entry = await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(roomRef(roomId));
+    if (!snapshot.exists()) throw new ConsultationError('This consultation does not exist.', 'not_found');
+    const room = { id: snapshot.id, ...snapshot.data() } as ConsultationRoom;
+    if (room.status === 'ended' || room.status === 'cancelled') return null;
+    const now = new Date();
+    const logEntry = buildConsultationLogEntry(room, now);
+    transaction.update(roomRef(roomId), { status: 'ended', endedAt: now.toISOString() });
+    transaction.update(doc(db, 'investigations', room.investigationId), { consultations: arrayUnion(logEntry) });
+    return { room, logEntry };
+  });
+  if (!entry) return null;
+  const { room, logEntry } = entry;
+  const summary = logEntry.connected
+    ? `Video consultation with ${room.doctorName} ended after ${formatCallDuration(logEntry.durationSeconds)}.`
+    : `The video consultation with ${room.doctorName} was closed before it started.`;
+  await postSystemMessage(room.investigationId, endedBy, summary, 'patient');
+  return logEntry;
+}
+
+export async function cancelConsultation(roomId: string): Promise<void> {
+  await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(roomRef(roomId));
+    if (!snapshot.exists()) throw new ConsultationError('This consultation does not exist.', 'not_found');
+    const room = snapshot.data() as ConsultationRoom;
+    if (room.status !== 'scheduled') {
+      throw new ConsultationError('Only consultations that have not started can be cancelled.', 'not_joinable');
+    }
+    transaction.update(roomRef(roomId), { status: 'cancelled' });
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * Scheduled video consultations between a case's doctor and patient, stored in
+ * `consultation_rooms/{id}`. The doctor hosts: the patient waits in the waiting room until
+ * admitted. When a consultation ends it is logged on the case as a `ConsultationLogEntry`.
+ */
+
+export type ConsultationStatus = 'scheduled' | 'in_progress' | 'ended' | 'cancelled';
+
+export const CONSULTATION_STATUS_LABELS: Record<ConsultationStatus, string> = {
+  scheduled: 'Scheduled',
+  in_progress: 'In progress',
+  ended: 'Ended',
+  cancelled: 'Cancelled',
+};
+
+/** Patients may enter the waiting room this long before the scheduled time. */
+export const JOIN_EARLY_MINUTES = 10;
+/** After this long past the scheduled time an unstarted room can no longer be joined. */
+export const JOIN_LATE_MINUTES = 60;
+
+export const ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+
+export interface ConsultationRoom {
+  id: string;
+  investigationId: string;
+  patientId: string;
+  patientName: string;
+  doctorUid: string;
+  doctorName: string;
+  scheduledFor: string;
+  status: ConsultationStatus;
+  createdAt: string;
+  startedAt?: string;
+  endedAt?: string;
+}
+
+export interface ConsultationLogEntry {
+  roomId: string;
+  scheduledFor: string;
+  startedAt?: string;
+  endedAt: string;
+  durationSeconds: number;
+  doctorName: string;
+  /** False when the room was closed without the patient being admitted. */
+  connected: boolean;
+}
+
+export class ConsultationError extends Error {
+  constructor(message: string, public code: 'not_found' | 'not_participant' | 'not_joinable' | 'invalid_schedule') {
+    super(message);
+    this.name = 'ConsultationError';
+  }
+}
+
+export function joinPath(roomId: string): string {
+  return `/call/${roomId}`;
+}
+
+export function isParticipant(room: ConsultationRoom, uid: string): boolean {
+  return room.patientId === uid || room.doctorUid === uid;
+}
+
+export function isHost(room: ConsultationRoom, uid: string): boolean {
+  return room.doctorUid === uid;
+}
+
+/**
+ * The doctor can open their room at any time until it ends; the patient only around the
+ * scheduled time, or whenever the doctor has already started it.
+ */
+export function joinBlocker(room: ConsultationRoom, uid: string, now: Date = new Date()): string | null {
+  if (!isParticipant(room, uid)) return 'This consultation is not yours to join.';
+  if (room.status === 'ended') return 'This consultation has ended.';
+  if (room.status === 'cancelled') return 'This consultation was cancelled.';
+  if (isHost(room, uid) || room.status === 'in_progress') return null;
+  const scheduled = new Date(room.scheduledFor).getTime();
+  if (now.getTime() < scheduled - JOIN_EARLY_MINUTES * 60_000) {
+    return `The waiting room opens ${JOIN_EARLY_MINUTES} minutes before the consultation.`;
+  }
+  if (now.getTime() > scheduled + JOIN_LATE_MINUTES * 60_000) return 'This consultation has expired.';
+  return null;
+}
+
+export function validateSchedule(scheduledFor: string, now: Date = new Date()): string | null {
+  const scheduled = new Date(scheduledFor);
+  if (Number.isNaN(scheduled.getTime())) return 'Choose when the consultation should happen.';
+  if (scheduled.getTime() < now.getTime() - 5 * 60_000) return 'The consultation cannot be scheduled in the past.';
+  return null;
+}
+
+export function buildConsultationLogEntry(room: ConsultationRoom, endedAt: Date): ConsultationLogEntry {
+  const started = room.startedAt ? new Date(room.startedAt) : null;
+  const entry: ConsultationLogEntry = {
+    roomId: room.id,
+    scheduledFor: room.scheduledFor,
+    endedAt: endedAt.toISOString(),
+    durationSeconds: started ? Math.max(0, Math.round((endedAt.getTime() - started.getTime()) / 1000)) : 0,
+    doctorName: room.doctorName,
+    connected: !!started,
+  };
+  if (room.startedAt) entry.startedAt = room.startedAt;
+  return entry;
+}
+
+export function formatCallDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} min ${seconds % 60} s` : `${seconds} s`;
+}
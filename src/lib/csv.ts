@@ -0,0 +1,72 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing: quoted fields, escaped quotes, embedded
+ * newlines, and comma, semicolon or tab delimiters (spreadsheet exports in many
+ * locales use semicolons).
+ */
+
+const DELIMITERS = [',', ';', '\t'] as const;
+export type CsvDelimiter = typeof DELIMITERS[number];
+
+/** Picks the delimiter that splits the first line into the most fields. */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  let best: CsvDelimiter = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Excel prefixes UTF-8 exports with a byte order mark.
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeField).join(',')).join('\r\n');
+}
@@ -0,0 +1,76 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDoc, getDocs, query, runTransaction, where } from 'firebase/firestore';
+import {
+  DoctorReviewError,
+  applyRating,
+  reviewBlocker,
+  validateReview,
+  type DirectoryDoctor,
+  type DoctorProfile,
+  type DoctorReview,
+} from '@/lib/doctor-directory';
+import type { InvestigationStatus } from '@/lib/investigation';
+
+/** Reads for the public directory, and ratings, which update the doctor's average in the same transaction. */
+
+const profilesRef = collection(db, 'doctor_profiles');
+const reviewsRef = collection(db, 'doctor_reviews');
+
+/** Every doctor who has filled in a profile. */
+export async function fetchDirectory(): Promise<DirectoryDoctor[]> {
+  const snapshot = await getDocs(profilesRef);
+  return snapshot.docs
+    .map(d => ({ uid: d.id, ...d.data() } as DirectoryDoctor))
+    .filter(d => !!d.name);
+}
+
+export async function fetchDirectoryDoctor(uid: string): Promise<DirectoryDoctor | null> {
+  const snapshot = await getDoc(doc(profilesRef, uid));
+  return snapshot.exists() ? { uid: snapshot.id, ...(snapshot.data() as DoctorProfile) } : null;
+}
+
+export async function fetchDoctorReviews(doctorUid: string, count = 20): Promise<DoctorReview[]> {
+  // Sorted here rather than in the query, which would need a composite index
+  const snapshot = await getDocs(query(reviewsRef, where('doctorUid', '==', doctorUid)));
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data() } as DoctorReview))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, count);
+}
+
+export async function fetchCaseReview(investigationId: string): Promise<DoctorReview | null> {
+  const snapshot = await getDoc(doc(reviewsRef, investigationId));
+  return snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } as DoctorReview : null;
+}
+
+/** Rates the doctor who completed the case; each case can be rated once. */
+export async function submitDoctorReview(investigationId: string, patientUid: string, stars: number, comment: string): Promise<DoctorReview> {
+  const invalid = validateReview(stars, comment);
+  if (invalid) throw new DoctorReviewError(invalid, 'invalid_rating');
+
+  return runTransaction(db, async transaction => {
+    const caseSnapshot = await transaction.get(doc(db, 'investigations', investigationId));
+    if (!caseSnapshot.exists()) throw new DoctorReviewError('This case no longer exists.', 'not_reviewable');
+    const investigation = caseSnapshot.data() as { userId: string; status: InvestigationStatus; reviewedByUid?: string };
+    const blocker = reviewBlocker(investigation, patientUid);
+    if (blocker) throw new DoctorReviewError(blocker, 'not_reviewable');
+
+    const reviewRef = doc(reviewsRef, investigationId);
+    if ((await transaction.get(reviewRef)).exists()) throw new DoctorReviewError('You have already rated this case.', 'already_reviewed');
+    const profileRef = doc(profilesRef, investigation.reviewedByUid!);
+    const profile = await transaction.get(profileRef);
+
+    const review: DoctorReview = {
+      id: investigationId,
+      doctorUid: investigation.reviewedByUid!,
+      patientId: patientUid,
+      stars,
+      ...(comment.trim() ? { comment: comment.trim() } : {}),
+      createdAt: new Date().toISOString(),
+    };
+    const { id, ...data } = review;
+    transaction.set(reviewRef, data);
+    transaction.set(profileRef, { rating: applyRating(profile.data()?.rating, stars, investigationId) }, { merge: true });
+    return review;
+  });
+}
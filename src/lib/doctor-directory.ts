@@ -0,0 +1,139 @@
+import type { DoctorAvailability } from '@/lib/appointments';
+import type { ProfileVerification } from '@/lib/doctor-verification';
+import type { InvestigationStatus } from '@/lib/investigation';
+
+/**
+ * Doctor profiles in the publicly readable `doctor_profiles/{uid}`, the directory patients
+ * browse them in, and ratings. A patient rates the doctor who completed their case once;
+ * the average is kept on the profile so the directory needs no extra reads.
+ */
+
+export interface DoctorRating {
+  average: number;
+  count: number;
+  /** The review that last changed the average, so the rules can check it exists. */
+  lastReviewId?: string;
+}
+
+export interface DoctorProfile {
+  name: string;
+  specialty: string;
+  qualifications?: string[];
+  licenseNumber?: string;
+  /** The medical council or board that issued the license. */
+  licenseIssuer?: string;
+  languages?: string[];
+  bio?: string;
+  photoDataUri?: string;
+  /** In Naira, for a booked consultation. */
+  consultationFee?: number;
+  rating?: DoctorRating;
+  /** Bookable hours; see src/lib/appointments.ts. */
+  availability?: DoctorAvailability;
+  /** Set by admins only; see src/lib/doctor-verification.ts. */
+  verification?: ProfileVerification;
+}
+
+export interface DirectoryDoctor extends DoctorProfile {
+  uid: string;
+}
+
+/** The doctor a patient asked for when submitting a case. */
+export interface RequestedDoctor {
+  uid: string;
+  name: string;
+}
+
+/** `doctor_reviews/{investigationId}`: one per case. */
+export interface DoctorReview {
+  id: string;
+  doctorUid: string;
+  patientId: string;
+  stars: number;
+  comment?: string;
+  createdAt: string;
+}
+
+export interface DirectoryFilters {
+  query: string;
+  specialty: string | 'all';
+  language: string | 'all';
+  minRating: number;
+  /** Null for any fee. */
+  maxFee: number | null;
+}
+
+export const EMPTY_DIRECTORY_FILTERS: DirectoryFilters = { query: '', specialty: 'all', language: 'all', minRating: 0, maxFee: null };
+
+export const MAX_PHOTO_BYTES = 300 * 1024;
+export const MAX_BIO_LENGTH = 1000;
+export const MAX_REVIEW_COMMENT_LENGTH = 500;
+
+export class DoctorReviewError extends Error {
+  constructor(message: string, public code: 'invalid_rating' | 'not_reviewable' | 'already_reviewed') {
+    super(message);
+    this.name = 'DoctorReviewError';
+  }
+}
+
+/** Splits a comma-separated form field into trimmed, non-empty entries. */
+export function parseList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+export function formatFee(fee?: number): string {
+  return fee === undefined ? 'Fee not listed' : fee === 0 ? 'Free' : `₦${fee.toLocaleString()}`;
+}
+
+export function filterDoctors(doctors: DirectoryDoctor[], filters: DirectoryFilters): DirectoryDoctor[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return doctors.filter(d => {
+    const haystack = [d.name, d.specialty, d.bio ?? '', ...(d.qualifications ?? []), ...(d.languages ?? [])].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term))
+      && (filters.specialty === 'all' || d.specialty === filters.specialty)
+      && (filters.language === 'all' || (d.languages ?? []).includes(filters.language))
+      && (filters.minRating === 0 || (d.rating?.average ?? 0) >= filters.minRating)
+      && (filters.maxFee === null || (d.consultationFee !== undefined && d.consultationFee <= filters.maxFee));
+  });
+}
+
+/** Best rated first, with more reviews breaking ties; unrated doctors by name after them. */
+export function sortDirectory(doctors: DirectoryDoctor[]): DirectoryDoctor[] {
+  const verified = (d: DirectoryDoctor) => (d.verification?.status === 'verified' ? 1 : 0);
+  return [...doctors].sort((a, b) =>
+    verified(b) - verified(a)
+    || (b.rating?.average ?? 0) - (a.rating?.average ?? 0)
+    || (b.rating?.count ?? 0) - (a.rating?.count ?? 0)
+    || a.name.localeCompare(b.name),
+  );
+}
+
+/** The specialties and languages the directory's filters offer. */
+export function directoryOptions(doctors: DirectoryDoctor[]): { specialties: string[]; languages: string[] } {
+  const specialties = new Set(doctors.map(d => d.specialty).filter(Boolean));
+  const languages = new Set(doctors.flatMap(d => d.languages ?? []));
+  return { specialties: [...specialties].sort(), languages: [...languages].sort() };
+}
+
+export function applyRating(rating: DoctorRating | undefined, stars: number, reviewId: string): DoctorRating {
+  const count = (rating?.count ?? 0) + 1;
+  const average = ((rating?.average ?? 0) * (count - 1) + stars) / count;
+  return { average: Math.round(average * 100) / 100, count, lastReviewId: reviewId };
+}
+
+/** Why the patient can't rate the doctor on this case, or null if they can. */
+export function reviewBlocker(
+  investigation: { userId: string; status: InvestigationStatus; reviewedByUid?: string },
+  uid: string,
+): string | null {
+  if (investigation.userId !== uid) return 'Only the patient can rate their doctor.';
+  if (investigation.status !== 'completed') return 'You can rate your doctor once the case is completed.';
+  if (!investigation.reviewedByUid) return 'No doctor reviewed this case.';
+  return null;
+}
+
+export function validateReview(stars: number, comment: string): string | null {
+  if (!Number.isInteger(stars) || stars < 1 || stars > 5) return 'Choose between one and five stars.';
+  if (comment.length > MAX_REVIEW_COMMENT_LENGTH) return `Keep your comment under ${MAX_REVIEW_COMMENT_LENGTH} characters.`;
+  return null;
+}
@@ -0,0 +1,104 @@
+import { db } from '@/lib/firebase';
+import { addDoc, arrayUnion, collection, deleteDoc, doc, getDoc, getDocs, query, runTransaction, where } from 'firebase/firestore';
+import {
+  DECISION_STATUS,
+  VerificationError,
+  decisionBlocker,
+  profileVerification,
+  submissionBlocker,
+  type DoctorVerification,
+  type LicenseDocument,
+  type VerificationApplication,
+  type VerificationDecision,
+  type VerificationEvent,
+  type VerificationStatus,
+} from '@/lib/doctor-verification';
+
+/**
+ * Applications in `doctor_verifications/{uid}` and their documents. Submitting and deciding
+ * re-read the status in a transaction, so an application is only decided once per submission.
+ */
+
+interface Person {
+  uid: string;
+  name: string;
+}
+
+const verificationRef = (doctorUid: string) => doc(db, 'doctor_verifications', doctorUid);
+const documentsRef = (doctorUid: string) => collection(db, 'doctor_verifications', doctorUid, 'documents');
+
+export async function fetchVerification(doctorUid: string): Promise<DoctorVerification | null> {
+  const snapshot = await getDoc(verificationRef(doctorUid));
+  return snapshot.exists() ? snapshot.data() as DoctorVerification : null;
+}
+
+export async function fetchLicenseDocuments(doctorUid: string): Promise<LicenseDocument[]> {
+  const snapshot = await getDocs(documentsRef(doctorUid));
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data() } as LicenseDocument))
+    .sort((a, b) => a.uploadedAt.localeCompare(b.uploadedAt));
+}
+
+export async function addLicenseDocument(doctorUid: string, document: Omit<LicenseDocument, 'id'>): Promise<LicenseDocument> {
+  const ref = await addDoc(documentsRef(doctorUid), document);
+  return { id: ref.id, ...document };
+}
+
+export async function removeLicenseDocument(doctorUid: string, documentId: string): Promise<void> {
+  await deleteDoc(doc(documentsRef(doctorUid), documentId));
+}
+
+export async function submitVerification(doctor: Person, application: VerificationApplication): Promise<void> {
+  const documentCount = (await getDocs(documentsRef(doctor.uid))).size;
+  await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(verificationRef(doctor.uid));
+    const current = snapshot.exists() ? snapshot.data() as DoctorVerification : null;
+    const status: VerificationStatus = current?.status ?? 'unsubmitted';
+    const blocker = submissionBlocker(application, documentCount, status);
+    if (blocker) throw new VerificationError(blocker, documentCount === 0 ? 'missing_documents' : 'not_submittable');
+
+    const now = new Date().toISOString();
+    const event: VerificationEvent = { action: 'submitted', byUid: doctor.uid, byName: doctor.name, at: now };
+    const verification: DoctorVerification = {
+      doctorUid: doctor.uid,
+      doctorName: doctor.name,
+      specialty: application.specialty,
+      licenseNumber: application.licenseNumber.trim(),
+      licenseIssuer: application.licenseIssuer.trim(),
+      status: 'pending',
+      submittedAt: now,
+      history: [...(current?.history ?? []), event],
+    };
+    transaction.set(verificationRef(doctor.uid), verification);
+  });
+}
+
+/** Applications awaiting a decision, oldest first. */
+export async function fetchVerificationQueue(): Promise<DoctorVerification[]> {
+  const snapshot = await getDocs(query(collection(db, 'doctor_verifications'), where('status', '==', 'pending')));
+  return snapshot.docs
+    .map(d => d.data() as DoctorVerification)
+    .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+}
+
+/** Records the admin's decision and copies the outcome onto the doctor's public profile. */
+export async function reviewVerification(doctorUid: string, decision: VerificationDecision, note: string, reviewer: Person): Promise<void> {
+  await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(verificationRef(doctorUid));
+    if (!snapshot.exists()) throw new VerificationError('This application no longer exists.', 'not_reviewable');
+    const current = snapshot.data() as DoctorVerification;
+    const blocker = decisionBlocker(current.status, decision, note);
+    if (blocker) throw new VerificationError(blocker, current.status === 'pending' ? 'note_required' : 'not_reviewable');
+    const profileRef = doc(db, 'doctor_profiles', doctorUid);
+    const profile = await transaction.get(profileRef);
+
+    const now = new Date().toISOString();
+    const status = DECISION_STATUS[decision];
+    const event: VerificationEvent = {
+      action: decision, byUid: reviewer.uid, byName: reviewer.name, at: now, ...(note.trim() ? { note: note.trim() } : {}),
+    };
+    transaction.update(verificationRef(doctorUid), { status, reviewedAt: now, history: arrayUnion(event) });
+    // Doctors who haven't created a profile yet copy the status over when they do
+    if (profile.exists()) transaction.update(profileRef, { verification: profileVerification({ status, reviewedAt: now }) });
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * License verification for doctors. A doctor uploads their license documents and submits
+ * an application in `doctor_verifications/{uid}`; an admin approves it, rejects it or asks
+ * for more information, which the doctor answers by resubmitting. Until approved, a doctor
+ * can see the case queue but the rules refuse any change they make to a case.
+ */
+
+export type VerificationStatus = 'unsubmitted' | 'pending' | 'more_info_requested' | 'verified' | 'rejected';
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  unsubmitted: 'Not submitted',
+  pending: 'Awaiting review',
+  more_info_requested: 'More information requested',
+  verified: 'Verified',
+  rejected: 'Rejected',
+};
+
+export type VerificationDecision = 'approve' | 'reject' | 'request_info';
+
+export const DECISION_STATUS: Record<VerificationDecision, VerificationStatus> = {
+  approve: 'verified',
+  reject: 'rejected',
+  request_info: 'more_info_requested',
+};
+
+export const DECISION_LABELS: Record<VerificationDecision, string> = {
+  approve: 'Approve',
+  reject: 'Reject',
+  request_info: 'Request more information',
+};
+
+/** `doctor_verifications/{uid}/documents/{id}`, kept apart so the application stays under the document size limit. */
+export interface LicenseDocument {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  dataUri: string;
+  uploadedAt: string;
+}
+
+export interface VerificationEvent {
+  action: 'submitted' | VerificationDecision;
+  byUid: string;
+  byName: string;
+  at: string;
+  note?: string;
+}
+
+export interface DoctorVerification {
+  doctorUid: string;
+  doctorName: string;
+  specialty: string;
+  licenseNumber: string;
+  licenseIssuer: string;
+  status: VerificationStatus;
+  submittedAt: string;
+  reviewedAt?: string;
+  history: VerificationEvent[];
+}
+
+/** What the directory shows; admins copy it onto `doctor_profiles/{uid}.verification` with each decision. */
+export interface ProfileVerification {
+  status: VerificationStatus;
+  verifiedAt?: string;
+}
+
+export interface VerificationApplication {
+  specialty: string;
+  licenseNumber: string;
+  licenseIssuer: string;
+}
+
+export const MAX_LICENSE_DOCUMENTS = 5;
+export const MAX_DOCUMENT_BYTES = 700 * 1024;
+export const ACCEPTED_DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+
+export class VerificationError extends Error {
+  constructor(
+    message: string,
+    public code: 'not_submittable' | 'not_reviewable' | 'missing_documents' | 'document_rejected' | 'note_required',
+  ) {
+    super(message);
+    this.name = 'VerificationError';
+  }
+}
+
+/** Doctors apply the first time, and again after a rejection or a request for more information. */
+export function canSubmit(status: VerificationStatus): boolean {
+  return status === 'unsubmitted' || status === 'more_info_requested' || status === 'rejected';
+}
+
+export function isVerified(status?: VerificationStatus): boolean {
+  return status === 'verified';
+}
+
+export function validateLicenseDocument(file: { type: string; size: number }, existingCount: number): string | null {
+  if (existingCount >= MAX_LICENSE_DOCUMENTS) return `Upload at most ${MAX_LICENSE_DOCUMENTS} documents.`;
+  if (!ACCEPTED_DOCUMENT_TYPES.includes(file.type)) return 'Upload a PDF, JPEG or PNG.';
+  if (file.size > MAX_DOCUMENT_BYTES) return `Documents must be under ${Math.round(MAX_DOCUMENT_BYTES / 1024)} KB.`;
+  return null;
+}
+
+export function submissionBlocker(application: VerificationApplication, documentCount: number, status: VerificationStatus): string | null {
+  if (!canSubmit(status)) {
+    return status === 'verified' ? 'Your license is already verified.' : 'Your application is already awaiting review.';
+  }
+  if (!application.licenseNumber.trim() || !application.licenseIssuer.trim()) return 'Enter your license number and the body that issued it.';
+  if (documentCount === 0) return 'Upload at least one license document.';
+  return null;
+}
+
+/** Only pending applications are decided, and anything short of approval needs a note for the doctor. */
+export function decisionBlocker(status: VerificationStatus, decision: VerificationDecision, note: string): string | null {
+  if (status !== 'pending') return 'This application is not awaiting review.';
+  if (decision !== 'approve' && !note.trim()) return 'Tell the doctor why, so they can respond.';
+  return null;
+}
+
+export function profileVerification(verification: Pick<DoctorVerification, 'status' | 'reviewedAt'>): ProfileVerification {
+  return {
+    status: verification.status,
+    ...(verification.status === 'verified' && verification.reviewedAt ? { verifiedAt: verification.reviewedAt } : {}),
+  };
+}
+
+/** The most recent note an admin left for the doctor. */
+export function latestReviewNote(verification: DoctorVerification): string | null {
+  const review = [...verification.history].reverse().find(e => e.action !== 'submitted');
+  return review?.note ?? null;
+}
@@ -0,0 +1,215 @@
+/**
+ * A small local drug dictionary covering the medications most often suggested in the
+ * clinic, with the therapeutic classes and known interactions the prescription checks
+ * rely on. It is deliberately conservative: drugs it doesn't know are still prescribable,
+ * they just can't be checked.
+ */
+
+export type DrugRoute = 'oral' | 'sublingual' | 'topical' | 'inhaled' | 'intramuscular' | 'intravenous' | 'subcutaneous' | 'rectal' | 'ophthalmic' | 'nasal';
+
+export const ROUTE_LABELS: Record<DrugRoute, string> = {
+  oral: 'by mouth',
+  sublingual: 'under the tongue',
+  topical: 'applied to the skin',
+  inhaled: 'inhaled',
+  intramuscular: 'by intramuscular injection',
+  intravenous: 'intravenously',
+  subcutaneous: 'by subcutaneous injection',
+  rectal: 'rectally',
+  ophthalmic: 'in the eye',
+  nasal: 'in the nose',
+};
+
+export interface DrugEntry {
+  id: string;
+  name: string;
+  /** Brand and alternative names a doctor or the AI might write instead. */
+  aliases: string[];
+  /** Therapeutic class; two different drugs in the same class are duplicate therapy. */
+  drugClass: string;
+  routes: DrugRoute[];
+  strengths: string[];
+}
+
+export type InteractionSeverity = 'major' | 'moderate';
+
+export interface DrugInteraction {
+  /** Each side matches a drug id or a drug class. */
+  between: [string, string];
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export const DRUG_CLASS_LABELS: Record<string, string> = {
+  analgesic: 'simple analgesic',
+  nsaid: 'NSAID',
+  opioid: 'opioid',
+  anticoagulant: 'anticoagulant',
+  antiplatelet: 'antiplatelet',
+  ace_inhibitor: 'ACE inhibitor',
+  arb: 'angiotensin receptor blocker',
+  beta_blocker: 'beta blocker',
+  calcium_channel_blocker: 'calcium channel blocker',
+  thiazide: 'thiazide diuretic',
+  loop_diuretic: 'loop diuretic',
+  potassium_sparing_diuretic: 'potassium-sparing diuretic',
+  statin: 'statin',
+  biguanide: 'biguanide',
+  sulfonylurea: 'sulfonylurea',
+  insulin: 'insulin',
+  ppi: 'proton pump inhibitor',
+  h2_blocker: 'H2 blocker',
+  ssri: 'SSRI',
+  maoi: 'MAO inhibitor',
+  macrolide: 'macrolide antibiotic',
+  penicillin: 'penicillin antibiotic',
+  fluoroquinolone: 'fluoroquinolone antibiotic',
+  tetracycline: 'tetracycline antibiotic',
+  nitroimidazole: 'nitroimidazole antibiotic',
+  antifolate: 'antifolate antibiotic',
+  azole_antifungal: 'azole antifungal',
+  antihistamine: 'antihistamine',
+  corticosteroid: 'corticosteroid',
+  bronchodilator: 'bronchodilator',
+  nitrate: 'nitrate',
+  pde5_inhibitor: 'PDE5 inhibitor',
+  thyroid_hormone: 'thyroid hormone',
+  mood_stabiliser: 'mood stabiliser',
+  antimetabolite: 'antimetabolite',
+  antimalarial: 'antimalarial',
+  antacid: 'antacid',
+  mineral_supplement: 'mineral supplement',
+};
+
+export const DRUG_DICTIONARY: DrugEntry[] = [
+  { id: 'paracetamol', name: 'Paracetamol', aliases: ['acetaminophen', 'tylenol', 'panadol', 'calpol'], drugClass: 'analgesic', routes: ['oral', 'rectal', 'intravenous'], strengths: ['500 mg', '1 g', '120 mg/5 ml'] },
+  { id: 'ibuprofen', name: 'Ibuprofen', aliases: ['advil', 'nurofen', 'motrin', 'brufen'], drugClass: 'nsaid', routes: ['oral', 'topical'], strengths: ['200 mg', '400 mg', '600 mg'] },
+  { id: 'naproxen', name: 'Naproxen', aliases: ['aleve', 'naprosyn'], drugClass: 'nsaid', routes: ['oral'], strengths: ['250 mg', '500 mg'] },
+  { id: 'diclofenac', name: 'Diclofenac', aliases: ['voltaren', 'voltarol', 'cataflam'], drugClass: 'nsaid', routes: ['oral', 'topical', 'intramuscular'], strengths: ['25 mg', '50 mg', '75 mg'] },
+  { id: 'aspirin', name: 'Aspirin', aliases: ['acetylsalicylic acid', 'asa', 'disprin'], drugClass: 'antiplatelet', routes: ['oral'], strengths: ['75 mg', '81 mg', '300 mg'] },
+  { id: 'clopidogrel', name: 'Clopidogrel', aliases: ['plavix'], drugClass: 'antiplatelet', routes: ['oral'], strengths: ['75 mg'] },
+  { id: 'tramadol', name: 'Tramadol', aliases: ['ultram', 'tramal'], drugClass: 'opioid', routes: ['oral'], strengths: ['50 mg', '100 mg'] },
+  { id: 'codeine', name: 'Codeine', aliases: ['codeine phosphate'], drugClass: 'opioid', routes: ['oral'], strengths: ['15 mg', '30 mg'] },
+  { id: 'warfarin', name: 'Warfarin', aliases: ['coumadin', 'marevan'], drugClass: 'anticoagulant', routes: ['oral'], strengths: ['1 mg', '3 mg', '5 mg'] },
+  { id: 'apixaban', name: 'Apixaban', aliases: ['eliquis'], drugClass: 'anticoagulant', routes: ['oral'], strengths: ['2.5 mg', '5 mg'] },
+  { id: 'lisinopril', name: 'Lisinopril', aliases: ['zestril', 'prinivil'], drugClass: 'ace_inhibitor', routes: ['oral'], strengths: ['5 mg', '10 mg', '20 mg'] },
+  { id: 'enalapril', name: 'Enalapril', aliases: ['vasotec', 'renitec'], drugClass: 'ace_inhibitor', routes: ['oral'], strengths: ['5 mg', '10 mg', '20 mg'] },
+  { id: 'ramipril', name: 'Ramipril', aliases: ['altace', 'tritace'], drugClass: 'ace_inhibitor', routes: ['oral'], strengths: ['2.5 mg', '5 mg', '10 mg'] },
+  { id: 'losartan', name: 'Losartan', aliases: ['cozaar'], drugClass: 'arb', routes: ['oral'], strengths: ['25 mg', '50 mg', '100 mg'] },
+  { id: 'amlodipine', name: 'Amlodipine', aliases: ['norvasc', 'istin'], drugClass: 'calcium_channel_blocker', routes: ['oral'], strengths: ['5 mg', '10 mg'] },
+  { id: 'atenolol', name: 'Atenolol', aliases: ['tenormin'], drugClass: 'beta_blocker', routes: ['oral'], strengths: ['25 mg', '50 mg', '100 mg'] },
+  { id: 'metoprolol', name: 'Metoprolol', aliases: ['lopressor', 'betaloc', 'toprol'], drugClass: 'beta_blocker', routes: ['oral'], strengths: ['25 mg', '50 mg', '100 mg'] },
+  { id: 'hydrochlorothiazide', name: 'Hydrochlorothiazide', aliases: ['hctz', 'microzide'], drugClass: 'thiazide', routes: ['oral'], strengths: ['12.5 mg', '25 mg'] },
+  { id: 'furosemide', name: 'Furosemide', aliases: ['frusemide', 'lasix'], drugClass: 'loop_diuretic', routes: ['oral', 'intravenous'], strengths: ['20 mg', '40 mg'] },
+  { id: 'spironolactone', name: 'Spironolactone', aliases: ['aldactone'], drugClass: 'potassium_sparing_diuretic', routes: ['oral'], strengths: ['25 mg', '50 mg', '100 mg'] },
+  { id: 'atorvastatin', name: 'Atorvastatin', aliases: ['lipitor'], drugClass: 'statin', routes: ['oral'], strengths: ['10 mg', '20 mg', '40 mg', '80 mg'] },
+  { id: 'simvastatin', name: 'Simvastatin', aliases: ['zocor'], drugClass: 'statin', routes: ['oral'], strengths: ['10 mg', '20 mg', '40 mg'] },
+  { id: 'metformin', name: 'Metformin', aliases: ['glucophage'], drugClass: 'biguanide', routes: ['oral'], strengths: ['500 mg', '850 mg', '1 g'] },
+  { id: 'gliclazide', name: 'Gliclazide', aliases: ['diamicron'], drugClass: 'sulfonylurea', routes: ['oral'], strengths: ['40 mg', '80 mg'] },
+  { id: 'glibenclamide', name: 'Glibenclamide', aliases: ['glyburide', 'daonil'], drugClass: 'sulfonylurea', routes: ['oral'], strengths: ['2.5 mg', '5 mg'] },
+  { id: 'insulin', name: 'Insulin', aliases: ['insulin glargine', 'lantus', 'insulin aspart', 'novorapid', 'humulin'], drugClass: 'insulin', routes: ['subcutaneous'], strengths: ['100 units/ml'] },
+  { id: 'omeprazole', name: 'Omeprazole', aliases: ['prilosec', 'losec'], drugClass: 'ppi', routes: ['oral'], strengths: ['10 mg', '20 mg', '40 mg'] },
+  { id: 'pantoprazole', name: 'Pantoprazole', aliases: ['protonix', 'protium'], drugClass: 'ppi', routes: ['oral', 'intravenous'], strengths: ['20 mg', '40 mg'] },
+  { id: 'esomeprazole', name: 'Esomeprazole', aliases: ['nexium'], drugClass: 'ppi', routes: ['oral'], strengths: ['20 mg', '40 mg'] },
+  { id: 'famotidine', name: 'Famotidine', aliases: ['pepcid'], drugClass: 'h2_blocker', routes: ['oral'], strengths: ['20 mg', '40 mg'] },
+  { id: 'antacid', name: 'Antacid (aluminium/magnesium hydroxide)', aliases: ['maalox', 'gaviscon', 'mylanta', 'magnesium hydroxide', 'aluminium hydroxide'], drugClass: 'antacid', routes: ['oral'], strengths: ['10 ml'] },
+  { id: 'sertraline', name: 'Sertraline', aliases: ['zoloft', 'lustral'], drugClass: 'ssri', routes: ['oral'], strengths: ['50 mg', '100 mg'] },
+  { id: 'fluoxetine', name: 'Fluoxetine', aliases: ['prozac'], drugClass: 'ssri', routes: ['oral'], strengths: ['20 mg', '40 mg'] },
+  { id: 'citalopram', name: 'Citalopram', aliases: ['celexa', 'cipramil'], drugClass: 'ssri', routes: ['oral'], strengths: ['10 mg', '20 mg'] },
+  { id: 'phenelzine', name: 'Phenelzine', aliases: ['nardil'], drugClass: 'maoi', routes: ['oral'], strengths: ['15 mg'] },
+  { id: 'lithium', name: 'Lithium', aliases: ['lithium carbonate', 'priadel'], drugClass: 'mood_stabiliser', routes: ['oral'], strengths: ['250 mg', '400 mg'] },
+  { id: 'amoxicillin', name: 'Amoxicillin', aliases: ['amoxil', 'amoxycillin'], drugClass: 'penicillin', routes: ['oral'], strengths: ['250 mg', '500 mg'] },
+  { id: 'co-amoxiclav', name: 'Co-amoxiclav', aliases: ['amoxicillin/clavulanate', 'augmentin', 'amoxiclav'], drugClass: 'penicillin', routes: ['oral', 'intravenous'], strengths: ['375 mg', '625 mg'] },
+  { id: 'clarithromycin', name: 'Clarithromycin', aliases: ['biaxin', 'klacid'], drugClass: 'macrolide', routes: ['oral'], strengths: ['250 mg', '500 mg'] },
+  { id: 'azithromycin', name: 'Azithromycin', aliases: ['zithromax', 'z-pak'], drugClass: 'macrolide', routes: ['oral'], strengths: ['250 mg', '500 mg'] },
+  { id: 'erythromycin', name: 'Erythromycin', aliases: ['erythrocin'], drugClass: 'macrolide', routes: ['oral'], strengths: ['250 mg', '500 mg'] },
+  { id: 'ciprofloxacin', name: 'Ciprofloxacin', aliases: ['cipro', 'ciproxin'], drugClass: 'fluoroquinolone', routes: ['oral', 'ophthalmic'], strengths: ['250 mg', '500 mg', '750 mg'] },
+  { id: 'levofloxacin', name: 'Levofloxacin', aliases: ['levaquin', 'tavanic'], drugClass: 'fluoroquinolone', routes: ['oral'], strengths: ['250 mg', '500 mg'] },
+  { id: 'doxycycline', name: 'Doxycycline', aliases: ['vibramycin'], drugClass: 'tetracycline', routes: ['oral'], strengths: ['100 mg'] },
+  { id: 'metronidazole', name: 'Metronidazole', aliases: ['flagyl'], drugClass: 'nitroimidazole', routes: ['oral', 'topical', 'intravenous'], strengths: ['200 mg', '400 mg', '500 mg'] },
+  { id: 'trimethoprim', name: 'Trimethoprim', aliases: ['co-trimoxazole', 'sulfamethoxazole/trimethoprim', 'bactrim', 'septrin'], drugClass: 'antifolate', routes: ['oral'], strengths: ['100 mg', '200 mg', '960 mg'] },
+  { id: 'fluconazole', name: 'Fluconazole', aliases: ['diflucan'], drugClass: 'azole_antifungal', routes: ['oral'], strengths: ['50 mg', '150 mg', '200 mg'] },
+  { id: 'cetirizine', name: 'Cetirizine', aliases: ['zyrtec'], drugClass: 'antihistamine', routes: ['oral'], strengths: ['10 mg'] },
+  { id: 'loratadine', name: 'Loratadine', aliases: ['claritin', 'clarityn'], drugClass: 'antihistamine', routes: ['oral'], strengths: ['10 mg'] },
+  { id: 'prednisolone', name: 'Prednisolone', aliases: ['prednisone', 'deltacortril'], drugClass: 'corticosteroid', routes: ['oral'], strengths: ['5 mg', '25 mg'] },
+  { id: 'salbutamol', name: 'Salbutamol', aliases: ['albuterol', 'ventolin', 'proventil'], drugClass: 'bronchodilator', routes: ['inhaled', 'oral'], strengths: ['100 mcg/puff', '2 mg'] },
+  { id: 'glyceryl-trinitrate', name: 'Glyceryl trinitrate', aliases: ['gtn', 'nitroglycerin', 'isosorbide mononitrate', 'isosorbide dinitrate'], drugClass: 'nitrate', routes: ['sublingual', 'oral'], strengths: ['400 mcg/spray', '10 mg'] },
+  { id: 'sildenafil', name: 'Sildenafil', aliases: ['viagra', 'revatio'], drugClass: 'pde5_inhibitor', routes: ['oral'], strengths: ['25 mg', '50 mg', '100 mg'] },
+  { id: 'levothyroxine', name: 'Levothyroxine', aliases: ['thyroxine', 'synthroid', 'eltroxin'], drugClass: 'thyroid_hormone', routes: ['oral'], strengths: ['25 mcg', '50 mcg', '100 mcg'] },
+  { id: 'methotrexate', name: 'Methotrexate', aliases: ['trexall'], drugClass: 'antimetabolite', routes: ['oral', 'subcutaneous'], strengths: ['2.5 mg', '10 mg'] },
+  { id: 'artemether-lumefantrine', name: 'Artemether/lumefantrine', aliases: ['coartem', 'riamet'], drugClass: 'antimalarial', routes: ['oral'], strengths: ['20 mg/120 mg'] },
+  { id: 'iron', name: 'Ferrous sulfate', aliases: ['iron', 'ferrous sulphate', 'ferrous fumarate'], drugClass: 'mineral_supplement', routes: ['oral'], strengths: ['200 mg'] },
+];
+
+export const DRUG_INTERACTIONS: DrugInteraction[] = [
+  { between: ['anticoagulant', 'nsaid'], severity: 'major', description: 'Greatly increases the risk of serious bleeding, particularly gastrointestinal.' },
+  { between: ['anticoagulant', 'antiplatelet'], severity: 'major', description: 'Combined anticoagulant and antiplatelet therapy substantially raises bleeding risk.' },
+  { between: ['warfarin', 'macrolide'], severity: 'major', description: 'Macrolides inhibit warfarin metabolism and can raise the INR.' },
+  { between: ['warfarin', 'fluoroquinolone'], severity: 'major', description: 'Fluoroquinolones can potentiate warfarin and raise the INR.' },
+  { between: ['warfarin', 'azole_antifungal'], severity: 'major', description: 'Azole antifungals inhibit warfarin metabolism; the INR can rise sharply.' },
+  { between: ['warfarin', 'metronidazole'], severity: 'major', description: 'Metronidazole markedly potentiates warfarin.' },
+  { between: ['ssri', 'maoi'], severity: 'major', description: 'Risk of serotonin syndrome; the combination is contraindicated.' },
+  { between: ['ssri', 'tramadol'], severity: 'major', description: 'Risk of serotonin syndrome and lowered seizure threshold.' },
+  { between: ['nitrate', 'pde5_inhibitor'], severity: 'major', description: 'Can cause profound, potentially fatal hypotension; the combination is contraindicated.' },
+  { between: ['simvastatin', 'macrolide'], severity: 'major', description: 'Macrolides raise simvastatin levels, with a risk of myopathy and rhabdomyolysis.' },
+  { between: ['methotrexate', 'trimethoprim'], severity: 'major', description: 'Both are antifolates; combined use risks bone marrow suppression.' },
+  { between: ['methotrexate', 'nsaid'], severity: 'major', description: 'NSAIDs reduce methotrexate clearance and can cause toxicity.' },
+  { between: ['lithium', 'nsaid'], severity: 'major', description: 'NSAIDs reduce lithium excretion and can cause lithium toxicity.' },
+  { between: ['lithium', 'ace_inhibitor'], severity: 'major', description: 'ACE inhibitors raise lithium levels; monitor closely or avoid.' },
+  { between: ['lithium', 'thiazide'], severity: 'major', description: 'Thiazides reduce lithium excretion and can cause toxicity.' },
+  { between: ['ace_inhibitor', 'arb'], severity: 'major', description: 'Dual blockade of the renin-angiotensin system increases the risk of hyperkalaemia, hypotension and kidney injury.' },
+  { between: ['ace_inhibitor', 'potassium_sparing_diuretic'], severity: 'moderate', description: 'Risk of hyperkalaemia; monitor potassium.' },
+  { between: ['arb', 'potassium_sparing_diuretic'], severity: 'moderate', description: 'Risk of hyperkalaemia; monitor potassium.' },
+  { between: ['ace_inhibitor', 'nsaid'], severity: 'moderate', description: 'NSAIDs blunt the antihypertensive effect and increase the risk of kidney injury.' },
+  { between: ['arb', 'nsaid'], severity: 'moderate', description: 'NSAIDs blunt the antihypertensive effect and increase the risk of kidney injury.' },
+  { between: ['nsaid', 'corticosteroid'], severity: 'moderate', description: 'Increased risk of gastrointestinal ulceration and bleeding.' },
+  { between: ['nsaid', 'ssri'], severity: 'moderate', description: 'Increased risk of gastrointestinal bleeding.' },
+  { between: ['clopidogrel', 'omeprazole'], severity: 'moderate', description: 'Omeprazole reduces the activation of clopidogrel; prefer pantoprazole.' },
+  { between: ['clopidogrel', 'esomeprazole'], severity: 'moderate', description: 'Esomeprazole reduces the activation of clopidogrel; prefer pantoprazole.' },
+  { between: ['fluoroquinolone', 'antacid'], severity: 'moderate', description: 'Antacids bind fluoroquinolones and reduce their absorption; separate doses by at least 2 hours.' },
+  { between: ['fluoroquinolone', 'mineral_supplement'], severity: 'moderate', description: 'Iron reduces fluoroquinolone absorption; separate doses by at least 2 hours.' },
+  { between: ['tetracycline', 'antacid'], severity: 'moderate', description: 'Antacids reduce tetracycline absorption; separate doses.' },
+  { between: ['tetracycline', 'mineral_supplement'], severity: 'moderate', description: 'Iron reduces tetracycline absorption; separate doses.' },
+  { between: ['levothyroxine', 'mineral_supplement'], severity: 'moderate', description: 'Iron reduces levothyroxine absorption; separate doses by 4 hours.' },
+  { between: ['sulfonylurea', 'fluconazole'], severity: 'moderate', description: 'Fluconazole raises sulfonylurea levels with a risk of hypoglycaemia.' },
+  { between: ['sulfonylurea', 'fluoroquinolone'], severity: 'moderate', description: 'Fluoroquinolones can cause hypo- or hyperglycaemia with sulfonylureas.' },
+  { between: ['beta_blocker', 'bronchodilator'], severity: 'moderate', description: 'Beta blockers can oppose bronchodilators and provoke bronchospasm in asthma.' },
+];
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9/ -]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+const entriesByTerm = new Map<string, DrugEntry>(
+  DRUG_DICTIONARY.flatMap(entry => [entry.id, entry.name, ...entry.aliases].map(term => [normalise(term), entry] as const)),
+);
+
+/** The dictionary entry a drug name refers to, matching names, ids and aliases. */
+export function findDrug(name: string): DrugEntry | null {
+  const text = normalise(name);
+  if (!text) return null;
+  const exact = entriesByTerm.get(text);
+  if (exact) return exact;
+  // Names often carry a strength or form, e.g. "Amoxicillin 500mg capsules".
+  let best: DrugEntry | null = null;
+  let bestLength = 0;
+  for (const [term, entry] of entriesByTerm) {
+    if (term.length > bestLength && new RegExp(`(?:^|[\\s/])${term.replace(/[/-]/g, '\\$&')}(?:$|[\\s/])`).test(text)) {
+      best = entry;
+      bestLength = term.length;
+    }
+  }
+  return best;
+}
+
+export function searchDrugs(query: string, limit = 8): DrugEntry[] {
+  const text = normalise(query);
+  if (!text) return [];
+  return DRUG_DICTIONARY
+    .filter(entry => [entry.name, ...entry.aliases].some(term => normalise(term).includes(text)))
+    .slice(0, limit);
+}
+
+export function drugClassLabel(drugClass: string): string {
+  return DRUG_CLASS_LABELS[drugClass] ?? drugClass;
+}
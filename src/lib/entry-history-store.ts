@@ -0,0 +1,114 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDocs, orderBy, query, runTransaction, deleteField } from 'firebase/firestore';
+import { hasVitals, validateVitals, type VitalsValues } from '@/lib/vitals';
+import { hasStripValues, type TestStripValues } from '@/lib/test-strips';
+import {
+  EntryConflictError, currentRevision, entryFields, entryValues, isDeleted,
+  type DataSnapshot, type EntryAudit, type EntryCollection, type EntryEditor, type EntryRevision, type RevisionAction, type SnapshotDrift,
+} from '@/lib/entry-history';
+import { fetchVitals } from '@/lib/vitals-store';
+import { fetchTestStrips } from '@/lib/test-strips-store';
+
+/**
+ * Audited writes to logged entries. Each change updates the entry and appends its
+ * revision record in one transaction, so history can't fall out of step with the data.
+ */
+
+const entryRef = (uid: string, entryCollection: EntryCollection, id: string) => doc(db, `users/${uid}/${entryCollection}`, id);
+const revisionsCollection = (uid: string, entryCollection: EntryCollection, id: string) =>
+  collection(db, `users/${uid}/${entryCollection}/${id}/revisions`);
+
+/**
+ * Applies one audited change. With `expectedRevision`, the change is refused with an
+ * `EntryConflictError` if the entry has been revised since that revision was read.
+ */
+export async function reviseEntry(
+  uid: string,
+  entryCollection: EntryCollection,
+  id: string,
+  action: RevisionAction,
+  editor: EntryEditor,
+  values?: Record<string, unknown>,
+  expectedRevision?: number,
+): Promise<EntryRevision> {
+  const ref = entryRef(uid, entryCollection, id);
+  return runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists()) throw new Error('This entry no longer exists.');
+    const data = snapshot.data();
+    if (expectedRevision !== undefined && currentRevision(data) !== expectedRevision) {
+      throw new EntryConflictError(currentRevision(data), entryValues(entryCollection, data), isDeleted(data));
+    }
+    if (action === 'update' && isDeleted(data)) throw new Error('Restore this entry before editing it.');
+    if (action === 'delete' && isDeleted(data)) throw new Error('This entry is already deleted.');
+    if (action === 'restore' && !isDeleted(data)) throw new Error('This entry is not deleted.');
+
+    const before = entryValues(entryCollection, data);
+    const after = values ?? before;
+    const at = new Date().toISOString();
+    const revision: EntryRevision = { revision: currentRevision(data) + 1, action, at, by: editor, before, after };
+
+    const update: Record<string, any> = { revision: revision.revision, updatedAt: at };
+    if (action === 'update') {
+      for (const field of entryFields(entryCollection)) update[field] = after[field] ?? deleteField();
+    }
+    if (action === 'delete') update.deletedAt = at;
+    if (action === 'restore') update.deletedAt = deleteField();
+
+    transaction.update(ref, update);
+    transaction.set(doc(revisionsCollection(uid, entryCollection, id), String(revision.revision)), revision);
+    return revision;
+  });
+}
+
+/** Validates edited values and returns just the value fields to store. Throws on invalid input. */
+export function checkEntryValues(entryCollection: EntryCollection, values: VitalsValues | TestStripValues): Record<string, unknown> {
+  if (entryCollection === 'vitals') {
+    if (!hasVitals(values as VitalsValues)) throw new Error('At least one vital sign is required.');
+    const errors = Object.values(validateVitals(values as VitalsValues));
+    if (errors.length > 0) throw new Error(errors.join(' '));
+  } else if (!hasStripValues(values as TestStripValues)) {
+    throw new Error('At least one test strip value is required.');
+  }
+  return entryValues(entryCollection, values);
+}
+
+export async function updateVitalsEntry(uid: string, id: string, values: VitalsValues, editor: EntryEditor): Promise<EntryRevision> {
+  return reviseEntry(uid, 'vitals', id, 'update', editor, checkEntryValues('vitals', values));
+}
+
+export async function updateTestStripEntry(uid: string, id: string, values: TestStripValues, editor: EntryEditor): Promise<EntryRevision> {
+  return reviseEntry(uid, 'test_strips', id, 'update', editor, checkEntryValues('test_strips', values));
+}
+
+export function softDeleteEntry(uid: string, entryCollection: EntryCollection, id: string, editor: EntryEditor): Promise<EntryRevision> {
+  return reviseEntry(uid, entryCollection, id, 'delete', editor);
+}
+
+export function restoreEntry(uid: string, entryCollection: EntryCollection, id: string, editor: EntryEditor): Promise<EntryRevision> {
+  return reviseEntry(uid, entryCollection, id, 'restore', editor);
+}
+
+export async function fetchRevisions(uid: string, entryCollection: EntryCollection, id: string): Promise<EntryRevision[]> {
+  const snapshot = await getDocs(query(revisionsCollection(uid, entryCollection, id), orderBy('revision', 'desc')));
+  return snapshot.docs.map(d => d.data() as EntryRevision);
+}
+
+/** Lists the snapshot entries that have been edited, deleted or removed since it was taken. */
+export async function fetchSnapshotDrift(uid: string, snapshot: DataSnapshot): Promise<SnapshotDrift[]> {
+  const [vitals, strips] = await Promise.all([
+    fetchVitals(uid, { includeDeleted: true }),
+    fetchTestStrips(uid, { includeDeleted: true }),
+  ]);
+  const current = new Map<string, EntryAudit>([
+    ...vitals.map(entry => [`vitals/${entry.id}`, entry] as const),
+    ...strips.map(entry => [`test_strips/${entry.id}`, entry] as const),
+  ]);
+  return snapshot.entries.flatMap(entry => {
+    const now = current.get(`${entry.collection}/${entry.id}`);
+    const drift: SnapshotDrift = now
+      ? { entry, currentRevision: currentRevision(now), deleted: isDeleted(now) }
+      : { entry, currentRevision: null, deleted: true };
+    return drift.deleted || drift.currentRevision !== entry.revision ? [drift] : [];
+  });
+}
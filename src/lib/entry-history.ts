@@ -0,0 +1,124 @@
+import { VITAL_DEFINITIONS, VITAL_FIELDS, formatMeasurement, type Measurement } from '@/lib/vitals';
+import { STRIP_MARKERS, STRIP_MARKER_LABELS } from '@/lib/test-strips';
+
+/**
+ * Revision history for logged entries (`vitals` and `test_strips`).
+ *
+ * Entries carry a `revision` counter that starts at 1. Every edit, deletion or restore
+ * bumps it and appends an immutable record to the entry's `revisions` subcollection
+ * holding who made the change and the values before and after. Deletion is soft: the
+ * entry is flagged with `deletedAt` and hidden from reads, never removed.
+ */
+
+export type EntryCollection = 'vitals' | 'test_strips';
+export type RevisionAction = 'update' | 'delete' | 'restore';
+
+export interface EntryEditor {
+  uid: string;
+  name: string;
+  role: 'patient' | 'doctor';
+}
+
+/** Bookkeeping fields stored on every entry alongside its values. */
+export interface EntryAudit {
+  /** Absent on entries written before revisions existed; read as 1. */
+  revision?: number;
+  updatedAt?: string;
+  deletedAt?: string;
+}
+
+export interface EntryRevision {
+  /** The revision number this change produced. */
+  revision: number;
+  action: RevisionAction;
+  at: string;
+  by: EntryEditor;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+export const INITIAL_REVISION = 1;
+
+export function currentRevision(entry: EntryAudit): number {
+  return entry.revision ?? INITIAL_REVISION;
+}
+
+export function isDeleted(entry: EntryAudit): boolean {
+  return !!entry.deletedAt;
+}
+
+export function entryFields(collection: EntryCollection): readonly string[] {
+  return collection === 'vitals' ? VITAL_FIELDS : STRIP_MARKERS;
+}
+
+/** The value fields of an entry, without its id, date or audit bookkeeping. */
+export function entryValues(collection: EntryCollection, entry: Record<string, any>): Record<string, unknown> {
+  const fields = entryFields(collection);
+  return Object.fromEntries(fields.filter(field => entry[field] !== undefined && entry[field] !== '').map(field => [field, entry[field]]));
+}
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+function formatValue(collection: EntryCollection, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  return collection === 'vitals' ? formatMeasurement(value as Measurement) : String(value);
+}
+
+export function describeChanges(collection: EntryCollection, before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  return entryFields(collection)
+    .map(field => ({
+      field,
+      label: collection === 'vitals' ? VITAL_DEFINITIONS[field as keyof typeof VITAL_DEFINITIONS].label : STRIP_MARKER_LABELS[field as keyof typeof STRIP_MARKER_LABELS],
+      before: formatValue(collection, before[field]),
+      after: formatValue(collection, after[field]),
+    }))
+    .filter(change => change.before !== change.after);
+}
+
+/** Thrown when an entry was revised elsewhere since the editor last saw it. */
+export class EntryConflictError extends Error {
+  constructor(
+    public remoteRevision: number,
+    public remoteValues: Record<string, unknown>,
+    public remoteDeleted: boolean,
+  ) {
+    super('This entry was changed on another device.');
+    this.name = 'EntryConflictError';
+  }
+}
+
+// --- Investigation snapshots ---
+
+export interface SnapshotEntry {
+  collection: EntryCollection;
+  id: string;
+  revision: number;
+}
+
+/** The exact entry revisions an investigation was submitted with. */
+export interface DataSnapshot {
+  takenAt: string;
+  entries: SnapshotEntry[];
+}
+
+export function buildDataSnapshot(vitals: ({ id: string } & EntryAudit)[], strips: ({ id: string } & EntryAudit)[]): DataSnapshot {
+  return {
+    takenAt: new Date().toISOString(),
+    entries: [
+      ...vitals.map(entry => ({ collection: 'vitals' as const, id: entry.id, revision: currentRevision(entry) })),
+      ...strips.map(entry => ({ collection: 'test_strips' as const, id: entry.id, revision: currentRevision(entry) })),
+    ],
+  };
+}
+
+export interface SnapshotDrift {
+  entry: SnapshotEntry;
+  /** Null when the entry no longer exists at all. */
+  currentRevision: number | null;
+  deleted: boolean;
+}
@@ -0,0 +1,105 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDocs, query, where, writeBatch, updateDoc, orderBy } from 'firebase/firestore';
+import { buildBundle, clinicalRecordKeys, parseBundle, type Bundle, type CompletedInvestigation, type ExternalRecord, type ImportIssue, type PatientDetails } from '@/lib/fhir';
+import { readingKey } from '@/lib/vitals-import';
+import { addVitalsBatch, fetchVitals } from '@/lib/vitals-store';
+import { addTestStripsBatch, fetchTestStrips } from '@/lib/test-strips-store';
+
+/**
+ * Reads and writes a patient's whole record as a FHIR Bundle. Clinical resources
+ * from outside are stored in `users/{uid}/external_records`.
+ */
+
+const externalRecordsCollection = (uid: string) => collection(db, `users/${uid}/external_records`);
+
+export async function fetchExternalRecords(uid: string): Promise<ExternalRecord[]> {
+  const snapshot = await getDocs(query(externalRecordsCollection(uid), orderBy('importedAt', 'desc')));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as ExternalRecord));
+}
+
+export async function exportHealthRecord(patient: PatientDetails): Promise<Bundle> {
+  const [vitals, strips, casesSnap, externalRecords] = await Promise.all([
+    fetchVitals(patient.uid),
+    fetchTestStrips(patient.uid),
+    getDocs(query(collection(db, 'investigations'), where('userId', '==', patient.uid))),
+    fetchExternalRecords(patient.uid),
+  ]);
+  const investigations = casesSnap.docs
+    .filter(d => d.data().status === 'completed')
+    .map(d => ({ id: d.id, ...d.data() } as CompletedInvestigation));
+
+  return buildBundle({ patient, vitals, strips, investigations, externalRecords });
+}
+
+export interface FhirImportResult {
+  vitals: number;
+  strips: number;
+  clinical: number;
+  duplicates: number;
+  patientUpdated: boolean;
+  issues: ImportIssue[];
+}
+
+/**
+ * Imports a bundle into the user's record. Readings already on file are skipped, and
+ * profile fields are only filled in where the user hasn't set them.
+ */
+export async function importHealthRecord(uid: string, json: unknown, profile: Partial<PatientDetails> & { age?: string } = {}): Promise<FhirImportResult> {
+  const parsed = parseBundle(json);
+  const [existingVitals, existingStrips, existingExternal] = await Promise.all([
+    fetchVitals(uid),
+    fetchTestStrips(uid),
+    fetchExternalRecords(uid),
+  ]);
+
+  const seen = new Set([
+    ...existingVitals.map(reading => readingKey(reading.date, { vitals: reading })),
+    ...existingStrips.map(reading => readingKey(reading.date, { strips: reading })),
+  ]);
+  const vitals = parsed.vitals.filter(({ date, values }) => !seen.has(readingKey(date, { vitals: values })));
+  const strips = parsed.strips.filter(({ date, values }) => !seen.has(readingKey(date, { strips: values })));
+  const seenExternal = new Set(existingExternal.flatMap(record => clinicalRecordKeys(record.resource)));
+  const clinical = parsed.clinical.filter(record => {
+    const keys = clinicalRecordKeys(record.resource);
+    if (keys.some(key => seenExternal.has(key))) return false;
+    keys.forEach(key => seenExternal.add(key));
+    return true;
+  });
+
+  await addVitalsBatch(uid, vitals);
+  await addTestStripsBatch(uid, strips);
+
+  const importedAt = new Date().toISOString();
+  // Firestore caps a batch at 500 writes.
+  for (let i = 0; i < clinical.length; i += 500) {
+    const batch = writeBatch(db);
+    for (const record of clinical.slice(i, i + 500)) {
+      batch.set(doc(externalRecordsCollection(uid)), JSON.parse(JSON.stringify({ ...record, importedAt })));
+    }
+    await batch.commit();
+  }
+
+  const updates: Record<string, string> = {};
+  const incoming = parsed.patient;
+  if (incoming) {
+    if (!profile.name && incoming.name) updates.name = incoming.name;
+    if (!profile.gender && incoming.gender) updates.gender = incoming.gender;
+    if (!profile.phone && incoming.phone) updates.phone = incoming.phone;
+    if (!profile.address && incoming.address) updates.address = incoming.address;
+    if (!profile.age && incoming.birthDate) {
+      const born = new Date(incoming.birthDate);
+      const age = new Date(Date.now() - born.getTime()).getUTCFullYear() - 1970;
+      if (Number.isFinite(age) && age >= 0) updates.age = String(age);
+    }
+  }
+  if (Object.keys(updates).length > 0) await updateDoc(doc(db, 'users', uid), updates);
+
+  return {
+    vitals: vitals.length,
+    strips: strips.length,
+    clinical: clinical.length,
+    duplicates: parsed.vitals.length - vitals.length + parsed.strips.length - strips.length + parsed.clinical.length - clinical.length,
+    patientUpdated: Object.keys(updates).length > 0,
+    issues: parsed.issues,
+  };
+}
@@ -0,0 +1,556 @@
+import { z } from 'zod';
+import { VITAL_FIELDS, validateVitals, hasVitals, type Measurement, type VitalField, type VitalsReading, type VitalsValues } from '@/lib/vitals';
+import { STRIP_MARKERS, hasStripValues, normalizeStripLevel, type StripMarker, type TestStripReading, type TestStripValues } from '@/lib/test-strips';
+
+/**
+ * Conversion between a patient's Lifeline record and a FHIR R4 `Bundle`.
+ *
+ * Only the slice of FHIR we actually produce and consume is typed here. Export maps
+ * vitals and test strips to LOINC-coded Observations, completed investigations to
+ * Condition / MedicationRequest / ServiceRequest and the profile to Patient. Import
+ * reverses the Observation and Patient mappings; outside clinical resources are kept
+ * verbatim as external records since they didn't come from a Lifeline investigation.
+ */
+
+export const LOINC_SYSTEM = 'http://loinc.org';
+export const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const LIFELINE_SYSTEM = 'urn:lifeline';
+
+// --- FHIR types (the subset we use) ---
+
+export interface Coding { system?: string; code?: string; display?: string }
+export interface CodeableConcept { coding?: Coding[]; text?: string }
+export interface Quantity { value?: number; unit?: string; system?: string; code?: string }
+export interface Reference { reference?: string; display?: string }
+export interface Identifier { system?: string; value?: string }
+
+export interface ObservationComponent {
+  code: CodeableConcept;
+  valueQuantity?: Quantity;
+  valueString?: string;
+  valueCodeableConcept?: CodeableConcept;
+}
+
+export interface Observation {
+  resourceType: 'Observation';
+  id?: string;
+  identifier?: Identifier[];
+  status: string;
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  subject?: Reference;
+  effectiveDateTime?: string;
+  effectivePeriod?: { start?: string; end?: string };
+  issued?: string;
+  valueQuantity?: Quantity;
+  valueString?: string;
+  valueCodeableConcept?: CodeableConcept;
+  component?: ObservationComponent[];
+}
+
+export interface Patient {
+  resourceType: 'Patient';
+  id?: string;
+  identifier?: Identifier[];
+  name?: { text?: string; given?: string[]; family?: string }[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+  telecom?: { system?: string; value?: string }[];
+  address?: { text?: string; line?: string[]; city?: string; country?: string }[];
+}
+
+export interface Condition {
+  resourceType: 'Condition';
+  id?: string;
+  identifier?: Identifier[];
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  code?: CodeableConcept;
+  subject?: Reference;
+  recordedDate?: string;
+  recorder?: Reference;
+  note?: { text: string }[];
+}
+
+export interface MedicationRequest {
+  resourceType: 'MedicationRequest';
+  id?: string;
+  identifier?: Identifier[];
+  status: string;
+  intent: string;
+  medicationCodeableConcept?: CodeableConcept;
+  subject?: Reference;
+  authoredOn?: string;
+  requester?: Reference;
+  dosageInstruction?: { text?: string }[];
+}
+
+export interface ServiceRequest {
+  resourceType: 'ServiceRequest';
+  id?: string;
+  identifier?: Identifier[];
+  status: string;
+  intent: string;
+  code?: CodeableConcept;
+  subject?: Reference;
+  authoredOn?: string;
+  requester?: Reference;
+  note?: { text: string }[];
+}
+
+export type ClinicalResource = Condition | MedicationRequest | ServiceRequest;
+export type FhirResource = Patient | Observation | ClinicalResource;
+
+export interface BundleEntry { fullUrl?: string; resource: FhirResource }
+
+export interface Bundle {
+  resourceType: 'Bundle';
+  type: string;
+  timestamp?: string;
+  entry?: BundleEntry[];
+}
+
+// --- Terminology ---
+
+interface LoincCode { code: string; display: string }
+
+const BP_PANEL: LoincCode = { code: '85354-9', display: 'Blood pressure panel with all children optional' };
+const URINALYSIS_PANEL: LoincCode = { code: '24357-6', display: 'Urinalysis macro (dipstick) panel - Urine' };
+
+/** Keyed by `field` or `field|unit` where the LOINC code depends on the unit (glucose mass vs moles). */
+const VITAL_LOINC: Record<string, LoincCode> = {
+  systolic: { code: '8480-6', display: 'Systolic blood pressure' },
+  diastolic: { code: '8462-4', display: 'Diastolic blood pressure' },
+  pulseRate: { code: '8867-4', display: 'Heart rate' },
+  'bloodSugar|mg/dL': { code: '2339-0', display: 'Glucose [Mass/volume] in Blood' },
+  'bloodSugar|mmol/L': { code: '15074-8', display: 'Glucose [Moles/volume] in Blood' },
+  oxygenSaturation: { code: '59408-5', display: 'Oxygen saturation in Arterial blood by Pulse oximetry' },
+  temperature: { code: '8310-5', display: 'Body temperature' },
+  weight: { code: '29463-7', display: 'Body weight' },
+};
+
+const STRIP_LOINC: Record<StripMarker, LoincCode> = {
+  protein: { code: '20454-5', display: 'Protein [Presence] in Urine by Test strip' },
+  glucose: { code: '25428-4', display: 'Glucose [Presence] in Urine by Test strip' },
+  ketones: { code: '2514-8', display: 'Ketones [Presence] in Urine by Test strip' },
+  blood: { code: '5794-3', display: 'Hemoglobin [Presence] in Urine by Test strip' },
+  nitrite: { code: '5802-4', display: 'Nitrite [Presence] in Urine by Test strip' },
+  ph: { code: '5803-2', display: 'pH of Urine by Test strip' },
+};
+
+/** Our unit labels to UCUM codes. */
+const UCUM_UNITS: Record<string, string> = {
+  'mmHg': 'mm[Hg]',
+  'bpm': '/min',
+  'mg/dL': 'mg/dL',
+  'mmol/L': 'mmol/L',
+  '%': '%',
+  '°C': 'Cel',
+  '°F': '[degF]',
+  'kg': 'kg',
+  'lb': '[lb_av]',
+};
+
+const FROM_UCUM: Record<string, string> = Object.fromEntries(Object.entries(UCUM_UNITS).map(([unit, ucum]) => [ucum, unit]));
+
+const loincConcept = ({ code, display }: LoincCode, text = display): CodeableConcept => ({
+  coding: [{ system: LOINC_SYSTEM, code, display }],
+  text,
+});
+
+const quantity = (measurement: Measurement): Quantity => ({
+  value: measurement.value,
+  unit: measurement.unit,
+  system: UCUM_SYSTEM,
+  code: UCUM_UNITS[measurement.unit],
+});
+
+const category = (code: 'vital-signs' | 'laboratory'): CodeableConcept[] => [{
+  coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code, display: code === 'vital-signs' ? 'Vital Signs' : 'Laboratory' }],
+}];
+
+const lifelineId = (kind: string, id: string): Identifier[] => [{ system: `${LIFELINE_SYSTEM}:${kind}`, value: id }];
+
+// --- Export ---
+
+/** The parts of a completed investigation the exporter reads. Medications are either structured or plain text. */
+export interface CompletedInvestigation {
+  id: string;
+  createdAt: string;
+  reviewedAt?: string;
+  finalDiagnosis?: { condition: string; probability?: number; reasoning?: string }[];
+  finalTreatmentPlan?: { medications?: ({ name: string; dosage: string } | string)[]; followUp?: string };
+  doctorPlan?: { preliminaryMedications?: ({ name: string; dosage: string } | string)[]; suggestedLabTests?: string[] };
+  followUpRequest?: { suggestedLabTests?: string[] };
+  reviewedByName?: string;
+}
+
+export interface PatientDetails {
+  uid: string;
+  name?: string;
+  gender?: string;
+  phone?: string;
+  address?: string;
+}
+
+/** Records imported from outside, exported again unchanged so they survive a round trip. */
+export interface ExternalRecord {
+  id: string;
+  resourceType: ClinicalResource['resourceType'];
+  title: string;
+  detail?: string;
+  date?: string;
+  importedAt: string;
+  resource: ClinicalResource;
+}
+
+export interface HealthRecord {
+  patient: PatientDetails;
+  vitals: VitalsReading[];
+  strips: TestStripReading[];
+  investigations: CompletedInvestigation[];
+  externalRecords?: ExternalRecord[];
+}
+
+export function vitalsToObservations(reading: VitalsReading, subject: Reference): Observation[] {
+  const base = {
+    resourceType: 'Observation' as const,
+    status: 'final',
+    category: category('vital-signs'),
+    subject,
+    effectiveDateTime: reading.date,
+  };
+  const observations: Observation[] = [];
+
+  if (reading.systolic || reading.diastolic) {
+    observations.push({
+      ...base,
+      identifier: lifelineId('vitals', `${reading.id}/bp`),
+      code: loincConcept(BP_PANEL, 'Blood pressure'),
+      component: (['systolic', 'diastolic'] as const)
+        .filter(field => reading[field])
+        .map(field => ({ code: loincConcept(VITAL_LOINC[field]), valueQuantity: quantity(reading[field]!) })),
+    });
+  }
+  for (const field of VITAL_FIELDS) {
+    const measurement = reading[field];
+    if (!measurement || field === 'systolic' || field === 'diastolic') continue;
+    const loinc = VITAL_LOINC[`${field}|${measurement.unit}`] ?? VITAL_LOINC[field];
+    observations.push({
+      ...base,
+      identifier: lifelineId('vitals', `${reading.id}/${field}`),
+      code: loincConcept(loinc),
+      valueQuantity: quantity(measurement),
+    });
+  }
+  return observations;
+}
+
+export function stripToObservation(reading: TestStripReading, subject: Reference): Observation {
+  return {
+    resourceType: 'Observation',
+    identifier: lifelineId('test_strips', reading.id),
+    status: 'final',
+    category: category('laboratory'),
+    code: loincConcept(URINALYSIS_PANEL, 'Urine test strip'),
+    subject,
+    effectiveDateTime: reading.date,
+    component: STRIP_MARKERS.filter(marker => reading[marker]).map(marker => marker === 'ph'
+      ? { code: loincConcept(STRIP_LOINC.ph), valueQuantity: { value: parseFloat(reading.ph!), system: UCUM_SYSTEM, code: '[pH]', unit: 'pH' } }
+      : { code: loincConcept(STRIP_LOINC[marker]), valueString: reading[marker] }),
+  };
+}
+
+const medicationText = (medication: { name: string; dosage: string } | string) =>
+  typeof medication === 'string' ? { name: medication, dosage: undefined } : medication;
+
+export function investigationToResources(investigation: CompletedInvestigation, subject: Reference): ClinicalResource[] {
+  const recorded = investigation.reviewedAt ?? investigation.createdAt;
+  const requester = investigation.reviewedByName ? { display: investigation.reviewedByName } : undefined;
+  const identifier = (suffix: string) => lifelineId('investigations', `${investigation.id}/${suffix}`);
+  const resources: ClinicalResource[] = [];
+
+  (investigation.finalDiagnosis ?? []).forEach((diagnosis, i) => {
+    resources.push({
+      resourceType: 'Condition',
+      identifier: identifier(`condition-${i}`),
+      clinicalStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: 'active' }] },
+      verificationStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status', code: 'provisional' }] },
+      code: { text: diagnosis.condition },
+      subject,
+      recordedDate: recorded,
+      recorder: requester,
+      note: diagnosis.reasoning ? [{ text: diagnosis.reasoning }] : undefined,
+    });
+  });
+
+  const medications = [
+    ...(investigation.doctorPlan?.preliminaryMedications ?? []),
+    ...(investigation.finalTreatmentPlan?.medications ?? []),
+  ].map(medicationText).filter(m => m.name);
+  medications.forEach((medication, i) => {
+    resources.push({
+      resourceType: 'MedicationRequest',
+      identifier: identifier(`medication-${i}`),
+      status: 'active',
+      intent: 'order',
+      medicationCodeableConcept: { text: medication.name },
+      subject,
+      authoredOn: recorded,
+      requester,
+      dosageInstruction: medication.dosage ? [{ text: medication.dosage }] : undefined,
+    });
+  });
+
+  const labTests = [
+    ...(investigation.doctorPlan?.suggestedLabTests ?? []),
+    ...(investigation.followUpRequest?.suggestedLabTests ?? []),
+  ].filter(Boolean);
+  labTests.forEach((test, i) => {
+    resources.push({
+      resourceType: 'ServiceRequest',
+      identifier: identifier(`service-${i}`),
+      status: 'completed',
+      intent: 'order',
+      code: { text: test },
+      subject,
+      authoredOn: investigation.createdAt,
+      requester,
+    });
+  });
+  return resources;
+}
+
+/** Age isn't exported: the profile only stores it as free text, and FHIR wants a birth date. */
+export function profileToPatient(patient: PatientDetails): Patient {
+  const gender = patient.gender?.toLowerCase();
+  return {
+    resourceType: 'Patient',
+    identifier: lifelineId('users', patient.uid),
+    name: patient.name ? [{ text: patient.name }] : undefined,
+    gender: gender === 'male' || gender === 'female' ? gender : undefined,
+    telecom: patient.phone ? [{ system: 'phone', value: patient.phone }] : undefined,
+    address: patient.address ? [{ text: patient.address }] : undefined,
+  };
+}
+
+/** Drops `undefined` keys so the bundle serializes cleanly and can be written to Firestore. */
+function clean<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export function buildBundle(record: HealthRecord, newId: () => string = () => crypto.randomUUID()): Bundle {
+  const patientUrl = `urn:uuid:${newId()}`;
+  const subject: Reference = { reference: patientUrl, display: record.patient.name };
+  const resources: FhirResource[] = [
+    ...record.vitals.flatMap(reading => vitalsToObservations(reading, subject)),
+    ...record.strips.filter(hasStripValues).map(reading => stripToObservation(reading, subject)),
+    ...record.investigations.flatMap(investigation => investigationToResources(investigation, subject)),
+    ...(record.externalRecords ?? []).map(external => ({ ...external.resource, subject })),
+  ];
+  return clean({
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: [
+      { fullUrl: patientUrl, resource: profileToPatient(record.patient) },
+      ...resources.map(resource => ({ fullUrl: `urn:uuid:${newId()}`, resource })),
+    ],
+  });
+}
+
+// --- Import ---
+
+const BundleSchema = z.object({
+  resourceType: z.literal('Bundle'),
+  type: z.string(),
+  entry: z.array(z.object({
+    fullUrl: z.string().optional(),
+    resource: z.object({ resourceType: z.string() }).passthrough(),
+  }).passthrough()).default([]),
+}).passthrough();
+
+export interface ImportIssue {
+  /** Index of the entry in the bundle. */
+  entry: number;
+  resourceType: string;
+  message: string;
+}
+
+export interface ParsedBundle {
+  patient?: Partial<Omit<PatientDetails, 'uid'>> & { birthDate?: string };
+  vitals: { date: string; values: VitalsValues }[];
+  strips: { date: string; values: TestStripValues }[];
+  clinical: Omit<ExternalRecord, 'id' | 'importedAt'>[];
+  issues: ImportIssue[];
+}
+
+function loincCode(concept: CodeableConcept | undefined): string | undefined {
+  return concept?.coding?.find(coding => coding.system === LOINC_SYSTEM)?.code;
+}
+
+function effectiveDate(observation: Observation): string | undefined {
+  const raw = observation.effectiveDateTime ?? observation.effectivePeriod?.start ?? observation.issued;
+  if (!raw) return undefined;
+  const date = new Date(raw);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+const FIELD_BY_LOINC: Record<string, VitalField> = Object.fromEntries(
+  Object.entries(VITAL_LOINC).map(([key, { code }]) => [code, key.split('|')[0] as VitalField]),
+);
+const MARKER_BY_LOINC: Record<string, StripMarker> = Object.fromEntries(
+  Object.entries(STRIP_LOINC).map(([marker, { code }]) => [code, marker as StripMarker]),
+);
+
+function toMeasurement(value: Quantity | undefined): Measurement | string {
+  if (value?.value === undefined || !Number.isFinite(value.value)) return 'has no numeric value';
+  const unit = (value.code && FROM_UCUM[value.code]) ?? (value.unit && (UCUM_UNITS[value.unit] ? value.unit : FROM_UCUM[value.unit]));
+  if (!unit) return `uses unsupported unit "${value.code ?? value.unit ?? ''}"`;
+  return { value: value.value, unit };
+}
+
+function stripLevel(marker: StripMarker, component: ObservationComponent | Observation): string | null {
+  const raw = component.valueString
+    ?? component.valueCodeableConcept?.text
+    ?? component.valueCodeableConcept?.coding?.[0]?.display
+    ?? (component.valueQuantity?.value !== undefined ? String(component.valueQuantity.value) : undefined);
+  return raw ? normalizeStripLevel(marker, raw) : null;
+}
+
+function clinicalSummary(resource: ClinicalResource): { title: string; detail?: string; date?: string } {
+  switch (resource.resourceType) {
+    case 'Condition':
+      return { title: resource.code?.text ?? resource.code?.coding?.[0]?.display ?? 'Condition', detail: resource.note?.[0]?.text, date: resource.recordedDate };
+    case 'MedicationRequest':
+      return {
+        title: resource.medicationCodeableConcept?.text ?? resource.medicationCodeableConcept?.coding?.[0]?.display ?? 'Medication',
+        detail: resource.dosageInstruction?.map(d => d.text).filter(Boolean).join('; ') || undefined,
+        date: resource.authoredOn,
+      };
+    case 'ServiceRequest':
+      return { title: resource.code?.text ?? resource.code?.coding?.[0]?.display ?? 'Service request', detail: resource.note?.[0]?.text, date: resource.authoredOn };
+  }
+}
+
+/** Sorted keys, so the same resource from another exporter serialises the same way. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * What identifies a clinical resource across exports: its id and business identifiers, scoped to
+ * the resource type. Two records sharing any key are the same resource. A resource with neither
+ * falls back to its content.
+ */
+export function clinicalRecordKeys(resource: ClinicalResource): string[] {
+  const keys = (resource.identifier ?? [])
+    .filter(identifier => identifier.value)
+    .map(identifier => `${resource.resourceType}|identifier|${identifier.system ?? ''}|${identifier.value}`);
+  if (resource.id) keys.push(`${resource.resourceType}|id|${resource.id}`);
+  return keys.length ? keys : [`${resource.resourceType}|content|${stableStringify(resource)}`];
+}
+
+/**
+ * Validates a bundle and extracts everything we can store. Observations taken at the
+ * same instant are merged into one vitals reading, mirroring how export splits them.
+ * Unsupported or invalid entries are reported as issues rather than failing the import.
+ */
+export function parseBundle(json: unknown): ParsedBundle {
+  const result = BundleSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error('This file is not a FHIR Bundle.');
+  }
+
+  const parsed: ParsedBundle = { vitals: [], strips: [], clinical: [], issues: [] };
+  const vitalsByDate = new Map<string, Record<string, Measurement>>();
+  const stripsByDate = new Map<string, TestStripValues>();
+  const vitalEntries = new Map<string, number>();
+
+  result.data.entry.forEach(({ resource: raw }, index) => {
+    const issue = (message: string) => parsed.issues.push({ entry: index, resourceType: raw.resourceType, message });
+    const resource = raw as unknown as FhirResource;
+
+    switch (resource.resourceType) {
+      case 'Patient': {
+        const phone = resource.telecom?.find(t => t.system === 'phone')?.value;
+        const name = resource.name?.[0];
+        parsed.patient = {
+          name: name?.text ?? ([...(name?.given ?? []), name?.family].filter(Boolean).join(' ') || undefined),
+          gender: resource.gender === 'male' ? 'Male' : resource.gender === 'female' ? 'Female' : undefined,
+          phone,
+          address: resource.address?.[0]?.text ?? resource.address?.[0]?.line?.join(', '),
+          birthDate: resource.birthDate,
+        };
+        return;
+      }
+      case 'Observation': {
+        const date = effectiveDate(resource);
+        if (!date) return issue('Observation has no effective date.');
+        const code = loincCode(resource.code);
+
+        if (code === URINALYSIS_PANEL.code || (code && MARKER_BY_LOINC[code])) {
+          const parts = code === URINALYSIS_PANEL.code ? resource.component ?? [] : [resource];
+          const values = stripsByDate.get(date) ?? {};
+          for (const part of parts) {
+            const marker = MARKER_BY_LOINC[loincCode(part.code) ?? ''];
+            if (!marker) continue;
+            const level = stripLevel(marker, part);
+            if (level) values[marker] = level;
+            else issue(`Unrecognised ${marker} level.`);
+          }
+          stripsByDate.set(date, values);
+          return;
+        }
+
+        const parts: { code?: string; value?: Quantity }[] = code === BP_PANEL.code
+          ? (resource.component ?? []).map(c => ({ code: loincCode(c.code), value: c.valueQuantity }))
+          : [{ code, value: resource.valueQuantity }];
+        const values = vitalsByDate.get(date) ?? {};
+        let recognised = false;
+        for (const part of parts) {
+          const field = part.code ? FIELD_BY_LOINC[part.code] : undefined;
+          if (!field) continue;
+          recognised = true;
+          const measurement = toMeasurement(part.value);
+          if (typeof measurement === 'string') issue(`${field} ${measurement}.`);
+          else values[field] = measurement;
+        }
+        if (!recognised) return issue(`Observation code ${code ?? '(none)'} is not supported.`);
+        vitalsByDate.set(date, values);
+        if (!vitalEntries.has(date)) vitalEntries.set(date, index);
+        return;
+      }
+      case 'Condition':
+      case 'MedicationRequest':
+      case 'ServiceRequest': {
+        const { subject: _subject, ...rest } = resource;
+        parsed.clinical.push({ resourceType: resource.resourceType, ...clinicalSummary(resource), resource: clean(rest) as ClinicalResource });
+        return;
+      }
+      default:
+        issue(`${raw.resourceType} resources are not supported.`);
+    }
+  });
+
+  vitalsByDate.forEach((values, date) => {
+    const vitals = values as VitalsValues;
+    const errors = Object.values(validateVitals(vitals));
+    if (!hasVitals(vitals)) return;
+    if (errors.length > 0) {
+      parsed.issues.push({ entry: vitalEntries.get(date) ?? -1, resourceType: 'Observation', message: `Reading at ${date}: ${errors.join(' ')}` });
+      return;
+    }
+    parsed.vitals.push({ date, values: vitals });
+  });
+  stripsByDate.forEach((values, date) => {
+    if (hasStripValues(values)) parsed.strips.push({ date, values });
+  });
+  return parsed;
+}
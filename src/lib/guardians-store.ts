@@ -0,0 +1,20 @@
+import { db } from '@/lib/firebase';
+import { collection, addDoc, getDocs, deleteDoc, doc, query, orderBy } from 'firebase/firestore';
+import type { Guardian, GuardianInput } from '@/lib/guardians';
+
+const guardiansCollection = (uid: string) => collection(db, `users/${uid}/guardians`);
+
+export async function fetchGuardians(uid: string): Promise<Guardian[]> {
+  const snapshot = await getDocs(query(guardiansCollection(uid), orderBy('createdAt', 'asc')));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Guardian));
+}
+
+export async function addGuardian(uid: string, input: GuardianInput): Promise<Guardian> {
+  const guardian = { ...input, email: input.email || '', phone: input.phone || '', createdAt: new Date().toISOString() };
+  const docRef = await addDoc(guardiansCollection(uid), guardian);
+  return { id: docRef.id, ...guardian };
+}
+
+export async function removeGuardian(uid: string, guardianId: string): Promise<void> {
+  await deleteDoc(doc(db, `users/${uid}/guardians`, guardianId));
+}
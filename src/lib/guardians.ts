@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+/**
+ * Guardians are a patient's emergency contacts, stored in `users/{uid}/guardians`.
+ * Each guardian opts into one or more notification channels for SOS alerts.
+ */
+
+export const NOTIFICATION_CHANNELS = ['sms', 'email', 'push'] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export const GuardianSchema = z.object({
+  name: z.string().min(2, { message: "Name must be at least 2 characters." }),
+  relationship: z.string().min(2, { message: "Please describe your relationship." }),
+  phone: z.string().optional(),
+  email: z.string().email({ message: "Please enter a valid email." }).optional().or(z.literal('')),
+  channels: z.array(z.enum(NOTIFICATION_CHANNELS)).min(1, { message: "Choose at least one way to reach this guardian." }),
+}).refine(g => !g.channels.includes('sms') || (g.phone && g.phone.length >= 10), {
+  message: "A phone number is required for SMS alerts.", path: ['phone'],
+}).refine(g => !g.channels.includes('email') || !!g.email, {
+  message: "An email address is required for email alerts.", path: ['email'],
+});
+
+export type GuardianInput = z.infer<typeof GuardianSchema>;
+
+export interface Guardian extends GuardianInput {
+  id: string;
+  createdAt: string;
+}
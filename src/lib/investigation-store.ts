@@ -0,0 +1,71 @@
+import { db } from '@/lib/firebase';
+import { addDoc, arrayUnion, collection, doc, getDocs, orderBy, query, runTransaction, where } from 'firebase/firestore';
+import {
+  InvestigationTransitionError,
+  INVESTIGATION_TRANSITIONS,
+  assertTransition,
+  buildTransitionLogEntry,
+  type InvestigationActor,
+  type InvestigationStatus,
+  type InvestigationTransition,
+} from '@/lib/investigation';
+
+/**
+ * The only writers of an investigation's status. Both validate against the state
+ * machine and append to the document's `transitions` log in the same write.
+ */
+
+export async function createInvestigation(data: Record<string, unknown>, actor: InvestigationActor): Promise<string> {
+  assertTransition(null, 'submit', actor, data);
+  const docRef = await addDoc(collection(db, 'investigations'), {
+    ...data,
+    status: INVESTIGATION_TRANSITIONS.submit.to,
+    transitions: [buildTransitionLogEntry('submit', null, actor)],
+  });
+  return docRef.id;
+}
+
+/**
+ * Applies `transition` with `payload`, re-reading the status in a transaction so two
+ * people acting on the same case can't both move it.
+ */
+export async function transitionInvestigation(
+  investigationId: string,
+  transition: InvestigationTransition,
+  actor: InvestigationActor,
+  payload: Record<string, unknown>,
+): Promise<InvestigationStatus> {
+  const ref = doc(db, 'investigations', investigationId);
+  return runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists()) {
+      throw new InvestigationTransitionError('This case no longer exists.', 'invalid_transition');
+    }
+    const current = snapshot.data().status as InvestigationStatus;
+    assertTransition(current, transition, actor, payload);
+    const entry = buildTransitionLogEntry(transition, current, actor);
+    transaction.update(ref, { ...payload, status: entry.to, transitions: arrayUnion(entry) });
+    return entry.to;
+  });
+}
+
+export interface InvestigationSummary {
+  id: string;
+  createdAt: string;
+  status: InvestigationStatus;
+  /** The leading condition from the first analysis, for pickers and labels. */
+  title: string;
+}
+
+export async function fetchPatientInvestigations(patientId: string): Promise<InvestigationSummary[]> {
+  const snapshot = await getDocs(query(collection(db, 'investigations'), where('userId', '==', patientId), orderBy('createdAt', 'desc')));
+  return snapshot.docs.map(d => {
+    const data = d.data();
+    return {
+      id: d.id,
+      createdAt: data.createdAt,
+      status: data.status,
+      title: data.steps?.[0]?.aiAnalysis?.potentialConditions?.[0]?.condition ?? 'Health investigation',
+    };
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * The investigation lifecycle as a declared state machine. Every status change goes
+ * through a named transition, which fixes where it may start from, who may perform it
+ * and what it must carry, and is recorded in the document's `transitions` log.
+ *
+ * firestore.rules mirrors the allowed status pairs and which role performs each transition,
+ * so keep the two in step.
+ */
+
+export const INVESTIGATION_STATUSES = [
+  'pending_review',
+  'awaiting_lab_results',
+  'awaiting_nurse_visit',
+  'awaiting_follow_up_visit',
+  'pending_final_review',
+  'completed',
+  'rejected',
+] as const;
+
+export type InvestigationStatus = typeof INVESTIGATION_STATUSES[number];
+
+export const INVESTIGATION_STATUS_LABELS: Record<InvestigationStatus, string> = {
+  pending_review: 'Awaiting Doctor Review',
+  awaiting_lab_results: 'Awaiting Lab Results',
+  awaiting_nurse_visit: 'Nurse Visit Pending',
+  awaiting_follow_up_visit: 'Follow-up Visit Pending',
+  pending_final_review: 'Doctor Reviewing Results',
+  completed: 'Case Complete',
+  rejected: 'Case Closed',
+};
+
+export type InvestigationRole = 'patient' | 'doctor' | 'nurse';
+
+export interface InvestigationActor {
+  uid: string;
+  name: string;
+  role: InvestigationRole;
+}
+
+export type InvestigationTransition =
+  | 'submit'
+  | 'send_initial_plan'
+  | 'dispatch_nurse'
+  | 'submit_lab_results'
+  | 'request_follow_up'
+  | 'complete'
+  | 'close';
+
+interface TransitionDefinition {
+  /** Statuses the transition may start from; empty for the one that creates the case. */
+  from: InvestigationStatus[];
+  to: InvestigationStatus;
+  roles: InvestigationRole[];
+  /** Fields the update must set to a non-empty value. */
+  requires: string[];
+}
+
+const OPEN_STATUSES: InvestigationStatus[] = ['pending_review', 'awaiting_lab_results', 'awaiting_nurse_visit', 'awaiting_follow_up_visit', 'pending_final_review'];
+
+export const INVESTIGATION_TRANSITIONS: Record<InvestigationTransition, TransitionDefinition> = {
+  submit: { from: [], to: 'pending_review', roles: ['patient'], requires: ['userId', 'steps'] },
+  send_initial_plan: { from: ['pending_review'], to: 'awaiting_lab_results', roles: ['doctor'], requires: ['doctorPlan'] },
+  dispatch_nurse: { from: ['awaiting_lab_results', 'awaiting_follow_up_visit'], to: 'awaiting_nurse_visit', roles: ['doctor'], requires: ['nurseDispatch'] },
+  submit_lab_results: { from: ['awaiting_lab_results', 'awaiting_nurse_visit', 'awaiting_follow_up_visit'], to: 'pending_final_review', roles: ['patient', 'nurse'], requires: ['steps'] },
+  request_follow_up: { from: ['pending_final_review'], to: 'awaiting_follow_up_visit', roles: ['doctor'], requires: ['followUpRequest'] },
+  complete: { from: ['pending_review', 'pending_final_review'], to: 'completed', roles: ['doctor'], requires: ['finalTreatmentPlan', 'doctorNote'] },
+  close: { from: OPEN_STATUSES, to: 'rejected', roles: ['doctor'], requires: ['doctorNote'] },
+};
+
+/** One entry of the `transitions` log kept on the investigation document. */
+export interface TransitionLogEntry {
+  transition: InvestigationTransition;
+  from: InvestigationStatus | null;
+  to: InvestigationStatus;
+  at: string;
+  by: InvestigationActor;
+}
+
+export type TransitionErrorCode = 'invalid_transition' | 'forbidden' | 'missing_payload';
+
+export class InvestigationTransitionError extends Error {
+  constructor(message: string, public code: TransitionErrorCode) {
+    super(message);
+    this.name = 'InvestigationTransitionError';
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/**
+ * Throws an `InvestigationTransitionError` unless `actor` may apply `transition` to a
+ * case in `current` status (null when creating) with this payload.
+ */
+export function assertTransition(
+  current: InvestigationStatus | null,
+  transition: InvestigationTransition,
+  actor: InvestigationActor,
+  payload: Record<string, unknown>,
+): void {
+  const definition = INVESTIGATION_TRANSITIONS[transition];
+  const allowedFrom = current === null ? definition.from.length === 0 : definition.from.includes(current);
+  if (!allowedFrom) {
+    throw new InvestigationTransitionError(
+      `This case is ${current ? `"${INVESTIGATION_STATUS_LABELS[current]}"` : 'not created yet'} and can't move to "${INVESTIGATION_STATUS_LABELS[definition.to]}".`,
+      'invalid_transition',
+    );
+  }
+  if (!definition.roles.includes(actor.role)) {
+    throw new InvestigationTransitionError(`A ${actor.role} can't perform this step.`, 'forbidden');
+  }
+  const missing = definition.requires.filter(field => isEmpty(payload[field]));
+  if (missing.length > 0) {
+    throw new InvestigationTransitionError(`Missing required information: ${missing.join(', ')}.`, 'missing_payload');
+  }
+  if ('status' in payload || 'transitions' in payload) {
+    throw new InvestigationTransitionError('Status and the transition log are set by the transition itself.', 'invalid_transition');
+  }
+}
+
+export function canTransition(current: InvestigationStatus, transition: InvestigationTransition, role: InvestigationRole): boolean {
+  const definition = INVESTIGATION_TRANSITIONS[transition];
+  return definition.from.includes(current) && definition.roles.includes(role);
+}
+
+export function isOpenStatus(status: InvestigationStatus): boolean {
+  return OPEN_STATUSES.includes(status);
+}
+
+export function buildTransitionLogEntry(
+  transition: InvestigationTransition,
+  from: InvestigationStatus | null,
+  actor: InvestigationActor,
+): TransitionLogEntry {
+  return { transition, from, to: INVESTIGATION_TRANSITIONS[transition].to, at: new Date().toISOString(), by: actor };
+}
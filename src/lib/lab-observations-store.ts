@@ -0,0 +1,58 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDocs, orderBy, query, where, writeBatch, type QueryConstraint } from 'firebase/firestore';
+import { analyteKey, deriveLabFlag, type LabAnalyte, type LabObservation } from '@/lib/lab-observations';
+
+/**
+ * Firestore access for `users/{uid}/lab_observations`. Observations are written once,
+ * when a lab report is submitted or a value is entered by hand, and never edited.
+ */
+
+export interface FetchLabObservationsOptions {
+  analyteKey?: string;
+  from?: Date;
+  to?: Date;
+}
+
+const observationsCollection = (uid: string) => collection(db, `users/${uid}/lab_observations`);
+
+export async function fetchLabObservations(uid: string, options: FetchLabObservationsOptions = {}): Promise<LabObservation[]> {
+  const constraints: QueryConstraint[] = [];
+  if (options.analyteKey) constraints.push(where('analyteKey', '==', options.analyteKey));
+  if (options.from) constraints.push(where('observedAt', '>=', options.from.toISOString()));
+  if (options.to) constraints.push(where('observedAt', '<', options.to.toISOString()));
+  constraints.push(orderBy('observedAt', 'desc'));
+
+  const snapshot = await getDocs(query(observationsCollection(uid), ...constraints));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as LabObservation));
+}
+
+/** Stores every analyte of one report in a single batch. */
+export async function addLabObservations(
+  uid: string,
+  source: LabObservation['source'],
+  analytes: LabAnalyte[],
+  observedAt: string,
+  recordedBy: LabObservation['recordedBy'],
+): Promise<LabObservation[]> {
+  if (analytes.length === 0) return [];
+  const recordedAt = new Date().toISOString();
+  const batch = writeBatch(db);
+  const written = analytes.map(analyte => {
+    const ref = doc(observationsCollection(uid));
+    const observation: Omit<LabObservation, 'id'> = {
+      ...analyte,
+      flag: deriveLabFlag(analyte),
+      analyteKey: analyteKey(analyte.name),
+      observedAt,
+      recordedAt,
+      source,
+      recordedBy,
+    };
+    // Firestore rejects undefined fields.
+    const document = JSON.parse(JSON.stringify(observation));
+    batch.set(ref, document);
+    return { id: ref.id, ...document } as LabObservation;
+  });
+  await batch.commit();
+  return written;
+}
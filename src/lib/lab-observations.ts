@@ -0,0 +1,210 @@
+/**
+ * Structured lab results stored in `users/{uid}/lab_observations`, one document per analyte,
+ * either read off a submitted lab report or entered by hand against a case. Each keeps the
+ * value and reference range exactly as reported, plus a numeric value where one could be
+ * parsed so results can be trended.
+ */
+
+export type LabFlag = 'low' | 'normal' | 'high' | 'critical_low' | 'critical_high' | 'abnormal';
+
+export const LAB_FLAG_LABELS: Record<LabFlag, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  critical_low: 'Critically low',
+  critical_high: 'Critically high',
+  abnormal: 'Abnormal',
+};
+
+export interface LabReferenceRange {
+  low?: number;
+  high?: number;
+  /** The range as printed, e.g. '4.0 - 11.0' or 'Negative'. */
+  text?: string;
+}
+
+/** One analyte as extracted from a report, before it is stored. */
+export interface LabAnalyte {
+  name: string;
+  value?: number;
+  /** The result as printed; qualitative results ('Positive', 'Not detected') only have this. */
+  valueText: string;
+  unit?: string;
+  referenceRange?: LabReferenceRange;
+  flag?: LabFlag;
+}
+
+export interface LabObservation extends LabAnalyte {
+  id: string;
+  /** Canonical analyte key used to group results over time, see `analyteKey`. */
+  analyteKey: string;
+  /** When the sample was collected, if the report says; otherwise when it was submitted. */
+  observedAt: string;
+  recordedAt: string;
+  source: {
+    investigationId: string;
+    testName: string;
+  };
+  recordedBy: { uid: string; name: string; role: 'doctor' | 'patient' | 'nurse' };
+}
+
+/** Every result for one analyte across all cases, oldest first. */
+export interface LabSeries {
+  analyteKey: string;
+  /** The name and unit as most recently reported. */
+  name: string;
+  unit?: string;
+  observations: LabObservation[];
+  /** The most recent reference range reported in `unit`. */
+  referenceRange?: LabReferenceRange;
+  abnormalCount: number;
+}
+
+/** Common alternative names, keyed by the normalised spelling. */
+const ANALYTE_ALIASES: Record<string, string> = {
+  hb: 'haemoglobin',
+  hgb: 'haemoglobin',
+  hemoglobin: 'haemoglobin',
+  wbc: 'white blood cells',
+  'white blood cell count': 'white blood cells',
+  'total leucocyte count': 'white blood cells',
+  'total leukocyte count': 'white blood cells',
+  rbc: 'red blood cells',
+  'red blood cell count': 'red blood cells',
+  plt: 'platelets',
+  'platelet count': 'platelets',
+  hct: 'haematocrit',
+  hematocrit: 'haematocrit',
+  pcv: 'haematocrit',
+  fbs: 'fasting blood glucose',
+  'fasting blood sugar': 'fasting blood glucose',
+  'fasting glucose': 'fasting blood glucose',
+  rbs: 'random blood glucose',
+  'random blood sugar': 'random blood glucose',
+  hba1c: 'hba1c',
+  'glycated haemoglobin': 'hba1c',
+  'glycated hemoglobin': 'hba1c',
+  'serum creatinine': 'creatinine',
+  's creatinine': 'creatinine',
+  bun: 'urea',
+  'blood urea nitrogen': 'urea',
+  alt: 'alt',
+  sgpt: 'alt',
+  'alanine aminotransferase': 'alt',
+  ast: 'ast',
+  sgot: 'ast',
+  'aspartate aminotransferase': 'ast',
+  'total cholesterol': 'cholesterol',
+  'ldl cholesterol': 'ldl',
+  'hdl cholesterol': 'hdl',
+  tsh: 'tsh',
+  'thyroid stimulating hormone': 'tsh',
+  crp: 'crp',
+  'c-reactive protein': 'crp',
+  esr: 'esr',
+  'erythrocyte sedimentation rate': 'esr',
+};
+
+/** Groups spellings of the same analyte ('Hb', 'Hemoglobin', 'HAEMOGLOBIN') under one key. */
+export function analyteKey(name: string): string {
+  const normalise = (text: string) => text.toLowerCase().replace(/\./g, '').replace(/[()[\]:]/g, ' ').replace(/\s+/g, ' ').trim();
+  const full = normalise(name);
+  // 'Haemoglobin (Hb)': try the name without its parenthetical, then the parenthetical itself.
+  const outer = normalise(name.replace(/\(.*?\)/g, ' '));
+  const inner = normalise(name.match(/\((.*?)\)/)?.[1] ?? '');
+  for (const candidate of [full, outer, inner]) {
+    if (candidate && ANALYTE_ALIASES[candidate]) return ANALYTE_ALIASES[candidate];
+  }
+  return outer || full;
+}
+
+/** Reads the bounds out of a printed range such as '4.0 - 11.0', '-2 - 2', '< 5.7' or '>= 60'. */
+export function parseReferenceRange(text: string): LabReferenceRange {
+  const range: LabReferenceRange = { text: text.trim() };
+  // A minus right after a number separates the bounds ('4.0-11.0'); anywhere else it is a sign ('-2 - 2', '-5 to -1')
+  const numbers = (text.match(/(?:(?<![\d.,]\s*)[-−])?\d+(?:[.,]\d+)?/g) ?? []).map(n => parseFloat(n.replace('−', '-').replace(',', '.')));
+  if (/^\s*(<|≤|up to)/i.test(text) && numbers.length >= 1) {
+    range.high = numbers[0];
+  } else if (/^\s*(>|≥)/.test(text) && numbers.length >= 1) {
+    range.low = numbers[0];
+  } else if (numbers.length >= 2) {
+    range.low = numbers[0];
+    range.high = numbers[1];
+  }
+  return range;
+}
+
+/**
+ * The report's own flag wins; otherwise a numeric value is compared against the range.
+ * Returns undefined when neither is available.
+ */
+export function deriveLabFlag(analyte: LabAnalyte): LabFlag | undefined {
+  if (analyte.flag) return analyte.flag;
+  const { value, referenceRange } = analyte;
+  if (value === undefined || !referenceRange) return undefined;
+  if (referenceRange.low !== undefined && value < referenceRange.low) return 'low';
+  if (referenceRange.high !== undefined && value > referenceRange.high) return 'high';
+  if (referenceRange.low !== undefined || referenceRange.high !== undefined) return 'normal';
+  return undefined;
+}
+
+export function isOutOfRange(flag?: LabFlag): boolean {
+  return !!flag && flag !== 'normal';
+}
+
+/** One line per analyte, e.g. 'Haemoglobin: 10.2 g/dL (ref 12.0 - 16.0) [Low]'. */
+export function formatLabAnalyte(analyte: LabAnalyte): string {
+  const value = [analyte.valueText, analyte.unit].filter(Boolean).join(' ');
+  const range = analyte.referenceRange?.text ? ` (ref ${analyte.referenceRange.text})` : '';
+  const flag = analyte.flag ? ` [${LAB_FLAG_LABELS[analyte.flag]}]` : '';
+  return `${analyte.name}: ${value}${range}${flag}`;
+}
+
+export function isPdfDataUri(dataUri: string): boolean {
+  return dataUri.startsWith('data:application/pdf');
+}
+
+/** Groups observations by analyte, most recently observed analyte first. */
+export function groupLabSeries(observations: LabObservation[]): LabSeries[] {
+  const byKey = new Map<string, LabObservation[]>();
+  for (const observation of observations) {
+    byKey.set(observation.analyteKey, [...(byKey.get(observation.analyteKey) ?? []), observation]);
+  }
+  const series = [...byKey.entries()].map(([key, group]) => {
+    const sorted = [...group].sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+    const latest = sorted[sorted.length - 1];
+    const ranged = sorted.filter(o => o.unit === latest.unit && o.referenceRange).at(-1);
+    return {
+      analyteKey: key,
+      name: latest.name,
+      unit: latest.unit,
+      observations: sorted,
+      referenceRange: ranged?.referenceRange,
+      abnormalCount: sorted.filter(o => isOutOfRange(o.flag)).length,
+    };
+  });
+  return series.sort((a, b) => b.observations[b.observations.length - 1].observedAt.localeCompare(a.observations[a.observations.length - 1].observedAt));
+}
+
+/** Numeric points in the series' current unit; results in other units can't share an axis. */
+export function chartableObservations(series: LabSeries): LabObservation[] {
+  return series.observations.filter(o => o.value !== undefined && o.unit === series.unit);
+}
+
+export const LAB_CSV_HEADERS = ['Date', 'Analyte', 'Result', 'Unit', 'Reference range', 'Flag', 'Test', 'Case'];
+
+export function labObservationsToCsvRows(observations: LabObservation[]): string[][] {
+  return [
+    LAB_CSV_HEADERS,
+    ...observations.map(o => [
+      o.observedAt,
+      o.name,
+      o.valueText,
+      o.unit ?? '',
+      o.referenceRange?.text ?? '',
+      o.flag ? LAB_FLAG_LABELS[o.flag] : '',
+      o.source.testName,
+      o.source.investigationId,
+    ]),
+  ];
+}
@@ -0,0 +1,29 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDocs, setDoc } from 'firebase/firestore';
+import type { DoseRecord, DoseStatus, MedicationPlan, MedicationSchedule } from '@/lib/medication-schedule';
+
+/**
+ * Firestore access for `investigations/{caseId}/medication_plans/{medicationKey}`. Plans
+ * are kept on the case so the reviewing doctor can see adherence alongside the plan.
+ */
+
+const plansCollection = (caseId: string) => collection(db, `investigations/${caseId}/medication_plans`);
+
+export async function fetchMedicationPlans(caseId: string): Promise<Record<string, MedicationPlan>> {
+  const snapshot = await getDocs(plansCollection(caseId));
+  return Object.fromEntries(snapshot.docs.map(d => [d.id, d.data() as MedicationPlan]));
+}
+
+export async function saveMedicationSchedule(caseId: string, plan: MedicationPlan, schedule: MedicationSchedule): Promise<MedicationPlan> {
+  const updated: MedicationPlan = { ...plan, schedule, scheduleEdited: true, updatedAt: new Date().toISOString() };
+  await setDoc(doc(plansCollection(caseId), plan.key), updated, { merge: true });
+  return updated;
+}
+
+export async function recordDose(caseId: string, plan: MedicationPlan, doseId: string, status: DoseStatus): Promise<MedicationPlan> {
+  const record: DoseRecord = { status, recordedAt: new Date().toISOString() };
+  const updated: MedicationPlan = { ...plan, doses: { ...plan.doses, [doseId]: record }, updatedAt: record.recordedAt };
+  // Merging keeps dose records written from another device in the meantime.
+  await setDoc(doc(plansCollection(caseId), plan.key), { ...updated, doses: { [doseId]: record } }, { merge: true });
+  return updated;
+}
@@ -0,0 +1,277 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+
+/**
+ * Medication schedules parsed from the free-text dosage a doctor writes on a plan
+ * (e.g. "1 tablet twice a day for 5 days"), the dose events they produce and the
+ * patient's adherence to them.
+ *
+ * Dates in a schedule are local calendar dates (`yyyy-MM-dd`) and times are local clock
+ * times (`HH:mm`), because a dose "at 8am" means 8am wherever the patient is.
+ */
+
+export interface PrescribedMedication {
+  /** Stable within a case: which list the medication came from and its position in it. */
+  key: string;
+  source: 'preliminary' | 'final';
+  name: string;
+  dosage: string;
+}
+
+export interface MedicationSchedule {
+  /** e.g. "1 tablet", "5 ml"; null when the dosage doesn't say. */
+  doseAmount: string | null;
+  timesPerDay: number;
+  /** 1 = every day, 2 = every other day, 7 = weekly. */
+  intervalDays: number;
+  /** Taken only when needed, so there are no scheduled doses to adhere to. */
+  asNeeded: boolean;
+  /** Null when the course has no stated end. */
+  durationDays: number | null;
+  startDate: string;
+  doseTimes: string[];
+}
+
+export interface ParsedDosage {
+  schedule: MedicationSchedule;
+  /** False when no frequency could be read and a once-daily default was used. */
+  recognised: boolean;
+}
+
+export type DoseStatus = 'taken' | 'skipped';
+
+export interface DoseRecord {
+  status: DoseStatus;
+  recordedAt: string;
+}
+
+export interface DoseEvent {
+  /** `yyyy-MM-dd_HHmm`; the key its `DoseRecord` is stored under. */
+  id: string;
+  scheduledAt: string;
+}
+
+/** A dose isn't counted as missed until this long after it was due. */
+export const DOSE_GRACE_HOURS = 2;
+
+/** Upper bound on doses a day read from free text, to keep a typo from flooding the schedule. */
+const MAX_TIMES_PER_DAY = 12;
+
+export function prescribedMedications(investigation: {
+  doctorPlan?: { preliminaryMedications?: { name: string; dosage: string }[] };
+  finalTreatmentPlan?: { medications?: { name: string; dosage: string }[] };
+}): PrescribedMedication[] {
+  const list = (source: PrescribedMedication['source'], meds: { name: string; dosage: string }[] = []) =>
+    meds.flatMap((med, index) => med?.name && med?.dosage ? [{ key: `${source}-${index}`, source, name: med.name, dosage: med.dosage }] : []);
+  return [
+    ...list('preliminary', investigation.doctorPlan?.preliminaryMedications),
+    ...list('final', investigation.finalTreatmentPlan?.medications),
+  ];
+}
+
+/** A patient's schedule for one prescribed medication and the doses they have recorded. */
+export interface MedicationPlan {
+  key: string;
+  patientId: string;
+  name: string;
+  /** The dosage text the schedule was parsed from. */
+  dosage: string;
+  schedule: MedicationSchedule;
+  /** Set once the patient has adjusted the parsed schedule themselves. */
+  scheduleEdited: boolean;
+  doses: Record<string, DoseRecord>;
+  updatedAt: string;
+}
+
+/**
+ * The plan to follow for a medication. The stored one wins unless the doctor has since
+ * changed the dosage, in which case it is re-parsed from the same start date.
+ * `recognised` is false when the dosage couldn't be read and the patient should check it.
+ */
+export function resolveMedicationPlan(
+  patientId: string,
+  medication: PrescribedMedication,
+  stored: MedicationPlan | undefined,
+  prescribedAt: string,
+): { plan: MedicationPlan; recognised: boolean } {
+  if (stored && stored.dosage === medication.dosage) {
+    return { plan: stored, recognised: true };
+  }
+  const startDate = stored?.schedule.startDate ?? format(parseISO(prescribedAt), 'yyyy-MM-dd');
+  const { schedule, recognised } = parseDosage(medication.dosage, startDate);
+  return {
+    plan: {
+      key: medication.key,
+      patientId,
+      name: medication.name,
+      dosage: medication.dosage,
+      schedule,
+      scheduleEdited: false,
+      doses: stored?.doses ?? {},
+      updatedAt: new Date().toISOString(),
+    },
+    recognised,
+  };
+}
+
+// --- Parsing ---
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, once: 1, two: 2, twice: 2, three: 3, thrice: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10, fourteen: 14, half: 0.5,
+};
+
+function toNumber(word: string): number | null {
+  const n = NUMBER_WORDS[word] ?? Number(word);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+const ABBREVIATIONS: [RegExp, number][] = [
+  [/\b(?:qds|qid)\b/, 4],
+  [/\b(?:tds|tid)\b/, 3],
+  [/\b(?:bd|bid)\b/, 2],
+  [/\b(?:od|qd|daily|nocte|(?:at|every) (?:night|bedtime)|(?:every|in the) morning|once)\b/, 1],
+];
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+export const DEFAULT_DOSE_TIMES: Record<number, string[]> = {
+  1: ['08:00'],
+  2: ['08:00', '20:00'],
+  3: ['08:00', '14:00', '20:00'],
+  4: ['08:00', '12:00', '16:00', '20:00'],
+};
+
+/** Evenly spaced times from 08:00 for frequencies without a conventional set. */
+export function defaultDoseTimes(timesPerDay: number): string[] {
+  if (DEFAULT_DOSE_TIMES[timesPerDay]) return DEFAULT_DOSE_TIMES[timesPerDay];
+  const step = 24 / timesPerDay;
+  return Array.from({ length: timesPerDay }, (_, i) => {
+    const minutes = Math.round(((8 + i * step) % 24) * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }).sort();
+}
+
+export function parseDosage(dosage: string, startDate: string): ParsedDosage {
+  const text = dosage.toLowerCase().replace(/[,;()]/g, ' ').replace(/\s+/g, ' ');
+  let timesPerDay: number | null = null;
+  let intervalDays = 1;
+
+  const everyHours = text.match(/\b(?:every|q)\s?(\d+)\s?(?:-\s?\d+\s?)?(?:hours?|hrs?|h)\b/);
+  const perDay = text.match(/\b(\w+)\s?(?:times?|x)\s?(?:a|per|each|\/)\s?day\b/)
+    ?? text.match(/\b(once|twice|thrice)\s?(?:a|per|each|\/)\s?day\b/)
+    ?? text.match(/\b(\w+)(?: times)?\s+daily\b/);
+  if (everyHours) {
+    const hours = Number(everyHours[1]);
+    if (hours > 0 && hours <= 24) timesPerDay = Math.floor(24 / hours);
+  } else if (perDay) {
+    timesPerDay = toNumber(perDay[1]);
+  }
+  timesPerDay ??= ABBREVIATIONS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+
+  if (/\b(?:weekly|once a week|(?:a|per|every) week)\b/.test(text)) {
+    intervalDays = 7;
+    timesPerDay ??= 1;
+  } else if (/\b(?:every other day|alternate days?|every (?:2|two) days)\b/.test(text)) {
+    intervalDays = 2;
+    timesPerDay ??= 1;
+  }
+
+  const asNeeded = /\b(?:as needed|as required|when needed|if needed|prn)\b/.test(text);
+  const recognised = timesPerDay !== null || asNeeded;
+  timesPerDay = Math.min(Math.max(Math.round(timesPerDay ?? 1), 1), MAX_TIMES_PER_DAY);
+
+  let durationDays: number | null = null;
+  const duration = text.match(/\b(?:for|x|×)\s?(\w+)\s?(day|week|month)s?\b/) ?? text.match(/\b(\w+)\s?(day|week|month)s?\s(?:course|supply)\b/);
+  if (duration) {
+    const count = toNumber(duration[1]);
+    if (count) durationDays = Math.round(count * UNIT_DAYS[duration[2]]);
+  }
+
+  const amount = text.match(/\b(\d+(?:\.\d+)?|one|two|three|half|a)\s?(tablets?|tabs?|capsules?|caps?|pills?|ml|mg|mcg|g|puffs?|drops?|sachets?|teaspoons?|tsp|units?)\b/);
+  const doseAmount = amount ? `${toNumber(amount[1]) ?? amount[1]} ${amount[2]}` : null;
+
+  let doseTimes = defaultDoseTimes(timesPerDay);
+  if (timesPerDay === 1 && /\b(?:night|bedtime|nocte|evening)\b/.test(text)) doseTimes = ['21:00'];
+
+  return {
+    schedule: { doseAmount, timesPerDay, intervalDays, asNeeded, durationDays, startDate, doseTimes },
+    recognised,
+  };
+}
+
+// --- Dose events ---
+
+function atTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const at = new Date(date);
+  at.setHours(hours, minutes, 0, 0);
+  return at;
+}
+
+/** The day after the last day of the course, or null if it is ongoing. */
+export function scheduleEnd(schedule: MedicationSchedule): Date | null {
+  return schedule.durationDays === null ? null : addDays(parseISO(schedule.startDate), schedule.durationDays);
+}
+
+/** Scheduled doses falling within [from, to], oldest first. */
+export function doseEvents(schedule: MedicationSchedule, from: Date, to: Date): DoseEvent[] {
+  if (schedule.asNeeded) return [];
+  const start = parseISO(schedule.startDate);
+  const end = scheduleEnd(schedule);
+  const events: DoseEvent[] = [];
+  let day = startOfDay(from < start ? start : from);
+  // Land on a day the schedule actually has doses.
+  const offset = differenceInCalendarDays(day, start) % schedule.intervalDays;
+  if (offset > 0) day = addDays(day, schedule.intervalDays - offset);
+
+  for (; day <= to && (!end || day < end); day = addDays(day, schedule.intervalDays)) {
+    for (const time of [...schedule.doseTimes].sort()) {
+      const at = atTime(day, time);
+      if (at < from || at > to) continue;
+      events.push({ id: `${format(day, 'yyyy-MM-dd')}_${time.replace(':', '')}`, scheduledAt: at.toISOString() });
+    }
+  }
+  return events;
+}
+
+export type CourseStatus = 'upcoming' | 'active' | 'completed';
+
+export function courseStatus(schedule: MedicationSchedule, now: Date = new Date()): CourseStatus {
+  if (now < parseISO(schedule.startDate)) return 'upcoming';
+  const end = scheduleEnd(schedule);
+  return end && now >= end ? 'completed' : 'active';
+}
+
+export interface Adherence {
+  /** Doses whose time (plus grace) has passed, or that were already recorded. */
+  due: number;
+  taken: number;
+  skipped: number;
+  missed: number;
+  /** Share of due doses taken; null until a dose has been due. */
+  percent: number | null;
+}
+
+export function computeAdherence(schedule: MedicationSchedule, doses: Record<string, DoseRecord>, now: Date = new Date()): Adherence {
+  const cutoff = new Date(now.getTime() - DOSE_GRACE_HOURS * 3_600_000);
+  const events = doseEvents(schedule, parseISO(schedule.startDate), now);
+  let due = 0, taken = 0, skipped = 0;
+  for (const event of events) {
+    const record = doses[event.id];
+    if (!record && parseISO(event.scheduledAt) > cutoff) continue;
+    due++;
+    if (record?.status === 'taken') taken++;
+    if (record?.status === 'skipped') skipped++;
+  }
+  return { due, taken, skipped, missed: due - taken - skipped, percent: due > 0 ? Math.round((taken / due) * 100) : null };
+}
+
+const FREQUENCY_LABELS: Record<number, string> = { 1: 'once', 2: 'twice', 3: 'three times', 4: 'four times' };
+
+export function describeSchedule(schedule: MedicationSchedule): string {
+  if (schedule.asNeeded) return [schedule.doseAmount, 'as needed'].filter(Boolean).join(' ');
+  const times = FREQUENCY_LABELS[schedule.timesPerDay] ?? `${schedule.timesPerDay} times`;
+  const every = schedule.intervalDays === 1 ? 'a day' : schedule.intervalDays === 7 ? 'a week' : `every ${schedule.intervalDays} days`;
+  const length = schedule.durationDays === null ? 'ongoing' : `for ${schedule.durationDays} day${schedule.durationDays === 1 ? '' : 's'}`;
+  return `${schedule.doseAmount ? `${schedule.doseAmount} ` : ''}${times} ${every}, ${length} from ${format(parseISO(schedule.startDate), 'MMM d')}`;
+}
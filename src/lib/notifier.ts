@@ -0,0 +1,91 @@
+import type { Guardian, NotificationChannel } from '@/lib/guardians';
+
+/**
+ * Pluggable delivery of emergency notifications to guardians.
+ *
+ * Each channel (SMS, email, push) is served by a `Notifier`. Until real providers are
+ * configured every channel falls back to `LogNotifier`, which records what would have
+ * been sent; register a provider with `registerNotifier` to deliver for real.
+ */
+
+export interface GuardianNotification {
+  guardian: Guardian;
+  subject: string;
+  body: string;
+  /** The alert this notification belongs to, so providers can de-duplicate retries. */
+  alertId: string;
+}
+
+export interface NotificationResult {
+  guardianId: string;
+  guardianName: string;
+  channel: NotificationChannel;
+  status: 'sent' | 'logged' | 'failed';
+  error?: string;
+  timestamp: string;
+}
+
+export interface Notifier {
+  readonly channel: NotificationChannel;
+  send(notification: GuardianNotification): Promise<NotificationResult>;
+}
+
+export class LogNotifier implements Notifier {
+  readonly sent: GuardianNotification[] = [];
+
+  constructor(readonly channel: NotificationChannel) {}
+
+  async send(notification: GuardianNotification): Promise<NotificationResult> {
+    this.sent.push(notification);
+    const { guardian } = notification;
+    const recipient = this.channel === 'email' ? guardian.email : this.channel === 'sms' ? guardian.phone : guardian.id;
+    console.info(`[notifier:${this.channel}] to ${guardian.name} <${recipient}> (alert ${notification.alertId}): ${notification.subject}\n${notification.body}`);
+    return {
+      guardianId: guardian.id,
+      guardianName: guardian.name,
+      channel: this.channel,
+      status: 'logged',
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+const notifiers = new Map<NotificationChannel, Notifier>();
+
+export function registerNotifier(notifier: Notifier): void {
+  notifiers.set(notifier.channel, notifier);
+}
+
+export function getNotifier(channel: NotificationChannel): Notifier {
+  let notifier = notifiers.get(channel);
+  if (!notifier) {
+    notifier = new LogNotifier(channel);
+    notifiers.set(channel, notifier);
+  }
+  return notifier;
+}
+
+/**
+ * Sends a notification to every guardian on each channel they opted into. Failures on one
+ * channel never stop delivery on the others; every attempt is reported in the result.
+ */
+export async function notifyGuardians(
+  guardians: Guardian[],
+  message: Omit<GuardianNotification, 'guardian'>,
+): Promise<NotificationResult[]> {
+  const attempts = guardians.flatMap(guardian => guardian.channels.map(async (channel): Promise<NotificationResult> => {
+    try {
+      return await getNotifier(channel).send({ ...message, guardian });
+    } catch (error: any) {
+      return {
+        guardianId: guardian.id,
+        guardianName: guardian.name,
+        channel,
+        status: 'failed',
+        error: error?.message ?? String(error),
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }));
+  return Promise.all(attempts);
+}
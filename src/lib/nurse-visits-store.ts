@@ -0,0 +1,81 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDoc, getDocs, query, runTransaction, where } from 'firebase/firestore';
+import {
+  NurseVisitError,
+  canAdvanceTo,
+  initialVisit,
+  pendingTasks,
+  type NurseDispatch,
+  type NurseVisit,
+  type SampleCollection,
+  type VisitStage,
+} from '@/lib/nurse-visits';
+
+/**
+ * Nurse visit progress on `investigations/{id}.nurseVisit`. Every change re-reads the case
+ * in a transaction and checks the visit is still assigned to the nurse and still open.
+ */
+
+export interface Nurse {
+  uid: string;
+  name: string;
+}
+
+export interface PatientContact {
+  name: string;
+  address: string;
+  phone: string;
+}
+
+const investigationRef = (caseId: string) => doc(db, 'investigations', caseId);
+
+export async function fetchNurses(): Promise<Nurse[]> {
+  const snapshot = await getDocs(query(collection(db, 'users'), where('role', '==', 'nurse')));
+  return snapshot.docs.map(d => ({ uid: d.id, name: d.data().name || d.data().email || 'Nurse' }));
+}
+
+/** The patient's own contact details, copied onto each case they submit for a nurse dispatch. */
+export async function fetchPatientContact(patientId: string): Promise<PatientContact> {
+  const snapshot = await getDoc(doc(db, 'users', patientId));
+  const data = snapshot.data() ?? {};
+  return { name: data.name ?? '', address: data.address ?? '', phone: data.phone ?? '' };
+}
+
+async function updateVisit(caseId: string, nurseUid: string, change: (visit: NurseVisit, dispatch: NurseDispatch) => NurseVisit): Promise<NurseVisit> {
+  return runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(investigationRef(caseId));
+    const data = snapshot.data();
+    const dispatch = data?.nurseDispatch as NurseDispatch | undefined;
+    if (!dispatch || dispatch.nurseUid !== nurseUid) {
+      throw new NurseVisitError('This visit is not assigned to you.', 'not_assigned');
+    }
+    if (data?.status !== 'awaiting_nurse_visit') {
+      throw new NurseVisitError('This visit has already been reported.', 'not_active');
+    }
+    const visit = change((data.nurseVisit as NurseVisit | undefined) ?? initialVisit(), dispatch);
+    transaction.update(investigationRef(caseId), { nurseVisit: visit });
+    return visit;
+  });
+}
+
+export async function advanceVisit(caseId: string, nurseUid: string, stage: VisitStage): Promise<NurseVisit> {
+  return updateVisit(caseId, nurseUid, visit => {
+    if (!canAdvanceTo(visit.stage, stage)) {
+      throw new NurseVisitError('The visit has already moved past this stage.', 'invalid_stage');
+    }
+    return { ...visit, stage, updatedAt: new Date().toISOString() };
+  });
+}
+
+/** Records (or re-records) the sample for one task; the visit is done once every task has one. */
+export async function recordSample(caseId: string, nurseUid: string, sample: SampleCollection): Promise<NurseVisit> {
+  return updateVisit(caseId, nurseUid, (visit, dispatch) => {
+    if (!dispatch.tasks.includes(sample.task)) {
+      throw new NurseVisitError(`"${sample.task}" is not one of this visit's tests.`, 'invalid_stage');
+    }
+    const samples = [...visit.samples.filter(s => s.task !== sample.task), sample];
+    const updated: NurseVisit = { ...visit, samples, updatedAt: new Date().toISOString() };
+    updated.stage = pendingTasks(dispatch, updated).length === 0 ? 'samples_collected' : 'arrived';
+    return updated;
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * Home visits by nurses. A doctor dispatches a visit with the `dispatch_nurse` transition,
+ * which stores a `NurseDispatch` on the investigation; the nurse then records their progress
+ * and collected samples in `nurseVisit` and submits the visit report with `submit_lab_results`.
+ */
+
+export interface NurseDispatch {
+  nurseUid: string;
+  nurseName: string;
+  dispatchedByUid: string;
+  dispatchedByName: string;
+  dispatchedAt: string;
+  /** When the patient should expect the nurse. */
+  scheduledFor: string;
+  patientName: string;
+  /** Copied from the patient's profile when dispatched, so the nurse never reads the profile itself. */
+  address: string;
+  phone?: string;
+  /** The lab tests to collect samples for. */
+  tasks: string[];
+  instructions?: string;
+}
+
+export const VISIT_STAGES = ['scheduled', 'en_route', 'arrived', 'samples_collected'] as const;
+export type VisitStage = typeof VISIT_STAGES[number];
+
+export const VISIT_STAGE_LABELS: Record<VisitStage, string> = {
+  scheduled: 'Scheduled',
+  en_route: 'On the way',
+  arrived: 'Arrived',
+  samples_collected: 'Samples collected',
+};
+
+export interface SampleCollection {
+  task: string;
+  sampleType: string;
+  collectedAt: string;
+  notes?: string;
+}
+
+export interface NurseVisit {
+  stage: VisitStage;
+  samples: SampleCollection[];
+  updatedAt: string;
+}
+
+export class NurseVisitError extends Error {
+  constructor(message: string, public code: 'not_assigned' | 'not_active' | 'invalid_stage') {
+    super(message);
+    this.name = 'NurseVisitError';
+  }
+}
+
+/** Specimen types offered when a nurse records a sample. */
+export const SAMPLE_TYPES = ['Venous blood', 'Capillary blood', 'Urine', 'Stool', 'Sputum', 'Swab'] as const;
+
+export function validateDispatch(dispatch: Omit<NurseDispatch, 'dispatchedAt'>, now: Date = new Date()): string | null {
+  if (!dispatch.nurseUid) return 'Choose a nurse to visit the patient.';
+  if (!dispatch.address.trim()) return "The patient's address is needed for a home visit.";
+  if (dispatch.tasks.length === 0) return 'Choose at least one test to collect samples for.';
+  const scheduled = new Date(dispatch.scheduledFor);
+  if (Number.isNaN(scheduled.getTime())) return 'Choose when the visit should happen.';
+  if (scheduled.getTime() < now.getTime() - 60 * 60_000) return 'The visit cannot be scheduled in the past.';
+  return null;
+}
+
+export function initialVisit(now: Date = new Date()): NurseVisit {
+  return { stage: 'scheduled', samples: [], updatedAt: now.toISOString() };
+}
+
+/** Stages only move forward; recording a sample implies the nurse has arrived. */
+export function canAdvanceTo(current: VisitStage, next: VisitStage): boolean {
+  return VISIT_STAGES.indexOf(next) > VISIT_STAGES.indexOf(current);
+}
+
+export function nextStage(current: VisitStage): VisitStage | null {
+  const index = VISIT_STAGES.indexOf(current);
+  return index < VISIT_STAGES.length - 1 ? VISIT_STAGES[index + 1] : null;
+}
+
+/** Tasks with no sample recorded yet. */
+export function pendingTasks(dispatch: NurseDispatch, visit?: NurseVisit | null): string[] {
+  const collected = new Set(visit?.samples.map(s => s.task) ?? []);
+  return dispatch.tasks.filter(task => !collected.has(task));
+}
+
+export function mapsUrl(address: string): string {
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(address)}`;
+}
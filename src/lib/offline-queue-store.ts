@@ -0,0 +1,153 @@
+import { db } from '@/lib/firebase';
+import { collection, deleteDoc, doc, setDoc } from 'firebase/firestore';
+import {
+  SYNC_TAG, buildPendingWrite, findPendingCreate, foldIntoPendingCreate, isOfflineError,
+  type PendingOperation, type PendingWrite,
+} from '@/lib/offline-queue';
+
+/**
+ * IndexedDB persistence for the offline write queue, plus the write helpers that try
+ * Firestore first and fall back to the queue when it can't be reached. Replaying the
+ * queue lives in sync-store.
+ */
+
+const DB_NAME = 'lifeline-offline';
+const DB_VERSION = 1;
+const STORE = 'pending_writes';
+const CHANNEL = 'lifeline-offline-queue';
+
+/**
+ * Firestore holds a write in memory until the server acknowledges it, so on a connection
+ * that is up but not passing traffic the write never settles. Past this we queue it instead;
+ * replaying it later is safe because every queued operation is idempotent or revision-checked.
+ */
+const WRITE_TIMEOUT_MS = 10_000;
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('uid', 'uid');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const idb = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = idb.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function notifyQueueChanged() {
+  if (typeof BroadcastChannel === 'undefined') return;
+  const channel = new BroadcastChannel(CHANNEL);
+  channel.postMessage('changed');
+  channel.close();
+}
+
+/** Calls `listener` whenever the queue changes in this tab or any other. */
+export function subscribeToQueue(listener: () => void): () => void {
+  if (typeof BroadcastChannel === 'undefined') return () => {};
+  const channel = new BroadcastChannel(CHANNEL);
+  channel.onmessage = listener;
+  return () => channel.close();
+}
+
+export async function listPendingWrites(uid: string): Promise<PendingWrite[]> {
+  return withStore<PendingWrite[]>('readonly', store => store.index('uid').getAll(uid));
+}
+
+export async function savePendingWrite(write: PendingWrite): Promise<void> {
+  await withStore('readwrite', store => store.put(write));
+  notifyQueueChanged();
+}
+
+export async function removePendingWrite(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  notifyQueueChanged();
+}
+
+/** Asks the service worker to wake the app when connectivity returns. */
+export async function requestBackgroundSync(): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.ready as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } };
+    // Browsers without Background Sync fall back to the `online` listener in SyncProvider.
+    await registration.sync?.register(SYNC_TAG);
+  } catch (error) {
+    console.error("Error registering background sync:", error);
+  }
+}
+
+export async function enqueueWrite(uid: string, operation: PendingOperation): Promise<void> {
+  if (operation.kind !== 'create') {
+    // A document that was created offline and hasn't synced yet is changed in place.
+    const create = findPendingCreate(await listPendingWrites(uid), operation.path, operation.docId);
+    if (create) {
+      const folded = foldIntoPendingCreate(create, operation);
+      if (folded) await savePendingWrite(folded);
+      else await removePendingWrite(create.id);
+      return;
+    }
+  }
+  await savePendingWrite(buildPendingWrite(uid, operation));
+  await requestBackgroundSync();
+}
+
+export async function withWriteTimeout<T>(write: Promise<T>): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(Object.assign(new Error('Timed out waiting for the server.'), { code: 'deadline-exceeded' })), WRITE_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([write, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs `write` now if Firestore can be reached, otherwise queues `operation` to be
+ * replayed later. Errors other than being offline are rethrown. Returns whether the
+ * write was queued.
+ */
+export async function writeOrQueue(uid: string, operation: PendingOperation, write: () => Promise<unknown>): Promise<boolean> {
+  const online = typeof navigator === 'undefined' || navigator.onLine;
+  // Anything already queued for the document has to land first.
+  const queuedForDoc = operation.kind !== 'create'
+    && (await listPendingWrites(uid)).some(w => w.operation.path === operation.path && w.operation.docId === operation.docId);
+  if (online && !queuedForDoc) {
+    try {
+      await withWriteTimeout(write());
+      return false;
+    } catch (error) {
+      if (!isOfflineError(error)) throw error;
+    }
+  }
+  await enqueueWrite(uid, operation);
+  return true;
+}
+
+/** Creates a document with a client-generated id, queuing it when offline. */
+export async function createOrQueue(uid: string, path: string, data: Record<string, unknown>): Promise<{ id: string; queued: boolean }> {
+  const ref = doc(collection(db, path));
+  const queued = await writeOrQueue(uid, { kind: 'create', path, docId: ref.id, data }, () => setDoc(ref, data));
+  return { id: ref.id, queued };
+}
+
+export async function deleteOrQueue(uid: string, path: string, docId: string): Promise<boolean> {
+  return writeOrQueue(uid, { kind: 'delete', path, docId }, () => deleteDoc(doc(db, path, docId)));
+}
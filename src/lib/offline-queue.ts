@@ -0,0 +1,214 @@
+import {
+  entryFields, entryValues,
+  type EntryCollection, type EntryEditor, type RevisionAction,
+} from '@/lib/entry-history';
+
+/**
+ * Writes made while offline. Each one is kept in IndexedDB as a `PendingWrite` until it
+ * has been replayed against Firestore. Operations are logical rather than raw document
+ * writes, so an edit queued on one device can be checked against edits made on another
+ * when it is finally replayed.
+ */
+
+/** Background Sync tag the service worker listens for. Keep in step with `public/sw.js`. */
+export const SYNC_TAG = 'lifeline-sync';
+/** Message the service worker posts to ask an open window to replay the queue. */
+export const REPLAY_MESSAGE = 'replay-pending-writes';
+
+/** Writes that keep failing for reasons other than connectivity stop being retried automatically. */
+export const MAX_SYNC_ATTEMPTS = 5;
+
+export interface CreateOperation {
+  kind: 'create';
+  /** Collection path, e.g. `users/{uid}/vitals`. */
+  path: string;
+  /** Generated on the client so the optimistic item and the stored document share an id. */
+  docId: string;
+  data: Record<string, unknown>;
+}
+
+export interface DeleteOperation {
+  kind: 'delete';
+  path: string;
+  docId: string;
+}
+
+/** An audited change to a logged entry; see entry-history-store. */
+export interface ReviseOperation {
+  kind: 'revise';
+  path: string;
+  docId: string;
+  collection: EntryCollection;
+  action: RevisionAction;
+  editor: EntryEditor;
+  values?: Record<string, unknown>;
+  /** The revision the change was made against. */
+  baseRevision: number;
+}
+
+/**
+ * A saved vitals reading whose range check couldn't run; see alerts-store. It targets the
+ * reading, so it replays after any other queued writes to it.
+ */
+export interface VitalsCheckOperation {
+  kind: 'check_vitals';
+  path: string;
+  docId: string;
+  /** The revision to check; a reading edited since is checked by its own edit. */
+  revision: number;
+}
+
+export type PendingOperation = CreateOperation | DeleteOperation | ReviseOperation | VitalsCheckOperation;
+
+export type PendingWriteStatus = 'pending' | 'conflict' | 'failed';
+
+/** What the entry looked like in Firestore when a queued revision no longer applied cleanly. */
+export interface SyncConflict {
+  remoteRevision: number;
+  remoteValues: Record<string, unknown>;
+  remoteDeleted: boolean;
+}
+
+export interface PendingWrite {
+  id: string;
+  uid: string;
+  operation: PendingOperation;
+  queuedAt: string;
+  attempts: number;
+  status: PendingWriteStatus;
+  error?: string;
+  conflict?: SyncConflict;
+}
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+}
+
+export function buildPendingWrite(uid: string, operation: PendingOperation): PendingWrite {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    uid,
+    operation,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    status: 'pending',
+  };
+}
+
+/** Whether an error means Firestore could not be reached, as opposed to rejecting the write. */
+export function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const code = (error as { code?: string } | null)?.code;
+  return code === 'unavailable' || code === 'deadline-exceeded';
+}
+
+const targets = (operation: PendingOperation, path: string, docId: string) =>
+  operation.path === path && operation.docId === docId;
+
+/**
+ * Folds a new operation into a create for the same document that is still waiting to
+ * sync. Returns the updated create, or null when the document should never be written.
+ */
+export function foldIntoPendingCreate(create: PendingWrite & { operation: CreateOperation }, operation: PendingOperation): PendingWrite | null {
+  if (operation.kind === 'delete') return null;
+  if (operation.kind === 'create') return { ...create, operation };
+  // The create is checked when it syncs
+  if (operation.kind === 'check_vitals') return create;
+  if (operation.action === 'delete') return null;
+  if (operation.action === 'restore' || !operation.values) return create;
+
+  const data = { ...create.operation.data };
+  for (const field of entryFields(operation.collection)) delete data[field];
+  return { ...create, operation: { ...create.operation, data: { ...data, ...operation.values } } };
+}
+
+export function findPendingCreate(writes: PendingWrite[], path: string, docId: string): (PendingWrite & { operation: CreateOperation }) | undefined {
+  return writes.find((write): write is PendingWrite & { operation: CreateOperation } =>
+    write.operation.kind === 'create' && targets(write.operation, path, docId));
+}
+
+/** Oldest first, so later edits replay on top of earlier ones. */
+export function replayOrder(writes: PendingWrite[]): PendingWrite[] {
+  return [...writes].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+/**
+ * A conflict where Firestore already holds what the queued change would write, e.g. the
+ * write went through just before the connection dropped. These are dropped, not shown.
+ */
+export function isAlreadyApplied(operation: ReviseOperation, conflict: SyncConflict): boolean {
+  if (operation.action === 'delete') return conflict.remoteDeleted;
+  if (operation.action === 'restore') return !conflict.remoteDeleted;
+  const mine = entryValues(operation.collection, operation.values ?? {});
+  const theirs = entryValues(operation.collection, conflict.remoteValues);
+  return !conflict.remoteDeleted && JSON.stringify(mine) === JSON.stringify(theirs);
+}
+
+/** Ids of documents in `path` with writes that have not reached Firestore yet. */
+export function pendingDocIds(writes: PendingWrite[], path: string): Map<string, PendingWriteStatus> {
+  const ids = new Map<string, PendingWriteStatus>();
+  for (const write of writes) {
+    // A pending range check leaves the reading itself saved
+    if (write.operation.path !== path || write.operation.kind === 'check_vitals') continue;
+    // A conflict or failure on any write to the document is what the user needs to see.
+    if (ids.get(write.operation.docId) !== 'pending' && ids.has(write.operation.docId)) continue;
+    ids.set(write.operation.docId, write.status);
+  }
+  return ids;
+}
+
+/**
+ * Overlays queued writes on items read from Firestore (or held in local state), so the
+ * UI shows the user's changes before they have synced.
+ */
+export function applyPendingWrites<T extends { id: string }>(
+  items: T[],
+  writes: PendingWrite[],
+  path: string,
+  toItem: (id: string, data: Record<string, unknown>) => T,
+): T[] {
+  let result = [...items];
+  for (const { operation, queuedAt } of replayOrder(writes)) {
+    if (operation.path !== path) continue;
+    if (operation.kind === 'create') {
+      // Until it syncs, the queued data is the latest version of the document.
+      const item = toItem(operation.docId, operation.data);
+      result = result.some(existing => existing.id === operation.docId)
+        ? result.map(existing => existing.id === operation.docId ? item : existing)
+        : [...result, item];
+    } else if (operation.kind === 'delete') {
+      result = result.filter(item => item.id !== operation.docId);
+    } else if (operation.kind === 'revise') {
+      result = result.map(item => {
+        if (item.id !== operation.docId) return item;
+        const next: Record<string, unknown> = { ...item, revision: operation.baseRevision + 1, updatedAt: queuedAt };
+        if (operation.action === 'update' && operation.values) {
+          for (const field of entryFields(operation.collection)) delete next[field];
+          Object.assign(next, operation.values);
+        }
+        if (operation.action === 'delete') next.deletedAt = queuedAt;
+        if (operation.action === 'restore') delete next.deletedAt;
+        return next as T;
+      });
+    }
+  }
+  return result;
+}
+
+const collectionLabels: Record<string, string> = {
+  vitals: 'vitals entry',
+  test_strips: 'test strip entry',
+  body_metrics: 'body metrics entry',
+  cycles: 'cycle log',
+};
+
+export function describeOperation(operation: PendingOperation): string {
+  const label = collectionLabels[operation.path.split('/').pop() ?? ''] ?? 'entry';
+  if (operation.kind === 'create') return `New ${label}`;
+  if (operation.kind === 'delete') return `Deleted ${label}`;
+  if (operation.kind === 'check_vitals') return `Range check for a ${label}`;
+  const verbs: Record<RevisionAction, string> = { update: 'Edited', delete: 'Deleted', restore: 'Restored' };
+  return `${verbs[operation.action]} ${label}`;
+}
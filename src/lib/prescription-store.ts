@@ -0,0 +1,26 @@
+import { db } from '@/lib/firebase';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { courseStatus, prescribedMedications, resolveMedicationPlan } from '@/lib/medication-schedule';
+import { fetchMedicationPlans } from '@/lib/medication-schedule-store';
+import type { ActivePrescription } from '@/lib/prescription';
+
+/**
+ * The patient's prescriptions from their other cases whose course hasn't finished,
+ * using the schedule the patient is following where they have one.
+ */
+export async function fetchActivePrescriptions(patientId: string, excludeCaseId: string): Promise<ActivePrescription[]> {
+  const casesSnap = await getDocs(query(collection(db, 'investigations'), where('userId', '==', patientId)));
+  const perCase = await Promise.all(casesSnap.docs
+    .filter(d => d.id !== excludeCaseId && d.data().status !== 'rejected')
+    .map(async d => {
+      const data = d.data();
+      const meds = prescribedMedications(data);
+      if (meds.length === 0) return [];
+      const stored = await fetchMedicationPlans(d.id);
+      const prescribedAt = data.reviewedAt ?? data.createdAt;
+      return meds
+        .filter(med => courseStatus(resolveMedicationPlan(patientId, med, stored[med.key], prescribedAt).plan.schedule) !== 'completed')
+        .map(med => ({ caseId: d.id, name: med.name, dosage: med.dosage }));
+    }));
+  return perCase.flat();
+}
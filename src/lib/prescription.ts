@@ -0,0 +1,223 @@
+import {
+  DRUG_INTERACTIONS,
+  ROUTE_LABELS,
+  drugClassLabel,
+  findDrug,
+  type DrugEntry,
+  type DrugRoute,
+  type InteractionSeverity,
+} from '@/lib/drug-dictionary';
+
+/**
+ * Structured prescriptions and the safety checks run before a plan is sent to a patient.
+ *
+ * A prescription still carries the `name`/`dosage` pair every existing reader of a plan
+ * uses (the AI flows, the patient's schedules, the FHIR export); `dosage` is derived
+ * from the structured fields whenever they are edited.
+ */
+
+export interface Prescription {
+  /** Dictionary id when the drug is known, otherwise null and the checks skip it. */
+  drugId: string | null;
+  name: string;
+  /** e.g. "500 mg"; a dose amount ("1 tablet") is also accepted. */
+  strength: string;
+  route: DrugRoute;
+  /** Free text the patient's schedule is parsed from, e.g. "twice a day". */
+  frequency: string;
+  durationDays: number | null;
+  refills: number;
+  dosage: string;
+}
+
+export const FREQUENCY_OPTIONS = [
+  'once a day',
+  'twice a day',
+  'three times a day',
+  'four times a day',
+  'every 8 hours',
+  'at bedtime',
+  'every other day',
+  'once a week',
+  'as needed',
+];
+
+export const MAX_REFILLS = 12;
+
+export function formatDosage(prescription: Omit<Prescription, 'dosage'>): string {
+  return [
+    prescription.strength.trim(),
+    ROUTE_LABELS[prescription.route],
+    prescription.frequency.trim(),
+    prescription.durationDays ? `for ${prescription.durationDays} day${prescription.durationDays === 1 ? '' : 's'}` : '',
+  ].filter(Boolean).join(' ');
+}
+
+export function withDosage(prescription: Omit<Prescription, 'dosage'>): Prescription {
+  return { ...prescription, dosage: formatDosage(prescription) };
+}
+
+/** Applies an edit, keeping the dictionary match and the derived dosage text in step. */
+export function updatePrescription(prescription: Prescription, changes: Partial<Prescription>): Prescription {
+  const next = { ...prescription, ...changes };
+  if (changes.name !== undefined) next.drugId = findDrug(changes.name)?.id ?? null;
+  return withDosage(next);
+}
+
+export function emptyPrescription(): Prescription {
+  return withDosage({ drugId: null, name: '', strength: '', route: 'oral', frequency: 'once a day', durationDays: null, refills: 0 });
+}
+
+const ROUTE_PATTERNS: [RegExp, DrugRoute][] = [
+  [/\b(?:sublingual(?:ly)?|under the tongue)\b/, 'sublingual'],
+  [/\b(?:inhal(?:ed|er|ation)|puffs?|nebuli[sz]ed)\b/, 'inhaled'],
+  [/\b(?:i\.?m\.?|intramuscular(?:ly)?)\b/, 'intramuscular'],
+  [/\b(?:i\.?v\.?|intravenous(?:ly)?)\b/, 'intravenous'],
+  [/\b(?:s\.?c\.?|subcutaneous(?:ly)?)\b/, 'subcutaneous'],
+  [/\b(?:topical(?:ly)?|cream|ointment|gel|apply)\b/, 'topical'],
+  [/\b(?:eye drops?|ophthalmic|in the eyes?)\b/, 'ophthalmic'],
+  [/\b(?:nasal(?:ly)?|in the nose|nose spray)\b/, 'nasal'],
+  [/\b(?:rectal(?:ly)?|suppositor(?:y|ies))\b/, 'rectal'],
+];
+
+/**
+ * Best-effort structure for a `{ name, dosage }` pair from an AI suggestion or an older
+ * case. Whatever isn't recognised as strength, route or duration stays in `frequency`.
+ */
+export function toPrescription(medication: { name: string; dosage: string } & Partial<Prescription>): Prescription {
+  if (medication.frequency !== undefined && medication.route) {
+    return withDosage({
+      drugId: medication.drugId ?? findDrug(medication.name)?.id ?? null,
+      name: medication.name,
+      strength: medication.strength ?? '',
+      route: medication.route,
+      frequency: medication.frequency,
+      durationDays: medication.durationDays ?? null,
+      refills: medication.refills ?? 0,
+    });
+  }
+  const drug = findDrug(medication.name);
+  let rest = ` ${medication.dosage ?? ''} `;
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.replace(match[0], ' ');
+    return match;
+  };
+
+  const strength = take(/\b\d+(?:\.\d+)?\s?(?:mg|mcg|µg|g|ml|units?|iu)(?:\s?\/\s?\d*\s?(?:ml|puff|spray))?\b|\b\d+(?:\.\d+)?\s?(?:tablets?|tabs?|capsules?|caps?|puffs?|drops?|sachets?)\b/i)?.[0].trim() ?? '';
+  const lower = rest.toLowerCase();
+  const route = ROUTE_PATTERNS.find(([pattern]) => pattern.test(lower))?.[1] ?? drug?.routes[0] ?? 'oral';
+  take(/\b(?:by mouth|orally|oral|p\.?o\.?)\b/i);
+  const duration = take(/\bfor\s(\d+)\s?(day|week|month)s?\b/i);
+  const unitDays: Record<string, number> = { day: 1, week: 7, month: 30 };
+  const durationDays = duration ? Number(duration[1]) * unitDays[duration[2].toLowerCase()] : null;
+
+  return {
+    drugId: drug?.id ?? null,
+    name: medication.name,
+    strength,
+    route,
+    frequency: rest.replace(/\s+/g, ' ').trim(),
+    durationDays,
+    refills: 0,
+    // Keep the original wording; it was what the patient was shown.
+    dosage: medication.dosage,
+  };
+}
+
+// --- Safety checks ---
+
+export type PrescriptionWarningKind = 'duplicate_drug' | 'duplicate_class' | 'interaction';
+
+export interface PrescriptionWarning {
+  /** Stable across re-checks of the same plan, so an acknowledgement can be matched to it. */
+  id: string;
+  kind: PrescriptionWarningKind;
+  severity: InteractionSeverity;
+  /** The two medications involved, as written. */
+  medications: [string, string];
+  /** Set when one side is an existing prescription from another case. */
+  existingCaseId?: string;
+  message: string;
+}
+
+export interface ActivePrescription {
+  caseId: string;
+  name: string;
+  dosage: string;
+}
+
+interface CheckedDrug {
+  name: string;
+  entry: DrugEntry;
+  caseId?: string;
+}
+
+function matchesSide(drug: DrugEntry, side: string): boolean {
+  return drug.id === side || drug.drugClass === side;
+}
+
+function pairWarnings(a: CheckedDrug, b: CheckedDrug): PrescriptionWarning[] {
+  const existingCaseId = a.caseId ?? b.caseId;
+  const medications: [string, string] = [a.name, b.name];
+  const pairId = [a.entry.id, b.entry.id].sort().join('+');
+  const where = existingCaseId ? ' (already prescribed in another case)' : '';
+
+  if (a.entry.id === b.entry.id) {
+    return [{
+      id: `duplicate_drug:${pairId}`, kind: 'duplicate_drug', severity: 'major', medications, existingCaseId,
+      message: `${a.entry.name} is prescribed twice${where}. Check the combined daily dose.`,
+    }];
+  }
+  const warnings: PrescriptionWarning[] = [];
+  if (a.entry.drugClass === b.entry.drugClass) {
+    warnings.push({
+      id: `duplicate_class:${pairId}`, kind: 'duplicate_class', severity: 'moderate', medications, existingCaseId,
+      message: `${a.entry.name} and ${b.entry.name} are both ${drugClassLabel(a.entry.drugClass)}s${where}; this is duplicate therapy.`,
+    });
+  }
+  for (const interaction of DRUG_INTERACTIONS) {
+    const [x, y] = interaction.between;
+    if ((matchesSide(a.entry, x) && matchesSide(b.entry, y)) || (matchesSide(a.entry, y) && matchesSide(b.entry, x))) {
+      warnings.push({
+        id: `interaction:${pairId}:${x}+${y}`, kind: 'interaction', severity: interaction.severity, medications, existingCaseId,
+        message: `${a.entry.name} + ${b.entry.name}${where}: ${interaction.description}`,
+      });
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Duplicate therapy and known interactions within a new plan and between it and the
+ * patient's other active prescriptions, most severe first. Drugs missing from the
+ * dictionary are skipped.
+ */
+export function checkPrescriptions(plan: { name: string }[], active: ActivePrescription[]): PrescriptionWarning[] {
+  const known = <T extends { name: string }>(meds: T[], caseId?: (med: T) => string) =>
+    meds.flatMap(med => {
+      const entry = findDrug(med.name);
+      return entry ? [{ name: med.name, entry, caseId: caseId?.(med) }] : [];
+    });
+  const planned = known(plan);
+  const existing = known(active, med => med.caseId);
+
+  const warnings: PrescriptionWarning[] = [];
+  planned.forEach((drug, i) => {
+    for (const other of planned.slice(i + 1)) warnings.push(...pairWarnings(drug, other));
+    for (const other of existing) warnings.push(...pairWarnings(drug, other));
+  });
+
+  const unique = new Map(warnings.map(w => [`${w.id}:${w.existingCaseId ?? ''}`, w]));
+  return Array.from(unique.values()).sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'major' ? -1 : 1));
+}
+
+/** What is stored on the case when a doctor proceeds despite warnings. */
+export interface WarningAcknowledgement {
+  warnings: PrescriptionWarning[];
+  acknowledgedByUid: string;
+  acknowledgedByName: string;
+  acknowledgedAt: string;
+  /** Which plan the warnings were raised against. */
+  stage: 'initial_plan' | 'final_plan';
+}
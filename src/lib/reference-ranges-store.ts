@@ -0,0 +1,38 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDocs, setDoc } from 'firebase/firestore';
+import { VITAL_FIELDS, type VitalField } from '@/lib/vitals';
+import { mergeWithDefaults, validateReferenceRange, type ReferenceRange, type ReferenceRanges } from '@/lib/reference-ranges';
+
+/**
+ * Firestore access for `users/{uid}/reference_ranges/{field}`. Only fields that have been
+ * customised are stored; everything else falls back to the clinical defaults.
+ */
+
+const rangesCollection = (uid: string) => collection(db, `users/${uid}/reference_ranges`);
+
+export async function fetchReferenceRanges(uid: string): Promise<ReferenceRanges> {
+  const snapshot = await getDocs(rangesCollection(uid));
+  const overrides: Partial<ReferenceRanges> = {};
+  snapshot.docs.forEach(d => {
+    if ((VITAL_FIELDS as readonly string[]).includes(d.id)) {
+      overrides[d.id as VitalField] = d.data() as ReferenceRange;
+    }
+  });
+  return mergeWithDefaults(overrides);
+}
+
+export async function saveReferenceRange(
+  uid: string,
+  field: VitalField,
+  range: Omit<ReferenceRange, 'updatedAt' | 'updatedBy'>,
+  updatedBy: NonNullable<ReferenceRange['updatedBy']>,
+): Promise<ReferenceRange> {
+  const error = validateReferenceRange(field, range);
+  if (error) throw new Error(error);
+
+  // Firestore rejects undefined values, so cleared bounds are dropped rather than written.
+  const bounds = Object.fromEntries(Object.entries(range).filter(([, value]) => value !== undefined));
+  const saved: ReferenceRange = { ...bounds, updatedAt: new Date().toISOString(), updatedBy };
+  await setDoc(doc(rangesCollection(uid), field), saved);
+  return saved;
+}
@@ -0,0 +1,121 @@
+import { VITAL_DEFINITIONS, VITAL_FIELDS, toCanonicalValue, type VitalField, type VitalsValues } from '@/lib/vitals';
+
+/**
+ * Per-user target ranges for vitals, expressed in each field's canonical unit.
+ * Readings outside `low`/`high` are Moderate; outside `criticalLow`/`criticalHigh` are Critical.
+ */
+
+export type RangeSeverity = 'Moderate' | 'Critical';
+
+export interface ReferenceRange {
+  low?: number;
+  high?: number;
+  criticalLow?: number;
+  criticalHigh?: number;
+  updatedAt?: string;
+  updatedBy?: { uid: string; name: string; role: 'doctor' | 'patient' };
+}
+
+export type ReferenceRanges = Record<VitalField, ReferenceRange>;
+
+// Adult clinical defaults. Weight has no universal target, so it never alerts until a doctor sets one.
+export const DEFAULT_REFERENCE_RANGES: ReferenceRanges = {
+  systolic: { low: 90, high: 130, criticalLow: 80, criticalHigh: 180 },
+  diastolic: { low: 60, high: 85, criticalLow: 50, criticalHigh: 120 },
+  pulseRate: { low: 60, high: 100, criticalLow: 40, criticalHigh: 130 },
+  bloodSugar: { low: 70, high: 140, criticalLow: 54, criticalHigh: 250 },
+  oxygenSaturation: { low: 95, criticalLow: 90 },
+  temperature: { low: 36.1, high: 37.5, criticalLow: 35, criticalHigh: 39.5 },
+  weight: {},
+};
+
+export interface RangeBreach {
+  field: VitalField;
+  value: number;
+  unit: string;
+  /** The reading converted to the canonical unit the range is expressed in. */
+  canonicalValue: number;
+  canonicalUnit: string;
+  direction: 'low' | 'high';
+  severity: RangeSeverity;
+  range: Pick<ReferenceRange, 'low' | 'high' | 'criticalLow' | 'criticalHigh'>;
+}
+
+export function mergeWithDefaults(overrides: Partial<ReferenceRanges>): ReferenceRanges {
+  const merged = { ...DEFAULT_REFERENCE_RANGES };
+  for (const field of VITAL_FIELDS) {
+    if (overrides[field]) merged[field] = overrides[field]!;
+  }
+  return merged;
+}
+
+export function validateReferenceRange(field: VitalField, range: ReferenceRange): string | null {
+  const { label } = VITAL_DEFINITIONS[field];
+  const { low, high, criticalLow, criticalHigh } = range;
+  if (low !== undefined && high !== undefined && low >= high) {
+    return `${label}: the lower target must be below the upper target.`;
+  }
+  if (criticalLow !== undefined && low !== undefined && criticalLow > low) {
+    return `${label}: the critical low must not be above the lower target.`;
+  }
+  if (criticalHigh !== undefined && high !== undefined && criticalHigh < high) {
+    return `${label}: the critical high must not be below the upper target.`;
+  }
+  return null;
+}
+
+const RANGE_BOUNDS = ['low', 'high', 'criticalLow', 'criticalHigh'] as const;
+
+// Firestore rejects undefined fields, and breaches are stored on alerts, so only the bounds that are set are kept.
+function boundsOf(range: ReferenceRange): RangeBreach['range'] {
+  return Object.fromEntries(RANGE_BOUNDS.filter(key => range[key] !== undefined).map(key => [key, range[key]]));
+}
+
+export function evaluateVitals(values: VitalsValues, ranges: ReferenceRanges): RangeBreach[] {
+  const breaches: RangeBreach[] = [];
+  for (const field of VITAL_FIELDS) {
+    const measurement = values[field];
+    if (!measurement) continue;
+    const range = ranges[field];
+    const canonicalValue = toCanonicalValue(field, measurement);
+
+    let direction: RangeBreach['direction'] | null = null;
+    let severity: RangeSeverity | null = null;
+    if (range.criticalLow !== undefined && canonicalValue < range.criticalLow) {
+      direction = 'low'; severity = 'Critical';
+    } else if (range.criticalHigh !== undefined && canonicalValue > range.criticalHigh) {
+      direction = 'high'; severity = 'Critical';
+    } else if (range.low !== undefined && canonicalValue < range.low) {
+      direction = 'low'; severity = 'Moderate';
+    } else if (range.high !== undefined && canonicalValue > range.high) {
+      direction = 'high'; severity = 'Moderate';
+    }
+
+    if (direction && severity) {
+      breaches.push({
+        field,
+        value: measurement.value,
+        unit: measurement.unit,
+        canonicalValue,
+        canonicalUnit: VITAL_DEFINITIONS[field].canonicalUnit,
+        direction,
+        severity,
+        range: boundsOf(range),
+      });
+    }
+  }
+  return breaches;
+}
+
+export function highestSeverity(breaches: RangeBreach[]): RangeSeverity | null {
+  if (breaches.length === 0) return null;
+  return breaches.some(b => b.severity === 'Critical') ? 'Critical' : 'Moderate';
+}
+
+export function formatRange(field: VitalField, range: ReferenceRange): string {
+  const unit = VITAL_DEFINITIONS[field].canonicalUnit;
+  if (range.low !== undefined && range.high !== undefined) return `${range.low}–${range.high} ${unit}`;
+  if (range.low !== undefined) return `≥ ${range.low} ${unit}`;
+  if (range.high !== undefined) return `≤ ${range.high} ${unit}`;
+  return 'No target set';
+}
@@ -0,0 +1,138 @@
+/**
+ * Pluggable signalling for video consultations.
+ *
+ * Peers exchange WebRTC offers, answers and ICE candidates, plus the waiting-room handshake,
+ * as `Signal`s through a `SignallingTransport`. Without configuration every room uses
+ * `LocalSignallingTransport`, which connects tabs of the same browser (and instances within
+ * one page) for development. Set `NEXT_PUBLIC_SIGNALLING_URL` to use a WebSocket relay, or
+ * register another transport with `registerSignallingTransport`.
+ */
+
+export type SignalType =
+  /** Announces a peer in the room; a guest answers the host's hello with its own. */
+  | 'hello'
+  /** The host lets a guest in from the waiting room. */
+  | 'admit'
+  /** The admitted guest is ready for the host's offer. */
+  | 'ready'
+  | 'offer'
+  | 'answer'
+  | 'ice'
+  | 'bye';
+
+export interface SignalPeer {
+  uid: string;
+  name: string;
+  role: 'doctor' | 'patient';
+}
+
+export interface Signal {
+  type: SignalType;
+  roomId: string;
+  from: SignalPeer;
+  /** The recipient's uid; signals without one go to everyone in the room. */
+  to?: string;
+  payload?: any;
+}
+
+export interface SignallingTransport {
+  readonly kind: string;
+  connect(roomId: string, onSignal: (signal: Signal) => void): Promise<void>;
+  send(signal: Signal): void;
+  close(): void;
+}
+
+const channelName = (roomId: string) => `lifeline-call-${roomId}`;
+
+/** Rooms for environments without BroadcastChannel, shared by every transport in this page. */
+const inProcessRooms = new Map<string, Set<LocalSignallingTransport>>();
+
+export class LocalSignallingTransport implements SignallingTransport {
+  readonly kind = 'local';
+  private channel: BroadcastChannel | null = null;
+  private roomId: string | null = null;
+  private onSignal: ((signal: Signal) => void) | null = null;
+
+  async connect(roomId: string, onSignal: (signal: Signal) => void): Promise<void> {
+    this.roomId = roomId;
+    this.onSignal = onSignal;
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(channelName(roomId));
+      this.channel.onmessage = (event) => onSignal(event.data as Signal);
+    } else {
+      inProcessRooms.set(roomId, (inProcessRooms.get(roomId) ?? new Set()).add(this));
+    }
+  }
+
+  send(signal: Signal): void {
+    if (this.channel) {
+      this.channel.postMessage(signal);
+      return;
+    }
+    // Delivered asynchronously, like a real transport
+    for (const peer of inProcessRooms.get(signal.roomId) ?? []) {
+      if (peer !== this) queueMicrotask(() => peer.onSignal?.(signal));
+    }
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+    if (this.roomId) inProcessRooms.get(this.roomId)?.delete(this);
+    this.onSignal = null;
+  }
+}
+
+/**
+ * Talks to a relay that forwards each JSON text frame to the other sockets connected with the
+ * same `room` query parameter. The relay needs no knowledge of the signal contents.
+ */
+export class WebSocketSignallingTransport implements SignallingTransport {
+  readonly kind = 'websocket';
+  private socket: WebSocket | null = null;
+
+  constructor(private readonly url: string) {}
+
+  connect(roomId: string, onSignal: (signal: Signal) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(`${this.url}?room=${encodeURIComponent(roomId)}`);
+      socket.onopen = () => resolve();
+      socket.onerror = () => reject(new Error('Could not reach the signalling server.'));
+      socket.onmessage = (event) => {
+        try {
+          onSignal(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Ignoring malformed signal:', error);
+        }
+      };
+      this.socket = socket;
+    });
+  }
+
+  send(signal: Signal): void {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(signal));
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+}
+
+let transportFactory: (() => SignallingTransport) | null = null;
+
+export function registerSignallingTransport(factory: () => SignallingTransport): void {
+  transportFactory = factory;
+}
+
+/** A fresh transport for one call; each peer needs its own. */
+export function createSignallingTransport(): SignallingTransport {
+  if (transportFactory) return transportFactory();
+  const url = process.env.NEXT_PUBLIC_SIGNALLING_URL;
+  return url ? new WebSocketSignallingTransport(url) : new LocalSignallingTransport();
+}
+
+/** Whether a signal received on the room is meant for `uid`. */
+export function isFor(signal: Signal, uid: string): boolean {
+  return signal.from.uid !== uid && (!signal.to || signal.to === uid);
+}
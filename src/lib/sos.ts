@@ -0,0 +1,36 @@
+import { dispatchSosAlert } from '@/app/actions/sos-action';
+import { addAlert } from '@/lib/alerts-store';
+import { buildSosAlert, type AlertEntryLink, type GeoLocation, type SosAlert } from '@/lib/alerts';
+
+/**
+ * Client-side entry point for SOS alerts: captures the device location, records the
+ * alert in `users/{uid}/alerts` and hands it to the server for guardian dispatch.
+ */
+
+/** Resolves to null rather than rejecting when location is denied, unavailable or slow. */
+export function getCurrentLocation(timeoutMs = 10000): Promise<GeoLocation | null> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) return Promise.resolve(null);
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 },
+    );
+  });
+}
+
+export async function triggerSos(
+  uid: string,
+  trigger: SosAlert['trigger'],
+  options: { entry?: AlertEntryLink; reason?: string } = {},
+): Promise<SosAlert> {
+  const location = await getCurrentLocation();
+  // The alert is written before dispatch so it is on record even if notification fails.
+  const alert = await addAlert(uid, buildSosAlert(trigger, location, options));
+  const dispatches = await dispatchSosAlert({ userId: uid, alertId: alert.id });
+  return { ...alert, dispatches };
+}
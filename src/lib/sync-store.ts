@@ -0,0 +1,163 @@
+import { db } from '@/lib/firebase';
+import { deleteDoc, doc, setDoc } from 'firebase/firestore';
+import { EntryConflictError, currentRevision, type EntryCollection, type EntryEditor, type EntryRevision, type RevisionAction } from '@/lib/entry-history';
+import { checkEntryValues, reviseEntry } from '@/lib/entry-history-store';
+import { normalizeVitalsDoc, type VitalsValues } from '@/lib/vitals';
+import type { TestStripValues } from '@/lib/test-strips';
+import {
+  MAX_SYNC_ATTEMPTS, isAlreadyApplied, isOfflineError, replayOrder,
+  type PendingWrite, type ReplayResult, type ReviseOperation,
+} from '@/lib/offline-queue';
+import { listPendingWrites, removePendingWrite, savePendingWrite, withWriteTimeout, writeOrQueue } from '@/lib/offline-queue-store';
+import { checkVitals, checkVitalsOrQueue } from '@/lib/alerts-store';
+
+/**
+ * Replays the offline write queue against Firestore. Creates and deletes are idempotent
+ * and simply re-run; revisions are checked against the revision they were made on, and
+ * are parked as conflicts for the user to resolve if the entry changed in the meantime.
+ * Vitals readings are checked against the user's reference ranges once they land.
+ */
+
+export interface ReviseRequest {
+  collection: EntryCollection;
+  id: string;
+  action: RevisionAction;
+  editor: EntryEditor;
+  /** The revision the user was looking at when they made the change. */
+  baseRevision: number;
+  values?: VitalsValues | TestStripValues;
+}
+
+/**
+ * Audited edit, delete or restore that is queued when offline. The returned revision is
+ * optimistic when `queued` is set. Throws `EntryConflictError` when online and the entry
+ * was changed on another device since `baseRevision`.
+ */
+export async function reviseOrQueue(uid: string, request: ReviseRequest): Promise<{ revision: EntryRevision; queued: boolean }> {
+  const values = request.values ? checkEntryValues(request.collection, request.values) : undefined;
+  const operation: ReviseOperation = {
+    kind: 'revise',
+    path: `users/${uid}/${request.collection}`,
+    docId: request.id,
+    collection: request.collection,
+    action: request.action,
+    editor: request.editor,
+    values,
+    baseRevision: request.baseRevision,
+  };
+  let applied: EntryRevision | null = null;
+  const queued = await writeOrQueue(uid, operation, async () => {
+    applied = await reviseEntry(uid, request.collection, request.id, request.action, request.editor, values, request.baseRevision);
+  });
+  const revision: EntryRevision = applied ?? {
+    revision: request.baseRevision + 1,
+    action: request.action,
+    at: new Date().toISOString(),
+    by: request.editor,
+    before: {},
+    after: values ?? {},
+  };
+  if (!queued) await checkRevision(uid, request.collection, request.id, request.action, revision);
+  return { revision, queued };
+}
+
+/** Edited vitals are checked against the user's reference ranges again, like new ones. */
+async function checkRevision(uid: string, collection: EntryCollection, id: string, action: RevisionAction, revision: EntryRevision): Promise<void> {
+  if (collection === 'vitals' && action === 'update') await checkVitalsOrQueue(uid, id, revision.revision);
+}
+
+async function replayWrite(write: PendingWrite): Promise<void> {
+  const { operation } = write;
+  if (operation.kind === 'create') {
+    await withWriteTimeout(setDoc(doc(db, operation.path, operation.docId), operation.data));
+    if (operation.path === `users/${write.uid}/vitals`) {
+      const reading = normalizeVitalsDoc(operation.docId, operation.data);
+      await checkVitalsOrQueue(write.uid, reading.id, currentRevision(reading), reading);
+    }
+  } else if (operation.kind === 'delete') {
+    await withWriteTimeout(deleteDoc(doc(db, operation.path, operation.docId)));
+  } else if (operation.kind === 'check_vitals') {
+    await withWriteTimeout(checkVitals(write.uid, operation.docId, operation.revision));
+  } else {
+    const revision = await reviseEntry(write.uid, operation.collection, operation.docId, operation.action, operation.editor, operation.values, operation.baseRevision);
+    await checkRevision(write.uid, operation.collection, operation.docId, operation.action, revision);
+  }
+}
+
+async function drainQueue(uid: string): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: 0, conflicts: 0, failed: 0 };
+  for (const write of replayOrder(await listPendingWrites(uid))) {
+    if (write.status !== 'pending') continue;
+    try {
+      await replayWrite(write);
+      await removePendingWrite(write.id);
+      result.synced++;
+    } catch (error) {
+      if (isOfflineError(error)) break;
+      if (error instanceof EntryConflictError && write.operation.kind === 'revise') {
+        const conflict = { remoteRevision: error.remoteRevision, remoteValues: error.remoteValues, remoteDeleted: error.remoteDeleted };
+        if (isAlreadyApplied(write.operation, conflict)) {
+          await removePendingWrite(write.id);
+          result.synced++;
+        } else {
+          await savePendingWrite({ ...write, status: 'conflict', conflict });
+          result.conflicts++;
+        }
+        continue;
+      }
+      const attempts = write.attempts + 1;
+      const failed = attempts >= MAX_SYNC_ATTEMPTS;
+      await savePendingWrite({ ...write, attempts, status: failed ? 'failed' : 'pending', error: (error as Error).message });
+      if (failed) result.failed++;
+    }
+  }
+  return result;
+}
+
+let replaying: Promise<ReplayResult> | null = null;
+
+/**
+ * Replays the user's queued writes in order. Concurrent calls in a tab share one run, and
+ * where Web Locks are available runs in different tabs are serialised too.
+ */
+export function replayPendingWrites(uid: string): Promise<ReplayResult> {
+  replaying ??= (async () => {
+    try {
+      if (typeof navigator !== 'undefined' && navigator.locks) {
+        return await navigator.locks.request(`lifeline-sync-${uid}`, () => drainQueue(uid));
+      }
+      return await drainQueue(uid);
+    } finally {
+      replaying = null;
+    }
+  })();
+  return replaying;
+}
+
+/**
+ * Settles a conflicted revision. `mine` reapplies the queued change on top of the other
+ * device's version; `theirs` drops it.
+ */
+export async function resolveConflict(write: PendingWrite, resolution: 'mine' | 'theirs'): Promise<void> {
+  if (write.status !== 'conflict' || write.operation.kind !== 'revise' || !write.conflict) return;
+  if (resolution === 'theirs') {
+    await removePendingWrite(write.id);
+    return;
+  }
+  await savePendingWrite({
+    ...write,
+    status: 'pending',
+    conflict: undefined,
+    operation: { ...write.operation, baseRevision: write.conflict.remoteRevision },
+  });
+  await replayPendingWrites(write.uid);
+}
+
+export async function retryWrite(write: PendingWrite): Promise<void> {
+  await savePendingWrite({ ...write, status: 'pending', attempts: 0, error: undefined });
+  await replayPendingWrites(write.uid);
+}
+
+export function discardWrite(write: PendingWrite): Promise<void> {
+  return removePendingWrite(write.id);
+}
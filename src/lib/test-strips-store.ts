@@ -0,0 +1,73 @@
+import { db } from '@/lib/firebase';
+import { collection, getDocs, query, orderBy, where, limit as limitTo, writeBatch, doc, type QueryConstraint, type WriteBatch } from 'firebase/firestore';
+import { STRIP_MARKERS, hasStripValues, type TestStripReading, type TestStripValues } from '@/lib/test-strips';
+import { INITIAL_REVISION, isDeleted } from '@/lib/entry-history';
+import { createOrQueue } from '@/lib/offline-queue-store';
+
+/**
+ * Firestore access for `users/{uid}/test_strips`. Edits and deletions go through
+ * entry-history-store so they are audited.
+ */
+
+export interface FetchTestStripsOptions {
+  limit?: number;
+  from?: Date;
+  to?: Date;
+  /** Soft-deleted readings are left out unless this is set. */
+  includeDeleted?: boolean;
+}
+
+const stripsCollection = (uid: string) => collection(db, `users/${uid}/test_strips`);
+
+function toStripDocument(date: string, values: TestStripValues): Omit<TestStripReading, 'id'> {
+  const document: Omit<TestStripReading, 'id'> = { date, revision: INITIAL_REVISION };
+  for (const marker of STRIP_MARKERS) {
+    if (values[marker]) document[marker] = values[marker];
+  }
+  return document;
+}
+
+export async function fetchTestStrips(uid: string, options: FetchTestStripsOptions = {}): Promise<TestStripReading[]> {
+  const constraints: QueryConstraint[] = [];
+  if (options.from) constraints.push(where('date', '>=', options.from.toISOString()));
+  if (options.to) constraints.push(where('date', '<', options.to.toISOString()));
+  constraints.push(orderBy('date', 'desc'));
+  if (options.limit) constraints.push(limitTo(options.limit));
+
+  const snapshot = await getDocs(query(stripsCollection(uid), ...constraints));
+  const readings = snapshot.docs.map(d => ({ id: d.id, ...d.data() } as TestStripReading));
+  return options.includeDeleted ? readings : readings.filter(reading => !isDeleted(reading));
+}
+
+/** Saves a reading, or queues it for sync when offline; the returned reading is usable either way. */
+export async function addTestStrip(uid: string, values: TestStripValues, date: string = new Date().toISOString()): Promise<TestStripReading> {
+  if (!hasStripValues(values)) {
+    throw new Error('At least one test strip value is required.');
+  }
+  const document = toStripDocument(date, values);
+  const { id } = await createOrQueue(uid, `users/${uid}/test_strips`, document);
+  return { id, ...document };
+}
+
+/** Adds the readings to a batch the caller commits, so they land together with its other writes. */
+export function batchTestStrips(batch: WriteBatch, uid: string, entries: { date: string; values: TestStripValues }[]): TestStripReading[] {
+  return entries.map(({ date, values }) => {
+    const ref = doc(stripsCollection(uid));
+    const document = toStripDocument(date, values);
+    batch.set(ref, document);
+    return { id: ref.id, ...document };
+  });
+}
+
+/** Writes many readings in as few batches as Firestore allows. */
+export async function addTestStripsBatch(uid: string, entries: { date: string; values: TestStripValues }[]): Promise<TestStripReading[]> {
+  const written: TestStripReading[] = [];
+  // Firestore caps a batch at 500 writes.
+  for (let i = 0; i < entries.length; i += 500) {
+    const batch = writeBatch(db);
+    const chunk = batchTestStrips(batch, uid, entries.slice(i, i + 500));
+    await batch.commit();
+    written.push(...chunk);
+  }
+  return written;
+}
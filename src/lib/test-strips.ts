@@ -0,0 +1,68 @@
+import type { EntryAudit } from '@/lib/entry-history';
+
+/**
+ * Urine test strip readings stored in `users/{uid}/test_strips`. Each marker holds
+ * the level read off the strip's colour chart, kept as the chart's own label.
+ */
+
+export const STRIP_MARKERS = ['protein', 'glucose', 'ketones', 'blood', 'nitrite', 'ph'] as const;
+export type StripMarker = typeof STRIP_MARKERS[number];
+
+export const STRIP_MARKER_LABELS: Record<StripMarker, string> = {
+  protein: 'Protein',
+  glucose: 'Glucose',
+  ketones: 'Ketones',
+  blood: 'Blood',
+  nitrite: 'Nitrite',
+  ph: 'pH',
+};
+
+export const GENERAL_LEVELS = ['Negative', 'Trace', '+', '++', '+++'] as const;
+export const PH_LEVELS = ['5.0', '6.0', '6.5', '7.0', '7.5', '8.0', '9.0'] as const;
+
+export type TestStripValues = Partial<Record<StripMarker, string>>;
+
+export interface TestStripReading extends TestStripValues, EntryAudit {
+  id: string;
+  date: string;
+}
+
+export function levelsFor(marker: StripMarker): readonly string[] {
+  return marker === 'ph' ? PH_LEVELS : GENERAL_LEVELS;
+}
+
+/** Common spellings found in exports and hand-kept spreadsheets. */
+const LEVEL_ALIASES: Record<string, string> = {
+  neg: 'Negative',
+  negative: 'Negative',
+  '-': 'Negative',
+  nil: 'Negative',
+  normal: 'Negative',
+  tr: 'Trace',
+  trace: 'Trace',
+  '1+': '+',
+  '2+': '++',
+  '3+': '+++',
+  pos: '+',
+  positive: '+',
+};
+
+/**
+ * Maps free-text input onto the marker's colour-chart level, or returns null if it
+ * doesn't match one. pH accepts any number in chart range and snaps to the nearest level.
+ */
+export function normalizeStripLevel(marker: StripMarker, raw: string): string | null {
+  const input = raw.trim();
+  if (marker === 'ph') {
+    const value = parseFloat(input.replace(',', '.'));
+    if (!Number.isFinite(value) || value < 4.5 || value > 9.5) return null;
+    return PH_LEVELS.reduce((best, level) =>
+      Math.abs(parseFloat(level) - value) < Math.abs(parseFloat(best) - value) ? level : best);
+  }
+  const exact = GENERAL_LEVELS.find(level => level.toLowerCase() === input.toLowerCase());
+  return exact ?? LEVEL_ALIASES[input.toLowerCase()] ?? null;
+}
+
+export function hasStripValues(values: TestStripValues): boolean {
+  return STRIP_MARKERS.some(marker => !!values[marker]);
+}
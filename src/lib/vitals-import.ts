@@ -0,0 +1,370 @@
+import { toCsv } from '@/lib/csv';
+import { VITAL_DEFINITIONS, VITAL_FIELDS, VITAL_UNITS, toCanonicalValue, validateVitals, type Measurement, type VitalField, type VitalsValues } from '@/lib/vitals';
+import { STRIP_MARKERS, STRIP_MARKER_LABELS, hasStripValues, normalizeStripLevel, type StripMarker, type TestStripValues } from '@/lib/test-strips';
+
+/**
+ * Turns rows of a CSV export (spreadsheets, home BP monitors, glucometers) into
+ * vitals or test strip readings. Everything here is pure: the import wizard parses
+ * the file with `parseCsv`, proposes a mapping with `guessColumnMapping`, previews
+ * `buildImportRows` and only then writes the valid rows in batches.
+ */
+
+export type ImportTarget = 'vitals' | 'test_strips';
+export type ImportField = 'date' | 'time' | VitalField | StripMarker;
+
+export const IMPORT_FIELDS: Record<ImportTarget, readonly ImportField[]> = {
+  vitals: ['date', 'time', ...VITAL_FIELDS],
+  test_strips: ['date', 'time', ...STRIP_MARKERS],
+};
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: 'Date',
+  time: 'Time',
+  ...Object.fromEntries(VITAL_FIELDS.map(field => [field, VITAL_DEFINITIONS[field].label])) as Record<VitalField, string>,
+  ...STRIP_MARKER_LABELS,
+};
+
+/** Maps each import field to the index of the CSV column it is read from. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/** Fields whose unit has to be chosen for the column; the rest only have one unit. */
+export const UNIT_CHOICE_FIELDS = VITAL_FIELDS.filter(field => VITAL_UNITS[field].length > 1);
+export type ColumnUnits = Partial<Record<VitalField, string>>;
+
+// --- Column mapping ---
+
+const HEADER_ALIASES: Record<ImportTarget, Partial<Record<ImportField, string[]>>> = {
+  vitals: {
+    date: ['date', 'datetime', 'timestamp', 'measured', 'recorded', 'day'],
+    time: ['time'],
+    systolic: ['systolic', 'sys', 'sbp', 'upper'],
+    diastolic: ['diastolic', 'dia', 'dbp', 'lower'],
+    pulseRate: ['pulse', 'pulse rate', 'heart rate', 'hr', 'pul', 'bpm'],
+    bloodSugar: ['blood sugar', 'blood glucose', 'glucose', 'sugar', 'bg'],
+    oxygenSaturation: ['spo2', 'oxygen', 'oxygen saturation', 'o2', 'sat'],
+    temperature: ['temperature', 'temp'],
+    weight: ['weight', 'body weight', 'mass'],
+  },
+  test_strips: {
+    date: ['date', 'datetime', 'timestamp', 'recorded', 'day'],
+    time: ['time'],
+    protein: ['protein', 'pro'],
+    glucose: ['glucose', 'glu'],
+    ketones: ['ketones', 'ketone', 'ket'],
+    blood: ['blood', 'bld'],
+    nitrite: ['nitrite', 'nitrites', 'nit'],
+    ph: ['ph'],
+  },
+};
+
+/** Unit spellings as they appear in headers and cells. */
+const UNIT_ALIASES: Record<string, string> = {
+  'mg/dl': 'mg/dL',
+  'mgdl': 'mg/dL',
+  'mmol/l': 'mmol/L',
+  'mmol': 'mmol/L',
+  'mmoll': 'mmol/L',
+  '°c': '°C',
+  'c': '°C',
+  'celsius': '°C',
+  '°f': '°F',
+  'f': '°F',
+  'fahrenheit': '°F',
+  'kg': 'kg',
+  'kgs': 'kg',
+  'lb': 'lb',
+  'lbs': 'lb',
+  'mmhg': 'mmHg',
+  'bpm': 'bpm',
+  '%': '%',
+};
+
+function resolveUnit(field: VitalField, raw: string): string | null {
+  const unit = UNIT_ALIASES[raw.trim().toLowerCase()];
+  return unit && (VITAL_UNITS[field] as readonly string[]).includes(unit) ? unit : null;
+}
+
+function normalizeHeader(header: string): { words: string; unit: string | null } {
+  const unitMatch = header.match(/[(\[]([^)\]]+)[)\]]/);
+  const words = header
+    .replace(/[(\[][^)\]]*[)\]]/g, ' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+  return { words, unit: unitMatch ? unitMatch[1] : null };
+}
+
+function headerMatches(words: string, alias: string): boolean {
+  return words === alias || words.startsWith(`${alias} `) || words.endsWith(` ${alias}`) || words.includes(` ${alias} `);
+}
+
+/**
+ * Proposes which column feeds each field, and the unit of each multi-unit column
+ * when its header names one (e.g. "Glucose (mmol/L)"). Exact header matches win
+ * over partial ones, and no column is used twice.
+ */
+export function guessColumnMapping(target: ImportTarget, headers: string[]): { mapping: ColumnMapping; units: ColumnUnits } {
+  const mapping: ColumnMapping = {};
+  const units: ColumnUnits = {};
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+
+  for (const exact of [true, false]) {
+    for (const field of IMPORT_FIELDS[target]) {
+      if (mapping[field] !== undefined) continue;
+      const aliases = HEADER_ALIASES[target][field] ?? [];
+      const index = normalized.findIndex(({ words }, i) =>
+        !used.has(i) && aliases.some(alias => exact ? words === alias : headerMatches(words, alias)));
+      if (index === -1) continue;
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+
+  for (const field of UNIT_CHOICE_FIELDS) {
+    const index = mapping[field];
+    const headerUnit = index !== undefined ? normalized[index].unit : null;
+    const unit = headerUnit ? resolveUnit(field, headerUnit) : null;
+    if (unit) units[field] = unit;
+  }
+  return { mapping, units };
+}
+
+// --- Dates ---
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy'] as const;
+export type DateFormat = typeof DATE_FORMATS[number];
+
+const DATE_PATTERNS: Record<DateFormat, { pattern: RegExp; order: ['y' | 'm' | 'd', 'y' | 'm' | 'd', 'y' | 'm' | 'd'] }> = {
+  'yyyy-MM-dd': { pattern: /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/, order: ['y', 'm', 'd'] },
+  'dd/MM/yyyy': { pattern: /^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/, order: ['d', 'm', 'y'] },
+  'MM/dd/yyyy': { pattern: /^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/, order: ['m', 'd', 'y'] },
+  'dd.MM.yyyy': { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/, order: ['d', 'm', 'y'] },
+};
+
+function parseDatePart(raw: string, format: DateFormat): { y: number; m: number; d: number } | null {
+  const { pattern, order } = DATE_PATTERNS[format];
+  const match = raw.match(pattern);
+  if (!match) return null;
+  const parts = { y: 0, m: 0, d: 0 };
+  order.forEach((key, i) => { parts[key] = parseInt(match[i + 1], 10); });
+  if (parts.y < 100) parts.y += 2000;
+  const check = new Date(parts.y, parts.m - 1, parts.d);
+  if (check.getFullYear() !== parts.y || check.getMonth() !== parts.m - 1 || check.getDate() !== parts.d) return null;
+  return parts;
+}
+
+function parseTimePart(raw: string): { h: number; min: number; s: number } | null {
+  const match = raw.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([ap])?\.?m?\.?$/i);
+  if (!match) return null;
+  let h = parseInt(match[1], 10);
+  const min = parseInt(match[2], 10);
+  const s = match[3] ? parseInt(match[3], 10) : 0;
+  const meridiem = match[4]?.toLowerCase();
+  if (meridiem) {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  if (h > 23 || min > 59 || s > 59) return null;
+  return { h, min, s };
+}
+
+/**
+ * Reads a date (optionally followed by a time) in the given format, plus an optional
+ * separate time cell. Times are local; a missing time means midnight.
+ */
+export function parseImportDate(dateCell: string, timeCell: string | undefined, format: DateFormat): Date | null {
+  const trimmed = dateCell.trim();
+  // Full ISO timestamps carry their own offset; honour it rather than reading the time as local.
+  if (format === 'yyyy-MM-dd' && !timeCell && /T.*(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+    const instant = new Date(trimmed);
+    return Number.isNaN(instant.getTime()) ? null : instant;
+  }
+  const [datePart, ...rest] = trimmed.split(/[T\s]+/);
+  const date = parseDatePart(datePart, format);
+  if (!date) return null;
+
+  const timeText = (timeCell?.trim() || rest.join(' ')).replace(/Z$|[+-]\d{2}:?\d{2}$/, '');
+  const time = timeText ? parseTimePart(timeText) : { h: 0, min: 0, s: 0 };
+  if (!time) return null;
+  return new Date(date.y, date.m - 1, date.d, time.h, time.min, time.s);
+}
+
+/**
+ * Picks the format that reads the most samples, so a few typos don't throw it off.
+ * Day-first wins ties, so a file whose dates are all ambiguous (e.g. 03/04/2024)
+ * should be checked in the preview.
+ */
+export function detectDateFormat(samples: string[]): DateFormat {
+  const dates = samples.map(s => s.trim().split(/[T\s]+/)[0]).filter(Boolean);
+  let best: DateFormat = DATE_FORMATS[0];
+  let bestCount = 0;
+  for (const format of DATE_FORMATS) {
+    const count = dates.filter(d => parseDatePart(d, format)).length;
+    if (count > bestCount) {
+      best = format;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// --- Rows ---
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ImportRow {
+  /** 1-based line in the source file, counting the header. */
+  line: number;
+  cells: string[];
+  status: ImportRowStatus;
+  date?: string;
+  vitals?: VitalsValues;
+  strips?: TestStripValues;
+  errors: string[];
+}
+
+export interface ImportOptions {
+  target: ImportTarget;
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  units: ColumnUnits;
+}
+
+/** Existing readings to check against, keyed with `readingKey`. */
+export type ExistingReadings = { date: string; vitals?: VitalsValues; strips?: TestStripValues }[];
+
+/**
+ * Identifies a reading by the minute it was taken and its values, so the same
+ * export imported twice (or overlapping exports) doesn't double up.
+ */
+export function readingKey(date: string, values: { vitals?: VitalsValues; strips?: TestStripValues }): string {
+  const minute = new Date(date).toISOString().slice(0, 16);
+  const parts: string[] = [];
+  if (values.vitals) {
+    for (const field of VITAL_FIELDS) {
+      const measurement = values.vitals[field];
+      if (measurement) parts.push(`${field}=${toCanonicalValue(field, measurement).toFixed(VITAL_DEFINITIONS[field].decimals)}`);
+    }
+  }
+  if (values.strips) {
+    for (const marker of STRIP_MARKERS) {
+      if (values.strips[marker]) parts.push(`${marker}=${values.strips[marker]}`);
+    }
+  }
+  return `${minute}|${parts.join(',')}`;
+}
+
+function parseMeasurementCell(field: VitalField, cell: string, columnUnit: string): Measurement | string {
+  let text = cell.trim();
+  // Monitors often export blood pressure as a single "120/80" column.
+  if ((field === 'systolic' || field === 'diastolic') && text.includes('/')) {
+    text = text.split('/')[field === 'systolic' ? 0 : 1].trim();
+  }
+  const match = text.match(/^(-?\d+(?:[.,]\d+)?)\s*(.*)$/);
+  if (!match) return `${VITAL_DEFINITIONS[field].label} "${cell}" is not a number.`;
+  let unit = columnUnit;
+  if (match[2]) {
+    const cellUnit = resolveUnit(field, match[2]);
+    if (!cellUnit) return `${VITAL_DEFINITIONS[field].label} unit "${match[2]}" is not recognised.`;
+    unit = cellUnit;
+  }
+  return { value: parseFloat(match[1].replace(',', '.')), unit };
+}
+
+function cellAt(cells: string[], index: number | undefined): string {
+  return index === undefined ? '' : (cells[index] ?? '').trim();
+}
+
+function buildRow(cells: string[], line: number, options: ImportOptions, now: Date): ImportRow {
+  const { target, mapping, dateFormat, units } = options;
+  const row: ImportRow = { line, cells, status: 'valid', errors: [] };
+
+  const dateCell = cellAt(cells, mapping.date);
+  if (!dateCell) {
+    row.errors.push('Date is missing.');
+  } else {
+    const date = parseImportDate(dateCell, mapping.time !== undefined ? cellAt(cells, mapping.time) : undefined, dateFormat);
+    if (!date) row.errors.push(`Date "${dateCell}" does not match ${dateFormat}.`);
+    else if (date > now) row.errors.push('Date is in the future.');
+    else row.date = date.toISOString();
+  }
+
+  if (target === 'vitals') {
+    const values: Record<string, Measurement> = {};
+    for (const field of VITAL_FIELDS) {
+      const cell = cellAt(cells, mapping[field]);
+      if (!cell) continue;
+      const parsed = parseMeasurementCell(field, cell, units[field] ?? VITAL_DEFINITIONS[field].defaultUnit);
+      if (typeof parsed === 'string') row.errors.push(parsed);
+      else values[field] = parsed;
+    }
+    row.vitals = values as VitalsValues;
+    if (Object.keys(values).length === 0 && row.errors.length === 0) row.errors.push('No vital signs on this row.');
+    row.errors.push(...Object.values(validateVitals(row.vitals)));
+  } else {
+    const values: TestStripValues = {};
+    for (const marker of STRIP_MARKERS) {
+      const cell = cellAt(cells, mapping[marker]);
+      if (!cell) continue;
+      const level = normalizeStripLevel(marker, cell);
+      if (level) values[marker] = level;
+      else row.errors.push(`${STRIP_MARKER_LABELS[marker]} "${cell}" is not a recognised level.`);
+    }
+    row.strips = values;
+    if (!hasStripValues(values) && row.errors.length === 0) row.errors.push('No test strip values on this row.');
+  }
+
+  if (row.errors.length > 0) row.status = 'invalid';
+  return row;
+}
+
+/**
+ * Validates every data row (the header is skipped) and flags repeats of an existing
+ * reading or of an earlier row in the same file. Blank lines are dropped.
+ */
+export function buildImportRows(rows: string[][], options: ImportOptions, existing: ExistingReadings = [], now = new Date()): ImportRow[] {
+  const seen = new Set(existing.map(reading => readingKey(reading.date, reading)));
+  const result: ImportRow[] = [];
+
+  rows.slice(1).forEach((cells, i) => {
+    if (cells.every(cell => cell.trim() === '')) return;
+    const row = buildRow(cells, i + 2, options, now);
+    if (row.status === 'valid' && row.date) {
+      const key = readingKey(row.date, row);
+      if (seen.has(key)) {
+        row.status = 'duplicate';
+      } else {
+        seen.add(key);
+      }
+    }
+    result.push(row);
+  });
+  return result;
+}
+
+export interface ImportSummary {
+  valid: number;
+  invalid: number;
+  duplicate: number;
+}
+
+export function summarizeImport(rows: ImportRow[]): ImportSummary {
+  return {
+    valid: rows.filter(r => r.status === 'valid').length,
+    invalid: rows.filter(r => r.status === 'invalid').length,
+    duplicate: rows.filter(r => r.status === 'duplicate').length,
+  };
+}
+
+/**
+ * A CSV of the rejected rows with their original columns first, so it can be fixed
+ * in a spreadsheet and imported again; the trailing columns are ignored on re-import.
+ */
+export function buildErrorReport(headers: string[], rows: ImportRow[]): string {
+  const rejected = rows.filter(r => r.status === 'invalid');
+  return toCsv([
+    [...headers, 'Source Line', 'Import Errors'],
+    ...rejected.map(r => [...headers.map((_, i) => r.cells[i] ?? ''), String(r.line), r.errors.join(' ')]),
+  ]);
+}
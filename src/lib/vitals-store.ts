@@ -0,0 +1,124 @@
+import { db } from '@/lib/firebase';
+import { collection, getDocs, query, orderBy, limit as limitTo, where, writeBatch, doc, type QueryConstraint, type WriteBatch } from 'firebase/firestore';
+import { isLegacyVitalsDoc, normalizeVitalsDoc, toVitalsDocument, validateVitals, hasVitals, type VitalsReading, type VitalsValues } from '@/lib/vitals';
+import { INITIAL_REVISION, isDeleted } from '@/lib/entry-history';
+import { createOrQueue } from '@/lib/offline-queue-store';
+import { checkNewVitalsOrQueue, checkVitalsOrQueue } from '@/lib/alerts-store';
+import type { HealthAlert } from '@/lib/alerts';
+
+/**
+ * Firestore access for `users/{uid}/vitals`. All reads return normalized, typed
+ * readings regardless of whether the stored document predates typed vitals.
+ * Edits and deletions go through entry-history-store so they are audited. Every saved
+ * reading is checked against the user's reference ranges (see alerts-store).
+ */
+
+export interface FetchVitalsOptions {
+  limit?: number;
+  from?: Date;
+  to?: Date;
+  /** Soft-deleted readings are left out unless this is set. */
+  includeDeleted?: boolean;
+}
+
+const vitalsCollection = (uid: string) => collection(db, `users/${uid}/vitals`);
+
+export async function fetchVitals(uid: string, options: FetchVitalsOptions = {}): Promise<VitalsReading[]> {
+  const constraints: QueryConstraint[] = [];
+  if (options.from) constraints.push(where('date', '>=', options.from.toISOString()));
+  if (options.to) constraints.push(where('date', '<', options.to.toISOString()));
+  constraints.push(orderBy('date', 'desc'));
+  if (options.limit) constraints.push(limitTo(options.limit));
+
+  const snapshot = await getDocs(query(vitalsCollection(uid), ...constraints));
+  const readings = snapshot.docs.map(d => normalizeVitalsDoc(d.id, d.data()));
+  return options.includeDeleted ? readings : readings.filter(reading => !isDeleted(reading));
+}
+
+export interface SavedVitals {
+  reading: VitalsReading;
+  /** Raised when the reading was saved now and is out of range; queued readings are checked when they sync. */
+  alert: HealthAlert | null;
+}
+
+/** Saves a reading, or queues it for sync when offline; the returned reading is usable either way. */
+export async function addVitals(uid: string, values: VitalsValues, date: string = new Date().toISOString()): Promise<SavedVitals> {
+  if (!hasVitals(values)) {
+    throw new Error('At least one vital sign is required.');
+  }
+  const errors = Object.values(validateVitals(values));
+  if (errors.length > 0) {
+    throw new Error(errors.join(' '));
+  }
+  const document = { ...toVitalsDocument(date, values), revision: INITIAL_REVISION };
+  const { id, queued } = await createOrQueue(uid, `users/${uid}/vitals`, document);
+  const reading: VitalsReading = { id, ...document };
+  const alert = queued ? null : await checkVitalsOrQueue(uid, id, INITIAL_REVISION, reading);
+  return { reading, alert };
+}
+
+function assertValidEntries(entries: { date: string; values: VitalsValues }[]) {
+  entries.forEach(({ date, values }) => {
+    if (!hasVitals(values)) throw new Error(`Reading at ${date} has no vital signs.`);
+    const errors = Object.values(validateVitals(values));
+    if (errors.length > 0) throw new Error(`Reading at ${date}: ${errors.join(' ')}`);
+  });
+}
+
+function setVitals(batch: WriteBatch, uid: string, entries: { date: string; values: VitalsValues }[]): VitalsReading[] {
+  return entries.map(({ date, values }) => {
+    const ref = doc(vitalsCollection(uid));
+    const document = { ...toVitalsDocument(date, values), revision: INITIAL_REVISION };
+    batch.set(ref, document);
+    return { id: ref.id, ...document };
+  });
+}
+
+/**
+ * Adds the readings to a batch the caller commits, so they land together with its other
+ * writes; the caller checks them with `checkNewVitalsOrQueue` once committed. Throws before
+ * adding anything if any entry is invalid.
+ */
+export function batchVitals(batch: WriteBatch, uid: string, entries: { date: string; values: VitalsValues }[]): VitalsReading[] {
+  assertValidEntries(entries);
+  return setVitals(batch, uid, entries);
+}
+
+/**
+ * Validated, batched equivalent of `addVitals` for imports. Throws before writing
+ * anything if any entry is invalid.
+ */
+export async function addVitalsBatch(uid: string, entries: { date: string; values: VitalsValues }[]): Promise<VitalsReading[]> {
+  assertValidEntries(entries);
+
+  const written: VitalsReading[] = [];
+  // Firestore caps a batch at 500 writes.
+  for (let i = 0; i < entries.length; i += 500) {
+    const batch = writeBatch(db);
+    const chunk = setVitals(batch, uid, entries.slice(i, i + 500));
+    await batch.commit();
+    written.push(...chunk);
+  }
+  await checkNewVitalsOrQueue(uid, written);
+  return written;
+}
+
+/**
+ * Rewrites any legacy string-valued documents in the user's vitals collection in the
+ * typed format. Safe to call repeatedly; returns the number of documents migrated.
+ */
+export async function migrateLegacyVitals(uid: string): Promise<number> {
+  const snapshot = await getDocs(vitalsCollection(uid));
+  const legacyDocs = snapshot.docs.filter(d => isLegacyVitalsDoc(d.data()));
+
+  // Firestore caps a batch at 500 writes.
+  for (let i = 0; i < legacyDocs.length; i += 500) {
+    const batch = writeBatch(db);
+    for (const legacyDoc of legacyDocs.slice(i, i + 500)) {
+      const { id, ...typed } = normalizeVitalsDoc(legacyDoc.id, legacyDoc.data());
+      batch.set(doc(db, `users/${uid}/vitals`, id), typed);
+    }
+    await batch.commit();
+  }
+  return legacyDocs.length;
+}
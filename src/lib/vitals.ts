@@ -0,0 +1,251 @@
+import { z } from 'zod';
+import type { EntryAudit } from '@/lib/entry-history';
+
+/**
+ * Typed, unit-aware vital signs.
+ *
+ * Every reading is stored as `{ value, unit }` so numbers never lose the unit
+ * they were captured in. Documents written before this module existed hold
+ * free-form strings in implicit units (mg/dL, °F, lbs); `normalizeVitalsDoc`
+ * upgrades them on read and `migrateLegacyVitals` (see vitals-store) rewrites them.
+ */
+
+export const VITALS_SCHEMA_VERSION = 2;
+
+export const VITAL_FIELDS = ['systolic', 'diastolic', 'pulseRate', 'bloodSugar', 'oxygenSaturation', 'temperature', 'weight'] as const;
+export type VitalField = typeof VITAL_FIELDS[number];
+
+export const VITAL_UNITS = {
+  systolic: ['mmHg'],
+  diastolic: ['mmHg'],
+  pulseRate: ['bpm'],
+  bloodSugar: ['mg/dL', 'mmol/L'],
+  oxygenSaturation: ['%'],
+  temperature: ['°C', '°F'],
+  weight: ['kg', 'lb'],
+} as const;
+
+export type VitalUnit<F extends VitalField = VitalField> = typeof VITAL_UNITS[F][number];
+export type BloodSugarUnit = VitalUnit<'bloodSugar'>;
+export type TemperatureUnit = VitalUnit<'temperature'>;
+export type WeightUnit = VitalUnit<'weight'>;
+
+export interface Measurement<U extends string = string> {
+  value: number;
+  unit: U;
+}
+
+export type VitalsValues = {
+  [F in VitalField]?: Measurement<VitalUnit<F>>;
+};
+
+export interface VitalsReading extends VitalsValues, EntryAudit {
+  id: string;
+  date: string;
+  schemaVersion: typeof VITALS_SCHEMA_VERSION;
+}
+
+interface VitalDefinition {
+  label: string;
+  /** The unit ranges are expressed in and that charts and alerts compare against. */
+  canonicalUnit: string;
+  /** The unit a new entry defaults to; matches what the app has always labelled its forms with. */
+  defaultUnit: string;
+  /** Physiologically plausible bounds, in the canonical unit. Anything outside is a typo. */
+  range: { min: number; max: number };
+  decimals: number;
+}
+
+export const VITAL_DEFINITIONS: Record<VitalField, VitalDefinition> = {
+  systolic: { label: 'Systolic', canonicalUnit: 'mmHg', defaultUnit: 'mmHg', range: { min: 50, max: 300 }, decimals: 0 },
+  diastolic: { label: 'Diastolic', canonicalUnit: 'mmHg', defaultUnit: 'mmHg', range: { min: 20, max: 200 }, decimals: 0 },
+  pulseRate: { label: 'Pulse Rate', canonicalUnit: 'bpm', defaultUnit: 'bpm', range: { min: 20, max: 250 }, decimals: 0 },
+  bloodSugar: { label: 'Blood Sugar', canonicalUnit: 'mg/dL', defaultUnit: 'mg/dL', range: { min: 10, max: 1000 }, decimals: 1 },
+  oxygenSaturation: { label: 'Oxygen Saturation', canonicalUnit: '%', defaultUnit: '%', range: { min: 50, max: 100 }, decimals: 0 },
+  temperature: { label: 'Temperature', canonicalUnit: '°C', defaultUnit: '°F', range: { min: 30, max: 45 }, decimals: 1 },
+  weight: { label: 'Weight', canonicalUnit: 'kg', defaultUnit: 'lb', range: { min: 1, max: 400 }, decimals: 1 },
+};
+
+// --- Conversions ---
+
+const MG_DL_PER_MMOL_L = 18.016;
+const KG_PER_LB = 0.45359237;
+
+type Converter = (value: number) => number;
+
+const converters: Record<string, Converter> = {
+  'mg/dL->mmol/L': v => v / MG_DL_PER_MMOL_L,
+  'mmol/L->mg/dL': v => v * MG_DL_PER_MMOL_L,
+  '°F->°C': v => (v - 32) * 5 / 9,
+  '°C->°F': v => v * 9 / 5 + 32,
+  'lb->kg': v => v * KG_PER_LB,
+  'kg->lb': v => v / KG_PER_LB,
+};
+
+export function convertValue(value: number, from: string, to: string): number {
+  if (from === to) return value;
+  const converter = converters[`${from}->${to}`];
+  if (!converter) {
+    throw new Error(`No conversion from ${from} to ${to}.`);
+  }
+  return converter(value);
+}
+
+export function convertMeasurement<F extends VitalField>(field: F, measurement: Measurement, to: VitalUnit<F>): Measurement<VitalUnit<F>> {
+  const value = convertValue(measurement.value, measurement.unit, to);
+  return { value: roundTo(value, VITAL_DEFINITIONS[field].decimals), unit: to };
+}
+
+/** Returns the reading's value in the field's canonical unit, for charting and comparisons. */
+export function toCanonicalValue(field: VitalField, measurement: Measurement): number {
+  return convertValue(measurement.value, measurement.unit, VITAL_DEFINITIONS[field].canonicalUnit);
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// --- Schemas & Validation ---
+
+const measurementSchema = <F extends VitalField>(field: F) => z.object({
+  value: z.number().describe(`${VITAL_DEFINITIONS[field].label} value as a number.`),
+  unit: z.enum(VITAL_UNITS[field] as unknown as [VitalUnit<F>, ...VitalUnit<F>[]]).describe(`Unit of the ${VITAL_DEFINITIONS[field].label.toLowerCase()} reading.`),
+});
+
+/**
+ * Shape of a set of typed vitals. Deliberately free of range refinements so it can
+ * double as an AI output schema; run `validateVitals` on the result before saving.
+ */
+export const VitalsValuesSchema = z.object({
+  systolic: measurementSchema('systolic').optional(),
+  diastolic: measurementSchema('diastolic').optional(),
+  pulseRate: measurementSchema('pulseRate').optional(),
+  bloodSugar: measurementSchema('bloodSugar').optional(),
+  oxygenSaturation: measurementSchema('oxygenSaturation').optional(),
+  temperature: measurementSchema('temperature').optional(),
+  weight: measurementSchema('weight').optional(),
+});
+
+export type VitalsValidationErrors = Partial<Record<VitalField, string>>;
+
+export function validateMeasurement(field: VitalField, measurement: Measurement): string | null {
+  const definition = VITAL_DEFINITIONS[field];
+  if (!Number.isFinite(measurement.value)) {
+    return `${definition.label} must be a number.`;
+  }
+  if (!(VITAL_UNITS[field] as readonly string[]).includes(measurement.unit)) {
+    return `${definition.label} cannot be recorded in ${measurement.unit}.`;
+  }
+  const canonical = toCanonicalValue(field, measurement);
+  const { min, max } = definition.range;
+  if (canonical < min || canonical > max) {
+    const lower = convertMeasurement(field, { value: min, unit: definition.canonicalUnit }, measurement.unit as VitalUnit);
+    const upper = convertMeasurement(field, { value: max, unit: definition.canonicalUnit }, measurement.unit as VitalUnit);
+    return `${definition.label} must be between ${lower.value} and ${upper.value} ${measurement.unit}.`;
+  }
+  return null;
+}
+
+export function validateVitals(values: VitalsValues): VitalsValidationErrors {
+  const errors: VitalsValidationErrors = {};
+  for (const field of VITAL_FIELDS) {
+    const measurement = values[field];
+    if (!measurement) continue;
+    const error = validateMeasurement(field, measurement);
+    if (error) errors[field] = error;
+  }
+  if (values.systolic && values.diastolic && values.diastolic.value >= values.systolic.value) {
+    errors.diastolic = errors.diastolic ?? 'Diastolic must be lower than systolic.';
+  }
+  return errors;
+}
+
+export function hasVitals(values: VitalsValues): boolean {
+  return VITAL_FIELDS.some(field => values[field] !== undefined);
+}
+
+// --- Parsing & Formatting ---
+
+/**
+ * Builds typed vitals from form input. Blank fields are skipped; units default to
+ * each field's `defaultUnit` unless provided.
+ */
+export function parseVitalsInput(
+  raw: Partial<Record<VitalField, string | number | undefined>>,
+  units: Partial<Record<VitalField, string>> = {},
+): VitalsValues {
+  const values: Record<string, Measurement> = {};
+  for (const field of VITAL_FIELDS) {
+    const input = raw[field];
+    if (input === undefined || input === null || String(input).trim() === '') continue;
+    const value = typeof input === 'number' ? input : parseFloat(String(input).replace(',', '.'));
+    values[field] = { value, unit: units[field] ?? VITAL_DEFINITIONS[field].defaultUnit };
+  }
+  return values as VitalsValues;
+}
+
+export function formatMeasurement(measurement: Measurement | undefined): string {
+  if (!measurement) return '';
+  const spacer = measurement.unit === '%' || measurement.unit.startsWith('°') ? '' : ' ';
+  return `${measurement.value}${spacer}${measurement.unit}`;
+}
+
+export function formatBloodPressure(values: VitalsValues): string {
+  if (!values.systolic || !values.diastolic) return '';
+  return `${values.systolic.value}/${values.diastolic.value} mmHg`;
+}
+
+// --- Legacy documents ---
+
+/** Units the pre-typed forms captured in; used to interpret legacy string values. */
+const LEGACY_UNITS: Record<VitalField, string> = {
+  systolic: 'mmHg',
+  diastolic: 'mmHg',
+  pulseRate: 'bpm',
+  bloodSugar: 'mg/dL',
+  oxygenSaturation: '%',
+  temperature: '°F',
+  weight: 'lb',
+};
+
+export function isLegacyVitalsDoc(data: Record<string, any>): boolean {
+  return data.schemaVersion !== VITALS_SCHEMA_VERSION;
+}
+
+function legacyMeasurement(field: VitalField, raw: unknown): Measurement | undefined {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  if (typeof raw === 'object' && 'value' in (raw as object)) return raw as Measurement;
+  const value = parseFloat(String(raw).replace(',', '.'));
+  if (!Number.isFinite(value)) return undefined;
+  let unit = LEGACY_UNITS[field];
+  // The legacy temperature field was labelled °F, but many users typed Celsius into it anyway.
+  if (field === 'temperature' && value <= 45) unit = '°C';
+  return { value, unit };
+}
+
+/** Upgrades a raw Firestore vitals document (legacy strings or typed) to a `VitalsReading`. */
+export function normalizeVitalsDoc(id: string, data: Record<string, any>): VitalsReading {
+  const reading: VitalsReading = {
+    id,
+    date: data.date,
+    schemaVersion: VITALS_SCHEMA_VERSION,
+  };
+  if (data.revision !== undefined) reading.revision = data.revision;
+  if (data.updatedAt) reading.updatedAt = data.updatedAt;
+  if (data.deletedAt) reading.deletedAt = data.deletedAt;
+  for (const field of VITAL_FIELDS) {
+    const measurement = isLegacyVitalsDoc(data) ? legacyMeasurement(field, data[field]) : data[field];
+    if (measurement) (reading as VitalsValues)[field] = measurement;
+  }
+  return reading;
+}
+
+/** Strips the id so a reading can be written back to Firestore. */
+export function toVitalsDocument(date: string, values: VitalsValues): Omit<VitalsReading, 'id'> {
+  const document: Omit<VitalsReading, 'id'> = { date, schemaVersion: VITALS_SCHEMA_VERSION };
+  for (const field of VITAL_FIELDS) {
+    if (values[field]) (document as VitalsValues)[field] = values[field] as any;
+  }
+  return document;
+}